@@ -0,0 +1,313 @@
+/**
+ * HTTP REST API
+ *
+ * Read-only JSON API over the signals, history and status the system keeps
+ * in Redis, so dashboards and other services don't depend on Telegram.
+ *
+ * Routes:
+ *   GET /signals                         - Active breakout signals
+ *   GET /signals/:symbol                 - Breakout history for a symbol
+ *   GET /stats?days=90                   - Breakout and multi-horizon statistics
+ *   GET /intraday/signals?from&to&pattern - Intraday (Model-2) signals
+ *   GET /status                          - Stream, Redis and process status
+ *   GET /stream (SSE), /ws (WebSocket)   - Real-time signal push (see signalStream.ts)
+ */
+
+import http from "node:http";
+import redis from "../utils/redisClient.js";
+import candleStreamer from "../stream/candleStreamer.js";
+import tradeStreamer from "../stream/tradeStreamer.js";
+import orderbookStreamer from "../stream/orderbookStreamer.js";
+import signalStream from "./signalStream.js";
+import { getStreamHealth } from "../stream/streamHealth.js";
+import { info, error as logError } from "../utils/logger.js";
+import {
+  getActiveBreakoutSignals,
+  getBreakoutHistoryForCoin,
+  getBreakoutStats,
+} from "../breakout/breakoutHistory.js";
+import { getLastDetectionRun } from "../breakout/breakoutDetector.js";
+import { getHorizonSummaries } from "../breakout/multiHorizonEvaluator.js";
+import { getIntradaySignalHistoryBetween } from "../utils/intradayStorage.js";
+import type { IntradayPattern } from "../breakout/intradayTypes.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INTRADAY_PATTERNS: IntradayPattern[] = ["micro_breakout", "volatility_breakout", "liquidity_trap"];
+
+export interface ApiServerOptions {
+  port: number;
+  host?: string;
+  getActiveCoins?: () => string[];
+}
+
+type QueryParams = URLSearchParams;
+
+class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Access-Control-Allow-Origin": "*",
+    "Cache-Control": "no-store",
+  });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Parse a positive integer query parameter
+ */
+function parsePositiveInt(query: QueryParams, name: string, fallback: number, max: number): number {
+  const raw = query.get(name);
+  if (raw === null || raw === "") {
+    return fallback;
+  }
+
+  const value = parseInt(raw, 10);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new HttpError(400, `Invalid ${name}: ${raw}`);
+  }
+
+  return Math.min(value, max);
+}
+
+/**
+ * Parse a timestamp query parameter (epoch ms or ISO date)
+ */
+function parseTimestamp(query: QueryParams, name: string, fallback: number): number {
+  const raw = query.get(name);
+  if (raw === null || raw === "") {
+    return fallback;
+  }
+
+  const numeric = Number(raw);
+  const value = Number.isFinite(numeric) ? numeric : Date.parse(raw);
+  if (!Number.isFinite(value)) {
+    throw new HttpError(400, `Invalid ${name}: ${raw}`);
+  }
+
+  return value;
+}
+
+/**
+ * GET /signals
+ */
+async function handleSignals(query: QueryParams): Promise<unknown> {
+  const hours = parsePositiveInt(query, "hours", 24, 24 * 7);
+  const limit = parsePositiveInt(query, "limit", 100, 1000);
+  const direction = query.get("direction");
+  const assetClass = query.get("class");
+
+  let signals = await getActiveBreakoutSignals(Date.now() - hours * 60 * 60 * 1000, limit);
+  if (direction) {
+    signals = signals.filter((s) => s.direction === direction);
+  }
+  if (assetClass) {
+    signals = signals.filter((s) => s.class === assetClass);
+  }
+
+  return { count: signals.length, signals };
+}
+
+/**
+ * GET /signals/:symbol
+ */
+async function handleSymbolSignals(symbol: string, query: QueryParams): Promise<unknown> {
+  const days = parsePositiveInt(query, "days", 90, 90);
+  const history = await getBreakoutHistoryForCoin(symbol, days);
+  const signals = history.sort((a, b) => b.timestamp - a.timestamp);
+
+  return { symbol, days, count: signals.length, signals };
+}
+
+/**
+ * GET /stats
+ */
+async function handleStats(query: QueryParams): Promise<unknown> {
+  const days = parsePositiveInt(query, "days", 90, 90);
+  const [breakouts, breakoutHorizons, intradayHorizons] = await Promise.all([
+    getBreakoutStats(days),
+    getHorizonSummaries("breakout", days),
+    getHorizonSummaries("intraday", days),
+  ]);
+
+  return {
+    days,
+    breakouts,
+    horizons: {
+      breakout: breakoutHorizons,
+      intraday: intradayHorizons,
+    },
+  };
+}
+
+/**
+ * GET /intraday/signals
+ */
+async function handleIntradaySignals(query: QueryParams): Promise<unknown> {
+  const now = Date.now();
+  const from = parseTimestamp(query, "from", now - DAY_MS);
+  const to = parseTimestamp(query, "to", now);
+  const pattern = query.get("pattern");
+
+  if (from > to) {
+    throw new HttpError(400, "from must be before to");
+  }
+
+  if (pattern && !INTRADAY_PATTERNS.includes(pattern as IntradayPattern)) {
+    throw new HttpError(400, `Invalid pattern: ${pattern} (expected one of ${INTRADAY_PATTERNS.join(", ")})`);
+  }
+
+  const history = await getIntradaySignalHistoryBetween(from, to);
+  const signals = history
+    .filter((s) => !pattern || s.pattern === pattern)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  return { from, to, pattern: pattern ?? null, count: signals.length, signals };
+}
+
+/**
+ * GET /status
+ */
+async function handleStatus(options: ApiServerOptions): Promise<unknown> {
+  return {
+    status: "ok",
+    timestamp: Date.now(),
+    uptimeSeconds: Math.round(process.uptime()),
+    activeCoins: options.getActiveCoins?.().length ?? null,
+    lastDetection: await getLastDetectionRun(),
+    redis: redis.status,
+    streams: {
+      candles: {
+        connected: candleStreamer.isConnected(),
+        ...candleStreamer.getSubscriptionStats(),
+        health: getStreamHealth("candleStreamer"),
+      },
+      trades: {
+        connected: tradeStreamer.isConnected(),
+        ...tradeStreamer.getSubscriptionStats(),
+        health: getStreamHealth("tradeStreamer"),
+      },
+      orderbook: {
+        connected: orderbookStreamer.isConnected(),
+        ...orderbookStreamer.getSubscriptionStats(),
+        health: getStreamHealth("orderbookStreamer"),
+      },
+    },
+  };
+}
+
+/**
+ * Parse the request target (null when it isn't a valid URL)
+ */
+function parseRequestUrl(req: http.IncomingMessage): URL | null {
+  try {
+    return new URL(req.url ?? "/", "http://localhost");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode one path segment (400 on a malformed escape like %E0)
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment: ${segment}`);
+  }
+}
+
+/**
+ * Route a request to its handler
+ */
+async function route(req: http.IncomingMessage, url: URL, options: ApiServerOptions): Promise<unknown> {
+  const segments = url.pathname.split("/").filter((s) => s.length > 0).map(decodeSegment);
+  const query = url.searchParams;
+
+  if (req.method !== "GET") {
+    throw new HttpError(405, `Method ${req.method} not allowed`);
+  }
+
+  if (segments[0] === "signals" && segments.length === 1) {
+    return handleSignals(query);
+  }
+
+  if (segments[0] === "signals" && segments.length === 2) {
+    return handleSymbolSignals(segments[1]!, query);
+  }
+
+  if (segments[0] === "stats" && segments.length === 1) {
+    return handleStats(query);
+  }
+
+  if (segments[0] === "intraday" && segments[1] === "signals" && segments.length === 2) {
+    return handleIntradaySignals(query);
+  }
+
+  if (segments[0] === "status" && segments.length === 1) {
+    return handleStatus(options);
+  }
+
+  throw new HttpError(404, `Not found: ${url.pathname}`);
+}
+
+/**
+ * Start the REST API server
+ */
+export function startApiServer(options: ApiServerOptions): http.Server {
+  const server = http.createServer(async (req, res) => {
+    const url = parseRequestUrl(req);
+    if (!url) {
+      sendJson(res, 400, { error: "Invalid request URL" });
+      return;
+    }
+    if (req.method === "GET" && url.pathname === "/stream") {
+      signalStream.handleSse(req, res, url.searchParams);
+      return;
+    }
+
+    try {
+      const body = await route(req, url, options);
+      sendJson(res, 200, body);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        sendJson(res, err.status, { error: err.message });
+        return;
+      }
+
+      logError("ApiServer", `Error handling ${req.method} ${req.url}`, err);
+      sendJson(res, 500, { error: "Internal server error" });
+    }
+  });
+
+  server.on("upgrade", (req, socket, head) => {
+    const url = parseRequestUrl(req);
+    if (!url || url.pathname !== "/ws") {
+      socket.destroy();
+      return;
+    }
+    signalStream.handleUpgrade(req, socket, head, url.searchParams);
+  });
+
+  signalStream.start().catch((err) => {
+    logError("ApiServer", "Failed to start signal stream", err);
+  });
+
+  server.listen(options.port, options.host ?? "0.0.0.0", () => {
+    info("ApiServer", `REST API listening on ${options.host ?? "0.0.0.0"}:${options.port}`);
+  });
+
+  server.on("error", (err) => {
+    logError("ApiServer", "HTTP server error", err);
+  });
+
+  return server;
+}
@@ -0,0 +1,298 @@
+/**
+ * Real-Time Signal Stream
+ *
+ * Pushes signal events to downstream consumers over Server-Sent Events
+ * (GET /stream) and WebSocket (/ws). Each client has its own filters:
+ *   symbol=BTC,ETH  class=crypto  direction=long  minConfidence=70
+ *   types=breakout,intraday,evaluation,health
+ * WebSocket clients may replace their filters at any time by sending
+ *   {"type":"filters","filters":{...same keys...}}
+ * Health events ignore symbol/class/direction/confidence filters.
+ */
+
+import type http from "node:http";
+import type { Duplex } from "node:stream";
+import WebSocket, { WebSocketServer } from "ws";
+import { info, warn, error as logError } from "../utils/logger.js";
+import {
+  SIGNAL_EVENT_TYPES,
+  subscribeSignalEvents,
+  type SignalEvent,
+  type SignalEventType,
+} from "../utils/signalEvents.js";
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+export interface StreamFilters {
+  symbols?: string[];
+  classes?: string[];
+  direction?: "long" | "short";
+  minConfidence?: number;
+  types?: SignalEventType[];
+}
+
+interface StreamClient {
+  id: number;
+  filters: StreamFilters;
+  send: (event: SignalEvent) => void;
+  close: () => void;
+}
+
+/**
+ * Split a comma-separated filter value
+ */
+function splitList(value: unknown): string[] | undefined {
+  if (Array.isArray(value)) {
+    const items = value.map(String).filter((v) => v.length > 0);
+    return items.length > 0 ? items : undefined;
+  }
+  if (typeof value !== "string" || value.length === 0) {
+    return undefined;
+  }
+  const items = value.split(",").map((v) => v.trim()).filter((v) => v.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Build filters from query parameters or a JSON object
+ */
+export function parseStreamFilters(source: URLSearchParams | Record<string, unknown>): StreamFilters {
+  const get = (name: string): unknown =>
+    source instanceof URLSearchParams ? source.get(name) ?? undefined : source[name];
+
+  const filters: StreamFilters = {};
+
+  const symbols = splitList(get("symbol") ?? get("symbols"));
+  if (symbols) filters.symbols = symbols.map((s) => s.toUpperCase());
+
+  const classes = splitList(get("class") ?? get("classes"));
+  if (classes) filters.classes = classes;
+
+  const direction = get("direction");
+  if (direction === "long" || direction === "short") filters.direction = direction;
+
+  const minConfidence = Number(get("minConfidence"));
+  if (Number.isFinite(minConfidence) && minConfidence > 0) filters.minConfidence = minConfidence;
+
+  const types = splitList(get("types") ?? get("type"))
+    ?.filter((t): t is SignalEventType => SIGNAL_EVENT_TYPES.includes(t as SignalEventType));
+  if (types && types.length > 0) filters.types = types;
+
+  return filters;
+}
+
+/**
+ * Extract the filterable fields of an event
+ */
+function describeEvent(event: SignalEvent): { symbol: string; assetClass: string; direction: string; confidence: number } | null {
+  switch (event.type) {
+    case "breakout":
+      return {
+        symbol: event.data.symbol,
+        assetClass: event.data.class,
+        direction: event.data.direction,
+        confidence: event.data.confidenceScore,
+      };
+    case "intraday":
+      return {
+        symbol: event.data.symbol,
+        assetClass: event.data.class,
+        direction: event.data.direction,
+        confidence: event.data.confidence,
+      };
+    case "evaluation":
+      return {
+        symbol: event.data.coin,
+        assetClass: event.data.cluster,
+        direction: event.data.direction,
+        confidence: event.data.score,
+      };
+    case "health":
+      return null;
+  }
+}
+
+/**
+ * Check whether an event passes a client's filters
+ */
+export function eventMatchesFilters(event: SignalEvent, filters: StreamFilters): boolean {
+  if (filters.types && !filters.types.includes(event.type)) {
+    return false;
+  }
+
+  const fields = describeEvent(event);
+  if (!fields) {
+    return true;
+  }
+
+  if (filters.symbols && !filters.symbols.includes(fields.symbol.toUpperCase())) {
+    return false;
+  }
+  if (filters.classes && !filters.classes.includes(fields.assetClass)) {
+    return false;
+  }
+  if (filters.direction && fields.direction !== filters.direction) {
+    return false;
+  }
+  if (filters.minConfidence !== undefined && fields.confidence < filters.minConfidence) {
+    return false;
+  }
+
+  return true;
+}
+
+class SignalStreamHub {
+  private clients: Map<number, StreamClient> = new Map();
+  private nextId = 1;
+  private unsubscribe: (() => Promise<void>) | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private wss = new WebSocketServer({ noServer: true });
+  private sseResponses: Set<http.ServerResponse> = new Set();
+
+  /**
+   * Start listening for events (idempotent)
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = await subscribeSignalEvents((event) => this.broadcast(event));
+    info("SignalStream", "Subscribed to signal events");
+  }
+
+  /**
+   * Deliver an event to every matching client
+   */
+  private broadcast(event: SignalEvent): void {
+    for (const client of this.clients.values()) {
+      if (!eventMatchesFilters(event, client.filters)) {
+        continue;
+      }
+
+      try {
+        client.send(event);
+      } catch (err) {
+        warn("SignalStream", `Dropping client ${client.id} after send failure`);
+        this.removeClient(client.id);
+      }
+    }
+  }
+
+  private addClient(client: Omit<StreamClient, "id">): number {
+    const id = this.nextId++;
+    this.clients.set(id, { ...client, id });
+    this.ensureHeartbeat();
+    info("SignalStream", `Client ${id} connected (${this.clients.size} total)`, client.filters);
+    return id;
+  }
+
+  private removeClient(id: number): void {
+    if (this.clients.delete(id)) {
+      info("SignalStream", `Client ${id} disconnected (${this.clients.size} total)`);
+    }
+  }
+
+  /**
+   * Keep idle connections (and proxies) alive
+   */
+  private ensureHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      return;
+    }
+
+    this.heartbeatTimer = setInterval(() => {
+      this.wss.clients.forEach((ws) => ws.ping());
+      this.sseResponses.forEach((res) => res.write(": heartbeat\n\n"));
+    }, HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Handle GET /stream as Server-Sent Events
+   */
+  handleSse(req: http.IncomingMessage, res: http.ServerResponse, query: URLSearchParams): void {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+    });
+    res.write(": connected\n\n");
+
+    const id = this.addClient({
+      filters: parseStreamFilters(query),
+      send: (event) => {
+        res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      },
+      close: () => res.end(),
+    });
+    this.sseResponses.add(res);
+
+    req.on("close", () => {
+      this.sseResponses.delete(res);
+      this.removeClient(id);
+    });
+  }
+
+  /**
+   * Handle an HTTP upgrade to WebSocket on /ws
+   */
+  handleUpgrade(req: http.IncomingMessage, socket: Duplex, head: Buffer, query: URLSearchParams): void {
+    this.wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: Omit<StreamClient, "id"> = {
+        filters: parseStreamFilters(query),
+        send: (event) => {
+          if (ws.readyState === WebSocket.OPEN) {
+            ws.send(JSON.stringify(event));
+          }
+        },
+        close: () => ws.close(),
+      };
+      const id = this.addClient(client);
+
+      ws.on("message", (data: WebSocket.Data) => {
+        try {
+          const message = JSON.parse(data.toString()) as { type?: string; filters?: Record<string, unknown> };
+          if (message.type === "filters" && message.filters) {
+            const existing = this.clients.get(id);
+            if (existing) {
+              existing.filters = parseStreamFilters(message.filters);
+              ws.send(JSON.stringify({ type: "filters", filters: existing.filters }));
+            }
+          }
+        } catch {
+          ws.send(JSON.stringify({ type: "error", message: "Invalid message" }));
+        }
+      });
+
+      ws.on("close", () => this.removeClient(id));
+      ws.on("error", (err) => {
+        logError("SignalStream", `WebSocket client ${id} error`, err);
+        this.removeClient(id);
+      });
+    });
+  }
+
+  /**
+   * Disconnect all clients and stop listening
+   */
+  async stop(): Promise<void> {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+
+    for (const client of this.clients.values()) {
+      client.close();
+    }
+    this.clients.clear();
+    this.sseResponses.clear();
+
+    if (this.unsubscribe) {
+      await this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+}
+
+export default new SignalStreamHub();
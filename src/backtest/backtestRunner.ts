@@ -5,15 +5,23 @@
  */
 
 import "dotenv/config";
-import { discoverMarkets } from "../cron/discoverMarkets.js";
+import { discoverBacktestMarkets } from "./candleCache.js";
 import { 
   fetchHistoricalCandlesForCoins, 
   getTimeRange 
 } from "./historicalDataFetcher.js";
 import { 
   backtestAll, 
-  calculateStatistics 
+  calculateStatistics,
+  simulateAllTrades,
+  simulateBreakoutTrades,
 } from "./backtester.js";
+import {
+  TRADE_SIM_CONFIG,
+  calculateTradeStats,
+  printTradeReport,
+} from "./tradeSimulator.js";
+import { createRunId, saveBacktestReport, toReportBreakout } from "./reportGenerator.js";
 import { info } from "../utils/logger.js";
 import { initTelegram, notifyBacktestResults } from "../utils/telegramNotifier.js";
 
@@ -191,6 +199,23 @@ async function runBacktest(coins: string[], months: number = 3): Promise<void> {
     "backtest_results.json",
     JSON.stringify(detailedResults, null, 2)
   );
+
+  // Replay the breakouts as trades for the report's equity curve and trade list
+  const signals = Array.from(results.values()).flatMap((coinResults) => coinResults.map((r) => r.breakout));
+  const trades = simulateBreakoutTrades(signals, historicalData, TRADE_SIM_CONFIG);
+  const reportPath = saveBacktestReport({
+    runId: createRunId("backtest"),
+    kind: "backtest",
+    title: "Breakout Backtest",
+    generatedAt: Date.now(),
+    metadata: detailedResults.metadata,
+    breakouts: Array.from(results.values()).flatMap((coinResults) =>
+      coinResults.map((r) => toReportBreakout(r.breakout, r.outcome))
+    ),
+    trades,
+    tradeStats: calculateTradeStats(trades, TRADE_SIM_CONFIG),
+  });
+  console.log(`📄 Report saved to ${reportPath}`);
   console.log("✓ Complete!\n");
   
   // Send Telegram notification with full results including all breakouts
@@ -214,6 +239,73 @@ async function runBacktest(coins: string[], months: number = 3): Promise<void> {
   });
 }
 
+/**
+ * Run trade-level simulation for specific coins
+ */
+async function runTradeBacktest(coins: string[], months: number = 3): Promise<void> {
+  const { startTime, endTime } = getTimeRange(months);
+
+  console.log("\n" + "=".repeat(80));
+  console.log("BREAKOUT TRADE SIMULATION");
+  console.log("=".repeat(80));
+  console.log(`Period:  ${new Date(startTime).toLocaleDateString()} - ${new Date(endTime).toLocaleDateString()}`);
+  console.log(`Coins:   ${coins.length}`);
+  console.log(`Months:  ${months}`);
+  console.log("=".repeat(80) + "\n");
+
+  const historicalData = await fetchHistoricalCandlesForCoins(
+    coins,
+    startTime,
+    endTime,
+    "1h",
+    3,
+    1000
+  );
+
+  const trades = simulateAllTrades(historicalData, TRADE_SIM_CONFIG);
+  const stats = calculateTradeStats(trades, TRADE_SIM_CONFIG);
+  printTradeReport("BREAKOUT TRADE RESULTS", stats, TRADE_SIM_CONFIG);
+
+  console.log("💾 Saving trades to backtest_trades.json...");
+  const fs = await import("fs");
+  fs.writeFileSync(
+    "backtest_trades.json",
+    JSON.stringify({
+      metadata: {
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        coins: coins.length,
+        months,
+        config: TRADE_SIM_CONFIG,
+      },
+      summary: { ...stats, equityCurve: undefined },
+      equityCurve: stats.equityCurve,
+      trades,
+    }, null, 2)
+  );
+
+  const reportPath = saveBacktestReport({
+    runId: createRunId("trades"),
+    kind: "trades",
+    title: "Breakout Trade Simulation",
+    generatedAt: Date.now(),
+    metadata: {
+      startTime: new Date(startTime).toISOString(),
+      endTime: new Date(endTime).toISOString(),
+      coins: coins.length,
+      months,
+      startingEquity: TRADE_SIM_CONFIG.startingEquity,
+      riskPerTradePct: TRADE_SIM_CONFIG.riskPerTradePct,
+      stopMode: TRADE_SIM_CONFIG.stopMode,
+      rewardRisk: TRADE_SIM_CONFIG.rewardRisk,
+    },
+    trades,
+    tradeStats: stats,
+  });
+  console.log(`📄 Report saved to ${reportPath}`);
+  console.log("✓ Complete!\n");
+}
+
 /**
  * Main execution
  */
@@ -225,23 +317,29 @@ async function main(): Promise<void> {
     const command = process.argv[2] || "run";
     const months = parseInt(process.argv[3] || "3", 10);
     
-    if (command === "run") {
+    if (command === "run" || command === "trades") {
       // Discover all active coins
       console.log("\n🔍 Discovering active markets...");
-      const coins = await discoverMarkets();
+      const coins = await discoverBacktestMarkets();
       console.log(`✓ Found ${coins.length} active markets\n`);
       
       // Run backtest
-      await runBacktest(coins, months);
+      if (command === "trades") {
+        await runTradeBacktest(coins, months);
+      } else {
+        await runBacktest(coins, months);
+      }
       
       process.exit(0);
     } else {
       console.log("\nUsage:");
       console.log("  node dist/backtest/backtestRunner.js run [months]");
+      console.log("  node dist/backtest/backtestRunner.js trades [months]   # Trade simulation (stops, targets, fees)");
       console.log("\nExamples:");
       console.log("  node dist/backtest/backtestRunner.js run 3   # Last 3 months (default)");
       console.log("  node dist/backtest/backtestRunner.js run 1   # Last 1 month");
       console.log("  node dist/backtest/backtestRunner.js run 6   # Last 6 months");
+      console.log("  BACKTEST_STOP_MODE=atr BACKTEST_TRAIL_ATR=2 node dist/backtest/backtestRunner.js trades 3");
       process.exit(1);
     }
   } catch (error) {
@@ -7,9 +7,19 @@
 import { info, warn, error as logError } from "../utils/logger.js";
 import { type HistoricalCandle } from "./historicalDataFetcher.js";
 import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
-import { calculateConfidenceScore } from "../breakout/confidenceModel.js";
+import {
+  MIN_CANDLES_FOR_DETECTION,
+  evaluateBreakouts,
+} from "../breakout/breakoutEngine.js";
 import { CLASS_CONFIG } from "../breakout/breakoutClassConfig.js";
 import { classifyAsset, type AssetClass } from "../assets/assetClassifier.js";
+import {
+  TRADE_SIM_CONFIG,
+  simulateTrade,
+  type SimulatedTrade,
+  type TradeEntry,
+  type TradeSimConfig,
+} from "./tradeSimulator.js";
 
 interface ProcessedCandle {
   coin: string;
@@ -40,304 +50,41 @@ interface BacktestResult {
   };
 }
 
-const DEFAULT_MIN_VOLUME_RATIO = 1.5;
-const DEFAULT_MIN_PRICE_CHANGE = 1;
-const DEFAULT_MIN_CONFIDENCE_SCORE = 50;
 const DEFAULT_SUCCESS_THRESHOLD = 3;
 
 /**
- * Calculate resistance level from recent highs
+ * Detect a breakout at a specific point in time using the shared engine
  */
-function calculateResistanceLevel(candles: HistoricalCandle[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-
-  const relevantCandles = candles.slice(2, 22);
-  const highs = relevantCandles.map(c => c.high);
-  const sorted = highs.sort((a, b) => a - b);
-  const index = Math.floor(sorted.length * 0.95);
-  
-  return sorted[index] || 0;
-}
-
-/**
- * Calculate support level from recent lows (5th percentile)
- */
-function calculateSupportLevel(candles: HistoricalCandle[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-
-  const relevantCandles = candles.slice(2, 22);
-  const lows = relevantCandles.map(c => c.low);
-  const sorted = lows.sort((a, b) => a - b);
-  const index = Math.max(0, Math.floor(sorted.length * 0.05));
-
-  return sorted[index] || 0;
-}
-
-/**
- * Calculate average volume
- */
-function calculateAverageVolume(candles: HistoricalCandle[], period: number = 24): number {
-  if (candles.length < period) {
-    return 0;
-  }
-
-  const relevantCandles = candles.slice(0, period);
-  const totalVolume = relevantCandles.reduce((sum, c) => sum + c.volume, 0);
-  
-  return totalVolume / period;
-}
-
-/**
- * Calculate consolidation volatility
- */
-function calculateConsolidationVolatility(candles: HistoricalCandle[], period: number = 12): number {
-  if (candles.length < period) {
-    return 0;
-  }
-
-  const relevantCandles = candles.slice(1, period + 1);
-  const prices = relevantCandles.map(c => c.close);
-  
-  const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-  const variance = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length;
-  const stdDev = Math.sqrt(variance);
-  
-  return mean > 0 ? stdDev / mean : 0;
-}
-
-/**
- * Detect consolidation
- */
-function detectConsolidation(candles: HistoricalCandle[]): number {
-  if (candles.length < 12) {
-    return 0;
-  }
-
-  const volatility = calculateConsolidationVolatility(candles, 12);
-  
-  if (volatility < 0.02) {
-    return 12;
-  } else if (volatility < 0.03) {
-    return 8;
-  } else if (volatility < 0.04) {
-    return 4;
-  }
-  
-  return 0;
-}
-
-/**
- * Check sustained momentum
- */
-function checkSustainedMomentum(candles: HistoricalCandle[]): boolean {
-  if (candles.length < 3) {
-    return false;
-  }
-
-  const recent = candles.slice(0, 3);
-  let greenCandles = 0;
-  
-  for (const candle of recent) {
-    if (candle.close > candle.open) {
-      greenCandles++;
-    }
-  }
-
-  return greenCandles >= 2;
-}
-
-/**
- * Check sustained bearish momentum
- */
-function checkSustainedBearMomentum(candles: HistoricalCandle[]): boolean {
-  if (candles.length < 3) {
-    return false;
-  }
-
-  const recent = candles.slice(0, 3);
-  let redCandles = 0;
-
-  for (const candle of recent) {
-    if (candle.close < candle.open) {
-      redCandles++;
-    }
-  }
-
-  return redCandles >= 2;
-}
-
-
-function determineBreakoutType(confidenceScore: number): "strong" | "moderate" | "weak" {
-  if (confidenceScore >= 75) {
-    return "strong";
-  }
-  if (confidenceScore >= 50) {
-    return "moderate";
-  }
-  return "weak";
-}
-
-/**
- * Detect breakout at a specific point in time
- */
-function detectBreakoutAtTime(
+function detectBreakoutsAtTime(
   coin: string,
   allCandles: HistoricalCandle[],
   currentIndex: number
-): BreakoutSignal | null {
+): BreakoutSignal[] {
   // Need at least 24 candles before current
-  if (currentIndex < 24) {
-    return null;
+  if (currentIndex < MIN_CANDLES_FOR_DETECTION) {
+    return [];
   }
 
   // Get candles up to and including current (reversed order, most recent first)
   const candlesUpToCurrent = allCandles.slice(0, currentIndex + 1).reverse();
-  
-  if (candlesUpToCurrent.length < 24) {
-    return null;
-  }
-
   const latestCandle = candlesUpToCurrent[0];
-  
-  if (!latestCandle) {
-    return null;
-  }
-
-  const assetClass: AssetClass = latestCandle.assetClass ?? classifyAsset(coin);
-  const provider: BreakoutSignal["provider"] = latestCandle.provider ?? "hyperliquid";
-  const resistanceLevel = calculateResistanceLevel(candlesUpToCurrent);
-  const avgVolume = calculateAverageVolume(candlesUpToCurrent, 24);
-  const consolidationPeriod = detectConsolidation(candlesUpToCurrent);
-  const sustainedMomentum = checkSustainedMomentum(candlesUpToCurrent);
-
-  if (latestCandle.close <= resistanceLevel) {
-    return null;
-  }
-
-  const volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 0;
-  const priceChange = ((latestCandle.close - resistanceLevel) / resistanceLevel) * 100;
-
-  if (volumeRatio < DEFAULT_MIN_VOLUME_RATIO || priceChange < DEFAULT_MIN_PRICE_CHANGE) {
-    return null;
-  }
-
-  const confidenceScore = calculateConfidenceScore(
-    {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum,
-    },
-    assetClass
-  );
-
-  const breakoutType = determineBreakoutType(confidenceScore);
 
-  if (confidenceScore < DEFAULT_MIN_CONFIDENCE_SCORE) {
-    return null;
-  }
-
-  return {
-    coin,
-    symbol: coin,
-    class: assetClass,
-    timestamp: latestCandle.timestamp,
-    price: latestCandle.close,
-    volumeRatio,
-    priceChange,
-    consolidationPeriod,
-    consolidationHours: consolidationPeriod,
-    confidenceScore,
-    confidence: confidenceScore,
-    resistanceLevel,
-    direction: "long",
-    breakoutType,
-    provider,
-  };
-}
-
-function detectShortBreakoutAtTime(
-  coin: string,
-  allCandles: HistoricalCandle[],
-  currentIndex: number
-): BreakoutSignal | null {
-  if (currentIndex < 24) {
-    return null;
-  }
-
-  const candlesUpToCurrent = allCandles.slice(0, currentIndex + 1).reverse();
-  if (candlesUpToCurrent.length < 24) {
-    return null;
-  }
-
-  const latestCandle = candlesUpToCurrent[0];
   if (!latestCandle) {
-    return null;
+    return [];
   }
 
   const assetClass: AssetClass = latestCandle.assetClass ?? classifyAsset(coin);
-  const provider: BreakoutSignal["provider"] = latestCandle.provider ?? "hyperliquid";
-  const supportLevel = calculateSupportLevel(candlesUpToCurrent);
-  if (supportLevel <= 0) {
-    return null;
-  }
-
-  if (latestCandle.close >= supportLevel) {
-    return null;
-  }
-
-  const avgVolume = calculateAverageVolume(candlesUpToCurrent, 24);
-  const consolidationPeriod = detectConsolidation(candlesUpToCurrent);
-  const sustainedBearMomentum = checkSustainedBearMomentum(candlesUpToCurrent);
+  const config = CLASS_CONFIG[assetClass] ?? CLASS_CONFIG.crypto;
 
-  const volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 0;
-  const priceChange = ((supportLevel - latestCandle.close) / supportLevel) * 100;
-
-  if (priceChange <= 0) {
-    return null;
-  }
-
-  if (volumeRatio < DEFAULT_MIN_VOLUME_RATIO || priceChange < DEFAULT_MIN_PRICE_CHANGE) {
-    return null;
-  }
-
-  const confidenceScore = calculateConfidenceScore(
-    {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum: sustainedBearMomentum,
-    },
-    assetClass
-  );
-
-  const breakoutType = determineBreakoutType(confidenceScore);
-
-  if (confidenceScore < DEFAULT_MIN_CONFIDENCE_SCORE) {
-    return null;
-  }
-
-  return {
-    coin,
+  return evaluateBreakouts({
     symbol: coin,
-    class: assetClass,
-    timestamp: latestCandle.timestamp,
-    price: latestCandle.close,
-    volumeRatio,
-    priceChange,
-    consolidationPeriod,
-    consolidationHours: consolidationPeriod,
-    confidenceScore,
-    confidence: confidenceScore,
-    supportLevel,
-    direction: "short",
-    breakoutType,
-    provider,
-  };
+    assetClass,
+    provider: latestCandle.provider ?? "hyperliquid",
+    candles: candlesUpToCurrent,
+    config,
+  })
+    .map((evaluation) => evaluation.signal)
+    .filter((signal): signal is BreakoutSignal => signal !== null);
 }
 
 /**
@@ -432,11 +179,7 @@ export function backtestCoin(
   
   // Iterate through candles, starting from index 24 (need history)
   for (let i = 24; i < sortedCandles.length - 24; i++) {
-    const longBreakout = detectBreakoutAtTime(coin, sortedCandles, i);
-    const shortBreakout = detectShortBreakoutAtTime(coin, sortedCandles, i);
-    const potentialBreakouts = [longBreakout, shortBreakout].filter(
-      (b): b is BreakoutSignal => b !== null
-    );
+    const potentialBreakouts = detectBreakoutsAtTime(coin, sortedCandles, i);
 
     for (const breakout of potentialBreakouts) {
       const result = evaluateBreakoutOutcome(breakout, sortedCandles, i, DEFAULT_SUCCESS_THRESHOLD);
@@ -484,6 +227,117 @@ export function backtestAll(
   return allResults;
 }
 
+/**
+ * Trade entry for a detected breakout
+ */
+function breakoutTradeEntry(breakout: BreakoutSignal): TradeEntry {
+  const level = breakout.direction === "long" ? breakout.resistanceLevel : breakout.supportLevel;
+  return {
+    symbol: breakout.coin,
+    source: `${breakout.breakoutType}_breakout`,
+    direction: breakout.direction,
+    timestamp: breakout.timestamp,
+    confidence: breakout.confidenceScore,
+    ...(level !== undefined ? { level } : {}),
+  };
+}
+
+/**
+ * Replay every breakout for a coin as a trade (entry at next candle open)
+ */
+export function simulateCoinTrades(
+  coin: string,
+  candles: HistoricalCandle[],
+  config: TradeSimConfig = TRADE_SIM_CONFIG
+): SimulatedTrade[] {
+  const trades: SimulatedTrade[] = [];
+  const sortedCandles = [...candles].sort((a, b) => a.timestamp - b.timestamp);
+
+  for (let i = 24; i < sortedCandles.length - 1; i++) {
+    const breakouts = detectBreakoutsAtTime(coin, sortedCandles, i);
+
+    for (const breakout of breakouts) {
+      const trade = simulateTrade(
+        breakoutTradeEntry(breakout),
+        sortedCandles.slice(0, i + 1),
+        sortedCandles.slice(i + 1),
+        config
+      );
+
+      if (trade) {
+        trades.push(trade);
+      }
+    }
+  }
+
+  return trades;
+}
+
+/**
+ * Replay breakouts on all coins as trades
+ */
+export function simulateAllTrades(
+  historicalData: Map<string, HistoricalCandle[]>,
+  config: TradeSimConfig = TRADE_SIM_CONFIG
+): SimulatedTrade[] {
+  const trades: SimulatedTrade[] = [];
+
+  console.log(`\n💹 Simulating trades on ${historicalData.size} coins...\n`);
+
+  for (const [coin, candles] of historicalData) {
+    if (candles.length < 50) {
+      continue;
+    }
+
+    const coinTrades = simulateCoinTrades(coin, candles, config);
+    if (coinTrades.length > 0) {
+      const net = coinTrades.reduce((sum, t) => sum + t.netReturnPct, 0);
+      console.log(`  ✓ ${coin.padEnd(10)} - ${coinTrades.length} trade(s), ${net >= 0 ? "+" : ""}${net.toFixed(2)}% net`);
+    }
+    trades.push(...coinTrades);
+  }
+
+  return trades;
+}
+
+/**
+ * Replay already-detected breakouts as trades, entering after the candle the
+ * signal fired on (used for reports of runs that only evaluate outcomes)
+ */
+export function simulateBreakoutTrades(
+  breakouts: BreakoutSignal[],
+  historicalData: Map<string, HistoricalCandle[]>,
+  config: TradeSimConfig = TRADE_SIM_CONFIG
+): SimulatedTrade[] {
+  const sortedByCoin = new Map<string, HistoricalCandle[]>();
+  const trades: SimulatedTrade[] = [];
+
+  for (const breakout of breakouts) {
+    let candles = sortedByCoin.get(breakout.coin);
+    if (!candles) {
+      candles = [...(historicalData.get(breakout.coin) ?? [])].sort((a, b) => a.timestamp - b.timestamp);
+      sortedByCoin.set(breakout.coin, candles);
+    }
+
+    const signalIndex = candles.findIndex((c) => c.timestamp > breakout.timestamp) - 1;
+    if (signalIndex < 0) {
+      continue; // Signal candle missing or no candle after it
+    }
+
+    const trade = simulateTrade(
+      breakoutTradeEntry(breakout),
+      candles.slice(0, signalIndex + 1),
+      candles.slice(signalIndex + 1),
+      config
+    );
+    if (trade) {
+      trades.push(trade);
+    }
+  }
+
+  return trades.sort((a, b) => a.entryTime - b.entryTime);
+}
+
 /**
  * Calculate aggregate statistics
  */
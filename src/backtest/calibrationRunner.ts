@@ -0,0 +1,245 @@
+/**
+ * Confidence Calibration Runner
+ *
+ * Fits per-class calibration curves that turn the raw confidence score into a
+ * win probability, from live outcomes (breakout:outcome:* in Redis) or from a
+ * backtest over historical candles:
+ *   node dist/backtest/calibrationRunner.js fit redis 90
+ *   node dist/backtest/calibrationRunner.js fit backtest 6 --method=platt
+ *   node dist/backtest/calibrationRunner.js show
+ *
+ * A fitted model is saved to Redis, where the live detector picks it up within
+ * a minute and adds winProbability to every signal of a calibrated class.
+ */
+
+import "dotenv/config";
+import type { AssetClass } from "../assets/assetClassifier.js";
+import {
+  CALIBRATION_METHODS,
+  binByConfidence,
+  fitCalibrationModel,
+  predictWinProbability,
+  type CalibrationFitResult,
+  type CalibrationMethod,
+  type CalibrationModel,
+  type CalibrationSample,
+} from "../breakout/confidenceCalibration.js";
+import { getBreakoutOutcomes } from "../breakout/breakoutHistory.js";
+import {
+  clearCalibrationModel,
+  loadCalibrationModel,
+  saveCalibrationModel,
+} from "../breakout/calibrationStore.js";
+import { discoverBacktestMarkets } from "./candleCache.js";
+import { backtestAll } from "./backtester.js";
+import { fetchHistoricalCandlesForCoins, getTimeRange, type HistoricalCandle } from "./historicalDataFetcher.js";
+import {
+  fetchMultiAssetHistoricalCandlesForSymbols,
+  getDefaultMultiAssetSymbols,
+} from "./multiAssetHistoricalFetcher.js";
+
+const LOOKUP_SCORES = [40, 50, 60, 70, 80, 90, 100];
+
+function printUsage(): void {
+  console.log("\nUsage:");
+  console.log("  node dist/backtest/calibrationRunner.js [command] [args] [--flags]");
+  console.log("\nCommands:");
+  console.log("  fit redis [days]           - Fit on evaluated live outcomes (default: 90 days)");
+  console.log("  fit backtest [months]      - Fit on backtested breakouts, crypto and multi-asset (default: 3)");
+  console.log("  show                       - Print the active calibration");
+  console.log("  clear                      - Remove the calibration (signals go back to raw scores only)");
+  console.log("\nFlags:");
+  console.log(`  --method=${CALIBRATION_METHODS.join("|")}   (default: isotonic)`);
+  console.log("  --min-samples=30           - Minimum outcomes for a class to be calibrated");
+  console.log("  --bin=10                   - Confidence points per reliability bin");
+  console.log("  --dry-run                  - Print the fit without saving it");
+}
+
+function parseFlags(args: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (const arg of args) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(arg);
+    if (match) {
+      flags.set(match[1]!, match[2] ?? "true");
+    }
+  }
+  return flags;
+}
+
+function parseMethod(value: string | undefined): CalibrationMethod {
+  if (value === undefined) return "isotonic";
+  if (!CALIBRATION_METHODS.includes(value as CalibrationMethod)) {
+    throw new Error(`Unknown method "${value}" (use ${CALIBRATION_METHODS.join(", ")})`);
+  }
+  return value as CalibrationMethod;
+}
+
+function pct(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+async function loadRedisSamples(days: number): Promise<CalibrationSample[]> {
+  const outcomes = await getBreakoutOutcomes(days);
+  console.log(`\n📥 Loaded ${outcomes.length} evaluated live outcome(s) from the last ${days} days`);
+
+  return outcomes.map((o) => ({
+    assetClass: o.signal.class ?? "crypto",
+    confidence: o.signal.confidenceScore,
+    success: o.outcome.success,
+  }));
+}
+
+async function loadBacktestSamples(months: number): Promise<CalibrationSample[]> {
+  const { startTime, endTime } = getTimeRange(months);
+
+  console.log("\n🔍 Discovering active markets...");
+  const coins = await discoverBacktestMarkets();
+  const historicalData = new Map<string, HistoricalCandle[]>([
+    ...(await fetchHistoricalCandlesForCoins(coins, startTime, endTime, "1h", 3, 1000)),
+    ...(await fetchMultiAssetHistoricalCandlesForSymbols(getDefaultMultiAssetSymbols(), startTime, endTime)),
+  ]);
+
+  const samples: CalibrationSample[] = [];
+  for (const results of backtestAll(historicalData).values()) {
+    for (const r of results) {
+      samples.push({
+        assetClass: r.breakout.class ?? "crypto",
+        confidence: r.breakout.confidenceScore,
+        success: r.outcome.success,
+      });
+    }
+  }
+  console.log(`📥 Backtest produced ${samples.length} breakout outcome(s) over ${months} months`);
+  return samples;
+}
+
+function printModel(model: CalibrationModel, skipped: CalibrationFitResult["skipped"] = []): void {
+  console.log("\n" + "=".repeat(80));
+  console.log(`🎯 CONFIDENCE CALIBRATION (${model.method}, ${model.source})`);
+  console.log("=".repeat(80));
+  console.log(`Fitted: ${new Date(model.fittedAt).toISOString()}`);
+
+  const classes = Object.values(model.classes);
+  if (classes.length === 0) {
+    console.log("\nNo asset class had enough outcomes to calibrate");
+  }
+
+  for (const calibration of classes) {
+    console.log(`\n🏦 ${calibration.assetClass.toUpperCase()}`);
+    console.log("─".repeat(80));
+    console.log(`  Outcomes:     ${calibration.samples} (${pct(calibration.baseRate)} won)`);
+    console.log(
+      `  Brier score:  ${calibration.rawBrierScore.toFixed(4)} raw → ${calibration.brierScore.toFixed(4)} calibrated` +
+        `  |  Calibration error: ${pct(calibration.expectedCalibrationError)}`
+    );
+    console.log("\n  Confidence   Outcomes   Win rate   Raw score   Calibrated");
+    for (const bin of calibration.bins) {
+      console.log(
+        `  ${`${bin.from}-${bin.to}`.padEnd(10)} ${bin.count.toString().padStart(9)} ${pct(bin.winRate).padStart(10)} ` +
+          `${(bin.avgConfidence.toFixed(1) + "%").padStart(11)} ${pct(bin.avgPredicted).padStart(12)}`
+      );
+    }
+    console.log(
+      "\n  Win probability: " +
+        LOOKUP_SCORES.map((score) => `${score}→${pct(predictWinProbability(calibration, score))}`).join("  ")
+    );
+  }
+
+  if (skipped.length > 0) {
+    console.log(`\n⚠️  Not calibrated (too few outcomes): ${skipped.map((s) => `${s.assetClass} (${s.samples})`).join(", ")}`);
+  }
+
+  console.log("\n" + "=".repeat(80));
+}
+
+/**
+ * Reliability of the raw score for classes that were not fitted
+ */
+function printRawReliability(samples: CalibrationSample[], skipped: CalibrationFitResult["skipped"], binWidth: number): void {
+  for (const { assetClass } of skipped) {
+    const classSamples = samples.filter((s) => s.assetClass === assetClass);
+    const bins = binByConfidence(classSamples, binWidth);
+    console.log(
+      `  ${assetClass}: ` + bins.map((b) => `${b.from}-${b.to}: ${b.wins}/${b.count}`).join("  ")
+    );
+  }
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+  const positional = process.argv.slice(3).filter((a) => !a.startsWith("--"));
+  const flags = parseFlags(process.argv.slice(3));
+  let ok = true;
+
+  try {
+    switch (command) {
+      case "fit": {
+        const source = positional[0] ?? "redis";
+        const method = parseMethod(flags.get("method"));
+        const minSamples = parseInt(flags.get("min-samples") ?? "30", 10);
+        const binWidth = parseInt(flags.get("bin") ?? "10", 10);
+
+        let samples: CalibrationSample[];
+        let sourceLabel: string;
+        if (source === "redis") {
+          const days = parseInt(positional[1] ?? "90", 10);
+          samples = await loadRedisSamples(days);
+          sourceLabel = `live outcomes, ${days}d`;
+        } else if (source === "backtest") {
+          const months = parseInt(positional[1] ?? "3", 10);
+          samples = await loadBacktestSamples(months);
+          sourceLabel = `backtest, ${months}mo`;
+        } else {
+          printUsage();
+          ok = false;
+          break;
+        }
+
+        const { model, skipped } = fitCalibrationModel(samples, { method, minSamples, binWidth, source: sourceLabel });
+        printModel(model, skipped);
+        if (skipped.length > 0) {
+          console.log("\nRaw win counts for uncalibrated classes:");
+          printRawReliability(samples, skipped, binWidth);
+        }
+
+        if (flags.has("dry-run")) {
+          console.log("\nDry run - calibration not saved");
+        } else if (Object.keys(model.classes).length === 0) {
+          console.log("\nNothing to save - keeping the current calibration");
+        } else {
+          await saveCalibrationModel(model);
+          const calibrated = Object.keys(model.classes) as AssetClass[];
+          console.log(`\n✓ Saved calibration for ${calibrated.join(", ")}`);
+        }
+        break;
+      }
+
+      case "show": {
+        const model = await loadCalibrationModel();
+        if (model) {
+          printModel(model);
+        } else {
+          console.log("\nNo calibration fitted yet (run: fit redis | fit backtest)");
+        }
+        break;
+      }
+
+      case "clear": {
+        await clearCalibrationModel();
+        console.log("✓ Calibration removed");
+        break;
+      }
+
+      default:
+        printUsage();
+        ok = false;
+    }
+  } catch (err) {
+    console.error("\n❌ Calibration command failed:", err instanceof Error ? err.message : err);
+    ok = false;
+  }
+
+  process.exit(ok ? 0 : 1);
+}
+
+main();
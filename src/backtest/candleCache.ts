@@ -0,0 +1,431 @@
+/**
+ * Historical Candle Cache
+ *
+ * Keeps downloaded candles on disk so repeated backtests and grid searches
+ * don't re-download months of history:
+ *   - One append-only NDJSON file per source/symbol/interval, next to a meta
+ *     file listing the time ranges that have already been fetched
+ *   - A request only downloads the parts of its range that are not covered yet
+ *     (older history, newer candles, holes left by failed downloads)
+ *   - The current (still forming) candle is never marked covered, so it is
+ *     refreshed on the next run; later lines win when the file is read
+ *   - Offline mode (BACKTEST_OFFLINE=true) serves cached candles only and warns
+ *     about ranges it cannot fill
+ *
+ * Layout: <CANDLE_CACHE_DIR>/<source>/<symbol>/<interval>.ndjson (+ .meta.json)
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "fs";
+import path from "path";
+import { warn } from "../utils/logger.js";
+import { discoverMarkets } from "../cron/discoverMarkets.js";
+import type { HistoricalCandle } from "./historicalDataFetcher.js";
+
+export type CandleSource = "hyperliquid" | "multiasset";
+
+export const CANDLE_CACHE_CONFIG = {
+  enabled: process.env.CANDLE_CACHE !== "false",
+  dir: process.env.CANDLE_CACHE_DIR || ".candle_cache",
+  offline: process.env.BACKTEST_OFFLINE === "true",
+};
+
+// Rewrite a file once this share of its lines are superseded duplicates
+const COMPACTION_RATIO = 1.25;
+
+export interface TimeRange {
+  start: number;
+  end: number; // Exclusive
+}
+
+interface CacheMeta {
+  source: CandleSource;
+  symbol: string;
+  interval: string;
+  covered: TimeRange[];
+  updatedAt: string;
+}
+
+/**
+ * Downloads candles for [startTime, endTime); null means the download failed
+ * and the range must not be marked covered
+ */
+export type CandleDownloader = (startTime: number, endTime: number) => Promise<HistoricalCandle[] | null>;
+
+export interface CachedCandleResult {
+  candles: HistoricalCandle[];
+  downloads: number; // Network requests made (0 = served from cache)
+  missing: TimeRange[]; // Ranges still not covered (offline or failed downloads)
+}
+
+export interface CandleCacheEntry {
+  source: CandleSource;
+  symbol: string;
+  interval: string;
+  candles: number;
+  firstOpenTime: number | null;
+  lastOpenTime: number | null;
+  covered: TimeRange[];
+  gaps: TimeRange[]; // Missing candles inside the cached data
+  sizeBytes: number;
+}
+
+const INTERVAL_UNITS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Interval string ("5m", "1h", "1d") to milliseconds
+ */
+export function intervalToMs(interval: string): number {
+  const match = /^(\d+)([mhdw])$/.exec(interval);
+  if (!match) {
+    throw new Error(`Unsupported candle interval: ${interval}`);
+  }
+  return parseInt(match[1]!, 10) * INTERVAL_UNITS[match[2]!]!;
+}
+
+/**
+ * Sort and merge overlapping or touching ranges
+ */
+export function mergeRanges(ranges: TimeRange[]): TimeRange[] {
+  const sorted = ranges.filter((r) => r.end > r.start).sort((a, b) => a.start - b.start);
+  const merged: TimeRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Parts of [start, end) not inside any covered range
+ */
+export function findMissingRanges(covered: TimeRange[], start: number, end: number): TimeRange[] {
+  const missing: TimeRange[] = [];
+  let cursor = start;
+
+  for (const range of mergeRanges(covered)) {
+    if (range.end <= cursor) continue;
+    if (range.start >= end) break;
+    if (range.start > cursor) {
+      missing.push({ start: cursor, end: range.start });
+    }
+    cursor = Math.max(cursor, range.end);
+  }
+
+  if (cursor < end) {
+    missing.push({ start: cursor, end });
+  }
+
+  return missing;
+}
+
+/**
+ * Holes between consecutive candles (sorted by openTime) larger than one interval
+ */
+export function findCandleGaps(candles: HistoricalCandle[], intervalMs: number): TimeRange[] {
+  const gaps: TimeRange[] = [];
+
+  for (let i = 1; i < candles.length; i++) {
+    const expected = candles[i - 1]!.openTime + intervalMs;
+    if (candles[i]!.openTime > expected) {
+      gaps.push({ start: expected, end: candles[i]!.openTime });
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * Split a range into pieces of at most maxSpanMs (APIs cap candles per request)
+ */
+function splitRange(range: TimeRange, maxSpanMs: number | undefined): TimeRange[] {
+  if (!maxSpanMs || range.end - range.start <= maxSpanMs) {
+    return [range];
+  }
+
+  const pieces: TimeRange[] = [];
+  for (let start = range.start; start < range.end; start += maxSpanMs) {
+    pieces.push({ start, end: Math.min(start + maxSpanMs, range.end) });
+  }
+  return pieces;
+}
+
+function entryPaths(source: CandleSource, symbol: string, interval: string): { dir: string; data: string; meta: string } {
+  const dir = path.join(CANDLE_CACHE_CONFIG.dir, source, encodeURIComponent(symbol));
+  return {
+    dir,
+    data: path.join(dir, `${interval}.ndjson`),
+    meta: path.join(dir, `${interval}.meta.json`),
+  };
+}
+
+function readMeta(metaPath: string): CacheMeta | null {
+  if (!existsSync(metaPath)) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(readFileSync(metaPath, "utf8")) as CacheMeta;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write atomically (temp file + rename) so a crash mid-write keeps the previous file
+ */
+function writeFileAtomic(filePath: string, content: string): void {
+  const tmpPath = `${filePath}.tmp`;
+  writeFileSync(tmpPath, content);
+  renameSync(tmpPath, filePath);
+}
+
+/**
+ * Read cached candles, de-duplicated by openTime (last write wins) and sorted.
+ * Returns the number of lines read so callers can tell when to compact.
+ */
+function readCandles(dataPath: string): { candles: HistoricalCandle[]; lines: number } {
+  if (!existsSync(dataPath)) {
+    return { candles: [], lines: 0 };
+  }
+
+  const byOpenTime = new Map<number, HistoricalCandle>();
+  let lines = 0;
+
+  for (const line of readFileSync(dataPath, "utf8").split("\n")) {
+    if (!line) continue;
+    lines++;
+    try {
+      const candle = JSON.parse(line) as HistoricalCandle;
+      byOpenTime.set(candle.openTime, candle);
+    } catch {
+      // Torn line from an interrupted append
+    }
+  }
+
+  const candles = Array.from(byOpenTime.values()).sort((a, b) => a.openTime - b.openTime);
+  return { candles, lines };
+}
+
+function serializeCandles(candles: HistoricalCandle[]): string {
+  return candles.map((c) => JSON.stringify(c)).join("\n") + (candles.length > 0 ? "\n" : "");
+}
+
+/**
+ * Return candles with openTime in [startTime, endTime), downloading only the
+ * ranges the cache does not cover yet
+ */
+export async function getCandlesWithCache(
+  source: CandleSource,
+  symbol: string,
+  interval: string,
+  startTime: number,
+  endTime: number,
+  download: CandleDownloader,
+  options: { maxSpanMs?: number } = {}
+): Promise<CachedCandleResult> {
+  const intervalMs = intervalToMs(interval);
+  const start = Math.floor(startTime / intervalMs) * intervalMs;
+  const paths = entryPaths(source, symbol, interval);
+  const meta = readMeta(paths.meta);
+  let covered = meta?.covered ?? [];
+  const missing = findMissingRanges(covered, start, endTime);
+
+  let downloads = 0;
+  const stillMissing: TimeRange[] = [];
+
+  if (missing.length > 0 && CANDLE_CACHE_CONFIG.offline) {
+    warn(
+      "CandleCache",
+      `Offline: ${symbol} ${interval} has ${missing.length} uncovered range(s) ` +
+        `(${missing.map((r) => `${new Date(r.start).toISOString()} → ${new Date(r.end).toISOString()}`).join(", ")})`
+    );
+    stillMissing.push(...missing);
+  } else if (missing.length > 0) {
+    // Candles opening before this are closed and final
+    const settledBefore = Math.floor(Date.now() / intervalMs) * intervalMs;
+    mkdirSync(paths.dir, { recursive: true });
+
+    for (const range of missing.flatMap((r) => splitRange(r, options.maxSpanMs))) {
+      downloads++;
+      const candles = await download(range.start, range.end);
+      if (candles === null) {
+        stillMissing.push(range);
+        continue;
+      }
+
+      if (candles.length > 0) {
+        appendFileSync(paths.data, serializeCandles(candles));
+      }
+
+      const settledEnd = Math.min(range.end, settledBefore);
+      if (settledEnd > range.start) {
+        covered = mergeRanges([...covered, { start: range.start, end: settledEnd }]);
+      }
+    }
+
+    writeFileAtomic(
+      paths.meta,
+      JSON.stringify({ source, symbol, interval, covered, updatedAt: new Date().toISOString() } satisfies CacheMeta)
+    );
+  }
+
+  const { candles, lines } = readCandles(paths.data);
+  if (downloads > 0 && lines > candles.length * COMPACTION_RATIO) {
+    writeFileAtomic(paths.data, serializeCandles(candles));
+  }
+
+  return {
+    candles: candles.filter((c) => c.openTime >= start && c.openTime < endTime),
+    downloads,
+    missing: stillMissing,
+  };
+}
+
+/**
+ * Add candles from elsewhere (e.g. an imported file) and mark their span covered,
+ * so backtests use them instead of downloading that range
+ */
+export function storeCandlesInCache(
+  source: CandleSource,
+  symbol: string,
+  interval: string,
+  candles: HistoricalCandle[]
+): TimeRange | null {
+  if (candles.length === 0) {
+    return null;
+  }
+
+  const intervalMs = intervalToMs(interval);
+  const paths = entryPaths(source, symbol, interval);
+  const span = candles.reduce(
+    (range, c) => ({ start: Math.min(range.start, c.openTime), end: Math.max(range.end, c.openTime + intervalMs) }),
+    { start: Infinity, end: -Infinity }
+  );
+  const covered = mergeRanges([...(readMeta(paths.meta)?.covered ?? []), span]);
+
+  mkdirSync(paths.dir, { recursive: true });
+  appendFileSync(paths.data, serializeCandles(candles));
+  writeFileAtomic(
+    paths.meta,
+    JSON.stringify({ source, symbol, interval, covered, updatedAt: new Date().toISOString() } satisfies CacheMeta)
+  );
+
+  return span;
+}
+
+/**
+ * Read everything cached for a symbol/interval without touching the network
+ */
+export function readCachedCandles(source: CandleSource, symbol: string, interval: string): HistoricalCandle[] {
+  return readCandles(entryPaths(source, symbol, interval).data).candles;
+}
+
+/**
+ * Symbols with cached candles for a source and interval
+ */
+export function listCachedSymbols(source: CandleSource, interval: string): string[] {
+  const sourceDir = path.join(CANDLE_CACHE_CONFIG.dir, source);
+  if (!existsSync(sourceDir)) {
+    return [];
+  }
+
+  return readdirSync(sourceDir)
+    .filter((dir) => existsSync(path.join(sourceDir, dir, `${interval}.ndjson`)))
+    .map((dir) => decodeURIComponent(dir))
+    .sort();
+}
+
+/**
+ * Summarize every cached symbol/interval, including gaps inside the data
+ */
+export function getCandleCacheEntries(source?: CandleSource): CandleCacheEntry[] {
+  const sources: CandleSource[] = source ? [source] : ["hyperliquid", "multiasset"];
+  const entries: CandleCacheEntry[] = [];
+
+  for (const src of sources) {
+    const sourceDir = path.join(CANDLE_CACHE_CONFIG.dir, src);
+    if (!existsSync(sourceDir)) continue;
+
+    for (const dir of readdirSync(sourceDir).sort()) {
+      const symbol = decodeURIComponent(dir);
+      const files = readdirSync(path.join(sourceDir, dir)).filter((f) => f.endsWith(".ndjson"));
+
+      for (const file of files) {
+        const interval = file.replace(/\.ndjson$/, "");
+        const paths = entryPaths(src, symbol, interval);
+        const { candles } = readCandles(paths.data);
+
+        entries.push({
+          source: src,
+          symbol,
+          interval,
+          candles: candles.length,
+          firstOpenTime: candles[0]?.openTime ?? null,
+          lastOpenTime: candles[candles.length - 1]?.openTime ?? null,
+          covered: readMeta(paths.meta)?.covered ?? [],
+          gaps: findCandleGaps(candles, intervalToMs(interval)),
+          sizeBytes: statSync(paths.data).size,
+        });
+      }
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Delete cached candles (everything, one source, or one symbol). Returns removed directories.
+ */
+export function clearCandleCache(source?: CandleSource, symbol?: string): number {
+  const sources: CandleSource[] = source ? [source] : ["hyperliquid", "multiasset"];
+  let removed = 0;
+
+  for (const src of sources) {
+    const target = symbol
+      ? path.join(CANDLE_CACHE_CONFIG.dir, src, encodeURIComponent(symbol))
+      : path.join(CANDLE_CACHE_CONFIG.dir, src);
+    if (existsSync(target)) {
+      rmSync(target, { recursive: true, force: true });
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
+/**
+ * Markets to backtest: live discovery, or the cached Hyperliquid symbols in offline mode
+ */
+export async function discoverBacktestMarkets(interval: string = "1h"): Promise<string[]> {
+  if (!CANDLE_CACHE_CONFIG.offline) {
+    return discoverMarkets();
+  }
+
+  const coins = listCachedSymbols("hyperliquid", interval);
+  if (coins.length === 0) {
+    throw new Error(`Offline mode: no cached ${interval} candles in ${CANDLE_CACHE_CONFIG.dir}; run candleCacheRunner sync first`);
+  }
+  console.log(`[CandleCache] Offline mode - using ${coins.length} cached markets`);
+  return coins;
+}
@@ -0,0 +1,158 @@
+/**
+ * Candle Cache Runner
+ *
+ * Manage the on-disk historical candle cache:
+ *   node dist/backtest/candleCacheRunner.js status
+ *   node dist/backtest/candleCacheRunner.js sync 6
+ *   node dist/backtest/candleCacheRunner.js gaps BTC
+ *   node dist/backtest/candleCacheRunner.js clear
+ *
+ * After a sync, backtests and grid searches can run without network access:
+ *   BACKTEST_OFFLINE=true node dist/backtest/gridSearchRunner.js run 3
+ */
+
+import "dotenv/config";
+import { discoverMarkets } from "../cron/discoverMarkets.js";
+import { fetchHistoricalCandlesForCoins, getTimeRange } from "./historicalDataFetcher.js";
+import {
+  fetchMultiAssetHistoricalCandlesForSymbols,
+  getDefaultMultiAssetSymbols,
+} from "./multiAssetHistoricalFetcher.js";
+import {
+  CANDLE_CACHE_CONFIG,
+  clearCandleCache,
+  getCandleCacheEntries,
+  type CandleCacheEntry,
+  type CandleSource,
+} from "./candleCache.js";
+
+function printUsage(): void {
+  console.log("\nUsage:");
+  console.log("  node dist/backtest/candleCacheRunner.js [command]");
+  console.log("\nCommands:");
+  console.log("  status                     - Cached symbols, ranges and size (default)");
+  console.log("  sync [months] [interval]   - Download/top up Hyperliquid markets (default: 3, 1h)");
+  console.log("  sync-multi [months]        - Download/top up the default multi-asset symbols");
+  console.log("  gaps [symbol]              - List missing candles inside cached data");
+  console.log("  clear [source] [symbol]    - Delete cached candles (source: hyperliquid | multiasset)");
+  console.log(`\nCache directory: ${CANDLE_CACHE_CONFIG.dir} (CANDLE_CACHE_DIR)`);
+}
+
+function formatDate(timestamp: number | null): string {
+  return timestamp !== null ? new Date(timestamp).toISOString().slice(0, 16).replace("T", " ") : "-";
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function printStatus(entries: CandleCacheEntry[]): void {
+  console.log("\n" + "=".repeat(80));
+  console.log("📦 CANDLE CACHE");
+  console.log("=".repeat(80));
+
+  if (entries.length === 0) {
+    console.log(`\nNo cached candles in ${CANDLE_CACHE_CONFIG.dir}`);
+    return;
+  }
+
+  console.log(
+    "\n" + "Source".padEnd(12) + "Symbol".padEnd(14) + "Int".padEnd(5) + "Candles".padStart(8) +
+      "  " + "First".padEnd(17) + "  " + "Last".padEnd(17) + "Gaps".padStart(6) + "Size".padStart(10)
+  );
+  console.log("─".repeat(80));
+
+  for (const e of entries) {
+    console.log(
+      e.source.padEnd(12) + e.symbol.padEnd(14) + e.interval.padEnd(5) + e.candles.toString().padStart(8) +
+        "  " + formatDate(e.firstOpenTime).padEnd(17) + "  " + formatDate(e.lastOpenTime).padEnd(17) +
+        e.gaps.length.toString().padStart(6) + formatSize(e.sizeBytes).padStart(10)
+    );
+  }
+
+  const totalBytes = entries.reduce((total, e) => total + e.sizeBytes, 0);
+  const totalCandles = entries.reduce((total, e) => total + e.candles, 0);
+  console.log("─".repeat(80));
+  console.log(`${entries.length} series, ${totalCandles} candles, ${formatSize(totalBytes)}`);
+}
+
+function printGaps(entries: CandleCacheEntry[]): void {
+  const withGaps = entries.filter((e) => e.gaps.length > 0);
+  console.log(`\n🕳  ${withGaps.length}/${entries.length} cached series have gaps`);
+
+  for (const e of withGaps) {
+    console.log(`\n${e.source}/${e.symbol} ${e.interval}:`);
+    e.gaps.slice(0, 20).forEach((gap) => console.log(`  ${formatDate(gap.start)} → ${formatDate(gap.end)}`));
+    if (e.gaps.length > 20) {
+      console.log(`  ... ${e.gaps.length - 20} more`);
+    }
+  }
+
+  if (withGaps.some((e) => e.source === "multiasset")) {
+    console.log("\nNote: multi-asset gaps include market closures (nights, weekends, holidays).");
+  }
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2] || "status";
+  let ok = true;
+
+  try {
+    switch (command) {
+      case "status":
+        printStatus(getCandleCacheEntries());
+        break;
+
+      case "sync": {
+        const months = parseInt(process.argv[3] || "3", 10);
+        const interval = process.argv[4] || "1h";
+        const { startTime, endTime } = getTimeRange(months);
+
+        console.log("\n🔍 Discovering active markets...");
+        const coins = await discoverMarkets();
+        const data = await fetchHistoricalCandlesForCoins(coins, startTime, endTime, interval, 3, 1000);
+        console.log(`✓ Cache holds ${interval} candles for ${data.size} markets`);
+        break;
+      }
+
+      case "sync-multi": {
+        const months = parseInt(process.argv[3] || "3", 10);
+        const { startTime, endTime } = getTimeRange(months);
+        const data = await fetchMultiAssetHistoricalCandlesForSymbols(getDefaultMultiAssetSymbols(), startTime, endTime);
+        console.log(`\n✓ Cache holds candles for ${data.size} multi-asset symbols`);
+        break;
+      }
+
+      case "gaps": {
+        const symbol = process.argv[3];
+        const entries = getCandleCacheEntries().filter((e) => !symbol || e.symbol === symbol);
+        printGaps(entries);
+        break;
+      }
+
+      case "clear": {
+        const source = process.argv[3] as CandleSource | undefined;
+        if (source !== undefined && source !== "hyperliquid" && source !== "multiasset") {
+          printUsage();
+          ok = false;
+          break;
+        }
+        const removed = clearCandleCache(source, process.argv[4]);
+        console.log(`✓ Removed ${removed} cache director${removed === 1 ? "y" : "ies"}`);
+        break;
+      }
+
+      default:
+        printUsage();
+        ok = false;
+    }
+  } catch (err) {
+    console.error("\n❌ Candle cache command failed:", err);
+    ok = false;
+  }
+
+  process.exit(ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,278 @@
+/**
+ * Candle Data Runner
+ *
+ * Import and export candle datasets (CSV or columnar .hlcc):
+ *   node dist/backtest/candleDataRunner.js validate vendor_btc.csv --symbol=BTC --interval=1h
+ *   node dist/backtest/candleDataRunner.js import vendor_btc.csv --symbol=BTC --interval=1h
+ *   node dist/backtest/candleDataRunner.js export-redis candles_1h.hlcc
+ *   node dist/backtest/candleDataRunner.js export-cache btc.csv --symbol=BTC
+ *   node dist/backtest/candleDataRunner.js convert candles_1h.hlcc candles_1h.csv
+ *
+ * Imported candles go into the candle cache, so backtests and grid searches
+ * (including BACKTEST_OFFLINE=true runs) use them instead of downloading.
+ */
+
+import "dotenv/config";
+import type { NormalizedCandle } from "../ingestion/multiAssetIngestion.js";
+import type { HistoricalCandle } from "./historicalDataFetcher.js";
+import {
+  getCandleCacheEntries,
+  intervalToMs,
+  readCachedCandles,
+  storeCandlesInCache,
+  type CandleSource,
+} from "./candleCache.js";
+import {
+  CANDLE_KINDS,
+  candleSourceFor,
+  fromHistoricalCandles,
+  readCandleFile,
+  toHistoricalCandles,
+  validateCandleDataset,
+  writeCandleFile,
+  type CandleDataset,
+  type CandleKind,
+  type CandleParseOptions,
+  type CandleReadResult,
+  type CandleValidationError,
+} from "./candleIO.js";
+
+const MAX_ERRORS_SHOWN = 20;
+
+function printUsage(): void {
+  console.log("\nUsage:");
+  console.log("  node dist/backtest/candleDataRunner.js [command] [args] [--flags]");
+  console.log("\nCommands:");
+  console.log("  validate <file>              - Check a file against its schema");
+  console.log("  import <file>                - Validate and load into the candle cache");
+  console.log("  export-redis <file>          - Export candles:1h:* from Redis");
+  console.log("  export-cache <file>          - Export cached candles");
+  console.log("  convert <in> <out>           - Convert between CSV and columnar");
+  console.log("\nFlags:");
+  console.log(`  --kind=${CANDLE_KINDS.join("|")}   (default: detected on read, historical on export)`);
+  console.log("  --symbol=SYM                 - Symbol for rows without one / filter on export");
+  console.log("  --interval=1h                - Candle interval (derives missing closeTime)");
+  console.log("  --source=hyperliquid|multiasset - Cache source (import: detected from provider)");
+  console.log("  --skip-invalid               - Import valid rows even if some rows fail validation");
+  console.log("\nFiles ending in .csv are CSV; anything else (e.g. .hlcc) is columnar.");
+}
+
+function parseFlags(args: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (const arg of args) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(arg);
+    if (match) {
+      flags.set(match[1]!, match[2] ?? "true");
+    }
+  }
+  return flags;
+}
+
+function parseKind(value: string | undefined): CandleKind | undefined {
+  if (value === undefined) return undefined;
+  if (!CANDLE_KINDS.includes(value as CandleKind)) {
+    throw new Error(`Unknown kind "${value}" (use ${CANDLE_KINDS.join(", ")})`);
+  }
+  return value as CandleKind;
+}
+
+function parseSource(value: string | undefined): CandleSource | undefined {
+  if (value === undefined) return undefined;
+  if (value !== "hyperliquid" && value !== "multiasset") {
+    throw new Error(`Unknown source "${value}" (use hyperliquid or multiasset)`);
+  }
+  return value;
+}
+
+function parseOptions(flags: Map<string, string>): CandleParseOptions {
+  const symbol = flags.get("symbol");
+  const interval = flags.get("interval");
+  const source = parseSource(flags.get("source"));
+  return {
+    ...(symbol !== undefined ? { symbol } : {}),
+    ...(interval !== undefined ? { intervalMs: intervalToMs(interval) } : {}),
+    ...(source !== undefined ? { source } : {}),
+  };
+}
+
+function printErrors(errors: CandleValidationError[]): void {
+  console.log(`\n⚠️  ${errors.length} invalid row(s):`);
+  errors.slice(0, MAX_ERRORS_SHOWN).forEach((e) => console.log(`  row ${e.row}: ${e.message}`));
+  if (errors.length > MAX_ERRORS_SHOWN) {
+    console.log(`  ... ${errors.length - MAX_ERRORS_SHOWN} more`);
+  }
+}
+
+function printReadSummary(file: string, result: CandleReadResult): void {
+  console.log(`\n📄 ${file}: ${result.dataset.rows.length} valid ${result.dataset.kind} candle(s)`);
+  if (result.ignoredFields.length > 0) {
+    console.log(`   Ignored columns: ${result.ignoredFields.join(", ")}`);
+  }
+  if (result.errors.length > 0) {
+    printErrors(result.errors);
+  }
+}
+
+function groupBySymbol(candles: HistoricalCandle[]): Map<string, HistoricalCandle[]> {
+  const grouped = new Map<string, HistoricalCandle[]>();
+  for (const candle of candles) {
+    const list = grouped.get(candle.coin) ?? [];
+    list.push(candle);
+    grouped.set(candle.coin, list);
+  }
+  return grouped;
+}
+
+/**
+ * Validate before writing so every exported file can be imported again
+ */
+function writeValidated(file: string, dataset: CandleDataset): void {
+  const { dataset: valid, errors } = validateCandleDataset(dataset);
+  if (errors.length > 0) {
+    printErrors(errors);
+    console.log("   Invalid rows were left out of the export");
+  }
+  writeCandleFile(file, valid);
+  console.log(`\n✓ Wrote ${valid.rows.length} ${valid.kind} candle(s) to ${file}`);
+}
+
+/**
+ * Read candles:1h:* keys: sorted sets of closed streamer candles, or
+ * multi-asset lists (newest first)
+ */
+async function readRedisCandles(symbol: string | undefined): Promise<HistoricalCandle[]> {
+  // Imported lazily so file-only commands don't open a Redis connection
+  const { default: redis } = await import("../utils/redisClient.js");
+  const keys = symbol ? [`candles:1h:${symbol}`] : (await redis.keys("candles:1h:*")).sort();
+  const candles: HistoricalCandle[] = [];
+
+  for (const key of keys) {
+    const seen = new Set<number>();
+    const entries = (await redis.type(key)) === "zset" ? await redis.zrevrange(key, 0, -1) : await redis.lrange(key, 0, -1);
+    for (const entry of entries) {
+      let parsed: Partial<HistoricalCandle & NormalizedCandle>;
+      try {
+        parsed = JSON.parse(entry);
+      } catch {
+        continue;
+      }
+      if (parsed.openTime === undefined || seen.has(parsed.openTime)) continue;
+      seen.add(parsed.openTime);
+
+      // Multi-asset ingestion stores NormalizedCandles, the streamer stores ProcessedCandles
+      const normalized = parsed.symbol !== undefined;
+      candles.push({
+        coin: normalized ? parsed.symbol! : parsed.coin ?? key.replace("candles:1h:", ""),
+        timestamp: parsed.timestamp ?? parsed.closeTime!,
+        openTime: parsed.openTime,
+        closeTime: parsed.closeTime!,
+        open: parsed.open!,
+        close: parsed.close!,
+        high: parsed.high!,
+        low: parsed.low!,
+        volume: parsed.volume!,
+        numTrades: parsed.numTrades ?? 0,
+        assetClass: normalized ? parsed.class! : "crypto",
+        provider: normalized ? parsed.provider! : "hyperliquid",
+      });
+    }
+  }
+
+  await redis.quit();
+  return candles;
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+  const positional = process.argv.slice(3).filter((a) => !a.startsWith("--"));
+  const flags = parseFlags(process.argv.slice(3));
+  let ok = true;
+
+  try {
+    const kind = parseKind(flags.get("kind"));
+    const options = parseOptions(flags);
+    const file = positional[0];
+
+    switch (command) {
+      case "validate": {
+        if (!file) throw new Error("validate needs a file");
+        const result = readCandleFile(file, kind, options);
+        printReadSummary(file, result);
+        ok = result.errors.length === 0;
+        console.log(ok ? "\n✓ File is valid" : "\n✗ File has invalid rows");
+        break;
+      }
+
+      case "import": {
+        if (!file) throw new Error("import needs a file");
+        const result = readCandleFile(file, kind, options);
+        printReadSummary(file, result);
+
+        if (result.errors.length > 0 && !flags.has("skip-invalid")) {
+          console.log("\n✗ Nothing imported (re-run with --skip-invalid to import the valid rows)");
+          ok = false;
+          break;
+        }
+
+        const interval = flags.get("interval") ?? "1h";
+        const source = parseSource(flags.get("source"));
+        const candles = toHistoricalCandles(result.dataset, { ...options, intervalMs: intervalToMs(interval) });
+
+        for (const [symbol, rows] of groupBySymbol(candles)) {
+          const target = source ?? candleSourceFor(rows[0]!);
+          const span = storeCandlesInCache(target, symbol, interval, rows);
+          if (span) {
+            console.log(
+              `  ${target}/${symbol} ${interval}: ${rows.length} candles ` +
+                `(${new Date(span.start).toISOString()} → ${new Date(span.end).toISOString()})`
+            );
+          }
+        }
+        console.log(`\n✓ Imported ${candles.length} candle(s) into the candle cache`);
+        break;
+      }
+
+      case "export-redis": {
+        if (!file) throw new Error("export-redis needs an output file");
+        const candles = await readRedisCandles(flags.get("symbol"));
+        const rows = kind === "normalized" ? candles.filter((c) => c.provider !== "hyperliquid") : candles;
+        writeValidated(file, fromHistoricalCandles(kind ?? "historical", rows));
+        break;
+      }
+
+      case "export-cache": {
+        if (!file) throw new Error("export-cache needs an output file");
+        const interval = flags.get("interval") ?? "1h";
+        const source = parseSource(flags.get("source"));
+        const symbol = flags.get("symbol");
+        const entries = getCandleCacheEntries(source).filter(
+          (e) => e.interval === interval && (!symbol || e.symbol === symbol)
+        );
+        const candles = entries.flatMap((e) => readCachedCandles(e.source, e.symbol, e.interval));
+        writeValidated(file, fromHistoricalCandles(kind ?? "historical", candles));
+        break;
+      }
+
+      case "convert": {
+        const output = positional[1];
+        if (!file || !output) throw new Error("convert needs an input and an output file");
+        const result = readCandleFile(file, kind, options);
+        printReadSummary(file, result);
+        writeCandleFile(output, result.dataset);
+        console.log(`\n✓ Wrote ${result.dataset.rows.length} ${result.dataset.kind} candle(s) to ${output}`);
+        break;
+      }
+
+      default:
+        printUsage();
+        ok = false;
+    }
+  } catch (err) {
+    console.error("\n❌ Candle data command failed:", err instanceof Error ? err.message : err);
+    ok = false;
+  }
+
+  process.exit(ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,647 @@
+/**
+ * Candle Import / Export
+ *
+ * Reads and writes HistoricalCandle, NormalizedCandle and IntradayCandle rows as:
+ *   - CSV: header row with the schema's field names, one candle per line
+ *   - Columnar binary (.hlcc): one block per field, numbers as float64 and
+ *     strings dictionary-encoded, so large datasets stay compact and load fast
+ *
+ * Every read goes through the same schema validation (required fields, enum
+ * values, OHLC consistency, duplicate candles) and reports problems per row.
+ * Time fields accept epoch milliseconds, epoch seconds or ISO dates, so vendor
+ * exports can be imported without preprocessing.
+ *
+ * Columnar layout (little endian):
+ *   "HLCC" | u8 version | 3 bytes padding | u32 header length | header JSON |
+ *   padding to 8 bytes | column blocks (each padded to 8 bytes)
+ */
+
+import { readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { classifyAsset, type AssetClass } from "../assets/assetClassifier.js";
+import type { DataProvider, NormalizedCandle } from "../ingestion/multiAssetIngestion.js";
+import type { IntradayCandle } from "../breakout/intradayTypes.js";
+import type { HistoricalCandle } from "./historicalDataFetcher.js";
+import type { CandleSource } from "./candleCache.js";
+
+export type CandleKind = "historical" | "normalized" | "intraday";
+export type CandleFileFormat = "csv" | "columnar";
+
+export type CandleDataset =
+  | { kind: "historical"; rows: HistoricalCandle[] }
+  | { kind: "normalized"; rows: NormalizedCandle[] }
+  | { kind: "intraday"; rows: IntradayCandle[] };
+
+type FieldType = "number" | "integer" | "time" | "string";
+
+interface FieldSpec {
+  name: string;
+  type: FieldType;
+  required: boolean;
+  values?: readonly string[];
+}
+
+export const CANDLE_KINDS: CandleKind[] = ["historical", "normalized", "intraday"];
+
+const ASSET_CLASSES: readonly AssetClass[] = ["crypto", "forex", "metal", "oil", "us_stock", "ind_stock"];
+const MULTI_ASSET_PROVIDERS: readonly DataProvider[] = ["yahoo", "twelvedata"];
+const HISTORICAL_PROVIDERS: readonly NonNullable<HistoricalCandle["provider"]>[] = ["hyperliquid", ...MULTI_ASSET_PROVIDERS];
+
+const OHLCV_FIELDS: FieldSpec[] = [
+  { name: "open", type: "number", required: true },
+  { name: "close", type: "number", required: true },
+  { name: "high", type: "number", required: true },
+  { name: "low", type: "number", required: true },
+  { name: "volume", type: "number", required: true },
+];
+
+/**
+ * Field order is the CSV column order. Optional time fields are derived from
+ * openTime and the interval when missing.
+ */
+export const CANDLE_SCHEMAS: Record<CandleKind, FieldSpec[]> = {
+  historical: [
+    { name: "coin", type: "string", required: false }, // Falls back to --symbol
+    { name: "timestamp", type: "time", required: false },
+    { name: "openTime", type: "time", required: true },
+    { name: "closeTime", type: "time", required: false },
+    ...OHLCV_FIELDS,
+    { name: "numTrades", type: "integer", required: false },
+    { name: "assetClass", type: "string", required: false, values: ASSET_CLASSES },
+    { name: "provider", type: "string", required: false, values: HISTORICAL_PROVIDERS },
+  ],
+  normalized: [
+    { name: "symbol", type: "string", required: false }, // Falls back to --symbol
+    { name: "class", type: "string", required: false, values: ASSET_CLASSES }, // Defaults to classifyAsset(symbol)
+    { name: "timestamp", type: "time", required: false },
+    { name: "openTime", type: "time", required: true },
+    { name: "closeTime", type: "time", required: false },
+    ...OHLCV_FIELDS,
+    { name: "provider", type: "string", required: true, values: MULTI_ASSET_PROVIDERS },
+  ],
+  intraday: [
+    { name: "timestamp", type: "time", required: true }, // Candle close time
+    { name: "open", type: "number", required: true },
+    { name: "high", type: "number", required: true },
+    { name: "low", type: "number", required: true },
+    { name: "close", type: "number", required: true },
+    { name: "volume", type: "number", required: true },
+  ],
+};
+
+export interface CandleParseOptions {
+  symbol?: string; // Used when rows carry no coin/symbol
+  intervalMs?: number; // Used to derive missing closeTime/timestamp
+  source?: CandleSource; // Cache the candles go to; picks the close-time convention
+}
+
+export interface CandleValidationError {
+  row: number; // 1-based data row (CSV header excluded)
+  field?: string;
+  message: string;
+}
+
+export interface CandleReadResult {
+  dataset: CandleDataset;
+  errors: CandleValidationError[];
+  ignoredFields: string[]; // Columns not in the schema
+}
+
+type RawValue = string | number | undefined;
+type RawRecord = Record<string, RawValue>;
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Guess the kind from the fields present in a file
+ */
+export function detectCandleKind(fields: string[]): CandleKind {
+  if (fields.includes("symbol") || fields.includes("class")) return "normalized";
+  if (fields.includes("coin") || fields.includes("openTime")) return "historical";
+  return "intraday";
+}
+
+function parseTime(value: RawValue): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const numeric = typeof value === "number" ? value : Number(value);
+  if (Number.isFinite(numeric)) {
+    return numeric < 1e11 ? numeric * 1000 : numeric; // Epoch seconds
+  }
+  const parsed = Date.parse(String(value));
+  return Number.isNaN(parsed) ? NaN : parsed;
+}
+
+function coerceField(spec: FieldSpec, value: RawValue): { value?: number | string; error?: string } {
+  if (value === undefined || value === "" || (typeof value === "number" && Number.isNaN(value))) {
+    return spec.required ? { error: "is required" } : {};
+  }
+
+  switch (spec.type) {
+    case "string": {
+      const text = String(value);
+      if (spec.values && !spec.values.includes(text)) {
+        return { error: `must be one of ${spec.values.join(", ")} (got "${text}")` };
+      }
+      return { value: text };
+    }
+    case "time": {
+      const time = parseTime(value);
+      return time !== undefined && Number.isFinite(time) ? { value: time } : { error: `is not a valid time ("${value}")` };
+    }
+    case "integer":
+    case "number": {
+      const num = typeof value === "number" ? value : Number(value);
+      if (!Number.isFinite(num)) return { error: `is not a number ("${value}")` };
+      if (spec.type === "integer" && !Number.isInteger(num)) return { error: `must be an integer (${num})` };
+      return { value: num };
+    }
+  }
+}
+
+/**
+ * Cache source for imported candles: crypto/Hyperliquid rows go with the
+ * Hyperliquid markets, everything else with the multi-asset symbols
+ */
+export function candleSourceFor(candle: { provider?: string; assetClass?: string }): CandleSource {
+  if (candle.provider === "hyperliquid" || candle.assetClass === "crypto") return "hyperliquid";
+  if (candle.provider !== undefined || candle.assetClass !== undefined) return "multiasset";
+  return "hyperliquid";
+}
+
+/**
+ * Close time for a bar without one, in the source's convention: Hyperliquid
+ * closes 1ms before the next open (T = t + interval - 1), Yahoo/TwelveData at it
+ */
+function closeTimeFor(openTime: number, intervalMs: number, source: CandleSource): number {
+  return source === "hyperliquid" ? openTime + intervalMs - 1 : openTime + intervalMs;
+}
+
+function checkOhlc(c: { open: number; high: number; low: number; close: number; volume: number }): string | null {
+  if (c.high < Math.max(c.open, c.close, c.low)) return "high is below open/close/low";
+  if (c.low > Math.min(c.open, c.close)) return "low is above open/close";
+  if (c.volume < 0) return "volume is negative";
+  return null;
+}
+
+/**
+ * Validate raw rows against a schema and build typed candles (sorted by symbol, then time)
+ */
+export function validateCandleRecords(
+  kind: CandleKind,
+  records: RawRecord[],
+  options: CandleParseOptions = {}
+): { dataset: CandleDataset; errors: CandleValidationError[] } {
+  const schema = CANDLE_SCHEMAS[kind];
+  const errors: CandleValidationError[] = [];
+  const rows: Array<HistoricalCandle | NormalizedCandle | IntradayCandle> = [];
+  const seen = new Set<string>();
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const values: Record<string, number | string> = {};
+    let valid = true;
+
+    for (const spec of schema) {
+      const { value, error } = coerceField(spec, record[spec.name]);
+      if (error) {
+        errors.push({ row, field: spec.name, message: `${spec.name} ${error}` });
+        valid = false;
+      } else if (value !== undefined) {
+        values[spec.name] = value;
+      }
+    }
+    if (!valid) return;
+
+    const num = (name: string) => values[name] as number | undefined;
+    const str = (name: string) => values[name] as string | undefined;
+    const ohlcv = {
+      open: num("open")!,
+      close: num("close")!,
+      high: num("high")!,
+      low: num("low")!,
+      volume: num("volume")!,
+    };
+
+    const ohlcError = checkOhlc(ohlcv);
+    if (ohlcError) {
+      errors.push({ row, message: ohlcError });
+      return;
+    }
+
+    let candle: HistoricalCandle | NormalizedCandle | IntradayCandle;
+    let key: string;
+
+    if (kind === "intraday") {
+      candle = { timestamp: num("timestamp")!, ...ohlcv } satisfies IntradayCandle;
+      key = String(candle.timestamp);
+    } else {
+      const symbol = str(kind === "historical" ? "coin" : "symbol") ?? options.symbol;
+      if (!symbol) {
+        errors.push({ row, field: kind === "historical" ? "coin" : "symbol", message: "symbol is missing (pass --symbol)" });
+        return;
+      }
+
+      const provider = str("provider");
+      const assetClass = str(kind === "historical" ? "assetClass" : "class");
+      const source =
+        options.source ??
+        candleSourceFor({ ...(provider !== undefined ? { provider } : {}), ...(assetClass !== undefined ? { assetClass } : {}) });
+      const openTime = num("openTime")!;
+      const closeTime =
+        num("closeTime") ?? (options.intervalMs !== undefined ? closeTimeFor(openTime, options.intervalMs, source) : undefined);
+      if (closeTime === undefined) {
+        errors.push({ row, field: "closeTime", message: "closeTime is missing (pass --interval)" });
+        return;
+      }
+      if (closeTime <= openTime) {
+        errors.push({ row, field: "closeTime", message: "closeTime must be after openTime" });
+        return;
+      }
+      const timestamp = num("timestamp") ?? closeTime;
+
+      if (kind === "historical") {
+        candle = {
+          coin: symbol,
+          timestamp,
+          openTime,
+          closeTime,
+          ...ohlcv,
+          numTrades: num("numTrades") ?? 0,
+          ...(assetClass !== undefined ? { assetClass: assetClass as AssetClass } : {}),
+          ...(provider !== undefined ? { provider: provider as NonNullable<HistoricalCandle["provider"]> } : {}),
+        } satisfies HistoricalCandle;
+      } else {
+        candle = {
+          symbol,
+          class: (assetClass as AssetClass | undefined) ?? classifyAsset(symbol),
+          timestamp,
+          openTime,
+          closeTime,
+          ...ohlcv,
+          provider: provider as DataProvider,
+        } satisfies NormalizedCandle;
+      }
+      key = `${symbol}|${openTime}`;
+    }
+
+    if (seen.has(key)) {
+      errors.push({ row, message: `duplicate candle (${key})` });
+      return;
+    }
+    seen.add(key);
+    rows.push(candle);
+  });
+
+  const symbolOf = (c: object) => ("coin" in c ? String(c.coin) : "symbol" in c ? String(c.symbol) : "");
+  rows.sort((a, b) => symbolOf(a).localeCompare(symbolOf(b)) || a.timestamp - b.timestamp);
+
+  return { dataset: { kind, rows } as CandleDataset, errors };
+}
+
+/**
+ * Re-validate typed candles (e.g. before exporting data read from Redis or the cache)
+ */
+export function validateCandleDataset(dataset: CandleDataset): { dataset: CandleDataset; errors: CandleValidationError[] } {
+  return validateCandleRecords(dataset.kind, dataset.rows as unknown as RawRecord[]);
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+function escapeCsv(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function parseCandleCsv(text: string, kind?: CandleKind, options: CandleParseOptions = {}): CandleReadResult {
+  const [header, ...lines] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  if (!header) {
+    throw new Error("CSV is empty");
+  }
+
+  const fields = header.map((h) => h.trim());
+  const resolvedKind = kind ?? detectCandleKind(fields);
+  const schema = CANDLE_SCHEMAS[resolvedKind];
+
+  const missing = schema.filter((s) => s.required && !fields.includes(s.name)).map((s) => s.name);
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing required ${resolvedKind} columns: ${missing.join(", ")}`);
+  }
+
+  const records = lines.map((line) => {
+    const record: RawRecord = {};
+    fields.forEach((name, i) => {
+      record[name] = line[i]?.trim();
+    });
+    return record;
+  });
+
+  return {
+    ...validateCandleRecords(resolvedKind, records, options),
+    ignoredFields: fields.filter((f) => !schema.some((s) => s.name === f)),
+  };
+}
+
+export function formatCandleCsv(dataset: CandleDataset): string {
+  const schema = CANDLE_SCHEMAS[dataset.kind];
+  const lines = [schema.map((s) => s.name).join(",")];
+
+  for (const row of dataset.rows as unknown as Array<Record<string, unknown>>) {
+    lines.push(
+      schema
+        .map((s) => {
+          const value = row[s.name];
+          return value === undefined || value === null ? "" : escapeCsv(String(value));
+        })
+        .join(",")
+    );
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// ---------------------------------------------------------------------------
+// Columnar binary
+// ---------------------------------------------------------------------------
+
+const COLUMNAR_MAGIC = "HLCC";
+const COLUMNAR_VERSION = 1;
+const MISSING_CODE = 0xffffffff;
+
+interface ColumnarHeader {
+  kind: CandleKind;
+  rows: number;
+  columns: Array<{ name: string; encoding: "f64" | "dict"; offset: number; dictionary?: string[] }>;
+}
+
+function align8(n: number): number {
+  return Math.ceil(n / 8) * 8;
+}
+
+export function encodeCandleColumnar(dataset: CandleDataset): Buffer {
+  const schema = CANDLE_SCHEMAS[dataset.kind];
+  const rows = dataset.rows as unknown as Array<Record<string, unknown>>;
+  const blocks: Buffer[] = [];
+  const columns: ColumnarHeader["columns"] = [];
+  let offset = 0;
+
+  for (const spec of schema) {
+    let block: Buffer;
+
+    if (spec.type === "string") {
+      const dictionary: string[] = [];
+      const codes = new Map<string, number>();
+      block = Buffer.alloc(align8(rows.length * 4));
+      rows.forEach((row, i) => {
+        const value = row[spec.name];
+        if (value === undefined || value === null) {
+          block.writeUInt32LE(MISSING_CODE, i * 4);
+          return;
+        }
+        const text = String(value);
+        let code = codes.get(text);
+        if (code === undefined) {
+          code = dictionary.length;
+          codes.set(text, code);
+          dictionary.push(text);
+        }
+        block.writeUInt32LE(code, i * 4);
+      });
+      columns.push({ name: spec.name, encoding: "dict", offset, dictionary });
+    } else {
+      block = Buffer.alloc(rows.length * 8);
+      rows.forEach((row, i) => {
+        const value = row[spec.name];
+        block.writeDoubleLE(typeof value === "number" ? value : NaN, i * 8);
+      });
+      columns.push({ name: spec.name, encoding: "f64", offset });
+    }
+
+    blocks.push(block);
+    offset += block.length;
+  }
+
+  const header = Buffer.from(JSON.stringify({ kind: dataset.kind, rows: rows.length, columns } satisfies ColumnarHeader));
+  const prefix = Buffer.alloc(align8(12 + header.length));
+  prefix.write(COLUMNAR_MAGIC, 0, "ascii");
+  prefix.writeUInt8(COLUMNAR_VERSION, 4);
+  prefix.writeUInt32LE(header.length, 8);
+  header.copy(prefix, 12);
+
+  return Buffer.concat([prefix, ...blocks]);
+}
+
+export function decodeCandleColumnar(buffer: Buffer, options: CandleParseOptions = {}): CandleReadResult {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== COLUMNAR_MAGIC) {
+    throw new Error("Not a columnar candle file (bad magic)");
+  }
+  const version = buffer.readUInt8(4);
+  if (version !== COLUMNAR_VERSION) {
+    throw new Error(`Unsupported columnar version ${version}`);
+  }
+
+  const headerLength = buffer.readUInt32LE(8);
+  let header: ColumnarHeader;
+  try {
+    header = JSON.parse(buffer.toString("utf8", 12, 12 + headerLength)) as ColumnarHeader;
+  } catch {
+    throw new Error("Columnar header is not valid JSON");
+  }
+  if (!CANDLE_KINDS.includes(header.kind)) {
+    throw new Error(`Unknown candle kind in columnar header: ${header.kind}`);
+  }
+
+  const dataStart = align8(12 + headerLength);
+  const records: RawRecord[] = Array.from({ length: header.rows }, () => ({}));
+
+  for (const column of header.columns) {
+    const start = dataStart + column.offset;
+    const width = column.encoding === "dict" ? 4 : 8;
+    if (start + header.rows * width > buffer.length) {
+      throw new Error(`Columnar file is truncated (column ${column.name})`);
+    }
+
+    for (let i = 0; i < header.rows; i++) {
+      if (column.encoding === "dict") {
+        const code = buffer.readUInt32LE(start + i * 4);
+        records[i]![column.name] = code === MISSING_CODE ? undefined : column.dictionary?.[code];
+      } else {
+        records[i]![column.name] = buffer.readDoubleLE(start + i * 8);
+      }
+    }
+  }
+
+  const schema = CANDLE_SCHEMAS[header.kind];
+  return {
+    ...validateCandleRecords(header.kind, records, options),
+    ignoredFields: header.columns.map((c) => c.name).filter((name) => !schema.some((s) => s.name === name)),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Files and conversions
+// ---------------------------------------------------------------------------
+
+export function detectFileFormat(filePath: string): CandleFileFormat {
+  return path.extname(filePath).toLowerCase() === ".csv" ? "csv" : "columnar";
+}
+
+export function readCandleFile(
+  filePath: string,
+  kind?: CandleKind,
+  options: CandleParseOptions = {}
+): CandleReadResult {
+  const result = detectFileFormat(filePath) === "csv"
+    ? parseCandleCsv(readFileSync(filePath, "utf8"), kind, options)
+    : decodeCandleColumnar(readFileSync(filePath), options);
+
+  if (kind && result.dataset.kind !== kind) {
+    throw new Error(`${filePath} holds ${result.dataset.kind} candles, expected ${kind}`);
+  }
+  return result;
+}
+
+export function writeCandleFile(filePath: string, dataset: CandleDataset): void {
+  if (detectFileFormat(filePath) === "csv") {
+    writeFileSync(filePath, formatCandleCsv(dataset));
+  } else {
+    writeFileSync(filePath, encodeCandleColumnar(dataset));
+  }
+}
+
+/**
+ * Convert any dataset to HistoricalCandles (what the backtesters and cache use).
+ * Intraday rows need a symbol and interval since they only carry the close time.
+ */
+export function toHistoricalCandles(dataset: CandleDataset, options: CandleParseOptions = {}): HistoricalCandle[] {
+  switch (dataset.kind) {
+    case "historical":
+      return dataset.rows;
+    case "normalized":
+      return dataset.rows.map((c) => ({
+        coin: c.symbol,
+        timestamp: c.timestamp,
+        openTime: c.openTime,
+        closeTime: c.closeTime,
+        open: c.open,
+        close: c.close,
+        high: c.high,
+        low: c.low,
+        volume: c.volume,
+        numTrades: 0,
+        assetClass: c.class,
+        provider: c.provider,
+      }));
+    case "intraday": {
+      const { symbol, intervalMs } = options;
+      if (!symbol || intervalMs === undefined) {
+        throw new Error("Intraday candles need --symbol and --interval to convert");
+      }
+      // Intraday timestamps are close times in the source's convention
+      const closeOffsetMs = closeTimeFor(0, intervalMs, options.source ?? "hyperliquid");
+      return dataset.rows.map((c) => ({
+        coin: symbol,
+        timestamp: c.timestamp,
+        openTime: c.timestamp - closeOffsetMs,
+        closeTime: c.timestamp,
+        open: c.open,
+        close: c.close,
+        high: c.high,
+        low: c.low,
+        volume: c.volume,
+        numTrades: 0,
+      }));
+    }
+  }
+}
+
+/**
+ * Build a dataset of the requested kind from HistoricalCandles
+ */
+export function fromHistoricalCandles(kind: CandleKind, candles: HistoricalCandle[]): CandleDataset {
+  switch (kind) {
+    case "historical":
+      return { kind, rows: candles };
+    case "normalized":
+      return {
+        kind,
+        rows: candles.map((c) => {
+          if (c.provider !== "yahoo" && c.provider !== "twelvedata") {
+            throw new Error(`${c.coin} has provider ${c.provider ?? "none"}; normalized candles need yahoo or twelvedata`);
+          }
+          return {
+            symbol: c.coin,
+            class: c.assetClass ?? classifyAsset(c.coin),
+            timestamp: c.timestamp,
+            openTime: c.openTime,
+            closeTime: c.closeTime,
+            open: c.open,
+            close: c.close,
+            high: c.high,
+            low: c.low,
+            volume: c.volume,
+            provider: c.provider,
+          };
+        }),
+      };
+    case "intraday":
+      return {
+        kind,
+        rows: candles.map((c) => ({
+          timestamp: c.timestamp,
+          open: c.open,
+          high: c.high,
+          low: c.low,
+          close: c.close,
+          volume: c.volume,
+        })),
+      };
+  }
+}
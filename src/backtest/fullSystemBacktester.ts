@@ -8,11 +8,15 @@
 import { fetchHistoricalCandlesForCoins, getTimeRange, type HistoricalCandle } from "./historicalDataFetcher.js";
 import mockCandleStreamer from "./mockCandleStreamer.js";
 import mockRedis from "./mockRedis.js";
-import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
+import type { BreakoutDirection, BreakoutSignal } from "../breakout/breakoutDetector.js";
 import type { ProcessedCandle } from "../stream/candleStreamer.js";
 import { info } from "../utils/logger.js";
-import { calculateConfidenceScore } from "../breakout/confidenceModel.js";
-import type { AssetClass } from "../assets/assetClassifier.js";
+import { evaluateBreakout } from "../breakout/breakoutEngine.js";
+import { CLASS_CONFIG } from "../breakout/breakoutClassConfig.js";
+import { simulateBreakoutTrades } from "./backtester.js";
+import type { SimulatedTrade } from "./tradeSimulator.js";
+import { createRunId } from "./reportGenerator.js";
+import { recordBacktestRun, type RunGroupSummary } from "./runRegistry.js";
 
 interface BacktestBreakout {
   signal: BreakoutSignal;
@@ -31,6 +35,7 @@ interface BacktestBreakout {
 
 interface BacktestResults {
   metadata: {
+    runId: string;
     startTime: string;
     endTime: string;
     coins: number;
@@ -38,6 +43,7 @@ interface BacktestResults {
     breakoutsDetected: number;
   };
   breakouts: BacktestBreakout[];
+  trades: SimulatedTrade[];
   statistics: {
     totalBreakouts: number;
     successfulBreakouts: number;
@@ -54,9 +60,6 @@ interface BacktestResults {
   };
 }
 
-const DEFAULT_MIN_VOLUME_RATIO = 1.5;
-const DEFAULT_MIN_PRICE_CHANGE = 1;
-const DEFAULT_MIN_CONFIDENCE_SCORE = 50;
 const DEFAULT_SUCCESS_THRESHOLD = 3;
 
 /**
@@ -226,7 +229,7 @@ export async function runFullSystemBacktest(
       }
     }
 
-    // Run detection at :01 past the hour (matching live system schedule)
+    // Run detection once the hour's bar has closed (live detection runs on candle close)
     // Only run if we have enough history (at least 24 hours)
     if (processedHours >= 24) {
       // Get all coins that have candles stored
@@ -320,8 +323,12 @@ export async function runFullSystemBacktest(
   const strongBreakouts = allBreakouts.filter(b => b.signal.breakoutType === "strong").length;
   const moderateBreakoutsCount = allBreakouts.filter(b => b.signal.breakoutType === "moderate").length;
 
+  // Replay the evaluated breakouts through the trade simulator
+  const trades = simulateBreakoutTrades(allBreakouts.map(b => b.signal), allCandlesByCoin);
+
   const results: BacktestResults = {
     metadata: {
+      runId: createRunId("full-system"),
       startTime: new Date(startTime).toISOString(),
       endTime: new Date(endTime).toISOString(),
       coins: coins.length,
@@ -329,6 +336,7 @@ export async function runFullSystemBacktest(
       breakoutsDetected: detectedBreakouts.length,
     },
     breakouts: allBreakouts,
+    trades,
     statistics: {
       totalBreakouts,
       successfulBreakouts,
@@ -345,273 +353,76 @@ export async function runFullSystemBacktest(
     },
   };
 
+  const classBreakdown: Record<string, RunGroupSummary> = {};
+  for (const b of allBreakouts) {
+    const assetClass = b.signal.class ?? "crypto";
+    const summary = classBreakdown[assetClass] || { count: 0, winRate: 0, avgGain: 0 };
+    classBreakdown[assetClass] = summary;
+    summary.count++;
+    summary.winRate += b.outcome.success ? 1 : 0;
+    summary.avgGain += b.outcome.gain24h;
+  }
+  for (const summary of Object.values(classBreakdown)) {
+    summary.winRate = (summary.winRate / summary.count) * 100;
+    summary.avgGain = summary.avgGain / summary.count;
+  }
+
+  recordBacktestRun({
+    runId: results.metadata.runId,
+    kind: "full-system",
+    config: {
+      months,
+      successThreshold: DEFAULT_SUCCESS_THRESHOLD,
+      detection: CLASS_CONFIG.crypto,
+    },
+    dataRange: {
+      startTime: results.metadata.startTime,
+      endTime: results.metadata.endTime,
+      symbols: historicalData.size,
+      timeframes: ["1h"],
+    },
+    statistics: {
+      totalSignals: totalBreakouts,
+      successfulSignals: successfulBreakouts,
+      successRate,
+      avgGains: { "1h": avgGain1h, "4h": avgGain4h, "12h": avgGain12h, "24h": avgGain24h },
+      longSignals: allBreakouts.filter(b => b.signal.direction === "long").length,
+      shortSignals: allBreakouts.filter(b => b.signal.direction === "short").length,
+      classBreakdown,
+    },
+  });
+
   return results;
 }
 
 /**
  * Detect breakout using mock candle streamer
- * Uses the exact same detection logic as the live system
- */
-async function detectBreakoutForCoinWithMock(coin: string): Promise<BreakoutSignal | null> {
-  const candles = await mockCandleStreamer.getCandles(coin, 60);
-  
-  if (candles.length < 24) {
-    return null;
-  }
-
-  const latestCandle = candles[0];
-  if (!latestCandle) {
-    return null;
-  }
-
-  return await detectBreakoutLogic(coin, candles, latestCandle);
-}
-
-async function detectShortBreakoutForCoinWithMock(coin: string): Promise<BreakoutSignal | null> {
-  const candles = await mockCandleStreamer.getCandles(coin, 60);
-  
-  if (candles.length < 24) {
-    return null;
-  }
-
-  const latestCandle = candles[0];
-  if (!latestCandle) {
-    return null;
-  }
-
-  return await detectShortBreakoutLogic(coin, candles, latestCandle);
-}
-
-/**
- * Breakout detection logic (exact copy from breakoutDetector.ts)
- */
-function calculateResistanceLevel(candles: ProcessedCandle[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(2, 22);
-  const highs = relevantCandles.map(c => c.high);
-  const sorted = highs.sort((a, b) => a - b);
-  const index = Math.floor(sorted.length * 0.95);
-  return sorted[index] || 0;
-}
-
-function calculateSupportLevel(candles: ProcessedCandle[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(2, 22);
-  const lows = relevantCandles.map(c => c.low);
-  const sorted = lows.sort((a, b) => a - b);
-  const index = Math.max(0, Math.floor(sorted.length * 0.05));
-  return sorted[index] || 0;
-}
-
-function calculateAverageVolume(candles: ProcessedCandle[], period: number = 24): number {
-  if (candles.length < period) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(0, period);
-  const totalVolume = relevantCandles.reduce((sum, c) => sum + c.volume, 0);
-  return totalVolume / period;
-}
-
-function calculateConsolidationVolatility(candles: ProcessedCandle[], period: number = 12): number {
-  if (candles.length < period) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(1, period + 1);
-  const prices = relevantCandles.map(c => c.close);
-  const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-  const variance = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length;
-  const stdDev = Math.sqrt(variance);
-  return mean > 0 ? stdDev / mean : 0;
-}
-
-function detectConsolidation(candles: ProcessedCandle[]): number {
-  if (candles.length < 12) {
-    return 0;
-  }
-  const volatility = calculateConsolidationVolatility(candles, 12);
-  if (volatility < 0.02) {
-    return 12;
-  } else if (volatility < 0.03) {
-    return 8;
-  } else if (volatility < 0.04) {
-    return 4;
-  }
-  return 0;
-}
-
-function checkSustainedMomentum(candles: ProcessedCandle[]): boolean {
-  if (candles.length < 3) {
-    return false;
-  }
-  const recent = candles.slice(0, 3);
-  let greenCandles = 0;
-  for (const candle of recent) {
-    if (candle.close > candle.open) {
-      greenCandles++;
-    }
-  }
-  return greenCandles >= 2;
-}
-
-function checkSustainedBearMomentum(candles: ProcessedCandle[]): boolean {
-  if (candles.length < 3) {
-    return false;
-  }
-  const recent = candles.slice(0, 3);
-  let redCandles = 0;
-  for (const candle of recent) {
-    if (candle.close < candle.open) {
-      redCandles++;
-    }
-  }
-  return redCandles >= 2;
-}
-
-
-function determineBreakoutType(confidenceScore: number): "strong" | "moderate" | "weak" {
-  if (confidenceScore >= 75) {
-    return "strong";
-  }
-  if (confidenceScore >= 50) {
-    return "moderate";
-  }
-  return "weak";
-}
-
-/**
- * Breakout detection logic (exact copy from breakoutDetector.ts)
+ * Uses the exact same detection engine as the live system
  */
-async function detectBreakoutLogic(
+async function detectBreakoutWithMock(
   coin: string,
-  candles: ProcessedCandle[],
-  latestCandle: ProcessedCandle
+  direction: BreakoutDirection
 ): Promise<BreakoutSignal | null> {
-  if (candles.length < 24) {
-    return null;
-  }
-
-  const resistanceLevel = calculateResistanceLevel(candles);
-  const avgVolume = calculateAverageVolume(candles, 24);
-  const consolidationPeriod = detectConsolidation(candles);
-  const sustainedMomentum = checkSustainedMomentum(candles);
+  const candles = await mockCandleStreamer.getClosedCandles(coin, 60);
 
-  if (latestCandle.close <= resistanceLevel) {
-    return null;
-  }
-
-  const volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 0;
-  const priceChange = ((latestCandle.close - resistanceLevel) / resistanceLevel) * 100;
-
-  if (volumeRatio < DEFAULT_MIN_VOLUME_RATIO || priceChange < DEFAULT_MIN_PRICE_CHANGE) {
-    return null;
-  }
-
-  const assetClass: AssetClass = "crypto";
-  const provider: BreakoutSignal["provider"] = "hyperliquid";
-
-  const confidenceScore = calculateConfidenceScore(
+  return evaluateBreakout(
     {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum,
+      symbol: coin,
+      assetClass: "crypto",
+      provider: "hyperliquid",
+      candles,
+      config: CLASS_CONFIG.crypto,
     },
-    assetClass
-  );
-
-  if (confidenceScore < DEFAULT_MIN_CONFIDENCE_SCORE) {
-    return null;
-  }
-
-  return {
-    coin,
-    symbol: coin,
-    class: assetClass,
-    timestamp: latestCandle.timestamp,
-    price: latestCandle.close,
-    volumeRatio,
-    priceChange,
-    consolidationPeriod,
-    consolidationHours: consolidationPeriod,
-    confidenceScore,
-    confidence: confidenceScore,
-    resistanceLevel,
-    direction: "long",
-    breakoutType: determineBreakoutType(confidenceScore),
-    provider,
-  };
+    direction
+  ).signal;
 }
 
-async function detectShortBreakoutLogic(
-  coin: string,
-  candles: ProcessedCandle[],
-  latestCandle: ProcessedCandle
-): Promise<BreakoutSignal | null> {
-  if (candles.length < 24) {
-    return null;
-  }
-
-  const supportLevel = calculateSupportLevel(candles);
-  if (supportLevel <= 0) {
-    return null;
-  }
-
-  if (latestCandle.close >= supportLevel) {
-    return null;
-  }
-
-  const avgVolume = calculateAverageVolume(candles, 24);
-  const consolidationPeriod = detectConsolidation(candles);
-  const sustainedMomentum = checkSustainedBearMomentum(candles);
-  const volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 0;
-  const priceChange = ((supportLevel - latestCandle.close) / supportLevel) * 100;
-
-  if (priceChange <= 0) {
-    return null;
-  }
-
-  if (volumeRatio < DEFAULT_MIN_VOLUME_RATIO || priceChange < DEFAULT_MIN_PRICE_CHANGE) {
-    return null;
-  }
-
-  const assetClass: AssetClass = "crypto";
-  const provider: BreakoutSignal["provider"] = "hyperliquid";
-
-  const confidenceScore = calculateConfidenceScore(
-    {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum,
-    },
-    assetClass
-  );
-
-  if (confidenceScore < DEFAULT_MIN_CONFIDENCE_SCORE) {
-    return null;
-  }
+async function detectBreakoutForCoinWithMock(coin: string): Promise<BreakoutSignal | null> {
+  return detectBreakoutWithMock(coin, "long");
+}
 
-  return {
-    coin,
-    symbol: coin,
-    class: assetClass,
-    timestamp: latestCandle.timestamp,
-    price: latestCandle.close,
-    volumeRatio,
-    priceChange,
-    consolidationPeriod,
-    consolidationHours: consolidationPeriod,
-    confidenceScore,
-    confidence: confidenceScore,
-    supportLevel,
-    direction: "short",
-    breakoutType: determineBreakoutType(confidenceScore),
-    provider,
-  };
+async function detectShortBreakoutForCoinWithMock(coin: string): Promise<BreakoutSignal | null> {
+  return detectBreakoutWithMock(coin, "short");
 }
 
 /**
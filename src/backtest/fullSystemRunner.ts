@@ -5,8 +5,10 @@
  */
 
 import "dotenv/config";
-import { discoverMarkets } from "../cron/discoverMarkets.js";
+import { discoverBacktestMarkets } from "./candleCache.js";
 import { runFullSystemBacktest } from "./fullSystemBacktester.js";
+import { calculateTradeStats } from "./tradeSimulator.js";
+import { saveBacktestReport, toReportBreakout } from "./reportGenerator.js";
 import { initTelegram, notifyBacktestResults } from "../utils/telegramNotifier.js";
 import { writeFileSync } from "fs";
 
@@ -135,7 +137,7 @@ async function main(): Promise<void> {
     
     if (command === "run") {
       console.log("\n🔍 Discovering active markets...");
-      const coins = await discoverMarkets();
+      const coins = await discoverBacktestMarkets();
       console.log(`✓ Found ${coins.length} active markets\n`);
       
       const results = await runFullSystemBacktest(coins, months);
@@ -197,6 +199,18 @@ async function main(): Promise<void> {
       };
       
       writeFileSync("backtest_results.json", JSON.stringify(output, null, 2));
+
+      const reportPath = saveBacktestReport({
+        runId: results.metadata.runId,
+        kind: "full-system",
+        title: "Full-System Backtest",
+        generatedAt: Date.now(),
+        metadata: { ...results.metadata, months },
+        breakouts: results.breakouts.map(b => toReportBreakout(b.signal, b.outcome)),
+        trades: results.trades,
+        tradeStats: calculateTradeStats(results.trades),
+      });
+      console.log(`📄 Report saved to ${reportPath}`);
       console.log("✓ Complete!\n");
       
       // Send Telegram notification with full results
@@ -9,10 +9,27 @@ import { fetchHistoricalCandlesForCoins, getTimeRange, type HistoricalCandle } f
 import mockCandleStreamer from "./mockCandleStreamer.js";
 import mockRedis from "./mockRedis.js";
 import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
-import { calculateConfidenceScore } from "../breakout/confidenceModel.js";
-import type { AssetClass } from "../assets/assetClassifier.js";
+import {
+  evaluateBreakouts,
+  type ConsolidationThreshold,
+} from "../breakout/breakoutEngine.js";
+import { CLASS_CONFIG, type BreakoutConfig } from "../breakout/breakoutClassConfig.js";
 import type { ProcessedCandle } from "../stream/candleStreamer.js";
 import { info } from "../utils/logger.js";
+import { DEFAULT_SEARCH_SPACE, enumerateSearchSpace, type SearchSpace } from "./searchSpace.js";
+import {
+  defaultWorkerCount,
+  evaluateCombinationsInParallel,
+  gridSearchFingerprint,
+  loadCheckpoint,
+  printProgress,
+  removeCheckpoint,
+  type GridSearchCheckpoint,
+} from "./parallelGridSearch.js";
+import { recordBacktestRun } from "./runRegistry.js";
+import { calculateProfitFactor } from "./tradeSimulator.js";
+
+const DEFAULT_CHECKPOINT_PATH = "grid_search_checkpoint.json";
 
 export interface GridSearchParams {
   minVolumeRatio: number;
@@ -23,6 +40,7 @@ export interface GridSearchParams {
     medium: number; // 8h consolidation threshold
     low: number;   // 4h consolidation threshold
   };
+  consolidationHours: number; // Shortest consolidation window a breakout needs (4, 8 or 12)
   successThreshold: number; // % gain to consider success
 }
 
@@ -36,6 +54,10 @@ export interface GridSearchResult {
     avgGain4h: number;
     avgGain12h: number;
     avgGain24h: number;
+    avgReturn24h: number; // Close-to-close 24h return (not peak)
+    grossProfit24h: number; // Sum of positive 24h returns (%)
+    grossLoss24h: number; // Sum of negative 24h returns (%, positive number)
+    profitFactor: number;
     strongBreakouts: number;
     moderateBreakouts: number;
     totalSignals: number; // Total signals before filtering
@@ -45,6 +67,22 @@ export interface GridSearchResult {
   score: number; // Combined score for ranking
 }
 
+export interface GridSearchRunOptions {
+  workers?: number; // Default: CPU count - 1
+  resume?: boolean; // Continue from a matching checkpoint
+  checkpointPath?: string; // Default: grid_search_checkpoint.json
+  runId?: string; // Registry run ID (default: generated)
+}
+
+/**
+ * Detection window for a backtest run. Candles before start are still
+ * loaded as history; signals are only taken for hours in [start, end).
+ */
+export interface BacktestWindow {
+  start: number;
+  end: number;
+}
+
 interface BacktestBreakout {
   signal: BreakoutSignal;
   outcome: {
@@ -56,6 +94,7 @@ interface BacktestBreakout {
     gain4h: number;
     gain12h: number;
     gain24h: number;
+    return24h: number;
     success: boolean;
   };
 }
@@ -80,223 +119,53 @@ function convertToProcessedCandle(candle: HistoricalCandle): ProcessedCandle {
 }
 
 /**
- * Calculate resistance level from recent highs
- */
-function calculateResistanceLevel(candles: ProcessedCandle[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(2, 22);
-  const highs = relevantCandles.map(c => c.high);
-  const sorted = highs.sort((a, b) => a - b);
-  const index = Math.floor(sorted.length * 0.95);
-  return sorted[index] || 0;
-}
-
-function calculateSupportLevel(candles: ProcessedCandle[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(2, 22);
-  const lows = relevantCandles.map(c => c.low);
-  const sorted = lows.sort((a, b) => a - b);
-  const index = Math.max(0, Math.floor(sorted.length * 0.05));
-  return sorted[index] || 0;
-}
-
-/**
- * Calculate average volume
+ * Build the breakout config for a parameter set.
+ * Starts from the live crypto config so only the searched parameters differ.
  */
-function calculateAverageVolume(candles: ProcessedCandle[], period: number = 24): number {
-  if (candles.length < period) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(0, period);
-  const totalVolume = relevantCandles.reduce((sum, c) => sum + c.volume, 0);
-  return totalVolume / period;
-}
-
-/**
- * Calculate consolidation volatility
- */
-function calculateConsolidationVolatility(candles: ProcessedCandle[], period: number = 12): number {
-  if (candles.length < period) {
-    return 0;
-  }
-  const relevantCandles = candles.slice(1, period + 1);
-  const prices = relevantCandles.map(c => c.close);
-  const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-  const variance = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length;
-  const stdDev = Math.sqrt(variance);
-  return mean > 0 ? stdDev / mean : 0;
+function buildConfigForParams(params: GridSearchParams): BreakoutConfig {
+  return {
+    ...CLASS_CONFIG.crypto,
+    minVolumeRatio: params.minVolumeRatio,
+    minPriceChange: params.minPriceChange,
+    minConfidence: params.minConfidenceScore,
+    consolidationHours: params.consolidationHours,
+    successThreshold24h: params.successThreshold,
+  };
 }
 
 /**
- * Detect consolidation with custom thresholds
+ * Map grid consolidation thresholds onto engine consolidation windows.
+ * Each window is tested with its own volatility; consolidationHours decides
+ * which windows are enough (4h accepts any, 12h only the high threshold).
  */
-function detectConsolidation(
-  candles: ProcessedCandle[],
+function buildConsolidationThresholds(
   thresholds: GridSearchParams["consolidationThresholds"]
-): number {
-  if (candles.length < 12) {
-    return 0;
-  }
-  const volatility = calculateConsolidationVolatility(candles, 12);
-  
-  if (volatility < thresholds.high) {
-    return 12;
-  } else if (volatility < thresholds.medium) {
-    return 8;
-  } else if (volatility < thresholds.low) {
-    return 4;
-  }
-  return 0;
-}
-
-/**
- * Check sustained momentum
- */
-function checkSustainedMomentum(candles: ProcessedCandle[]): boolean {
-  if (candles.length < 3) {
-    return false;
-  }
-  const recent = candles.slice(0, 3);
-  let greenCandles = 0;
-  for (const candle of recent) {
-    if (candle.close > candle.open) {
-      greenCandles++;
-    }
-  }
-  return greenCandles >= 2;
-}
-
-function checkSustainedBearMomentum(candles: ProcessedCandle[]): boolean {
-  if (candles.length < 3) {
-    return false;
-  }
-  const recent = candles.slice(0, 3);
-  let redCandles = 0;
-  for (const candle of recent) {
-    if (candle.close < candle.open) {
-      redCandles++;
-    }
-  }
-  return redCandles >= 2;
-}
-
-/**
- * Calculate confidence score
- */
-
-function determineBreakoutType(confidenceScore: number): "strong" | "moderate" | "weak" {
-  if (confidenceScore >= 75) {
-    return "strong";
-  }
-  if (confidenceScore >= 50) {
-    return "moderate";
-  }
-  return "weak";
+): ConsolidationThreshold[] {
+  return [
+    { hours: 12, maxVolatility: thresholds.high },
+    { hours: 8, maxVolatility: thresholds.medium },
+    { hours: 4, maxVolatility: thresholds.low },
+  ];
 }
 
 /**
  * Detect breakout with custom parameters
  */
-async function detectBreakoutWithParams(
+function detectBreakoutWithParams(
   coin: string,
   candles: ProcessedCandle[],
-  latestCandle: ProcessedCandle,
   params: GridSearchParams
-): Promise<BreakoutSignal[]> {
-  if (candles.length < 24) {
-    return [];
-  }
-
-  const signals: BreakoutSignal[] = [];
-  const assetClass: AssetClass = "crypto";
-  const provider: BreakoutSignal["provider"] = "hyperliquid";
-  const resistanceLevel = calculateResistanceLevel(candles);
-  const supportLevel = calculateSupportLevel(candles);
-  const avgVolume = calculateAverageVolume(candles, 24);
-  const consolidationPeriod = detectConsolidation(candles, params.consolidationThresholds);
-  const sustainedBullMomentum = checkSustainedMomentum(candles);
-  const sustainedBearMomentum = checkSustainedBearMomentum(candles);
-  const volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 0;
-
-  if (latestCandle.close > resistanceLevel && resistanceLevel > 0) {
-    const priceChange = ((latestCandle.close - resistanceLevel) / resistanceLevel) * 100;
-    if (volumeRatio >= params.minVolumeRatio && priceChange >= params.minPriceChange) {
-      const confidenceScore = calculateConfidenceScore(
-        {
-          volumeRatio,
-          priceChange,
-          consolidationPeriod,
-          sustainedMomentum: sustainedBullMomentum,
-        },
-        assetClass
-      );
-
-      if (confidenceScore >= params.minConfidenceScore) {
-        signals.push({
-          coin,
-          symbol: coin,
-          class: assetClass,
-          timestamp: latestCandle.timestamp,
-          price: latestCandle.close,
-          volumeRatio,
-          priceChange,
-          consolidationPeriod,
-          consolidationHours: consolidationPeriod,
-          confidenceScore,
-          confidence: confidenceScore,
-          resistanceLevel,
-          direction: "long",
-          breakoutType: determineBreakoutType(confidenceScore),
-          provider,
-        });
-      }
-    }
-  }
-
-  if (supportLevel > 0 && latestCandle.close < supportLevel) {
-    const priceChange = ((supportLevel - latestCandle.close) / supportLevel) * 100;
-    if (
-      priceChange > 0 &&
-      volumeRatio >= params.minVolumeRatio &&
-      priceChange >= params.minPriceChange
-    ) {
-      const confidenceScore = calculateConfidenceScore(
-        {
-          volumeRatio,
-          priceChange,
-          consolidationPeriod,
-          sustainedMomentum: sustainedBearMomentum,
-        },
-        assetClass
-      );
-
-      if (confidenceScore >= params.minConfidenceScore) {
-        signals.push({
-          coin,
-          symbol: coin,
-          class: assetClass,
-          timestamp: latestCandle.timestamp,
-          price: latestCandle.close,
-          volumeRatio,
-          priceChange,
-          consolidationPeriod,
-          consolidationHours: consolidationPeriod,
-          confidenceScore,
-          confidence: confidenceScore,
-          supportLevel,
-          direction: "short",
-          breakoutType: determineBreakoutType(confidenceScore),
-          provider,
-        });
-      }
-    }
-  }
-
-  return signals;
+): BreakoutSignal[] {
+  return evaluateBreakouts({
+    symbol: coin,
+    assetClass: "crypto",
+    provider: "hyperliquid",
+    candles,
+    config: buildConfigForParams(params),
+    consolidationThresholds: buildConsolidationThresholds(params.consolidationThresholds),
+  })
+    .map((evaluation) => evaluation.signal)
+    .filter((signal): signal is BreakoutSignal => signal !== null);
 }
 
 /**
@@ -318,6 +187,7 @@ function evaluateBreakoutOutcome(
   let peak4h = breakoutPrice;
   let peak12h = breakoutPrice;
   let peak24h = breakoutPrice;
+  let close24h = breakoutPrice;
   const isShort = signal.direction === "short";
   
   for (const candle of candlesAfter) {
@@ -336,6 +206,7 @@ function evaluateBreakoutOutcome(
     }
     if (hoursAfter <= 24) {
       peak24h = isShort ? Math.min(peak24h, comparisonValue) : Math.max(peak24h, comparisonValue);
+      close24h = candle.close;
     }
   }
   
@@ -361,18 +232,38 @@ function evaluateBreakoutOutcome(
     gain4h,
     gain12h,
     gain24h,
+    return24h: isShort
+      ? ((breakoutPrice - close24h) / breakoutPrice) * 100
+      : ((close24h - breakoutPrice) / breakoutPrice) * 100,
     success: gain24h >= successThreshold,
   };
 }
 
+/**
+ * Composite ranking score for a result's statistics (higher is better)
+ */
+export function scoreStatistics(statistics: GridSearchResult["statistics"]): number {
+  const strongRatio = statistics.totalBreakouts > 0
+    ? statistics.strongBreakouts / statistics.totalBreakouts
+    : 0;
+
+  return (
+    (statistics.successRate * 0.4) +                     // 40% weight on success rate
+    (Math.min(statistics.avgGain24h, 20) * 2) +          // 20% weight on avg gain (capped at 20%)
+    (Math.min(statistics.totalBreakouts / 100, 1) * 20) + // 20% weight on signal count (normalized)
+    (Math.min(strongRatio, 1) * 20)                      // 20% weight on quality
+  );
+}
+
 /**
  * Run backtest with specific parameters
  */
-async function runBacktestWithParams(
+export async function runBacktestWithParams(
   coins: string[],
   historicalData: Map<string, HistoricalCandle[]>,
   params: GridSearchParams,
-  months: number
+  months: number,
+  window?: BacktestWindow
 ): Promise<GridSearchResult> {
   // Clear mock storage
   mockCandleStreamer.clear();
@@ -421,8 +312,10 @@ async function runBacktestWithParams(
       }
     }
 
+    const inWindow = !window || (hourTimestamp >= window.start && hourTimestamp < window.end);
+
     // Run detection at :01 past the hour
-    if (processedHours >= 24) {
+    if (processedHours >= 24 && inWindow) {
       const activeCoins: string[] = [];
       for (const [coin] of allCandlesByCoin) {
         const candles = await mockCandleStreamer.getCandles(coin, 1);
@@ -433,14 +326,14 @@ async function runBacktestWithParams(
 
       for (const coin of activeCoins) {
         try {
-          const candles = await mockCandleStreamer.getCandles(coin, 60);
+          const candles = await mockCandleStreamer.getClosedCandles(coin, 60);
           if (candles.length < 24) continue;
           
           const latestCandle = candles[0];
           if (!latestCandle) continue;
 
           totalSignals++;
-          const signalsDetected = await detectBreakoutWithParams(coin, candles, latestCandle, params);
+          const signalsDetected = detectBreakoutWithParams(coin, candles, params);
           
           for (const signal of signalsDetected) {
             detectedBreakouts.push(signal);
@@ -484,76 +377,46 @@ async function runBacktestWithParams(
     ? allBreakouts.reduce((sum, b) => sum + b.outcome.gain24h, 0) / totalBreakouts
     : 0;
 
+  const avgReturn24h = totalBreakouts > 0
+    ? allBreakouts.reduce((sum, b) => sum + b.outcome.return24h, 0) / totalBreakouts
+    : 0;
+  const grossProfit24h = allBreakouts.reduce((sum, b) => sum + Math.max(b.outcome.return24h, 0), 0);
+  const grossLoss24h = Math.abs(allBreakouts.reduce((sum, b) => sum + Math.min(b.outcome.return24h, 0), 0));
+
   const strongBreakouts = allBreakouts.filter(b => b.signal.breakoutType === "strong").length;
   const moderateBreakouts = allBreakouts.filter(b => b.signal.breakoutType === "moderate").length;
 
-  // Calculate composite score (weighted combination of metrics)
-  // Higher is better
-  const strongRatio = totalBreakouts > 0 ? strongBreakouts / totalBreakouts : 0;
-
-  const score = 
-    (successRate * 0.4) +                    // 40% weight on success rate
-    (Math.min(avgGain24h, 20) * 2) +         // 20% weight on avg gain (capped at 20%)
-    (Math.min(totalBreakouts / 100, 1) * 20) + // 20% weight on signal count (normalized)
-    (Math.min(strongRatio, 1) * 20); // 20% weight on quality
+  const statistics: GridSearchResult["statistics"] = {
+    totalBreakouts,
+    successfulBreakouts,
+    successRate,
+    avgGain1h,
+    avgGain4h,
+    avgGain12h,
+    avgGain24h,
+    avgReturn24h,
+    grossProfit24h,
+    grossLoss24h,
+    profitFactor: calculateProfitFactor(grossProfit24h, grossLoss24h),
+    strongBreakouts,
+    moderateBreakouts,
+    totalSignals,
+    longBreakouts,
+    shortBreakouts,
+  };
 
   return {
     params,
-    statistics: {
-      totalBreakouts,
-      successfulBreakouts,
-      successRate,
-      avgGain1h,
-      avgGain4h,
-      avgGain12h,
-      avgGain24h,
-      strongBreakouts,
-      moderateBreakouts,
-      totalSignals,
-      longBreakouts,
-      shortBreakouts,
-    },
-    score,
+    statistics,
+    score: scoreStatistics(statistics),
   };
 }
 
 /**
  * Generate parameter combinations for grid search
  */
-export function generateParameterGrid(): GridSearchParams[] {
-  const combinations: GridSearchParams[] = [];
-
-  // Define parameter ranges
-  const minVolumeRatios = [1.2, 1.5, 2.0, 2.5];
-  const minPriceChanges = [0.5, 1.0, 1.5, 2.0];
-  const minConfidenceScores = [40, 50, 60, 70];
-  const consolidationThresholds = [
-    { high: 0.015, medium: 0.025, low: 0.035 },
-    { high: 0.020, medium: 0.030, low: 0.040 },
-    { high: 0.025, medium: 0.035, low: 0.045 },
-  ];
-  const successThresholds = [2.0, 3.0, 4.0];
-
-  // Generate all combinations
-  for (const volRatio of minVolumeRatios) {
-    for (const priceChange of minPriceChanges) {
-      for (const confidence of minConfidenceScores) {
-        for (const thresholds of consolidationThresholds) {
-          for (const success of successThresholds) {
-            combinations.push({
-              minVolumeRatio: volRatio,
-              minPriceChange: priceChange,
-              minConfidenceScore: confidence,
-              consolidationThresholds: thresholds,
-              successThreshold: success,
-            });
-          }
-        }
-      }
-    }
-  }
-
-  return combinations;
+export function generateParameterGrid(space: SearchSpace = DEFAULT_SEARCH_SPACE): GridSearchParams[] {
+  return enumerateSearchSpace(space);
 }
 
 /**
@@ -562,17 +425,46 @@ export function generateParameterGrid(): GridSearchParams[] {
 export async function runGridSearch(
   coins: string[],
   months: number = 3,
-  maxCombinations?: number
+  maxCombinations?: number,
+  options: GridSearchRunOptions = {}
 ): Promise<GridSearchResult[]> {
+  const workers = options.workers ?? defaultWorkerCount();
+  const checkpointPath = options.checkpointPath ?? DEFAULT_CHECKPOINT_PATH;
+
+  // Generate parameter combinations
+  const allCombinations = generateParameterGrid();
+  const combinationsToTest = maxCombinations 
+    ? allCombinations.slice(0, maxCombinations)
+    : allCombinations;
+
+  // Resume from a checkpoint of the same search, reusing its time range
+  const fingerprint = gridSearchFingerprint(coins, months, combinationsToTest);
+  const previous = options.resume ? loadCheckpoint(checkpointPath, fingerprint) : null;
+  const { startTime, endTime } = previous ?? getTimeRange(months);
+  const checkpoint: GridSearchCheckpoint = previous ?? {
+    fingerprint,
+    months,
+    startTime,
+    endTime,
+    total: combinationsToTest.length,
+    updatedAt: new Date().toISOString(),
+    completed: {},
+  };
+
   console.log("\n" + "=".repeat(80));
   console.log("GRID SEARCH FOR OPTIMAL PARAMETERS");
   console.log("=".repeat(80));
   console.log(`Coins: ${coins.length}`);
   console.log(`Period: Last ${months} months`);
+  console.log(`Workers: ${workers}`);
+  if (options.resume) {
+    console.log(previous
+      ? `Resuming: ${Object.keys(previous.completed).length}/${previous.total} combinations already done`
+      : "Resume requested but no matching checkpoint found - starting fresh");
+  }
   console.log("=".repeat(80) + "\n");
 
   // Fetch historical data once
-  const { startTime, endTime } = getTimeRange(months);
   console.log("📥 Fetching historical candle data...");
   const historicalData = await fetchHistoricalCandlesForCoins(
     coins,
@@ -584,35 +476,62 @@ export async function runGridSearch(
   );
   console.log(`✓ Fetched data for ${historicalData.size} coins\n`);
 
-  // Generate parameter combinations
-  const allCombinations = generateParameterGrid();
-  const combinationsToTest = maxCombinations 
-    ? allCombinations.slice(0, maxCombinations)
-    : allCombinations;
-
-  console.log(`🔍 Testing ${combinationsToTest.length} parameter combinations...\n`);
+  console.log(`🔍 Testing ${combinationsToTest.length} parameter combinations on ${workers} worker(s)...\n`);
 
-  const results: GridSearchResult[] = [];
-  let completed = 0;
-
-  for (const params of combinationsToTest) {
-    completed++;
-    const pct = ((completed / combinationsToTest.length) * 100).toFixed(1);
-    
-    process.stdout.write(
-      `\r  Testing ${completed}/${combinationsToTest.length} (${pct}%) - ` +
-      `Vol:${params.minVolumeRatio} Price:${params.minPriceChange} Conf:${params.minConfidenceScore}`
-    );
-
-    const result = await runBacktestWithParams(coins, historicalData, params, months);
-    results.push(result);
-  }
+  const results = await evaluateCombinationsInParallel(coins, months, historicalData, combinationsToTest, {
+    workers,
+    checkpoint,
+    checkpointPath,
+    onProgress: printProgress,
+  });
 
   console.log(`\n\n✓ Grid search complete! Tested ${results.length} combinations\n`);
+  removeCheckpoint(checkpointPath);
 
   // Sort by score (best first)
   results.sort((a, b) => b.score - a.score);
 
+  const best = results[0];
+  if (best) {
+    recordBacktestRun({
+      ...(options.runId !== undefined ? { runId: options.runId } : {}),
+      kind: "grid-search",
+      config: {
+        months,
+        combinations: results.length,
+        searchSpace: DEFAULT_SEARCH_SPACE,
+        bestParams: best.params,
+        bestScore: best.score,
+      },
+      dataRange: {
+        startTime: new Date(startTime).toISOString(),
+        endTime: new Date(endTime).toISOString(),
+        symbols: historicalData.size,
+        timeframes: ["1h"],
+      },
+      statistics: {
+        totalSignals: best.statistics.totalBreakouts,
+        successfulSignals: best.statistics.successfulBreakouts,
+        successRate: best.statistics.successRate,
+        avgGains: {
+          "1h": best.statistics.avgGain1h,
+          "4h": best.statistics.avgGain4h,
+          "12h": best.statistics.avgGain12h,
+          "24h": best.statistics.avgGain24h,
+          "24h close": best.statistics.avgReturn24h,
+        },
+        longSignals: best.statistics.longBreakouts,
+        shortSignals: best.statistics.shortBreakouts,
+        classBreakdown: {
+          crypto: {
+            count: best.statistics.totalBreakouts,
+            winRate: best.statistics.successRate,
+            avgGain: best.statistics.avgGain24h,
+          },
+        },
+      },
+    });
+  }
+
   return results;
 }
-
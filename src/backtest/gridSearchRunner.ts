@@ -5,8 +5,20 @@
  */
 
 import "dotenv/config";
-import { discoverMarkets } from "../cron/discoverMarkets.js";
+import { discoverBacktestMarkets } from "./candleCache.js";
 import { runGridSearch, type GridSearchResult } from "./gridSearch.js";
+import { runWalkForward, type WalkForwardReport } from "./walkForward.js";
+import {
+  SEARCH_OBJECTIVES,
+  SEARCH_STRATEGIES,
+  runParameterSearch,
+  type ParameterSearchOptions,
+  type ParameterSearchReport,
+  type SearchObjective,
+  type SearchStrategy,
+} from "./parameterSearch.js";
+import { loadSearchSpace } from "./searchSpace.js";
+import { createRunId, saveBacktestReport } from "./reportGenerator.js";
 import { initTelegram, notifyCustom } from "../utils/telegramNotifier.js";
 import { writeFileSync } from "fs";
 
@@ -34,6 +46,7 @@ function printResults(results: GridSearchResult[], topN: number = 20): void {
     console.log(`    High (12h):   ${result.params.consolidationThresholds.high}`);
     console.log(`    Medium (8h):  ${result.params.consolidationThresholds.medium}`);
     console.log(`    Low (4h):     ${result.params.consolidationThresholds.low}`);
+    console.log(`  Min Consolidation:     ${result.params.consolidationHours}h`);
     console.log(`  Success Threshold:     ${result.params.successThreshold}%`);
     console.log("\nPERFORMANCE:");
     console.log(`  Total Breakouts:      ${result.statistics.totalBreakouts}`);
@@ -60,6 +73,7 @@ function printResults(results: GridSearchResult[], topN: number = 20): void {
     console.log(`    medium: ${best.params.consolidationThresholds.medium},`);
     console.log(`    low: ${best.params.consolidationThresholds.low}`);
     console.log(`  }`);
+    console.log(`  consolidationHours: ${best.params.consolidationHours}`);
     console.log(`  successThreshold: ${best.params.successThreshold}`);
     console.log(`\nExpected Performance:`);
     console.log(`  Success Rate: ${best.statistics.successRate.toFixed(1)}%`);
@@ -69,6 +83,153 @@ function printResults(results: GridSearchResult[], topN: number = 20): void {
   console.log("\n" + "=".repeat(80) + "\n");
 }
 
+/**
+ * Print walk-forward folds, stitched out-of-sample stats and parameter stability
+ */
+function printWalkForward(report: WalkForwardReport): void {
+  const date = (ts: number) => new Date(ts).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  const sign = (v: number) => (v >= 0 ? "+" : "");
+
+  console.log("\n" + "=".repeat(80));
+  console.log("WALK-FORWARD RESULTS");
+  console.log("=".repeat(80));
+
+  console.log("\n📂 FOLDS");
+  console.log("─".repeat(80));
+  console.log("   #  Test Window       Vol   Price  Conf  IS Score  OOS Score  OOS Breakouts  OOS Success");
+  console.log("─".repeat(80));
+  for (const fold of report.folds) {
+    console.log(
+      `  ${(fold.index + 1).toString().padStart(2)}  ` +
+      `${`${date(fold.testStart)} - ${date(fold.testEnd)}`.padEnd(16)}  ` +
+      `${fold.best.params.minVolumeRatio.toString().padStart(4)}  ` +
+      `${fold.best.params.minPriceChange.toString().padStart(5)}  ` +
+      `${fold.best.params.minConfidenceScore.toString().padStart(4)}  ` +
+      `${fold.best.score.toFixed(2).padStart(8)}  ` +
+      `${fold.outOfSample.score.toFixed(2).padStart(9)}  ` +
+      `${fold.outOfSample.statistics.totalBreakouts.toString().padStart(13)}  ` +
+      `${fold.outOfSample.statistics.successRate.toFixed(1).padStart(10)}%`
+    );
+  }
+
+  const oos = report.outOfSample;
+  console.log("\n📈 STITCHED OUT-OF-SAMPLE");
+  console.log("─".repeat(80));
+  console.log(`  Breakouts:        ${oos.totalBreakouts} (${oos.longBreakouts} long / ${oos.shortBreakouts} short)`);
+  console.log(`  Success Rate:     ${oos.successRate.toFixed(1)}%`);
+  console.log(`  Avg Gain 4h/24h:  ${sign(oos.avgGain4h)}${oos.avgGain4h.toFixed(2)}% / ${sign(oos.avgGain24h)}${oos.avgGain24h.toFixed(2)}%`);
+  console.log(`  Score:            ${oos.score.toFixed(2)}`);
+  console.log(`  Avg IS / OOS:     ${report.avgInSampleScore.toFixed(2)} / ${report.avgOutOfSampleScore.toFixed(2)}`);
+  console.log(`  WF Efficiency:    ${(report.efficiency * 100).toFixed(0)}% (OOS score / IS score)`);
+
+  console.log("\n🧭 PARAMETER STABILITY");
+  console.log("─".repeat(80));
+  console.log("   Parameter              Mode     Share    CV    Per Fold");
+  console.log("─".repeat(80));
+  for (const p of report.stability) {
+    console.log(
+      `   ${p.name.padEnd(21)}  ${p.mode.toString().padEnd(7)}  ${p.modeShare.toFixed(0).padStart(4)}%  ` +
+      `${p.coefficientOfVariation.toFixed(2).padStart(5)}   ${p.values.join(", ")}`
+    );
+  }
+
+  console.log("\n" + "=".repeat(80) + "\n");
+}
+
+/**
+ * Read --key=value flags from the command line
+ */
+function parseFlags(args: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (const arg of args) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(arg);
+    if (match) {
+      flags.set(match[1]!, match[2] ?? "true");
+    }
+  }
+  return flags;
+}
+
+/**
+ * Build search options from positional args and flags
+ */
+function parseSearchOptions(strategy: string, maxTrials: string | undefined, flags: Map<string, string>): Partial<ParameterSearchOptions> {
+  if (!SEARCH_STRATEGIES.includes(strategy as SearchStrategy)) {
+    throw new Error(`Unknown strategy "${strategy}" (use ${SEARCH_STRATEGIES.join(", ")})`);
+  }
+
+  const options: Partial<ParameterSearchOptions> = { strategy: strategy as SearchStrategy };
+  const objective = flags.get("objective");
+  if (objective !== undefined) {
+    if (!SEARCH_OBJECTIVES.includes(objective as SearchObjective)) {
+      throw new Error(`Unknown objective "${objective}" (use ${SEARCH_OBJECTIVES.join(", ")})`);
+    }
+    options.objective = objective as SearchObjective;
+  }
+
+  const spacePath = flags.get("space");
+  if (spacePath) options.space = loadSearchSpace(spacePath);
+  if (maxTrials) options.maxTrials = parseInt(maxTrials, 10);
+
+  const numeric: Array<[string, "minBreakouts" | "patience" | "minDelta" | "seed" | "startupTrials"]> = [
+    ["min-breakouts", "minBreakouts"],
+    ["patience", "patience"],
+    ["min-delta", "minDelta"],
+    ["seed", "seed"],
+    ["startup", "startupTrials"],
+  ];
+  for (const [flag, key] of numeric) {
+    const value = flags.get(flag);
+    if (value !== undefined) {
+      const parsed = Number(value);
+      if (!Number.isFinite(parsed)) {
+        throw new Error(`--${flag} must be a number`);
+      }
+      options[key] = parsed;
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Print the top trials of a parameter search
+ */
+function printSearchResults(report: ParameterSearchReport, topN: number = 10): void {
+  const ranked = report.trials
+    .filter((t) => t.feasible)
+    .sort((a, b) => b.objective - a.objective);
+  const infeasible = report.trials.length - ranked.length;
+
+  console.log("\n" + "=".repeat(80));
+  console.log(`PARAMETER SEARCH RESULTS (${report.options.strategy}, objective: ${report.options.objective})`);
+  console.log("=".repeat(80));
+  console.log(`Trials: ${report.trials.length} (${infeasible} below ${report.options.minBreakouts} breakouts)  Stopped: ${report.stopReason.replace("_", " ")}\n`);
+  console.log("   #  Trial  Objective   Vol  Price  Conf  Consol(h/m/l) Min  Succ  Breakouts  Success  PF");
+  console.log("─".repeat(80));
+
+  ranked.slice(0, topN).forEach((t, i) => {
+    const c = t.params.consolidationThresholds;
+    console.log(
+      `  ${(i + 1).toString().padStart(2)}  ${(t.index + 1).toString().padStart(5)}  ` +
+      `${t.objective.toFixed(2).padStart(9)}  ` +
+      `${t.params.minVolumeRatio.toFixed(2).padStart(4)}  ${t.params.minPriceChange.toFixed(2).padStart(5)}  ` +
+      `${t.params.minConfidenceScore.toFixed(0).padStart(4)}  ` +
+      `${`${c.high}/${c.medium}/${c.low}`.padEnd(15)}${`${t.params.consolidationHours}h`.padStart(4)}  ${t.params.successThreshold.toFixed(1).padStart(4)}  ` +
+      `${t.result.statistics.totalBreakouts.toString().padStart(9)}  ` +
+      `${t.result.statistics.successRate.toFixed(1).padStart(6)}%  ${t.result.statistics.profitFactor.toFixed(2)}`
+    );
+  });
+
+  if (report.best) {
+    console.log(`\nBest trial #${report.best.index + 1}:`);
+    console.log(JSON.stringify(report.best.params, null, 2));
+  } else {
+    console.log(`\n⚠️  No trial met the ${report.options.minBreakouts}-breakout constraint`);
+  }
+  console.log("\n" + "=".repeat(80) + "\n");
+}
+
 /**
  * Main execution
  */
@@ -78,14 +239,26 @@ async function main(): Promise<void> {
     
     const command = process.argv[2] || "run";
     const months = parseInt(process.argv[3] || "3", 10);
-    const maxCombinations = process.argv[4] ? parseInt(process.argv[4], 10) : undefined;
+    const maxCombinations = process.argv[4] && !process.argv[4].startsWith("--")
+      ? parseInt(process.argv[4], 10)
+      : undefined;
     
     if (command === "run") {
+      const flags = parseFlags(process.argv.slice(3));
+      const workers = flags.get("workers");
+      const checkpoint = flags.get("checkpoint");
+
       console.log("\n🔍 Discovering active markets...");
-      const coins = await discoverMarkets();
+      const coins = await discoverBacktestMarkets();
       console.log(`✓ Found ${coins.length} active markets\n`);
       
-      const results = await runGridSearch(coins, months, maxCombinations);
+      const runId = createRunId("grid-search");
+      const results = await runGridSearch(coins, months, maxCombinations, {
+        runId,
+        resume: flags.has("resume"),
+        ...(workers !== undefined ? { workers: parseInt(workers, 10) } : {}),
+        ...(checkpoint !== undefined ? { checkpointPath: checkpoint } : {}),
+      });
       
       printResults(results, 20);
       
@@ -106,6 +279,16 @@ async function main(): Promise<void> {
       };
       
       writeFileSync("grid_search_results.json", JSON.stringify(output, null, 2));
+
+      const reportPath = saveBacktestReport({
+        runId,
+        kind: "grid-search",
+        title: "Grid Search",
+        generatedAt: Date.now(),
+        metadata: output.metadata,
+        gridResults: results,
+      });
+      console.log(`📄 Report saved to ${reportPath}`);
       console.log("✓ Complete!\n");
       
       // Send Telegram notification
@@ -132,14 +315,137 @@ async function main(): Promise<void> {
         console.log("✓ Telegram notification sent!\n");
       }
       
+      process.exit(0);
+    } else if (command === "walkforward") {
+      const trainDays = parseInt(process.argv[4] || "30", 10);
+      const testDays = parseInt(process.argv[5] || "10", 10);
+      const maxCombos = process.argv[6] ? parseInt(process.argv[6], 10) : undefined;
+
+      console.log("\n🔍 Discovering active markets...");
+      const coins = await discoverBacktestMarkets();
+      console.log(`✓ Found ${coins.length} active markets\n`);
+
+      const report = await runWalkForward(coins, months, {
+        trainDays,
+        testDays,
+        stepDays: testDays,
+        ...(maxCombos !== undefined ? { maxCombinations: maxCombos } : {}),
+      });
+
+      printWalkForward(report);
+
+      console.log("💾 Saving results to walk_forward_results.json...");
+      writeFileSync("walk_forward_results.json", JSON.stringify({
+        metadata: {
+          coins: coins.length,
+          months,
+          startTime: new Date(report.startTime).toISOString(),
+          endTime: new Date(report.endTime).toISOString(),
+          options: report.options,
+          timestamp: new Date().toISOString(),
+        },
+        outOfSample: report.outOfSample,
+        efficiency: report.efficiency,
+        stability: report.stability,
+        folds: report.folds.map((f) => ({
+          trainStart: new Date(f.trainStart).toISOString(),
+          trainEnd: new Date(f.trainEnd).toISOString(),
+          testStart: new Date(f.testStart).toISOString(),
+          testEnd: new Date(f.testEnd).toISOString(),
+          params: f.best.params,
+          inSample: { statistics: f.best.statistics, score: f.best.score },
+          outOfSample: { statistics: f.outOfSample.statistics, score: f.outOfSample.score },
+        })),
+      }, null, 2));
+      console.log("✓ Complete!\n");
+
+      const mostStable = [...report.stability].sort((a, b) => b.modeShare - a.modeShare);
+      await notifyCustom(
+        `🚶 *WALK-FORWARD COMPLETE*\n\n` +
+        `*Folds:* ${report.folds.length} (${trainDays}d train / ${testDays}d test)\n` +
+        `*Coins:* ${coins.length}\n\n` +
+        `*OUT-OF-SAMPLE*\n` +
+        `• Breakouts: ${report.outOfSample.totalBreakouts}\n` +
+        `• Success Rate: ${report.outOfSample.successRate.toFixed(1)}%\n` +
+        `• Avg 24h Gain: ${report.outOfSample.avgGain24h >= 0 ? '+' : ''}${report.outOfSample.avgGain24h.toFixed(2)}%\n` +
+        `• WF Efficiency: ${(report.efficiency * 100).toFixed(0)}%\n\n` +
+        `*MOST STABLE*\n` +
+        mostStable.slice(0, 3).map((p) => `• ${p.name}: ${p.mode} (${p.modeShare.toFixed(0)}% of folds)`).join("\n")
+      );
+
+      process.exit(0);
+    } else if (command === "search") {
+      const strategy = process.argv[3] || "tpe";
+      const searchMonths = parseInt(process.argv[4] || "3", 10);
+      const maxTrials = process.argv[5] && !process.argv[5].startsWith("--") ? process.argv[5] : undefined;
+      const options = parseSearchOptions(strategy, maxTrials, parseFlags(process.argv.slice(3)));
+
+      console.log("\n🔍 Discovering active markets...");
+      const coins = await discoverBacktestMarkets();
+      console.log(`✓ Found ${coins.length} active markets\n`);
+
+      const report = await runParameterSearch(coins, searchMonths, options);
+      printSearchResults(report);
+
+      console.log("💾 Saving results to search_results.json...");
+      writeFileSync("search_results.json", JSON.stringify({
+        metadata: {
+          coins: coins.length,
+          months: searchMonths,
+          strategy: report.options.strategy,
+          objective: report.options.objective,
+          space: report.options.space,
+          stopReason: report.stopReason,
+          timestamp: new Date().toISOString(),
+        },
+        best: report.best
+          ? { trial: report.best.index + 1, params: report.best.params, objective: report.best.objective }
+          : null,
+        trials: report.trials.map((t) => ({
+          trial: t.index + 1,
+          params: t.params,
+          objective: t.objective,
+          feasible: t.feasible,
+          statistics: t.result.statistics,
+          score: t.result.score,
+        })),
+      }, null, 2));
+      console.log("✓ Complete!\n");
+
+      if (report.best) {
+        const best = report.best;
+        await notifyCustom(
+          `🎯 *PARAMETER SEARCH COMPLETE*\n\n` +
+          `*Strategy:* ${report.options.strategy} (${report.trials.length} trials, ${report.stopReason.replace("_", " ")})\n` +
+          `*Objective:* ${report.options.objective} = ${best.objective.toFixed(2)}\n\n` +
+          `*BEST PARAMETERS*\n` +
+          `• Vol Ratio: ${best.params.minVolumeRatio}x\n` +
+          `• Price Change: ${best.params.minPriceChange}%\n` +
+          `• Confidence: ${best.params.minConfidenceScore}/100\n` +
+          `• Success Threshold: ${best.params.successThreshold}%\n\n` +
+          `*PERFORMANCE*\n` +
+          `• Breakouts: ${best.result.statistics.totalBreakouts}\n` +
+          `• Success Rate: ${best.result.statistics.successRate.toFixed(1)}%\n` +
+          `• Profit Factor: ${best.result.statistics.profitFactor.toFixed(2)}`
+        );
+      }
+
       process.exit(0);
     } else {
       console.log("\nUsage:");
-      console.log("  node dist/backtest/gridSearchRunner.js run [months] [maxCombinations]");
+      console.log("  node dist/backtest/gridSearchRunner.js run [months] [maxCombinations] [--workers=N] [--resume] [--checkpoint=path]");
+      console.log("  node dist/backtest/gridSearchRunner.js walkforward [months] [trainDays] [testDays] [maxCombinations]");
+      console.log("  node dist/backtest/gridSearchRunner.js search [grid|random|lhs|tpe] [months] [maxTrials] [--flags]");
+      console.log("\nSearch flags:");
+      console.log("  --objective=score|successRate|avgGain24h|avgReturn24h|profitFactor");
+      console.log("  --space=search_space.json  --min-breakouts=10  --patience=30  --min-delta=0.01  --seed=42  --startup=15");
       console.log("\nExamples:");
       console.log("  node dist/backtest/gridSearchRunner.js run 3        # Test all combinations (3 months)");
       console.log("  node dist/backtest/gridSearchRunner.js run 1 50      # Test first 50 combinations (1 month)");
       console.log("  node dist/backtest/gridSearchRunner.js run 3 100    # Test first 100 combinations (3 months)");
+      console.log("  node dist/backtest/gridSearchRunner.js run 3 --workers=4 --resume   # Continue an interrupted search");
+      console.log("  node dist/backtest/gridSearchRunner.js walkforward 3 30 10   # 30d train / 10d test folds");
+      console.log("  node dist/backtest/gridSearchRunner.js search tpe 3 80 --objective=profitFactor --min-breakouts=20");
       console.log("\nNote: Full grid search tests 576 combinations. Use maxCombinations to limit for faster testing.");
       process.exit(1);
     }
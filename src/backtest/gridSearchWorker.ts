@@ -0,0 +1,44 @@
+/**
+ * Grid Search Worker
+ *
+ * Runs inside a worker_thread spawned by parallelGridSearch: decodes the shared
+ * historical candles once, then evaluates one parameter combination per
+ * "run" message with runBacktestWithParams.
+ */
+
+import { parentPort, workerData } from "node:worker_threads";
+import { runBacktestWithParams } from "./gridSearch.js";
+import {
+  decodeHistoricalData,
+  type GridSearchWorkerData,
+  type WorkerRequest,
+  type WorkerResponse,
+} from "./parallelGridSearch.js";
+
+const port = parentPort;
+if (!port) {
+  throw new Error("gridSearchWorker must run as a worker thread");
+}
+
+const { shared, coins, months } = workerData as GridSearchWorkerData;
+const historicalData = decodeHistoricalData(shared);
+
+port.on("message", async (message: WorkerRequest) => {
+  if (message.type === "stop") {
+    port.close();
+    return;
+  }
+
+  try {
+    const result = await runBacktestWithParams(coins, historicalData, message.params, months);
+    port.postMessage({ type: "result", index: message.index, result } satisfies WorkerResponse);
+  } catch (err) {
+    port.postMessage({
+      type: "error",
+      index: message.index,
+      message: err instanceof Error ? err.message : String(err),
+    } satisfies WorkerResponse);
+  }
+});
+
+port.postMessage({ type: "ready" } satisfies WorkerResponse);
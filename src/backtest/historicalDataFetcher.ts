@@ -1,15 +1,18 @@
 /**
  * Historical Data Fetcher
  * 
- * Fetches historical 1h candle data from Hyperliquid API
+ * Fetches historical 1h candle data from Hyperliquid API.
+ * Downloads go through the on-disk candle cache (see candleCache.ts).
  */
 
 import axios from "axios";
 import { info, warn, error as logError } from "../utils/logger.js";
 import type { AssetClass } from "../assets/assetClassifier.js";
 import type { DataProvider } from "../ingestion/multiAssetIngestion.js";
+import { CANDLE_CACHE_CONFIG, getCandlesWithCache, intervalToMs } from "./candleCache.js";
 
 const HYPERLIQUID_API_URL = "https://api.hyperliquid.xyz/info";
+const MAX_CANDLES_PER_REQUEST = 5000; // candleSnapshot response cap
 
 export interface HistoricalCandle {
   coin: string;
@@ -34,15 +37,15 @@ function sleep(ms: number): Promise<void> {
 }
 
 /**
- * Fetch historical candles for a coin with retry logic
+ * Download candles from the API with retry logic (null when the request failed)
  */
-export async function fetchHistoricalCandles(
+async function downloadHistoricalCandles(
   coin: string,
   startTime: number,
   endTime: number,
-  interval: string = "1h",
-  maxRetries: number = 3
-): Promise<HistoricalCandle[]> {
+  interval: string,
+  maxRetries: number
+): Promise<HistoricalCandle[] | null> {
   let lastError: any = null;
   
   for (let attempt = 0; attempt < maxRetries; attempt++) {
@@ -110,12 +113,52 @@ export async function fetchHistoricalCandles(
       
       // Other errors or exhausted retries
       logError("HistoricalFetcher", `Failed to fetch candles for ${coin} after ${attempt + 1} attempts`, err);
-      return [];
+      return null;
     }
   }
   
   logError("HistoricalFetcher", `Failed to fetch candles for ${coin} after ${maxRetries} attempts`, lastError);
-  return [];
+  return null;
+}
+
+/**
+ * Fetch through the candle cache, reporting how many network requests were made
+ */
+async function fetchHistoricalCandlesCached(
+  coin: string,
+  startTime: number,
+  endTime: number,
+  interval: string,
+  maxRetries: number
+): Promise<{ candles: HistoricalCandle[]; downloads: number }> {
+  if (!CANDLE_CACHE_CONFIG.enabled && !CANDLE_CACHE_CONFIG.offline) {
+    const candles = await downloadHistoricalCandles(coin, startTime, endTime, interval, maxRetries);
+    return { candles: candles ?? [], downloads: 1 };
+  }
+
+  return getCandlesWithCache(
+    "hyperliquid",
+    coin,
+    interval,
+    startTime,
+    endTime,
+    (start, end) => downloadHistoricalCandles(coin, start, end, interval, maxRetries),
+    { maxSpanMs: MAX_CANDLES_PER_REQUEST * intervalToMs(interval) }
+  );
+}
+
+/**
+ * Fetch historical candles for a coin with retry logic
+ */
+export async function fetchHistoricalCandles(
+  coin: string,
+  startTime: number,
+  endTime: number,
+  interval: string = "1h",
+  maxRetries: number = 3
+): Promise<HistoricalCandle[]> {
+  const { candles } = await fetchHistoricalCandlesCached(coin, startTime, endTime, interval, maxRetries);
+  return candles;
 }
 
 /**
@@ -130,16 +173,18 @@ export async function fetchHistoricalCandlesForCoins(
   delayMs: number = 1000
 ): Promise<Map<string, HistoricalCandle[]>> {
   const results = new Map<string, HistoricalCandle[]>();
+  let fromCache = 0;
 
   console.log(`📥 Fetching historical data for ${coins.length} coins...`);
-  console.log(`   (${batchSize} coins per batch, ${delayMs}ms delay)\n`);
+  console.log(`   (${batchSize} coins per batch, ${delayMs}ms delay${CANDLE_CACHE_CONFIG.offline ? ", offline" : ""})\n`);
 
   for (let i = 0; i < coins.length; i += batchSize) {
     const batch = coins.slice(i, i + batchSize);
+    let batchDownloads = 0;
     
     // Fetch sequentially within batch to further reduce rate limiting
     for (const coin of batch) {
-      const candles = await fetchHistoricalCandles(coin, startTime, endTime, interval);
+      const { candles, downloads } = await fetchHistoricalCandlesCached(coin, startTime, endTime, interval, 3);
       if (candles.length > 0) {
         results.set(coin, candles);
         process.stdout.write('.');
@@ -147,7 +192,13 @@ export async function fetchHistoricalCandlesForCoins(
         process.stdout.write('x');
       }
       
-      await sleep(300);
+      // Cache hits don't need rate limiting
+      batchDownloads += downloads;
+      if (downloads > 0) {
+        await sleep(300);
+      } else {
+        fromCache++;
+      }
     }
 
     const progress = Math.min(i + batchSize, coins.length);
@@ -158,12 +209,12 @@ export async function fetchHistoricalCandlesForCoins(
     }
 
     // Longer delay between batches
-    if (i + batchSize < coins.length) {
+    if (i + batchSize < coins.length && batchDownloads > 0) {
       await sleep(delayMs);
     }
   }
 
-  console.log(`\n✓ Fetched data for ${results.size}/${coins.length} coins\n`);
+  console.log(`\n✓ Fetched data for ${results.size}/${coins.length} coins (${fromCache} fully cached)\n`);
   return results;
 }
 
@@ -8,14 +8,24 @@ import { info, warn, error as logError } from "../utils/logger.js";
 import { detectIntradayBreakout } from "../breakout/intradayDetector.js";
 import {
   backtestIntradaySignals,
+  simulateIntradayTrades,
   type IntradayBacktestStats,
 } from "./intradayBacktester.js";
+import {
+  TRADE_SIM_CONFIG,
+  calculateTradeStats,
+  printTradeReport,
+  type TradeSimConfig,
+  type TradeSimStats,
+} from "./tradeSimulator.js";
 import type {
   IntradayCandle,
   IntradaySignal,
   IntradayTimeframe,
 } from "../breakout/intradayTypes.js";
 import { fetchHistoricalCandles } from "./historicalDataFetcher.js";
+import { recordBacktestRun } from "./runRegistry.js";
+import { INTRADAY_CLASS_CONFIG } from "../breakout/intradayClassConfig.js";
 import { notifyIntradayBacktestResults } from "../utils/telegramNotifier.js";
 
 /**
@@ -216,25 +226,24 @@ async function backtestSymbol(
 }
 
 /**
- * Run full intraday backtest across multiple symbols and timeframes
+ * Fetch candles and generate signals for every symbol/timeframe combo
  */
-export async function runIntradayBacktest(
+async function collectBacktestSignals(
   symbols: string[],
   timeframes: IntradayTimeframe[],
-  daysBack: number = 30
-): Promise<IntradayBacktestStats> {
-  info(
-    "IntradayBacktest",
-    `Starting backtest for ${symbols.length} symbols, ${timeframes.length} timeframes, ${daysBack} days back`
-  );
-
+  daysBack: number
+): Promise<{
+  allSignals: IntradaySignal[];
+  candleData: Map<string, IntradayCandle[]>;
+  startTime: number;
+  endTime: number;
+}> {
   const endTime = Date.now();
   const startTime = endTime - daysBack * 24 * 60 * 60 * 1000;
 
   const allSignals: IntradaySignal[] = [];
   const candleData = new Map<string, IntradayCandle[]>();
 
-  // Fetch and generate signals for each symbol/timeframe combo
   for (const symbol of symbols) {
     for (const timeframe of timeframes) {
       const { signals, candles } = await backtestSymbol(
@@ -259,9 +268,54 @@ export async function runIntradayBacktest(
 
   info("IntradayBacktest", `Generated total of ${allSignals.length} signals`);
 
+  return { allSignals, candleData, startTime, endTime };
+}
+
+/**
+ * Run full intraday backtest across multiple symbols and timeframes
+ */
+export async function runIntradayBacktest(
+  symbols: string[],
+  timeframes: IntradayTimeframe[],
+  daysBack: number = 30
+): Promise<IntradayBacktestStats> {
+  info(
+    "IntradayBacktest",
+    `Starting backtest for ${symbols.length} symbols, ${timeframes.length} timeframes, ${daysBack} days back`
+  );
+
+  const { allSignals, candleData, startTime, endTime } = await collectBacktestSignals(symbols, timeframes, daysBack);
+
   // Evaluate signals
   const stats = backtestIntradaySignals(allSignals, candleData);
 
+  recordBacktestRun({
+    kind: "intraday",
+    config: {
+      daysBack,
+      symbols,
+      timeframes,
+      detection: INTRADAY_CLASS_CONFIG,
+    },
+    dataRange: {
+      startTime: new Date(startTime).toISOString(),
+      endTime: new Date(endTime).toISOString(),
+      symbols: candleData.size,
+      timeframes,
+    },
+    statistics: {
+      totalSignals: stats.totalSignals,
+      successfulSignals: stats.successfulSignals,
+      successRate: stats.successRate,
+      avgGains: { "15m": stats.avgGain15m, "1h": stats.avgGain1h, "4h": stats.avgGain4h, eod: stats.avgGainEOD },
+      longSignals: stats.directionBreakdown.long.count,
+      shortSignals: stats.directionBreakdown.short.count,
+      classBreakdown: Object.fromEntries(
+        stats.classBreakdown.map((c) => [c.class, { count: c.count, winRate: c.winRate, avgGain: c.avgGain }])
+      ),
+    },
+  });
+
   // Log results
   info("IntradayBacktest", `=== BACKTEST RESULTS ===`);
   info("IntradayBacktest", `Total Signals: ${stats.totalSignals}`);
@@ -296,6 +350,42 @@ export async function runIntradayBacktest(
   return stats;
 }
 
+/**
+ * Replay intraday signals as trades with stops, targets, fees and funding
+ */
+export async function runIntradayTradeBacktest(
+  symbols: string[],
+  timeframes: IntradayTimeframe[],
+  daysBack: number = 30,
+  config: TradeSimConfig = TRADE_SIM_CONFIG
+): Promise<TradeSimStats> {
+  info(
+    "IntradayBacktest",
+    `Starting trade simulation for ${symbols.length} symbols, ${timeframes.length} timeframes, ${daysBack} days back`
+  );
+
+  const { allSignals, candleData } = await collectBacktestSignals(symbols, timeframes, daysBack);
+  const trades = simulateIntradayTrades(allSignals, candleData, config);
+  const stats = calculateTradeStats(trades, config);
+
+  printTradeReport("INTRADAY TRADE RESULTS", stats, config);
+
+  // Per-timeframe expectancy
+  for (const timeframe of timeframes) {
+    const subset = trades.filter((t) => t.source.endsWith(`/${timeframe}`));
+    if (subset.length === 0) continue;
+    const subsetStats = calculateTradeStats(subset, config);
+    info(
+      "IntradayBacktest",
+      `${timeframe}: ${subset.length} trades, ${subsetStats.winRate.toFixed(1)}% win, ` +
+        `${subsetStats.expectancyPct.toFixed(2)}% expectancy, PF ${subsetStats.profitFactor.toFixed(2)}, ` +
+        `maxDD ${subsetStats.maxDrawdownPct.toFixed(1)}%`
+    );
+  }
+
+  return stats;
+}
+
 /**
  * Run backtest and send results to Telegram
  */
@@ -20,6 +20,21 @@ import {
   INTRADAY_SUCCESS_THRESHOLDS,
   type IntradaySuccessThresholds,
 } from "../breakout/intradayClassConfig.js";
+import {
+  TRADE_SIM_CONFIG,
+  simulateTrade,
+  type SimulatedTrade,
+  type TradeSimConfig,
+} from "./tradeSimulator.js";
+
+/**
+ * Time stop per timeframe for trade simulation
+ */
+export const INTRADAY_MAX_HOLD_HOURS: Record<IntradayTimeframe, number> = {
+  "5m": 2,
+  "15m": 6,
+  "1h": 12,
+};
 
 /**
  * Signal evaluation result
@@ -432,3 +447,40 @@ export function backtestIntradaySignals(
   return calculateIntradayStats(evaluations);
 }
 
+
+
+/**
+ * Replay intraday signals as trades (entry at the open of the next candle)
+ */
+export function simulateIntradayTrades(
+  signals: IntradaySignal[],
+  candleData: Map<string, IntradayCandle[]>,
+  config: TradeSimConfig = TRADE_SIM_CONFIG,
+  maxHoldHours: Record<IntradayTimeframe, number> = INTRADAY_MAX_HOLD_HOURS
+): SimulatedTrade[] {
+  const trades: SimulatedTrade[] = [];
+
+  for (const signal of signals) {
+    const candles = candleData.get(signal.symbol);
+    if (!candles) continue;
+
+    const trade = simulateTrade(
+      {
+        symbol: signal.symbol,
+        source: `${signal.pattern}/${signal.timeframe}`,
+        direction: signal.direction,
+        timestamp: signal.timestamp,
+        confidence: signal.confidence,
+      },
+      candles.filter((c) => c.timestamp <= signal.timestamp),
+      candles.filter((c) => c.timestamp > signal.timestamp),
+      { ...config, maxHoldHours: maxHoldHours[signal.timeframe] ?? config.maxHoldHours }
+    );
+
+    if (trade) {
+      trades.push(trade);
+    }
+  }
+
+  return trades;
+}
@@ -8,27 +8,28 @@
 import mockRedis from "./mockRedis.js";
 import type { ProcessedCandle } from "../stream/candleStreamer.js";
 
-const MAX_CANDLES_STORED = 60;
+const MAX_CANDLES_STORED = 168; // Same retention as the live candle store
 
 class MockCandleStreamer {
   /**
-   * Store a candle (simulates the live system's processCandle)
+   * Store a closed candle (simulates the live store's upsert by open time)
    */
   async storeCandle(candle: ProcessedCandle): Promise<void> {
     const key = `candles:1h:${candle.coin}`;
     const candleJson = JSON.stringify(candle);
     
-    await mockRedis.lpush(key, candleJson);
-    await mockRedis.ltrim(key, 0, MAX_CANDLES_STORED - 1);
+    await mockRedis.zremrangebyscore(key, candle.openTime, candle.openTime);
+    await mockRedis.zadd(key, candle.openTime, candleJson);
+    await mockRedis.zremrangebyrank(key, 0, -(MAX_CANDLES_STORED + 1));
   }
 
   /**
-   * Get recent candles for a coin (same interface as live system)
+   * Get closed candles for a coin, newest first (same interface as live system)
    */
-  async getCandles(coin: string, limit: number = 20): Promise<ProcessedCandle[]> {
+  async getClosedCandles(coin: string, limit: number = 20): Promise<ProcessedCandle[]> {
     try {
       const key = `candles:1h:${coin}`;
-      const candleJsons = await mockRedis.lrange(key, 0, limit - 1);
+      const candleJsons = await mockRedis.zrevrange(key, 0, limit - 1);
 
       return candleJsons
         .filter((json) => json)
@@ -38,6 +39,13 @@ class MockCandleStreamer {
     }
   }
 
+  /**
+   * Get recent candles for a coin (backtests replay closed candles only)
+   */
+  async getCandles(coin: string, limit: number = 20): Promise<ProcessedCandle[]> {
+    return this.getClosedCandles(coin, limit);
+  }
+
   /**
    * Get the latest candle for a coin
    */
@@ -55,4 +63,3 @@ class MockCandleStreamer {
 }
 
 export default new MockCandleStreamer();
-
@@ -116,6 +116,29 @@ class MockRedis {
     return originalLength - filtered.length;
   }
 
+  /**
+   * Simulate ZREVRANGE - get range by rank, highest score first
+   */
+  async zrevrange(key: string, start: number, stop: number): Promise<string[]> {
+    const set = [...(this.sortedSets.get(key) || [])].reverse();
+    const end = stop < 0 ? set.length + stop + 1 : stop + 1;
+    return set.slice(start, end).map(e => e.value);
+  }
+
+  /**
+   * Simulate ZREMRANGEBYRANK - remove range by rank, lowest score first
+   */
+  async zremrangebyrank(key: string, start: number, stop: number): Promise<number> {
+    const set = this.sortedSets.get(key);
+    if (!set) return 0;
+
+    const from = start < 0 ? Math.max(set.length + start, 0) : start;
+    const to = stop < 0 ? set.length + stop : stop;
+    if (from > to) return 0;
+
+    return set.splice(from, to - from + 1).length;
+  }
+
   /**
    * Simulate KEYS - get all keys matching pattern
    */
@@ -5,6 +5,8 @@ import {
   fetchMultiAssetHistoricalCandlesForSymbols,
   getDefaultMultiAssetSymbols,
 } from "./multiAssetHistoricalFetcher.js";
+import { recordBacktestRun } from "./runRegistry.js";
+import { CLASS_CONFIG } from "../breakout/breakoutClassConfig.js";
 import { initTelegram, notifyBacktestResults } from "../utils/telegramNotifier.js";
 import { info } from "../utils/logger.js";
 
@@ -108,6 +110,35 @@ async function runMultiAssetBacktest(symbols: string[], months: number = 3): Pro
   const stats = calculateStatistics(results);
   printReport(stats);
 
+  recordBacktestRun({
+    kind: "multi-asset",
+    config: {
+      months,
+      symbols,
+      detection: CLASS_CONFIG,
+    },
+    dataRange: {
+      startTime: new Date(startTime).toISOString(),
+      endTime: new Date(endTime).toISOString(),
+      symbols: historicalData.size,
+      timeframes: ["1h"],
+    },
+    statistics: {
+      totalSignals: stats.totalBreakouts,
+      successfulSignals: stats.successfulBreakouts,
+      successRate: stats.successRate,
+      avgGains: { "1h": stats.avgGain1h, "4h": stats.avgGain4h, "12h": stats.avgGain12h, "24h": stats.avgGain24h },
+      longSignals: stats.longBreakouts,
+      shortSignals: stats.shortBreakouts,
+      classBreakdown: Object.fromEntries(
+        Object.entries(stats.classBreakdown).map(([cls, summary]) => [
+          cls,
+          { count: summary.count, winRate: summary.winRate, avgGain: summary.avg24h },
+        ])
+      ),
+    },
+  });
+
   await notifyBacktestResults({
     totalBreakouts: stats.totalBreakouts,
     successfulBreakouts: stats.successfulBreakouts,
@@ -4,6 +4,7 @@ import { classifyAsset } from "../assets/assetClassifier.js";
 import type { HistoricalCandle } from "./historicalDataFetcher.js";
 import type { DataProvider } from "../ingestion/multiAssetIngestion.js";
 import { MULTI_ASSET_SYMBOLS } from "../ingestion/multiAssetIngestion.js";
+import { CANDLE_CACHE_CONFIG, getCandlesWithCache } from "./candleCache.js";
 
 const YAHOO_CHART_URL = "https://query1.finance.yahoo.com/v8/finance/chart";
 const TWELVE_DATA_URL = "https://api.twelvedata.com/time_series";
@@ -158,11 +159,15 @@ async function fetchTwelveDataHistoricalCandles(
     .filter((candle: HistoricalCandle | null): candle is HistoricalCandle => candle !== null);
 }
 
-export async function fetchMultiAssetHistoricalCandles(
+/**
+ * Try Yahoo, then TwelveData. Null when neither returned candles, so the range
+ * is not cached as empty (market closures and rate limits look the same here).
+ */
+async function downloadMultiAssetHistoricalCandles(
   symbol: string,
   startTime: number,
   endTime: number
-): Promise<HistoricalCandle[]> {
+): Promise<HistoricalCandle[] | null> {
   try {
     const yahooCandles = await fetchYahooHistoricalCandles(symbol, startTime, endTime);
     if (yahooCandles.length > 0) {
@@ -182,7 +187,34 @@ export async function fetchMultiAssetHistoricalCandles(
   }
 
   warn("MultiAssetHistoricalFetcher", `No historical data available for ${symbol}`);
-  return [];
+  return null;
+}
+
+/**
+ * Fetch through the candle cache, reporting how many network requests were made
+ */
+async function fetchMultiAssetHistoricalCandlesCached(
+  symbol: string,
+  startTime: number,
+  endTime: number
+): Promise<{ candles: HistoricalCandle[]; downloads: number }> {
+  if (!CANDLE_CACHE_CONFIG.enabled && !CANDLE_CACHE_CONFIG.offline) {
+    const candles = await downloadMultiAssetHistoricalCandles(symbol, startTime, endTime);
+    return { candles: candles ?? [], downloads: 1 };
+  }
+
+  return getCandlesWithCache("multiasset", symbol, "1h", startTime, endTime, (start, end) =>
+    downloadMultiAssetHistoricalCandles(symbol, start, end)
+  );
+}
+
+export async function fetchMultiAssetHistoricalCandles(
+  symbol: string,
+  startTime: number,
+  endTime: number
+): Promise<HistoricalCandle[]> {
+  const { candles } = await fetchMultiAssetHistoricalCandlesCached(symbol, startTime, endTime);
+  return candles;
 }
 
 export async function fetchMultiAssetHistoricalCandlesForSymbols(
@@ -202,12 +234,15 @@ export async function fetchMultiAssetHistoricalCandlesForSymbols(
 
   for (let i = 0; i < uniqueSymbols.length; i += batchSize) {
     const batch = uniqueSymbols.slice(i, i + batchSize);
+    let batchDownloads = 0;
 
     for (const symbol of batch) {
+      let downloads = 1;
       try {
-        const candles = await fetchMultiAssetHistoricalCandles(symbol, startTime, endTime);
-        if (candles.length > 0) {
-          results.set(symbol, candles);
+        const fetched = await fetchMultiAssetHistoricalCandlesCached(symbol, startTime, endTime);
+        downloads = fetched.downloads;
+        if (fetched.candles.length > 0) {
+          results.set(symbol, fetched.candles);
           process.stdout.write(".");
         } else {
           process.stdout.write("x");
@@ -221,14 +256,17 @@ export async function fetchMultiAssetHistoricalCandlesForSymbols(
         );
       }
 
-      await sleep(300);
+      batchDownloads += downloads;
+      if (downloads > 0) {
+        await sleep(300);
+      }
     }
 
     const fetched = Math.min(i + batchSize, uniqueSymbols.length);
     const pct = ((fetched / uniqueSymbols.length) * 100).toFixed(0);
     info("MultiAssetHistoricalFetcher", `Progress: ${fetched}/${uniqueSymbols.length} (${pct}%)`);
 
-    if (i + batchSize < uniqueSymbols.length) {
+    if (i + batchSize < uniqueSymbols.length && batchDownloads > 0) {
       await sleep(delayMs);
     }
   }
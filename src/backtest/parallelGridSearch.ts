@@ -0,0 +1,350 @@
+/**
+ * Parallel Grid Search
+ *
+ * Fans parameter combinations out across worker_threads:
+ *   - Historical candles are packed once into a SharedArrayBuffer; workers
+ *     decode it read-only instead of receiving a copy each
+ *   - Each worker evaluates one combination at a time with runBacktestWithParams
+ *     and pulls the next one from the queue when it finishes
+ *   - Completed results are checkpointed to disk so an interrupted search can
+ *     resume with the same time range and skip finished combinations
+ */
+
+import { Worker } from "node:worker_threads";
+import { availableParallelism } from "node:os";
+import crypto from "node:crypto";
+import { existsSync, readFileSync, renameSync, unlinkSync, writeFileSync } from "fs";
+import type { HistoricalCandle } from "./historicalDataFetcher.js";
+import type { GridSearchParams, GridSearchResult } from "./gridSearch.js";
+import { paramsKey } from "./searchSpace.js";
+
+// timestamp, openTime, closeTime, open, close, high, low, volume, numTrades
+const FIELDS_PER_CANDLE = 9;
+const CHECKPOINT_INTERVAL_MS = 15 * 1000;
+
+export interface SharedCandleIndex {
+  coin: string;
+  offset: number; // In candles
+  length: number;
+  assetClass?: HistoricalCandle["assetClass"];
+  provider?: HistoricalCandle["provider"];
+}
+
+export interface SharedCandleData {
+  buffer: SharedArrayBuffer;
+  index: SharedCandleIndex[];
+}
+
+/**
+ * Pack historical candles into a SharedArrayBuffer
+ */
+export function encodeHistoricalData(historicalData: Map<string, HistoricalCandle[]>): SharedCandleData {
+  let total = 0;
+  for (const candles of historicalData.values()) {
+    total += candles.length;
+  }
+
+  const buffer = new SharedArrayBuffer(total * FIELDS_PER_CANDLE * Float64Array.BYTES_PER_ELEMENT);
+  const view = new Float64Array(buffer);
+  const index: SharedCandleIndex[] = [];
+  let offset = 0;
+
+  for (const [coin, candles] of historicalData) {
+    const first = candles[0];
+    index.push({
+      coin,
+      offset,
+      length: candles.length,
+      ...(first?.assetClass !== undefined ? { assetClass: first.assetClass } : {}),
+      ...(first?.provider !== undefined ? { provider: first.provider } : {}),
+    });
+
+    for (const c of candles) {
+      view.set(
+        [c.timestamp, c.openTime, c.closeTime, c.open, c.close, c.high, c.low, c.volume, c.numTrades],
+        offset * FIELDS_PER_CANDLE
+      );
+      offset++;
+    }
+  }
+
+  return { buffer, index };
+}
+
+/**
+ * Rebuild the candle map from shared memory
+ */
+export function decodeHistoricalData(shared: SharedCandleData): Map<string, HistoricalCandle[]> {
+  const view = new Float64Array(shared.buffer);
+  const historicalData = new Map<string, HistoricalCandle[]>();
+
+  for (const entry of shared.index) {
+    const candles: HistoricalCandle[] = [];
+    for (let i = 0; i < entry.length; i++) {
+      const base = (entry.offset + i) * FIELDS_PER_CANDLE;
+      const candle: HistoricalCandle = {
+        coin: entry.coin,
+        timestamp: view[base]!,
+        openTime: view[base + 1]!,
+        closeTime: view[base + 2]!,
+        open: view[base + 3]!,
+        close: view[base + 4]!,
+        high: view[base + 5]!,
+        low: view[base + 6]!,
+        volume: view[base + 7]!,
+        numTrades: view[base + 8]!,
+      };
+      if (entry.assetClass !== undefined) candle.assetClass = entry.assetClass;
+      if (entry.provider !== undefined) candle.provider = entry.provider;
+      candles.push(candle);
+    }
+    historicalData.set(entry.coin, candles);
+  }
+
+  return historicalData;
+}
+
+/**
+ * Messages exchanged with gridSearchWorker
+ */
+export type WorkerRequest =
+  | { type: "run"; index: number; params: GridSearchParams }
+  | { type: "stop" };
+
+export type WorkerResponse =
+  | { type: "ready" }
+  | { type: "result"; index: number; result: GridSearchResult }
+  | { type: "error"; index: number; message: string };
+
+export interface GridSearchWorkerData {
+  shared: SharedCandleData;
+  coins: string[];
+  months: number;
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoints
+// ---------------------------------------------------------------------------
+
+export interface GridSearchCheckpoint {
+  fingerprint: string;
+  months: number;
+  startTime: number;
+  endTime: number;
+  total: number;
+  updatedAt: string;
+  completed: Record<string, GridSearchResult>; // Combination index -> result
+}
+
+/**
+ * Identify a search by its coins, period and combinations, so a checkpoint is
+ * only reused for the same search
+ */
+export function gridSearchFingerprint(coins: string[], months: number, combinations: GridSearchParams[]): string {
+  const hash = crypto.createHash("sha1");
+  hash.update([...coins].sort().join(","));
+  hash.update(`|${months}|`);
+  combinations.forEach((params) => hash.update(`${paramsKey(params)};`));
+  return hash.digest("hex");
+}
+
+export function loadCheckpoint(path: string, fingerprint: string): GridSearchCheckpoint | null {
+  if (!existsSync(path)) {
+    return null;
+  }
+
+  try {
+    const checkpoint = JSON.parse(readFileSync(path, "utf8")) as GridSearchCheckpoint;
+    return checkpoint.fingerprint === fingerprint ? checkpoint : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write atomically (temp file + rename) so a crash mid-write keeps the previous checkpoint
+ */
+export function saveCheckpoint(path: string, checkpoint: GridSearchCheckpoint): void {
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify({ ...checkpoint, updatedAt: new Date().toISOString() }));
+  renameSync(tmpPath, path);
+}
+
+export function removeCheckpoint(path: string): void {
+  if (existsSync(path)) {
+    unlinkSync(path);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Worker pool
+// ---------------------------------------------------------------------------
+
+export interface ParallelProgress {
+  completed: number;
+  total: number;
+  resumed: number;
+  elapsedMs: number;
+  bestScore: number | null;
+}
+
+export interface ParallelGridSearchOptions {
+  workers: number;
+  checkpoint: GridSearchCheckpoint | null; // Written as results arrive
+  checkpointPath: string | null;
+  onProgress?: (progress: ParallelProgress) => void;
+}
+
+export function defaultWorkerCount(): number {
+  return Math.max(1, availableParallelism() - 1);
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m${(seconds % 60).toString().padStart(2, "0")}s`;
+  return `${Math.floor(minutes / 60)}h${(minutes % 60).toString().padStart(2, "0")}m`;
+}
+
+/**
+ * Default progress line: completed, rate, ETA and best score so far
+ */
+export function printProgress(progress: ParallelProgress): void {
+  const done = progress.completed - progress.resumed;
+  const remaining = progress.total - progress.completed;
+  const rate = done > 0 ? done / (progress.elapsedMs / 60000) : 0;
+  const eta = done > 0 ? formatDuration((progress.elapsedMs / done) * remaining) : "-";
+  const pct = ((progress.completed / Math.max(progress.total, 1)) * 100).toFixed(1);
+
+  process.stdout.write(
+    `\r  ${progress.completed}/${progress.total} (${pct}%) - ${rate.toFixed(1)}/min, ETA ${eta}, ` +
+    `best score ${progress.bestScore !== null ? progress.bestScore.toFixed(2) : "-"}   `
+  );
+}
+
+/**
+ * Evaluate combinations across worker threads.
+ * Returns results indexed like `combinations` (including any resumed from the checkpoint).
+ */
+export async function evaluateCombinationsInParallel(
+  coins: string[],
+  months: number,
+  historicalData: Map<string, HistoricalCandle[]>,
+  combinations: GridSearchParams[],
+  options: ParallelGridSearchOptions
+): Promise<GridSearchResult[]> {
+  const results = new Map<number, GridSearchResult>();
+  const checkpoint = options.checkpoint;
+
+  if (checkpoint) {
+    for (const [index, result] of Object.entries(checkpoint.completed)) {
+      results.set(Number(index), result);
+    }
+  }
+
+  const resumed = results.size;
+  const queue = combinations.map((_, i) => i).filter((i) => !results.has(i));
+  const startedAt = Date.now();
+  let bestScore: number | null = null;
+  for (const result of results.values()) {
+    bestScore = bestScore === null ? result.score : Math.max(bestScore, result.score);
+  }
+
+  let lastCheckpointAt = Date.now();
+  const writeCheckpoint = (force: boolean) => {
+    if (!checkpoint || !options.checkpointPath) return;
+    if (!force && Date.now() - lastCheckpointAt < CHECKPOINT_INTERVAL_MS) return;
+    checkpoint.completed = Object.fromEntries(results);
+    saveCheckpoint(options.checkpointPath, checkpoint);
+    lastCheckpointAt = Date.now();
+  };
+
+  const report = () =>
+    options.onProgress?.({
+      completed: results.size,
+      total: combinations.length,
+      resumed,
+      elapsedMs: Date.now() - startedAt,
+      bestScore,
+    });
+
+  if (queue.length === 0) {
+    report();
+    return combinations.map((_, i) => results.get(i)!);
+  }
+
+  const shared = encodeHistoricalData(historicalData);
+  const workerCount = Math.min(Math.max(options.workers, 1), queue.length);
+  const workerData: GridSearchWorkerData = { shared, coins, months };
+  const workers: Worker[] = [];
+
+  // Save progress if the process is interrupted
+  const onSignal = () => {
+    writeCheckpoint(true);
+    console.log(`\n\n⏸  Interrupted - checkpoint saved (${results.size}/${combinations.length}). Re-run with --resume to continue.`);
+    workers.forEach((w) => void w.terminate());
+    process.exit(130);
+  };
+  process.once("SIGINT", onSignal);
+  process.once("SIGTERM", onSignal);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let active = workerCount;
+      let failed = false;
+
+      const dispatch = (worker: Worker) => {
+        const index = queue.shift();
+        if (index === undefined) {
+          worker.postMessage({ type: "stop" } satisfies WorkerRequest);
+          return;
+        }
+        worker.postMessage({ type: "run", index, params: combinations[index]! } satisfies WorkerRequest);
+      };
+
+      for (let i = 0; i < workerCount; i++) {
+        const worker = new Worker(new URL("./gridSearchWorker.js", import.meta.url), { workerData });
+        workers.push(worker);
+
+        worker.on("message", (message: WorkerResponse) => {
+          if (message.type === "result") {
+            results.set(message.index, message.result);
+            bestScore = bestScore === null ? message.result.score : Math.max(bestScore, message.result.score);
+            report();
+            writeCheckpoint(false);
+          } else if (message.type === "error") {
+            failed = true;
+            writeCheckpoint(true);
+            reject(new Error(`Combination ${message.index} failed: ${message.message}`));
+            return;
+          }
+
+          if (!failed) {
+            dispatch(worker);
+          }
+        });
+
+        worker.on("error", (err) => {
+          failed = true;
+          writeCheckpoint(true);
+          reject(err);
+        });
+
+        worker.on("exit", () => {
+          active--;
+          if (active === 0 && !failed) {
+            resolve();
+          }
+        });
+      }
+    });
+  } finally {
+    process.removeListener("SIGINT", onSignal);
+    process.removeListener("SIGTERM", onSignal);
+    await Promise.all(workers.map((w) => w.terminate()));
+  }
+
+  writeCheckpoint(true);
+  return combinations.map((_, i) => results.get(i)!);
+}
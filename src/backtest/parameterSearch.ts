@@ -0,0 +1,346 @@
+/**
+ * Parameter Search Strategies
+ *
+ * Alternatives to the exhaustive grid, all evaluated with runBacktestWithParams:
+ *   - grid:   Cartesian product of the search space (ranges discretized)
+ *   - random: independent uniform samples
+ *   - lhs:    Latin hypercube, one sample per stratum of every dimension
+ *   - tpe:    Tree-structured Parzen Estimator; after a random warm-up, samples
+ *             candidates near the best quarter of trials and keeps the one with
+ *             the highest good/bad density ratio
+ *
+ * Trials are ranked by a selectable objective. Parameter sets with fewer than
+ * minBreakouts breakouts are infeasible, and the search stops early after
+ * `patience` trials without an improvement of at least minDelta.
+ */
+
+import { fetchHistoricalCandlesForCoins, getTimeRange } from "./historicalDataFetcher.js";
+import { runBacktestWithParams, type GridSearchParams, type GridSearchResult } from "./gridSearch.js";
+import {
+  DEFAULT_SEARCH_SPACE,
+  SEARCH_DIMENSIONS,
+  enumerateSearchSpace,
+  paramsFromUnitPoint,
+  paramsKey,
+  type SearchSpace,
+} from "./searchSpace.js";
+
+export type SearchStrategy = "grid" | "random" | "lhs" | "tpe";
+export type SearchObjective = "score" | "successRate" | "avgGain24h" | "avgReturn24h" | "profitFactor";
+
+export const SEARCH_STRATEGIES: SearchStrategy[] = ["grid", "random", "lhs", "tpe"];
+export const SEARCH_OBJECTIVES: SearchObjective[] = ["score", "successRate", "avgGain24h", "avgReturn24h", "profitFactor"];
+
+export interface ParameterSearchOptions {
+  strategy: SearchStrategy;
+  objective: SearchObjective;
+  space: SearchSpace;
+  maxTrials: number;
+  minBreakouts: number; // Signal count constraint
+  patience: number; // Trials without improvement before stopping, 0 = never
+  minDelta: number; // Smallest objective gain that counts as improvement
+  seed: number;
+  startupTrials: number; // Random trials before TPE starts modelling
+}
+
+export const DEFAULT_SEARCH_OPTIONS: ParameterSearchOptions = {
+  strategy: "tpe",
+  objective: "score",
+  space: DEFAULT_SEARCH_SPACE,
+  maxTrials: 100,
+  minBreakouts: 10,
+  patience: 30,
+  minDelta: 0.01,
+  seed: 42,
+  startupTrials: 15,
+};
+
+export interface SearchTrial {
+  index: number;
+  params: GridSearchParams;
+  point: number[]; // Unit-cube coordinates (empty for grid trials)
+  result: GridSearchResult;
+  objective: number;
+  feasible: boolean;
+}
+
+export interface ParameterSearchReport {
+  options: ParameterSearchOptions;
+  trials: SearchTrial[];
+  best: SearchTrial | null;
+  stopReason: "exhausted" | "max_trials" | "early_stopping";
+}
+
+interface Candidate {
+  params: GridSearchParams;
+  point: number[];
+}
+
+/**
+ * Proposes the next parameter set, or null when the strategy is exhausted
+ */
+interface ParameterSampler {
+  next(trials: SearchTrial[], seen: Set<string>): Candidate | null;
+}
+
+/**
+ * Deterministic PRNG (mulberry32) so searches are reproducible with --seed
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function gaussian(rng: () => number): number {
+  const u = Math.max(rng(), 1e-12);
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+const MAX_DUPLICATE_RETRIES = 50;
+
+/**
+ * Draw unit points until one maps to an unseen parameter set
+ */
+function uniqueCandidate(
+  space: SearchSpace,
+  seen: Set<string>,
+  draw: () => number[]
+): Candidate | null {
+  for (let attempt = 0; attempt < MAX_DUPLICATE_RETRIES; attempt++) {
+    const point = draw();
+    const params = paramsFromUnitPoint(space, point);
+    if (!seen.has(paramsKey(params))) {
+      return { params, point };
+    }
+  }
+  return null;
+}
+
+function createGridSampler(space: SearchSpace): ParameterSampler {
+  const combinations = enumerateSearchSpace(space);
+  let index = 0;
+
+  return {
+    next: () => {
+      const params = combinations[index++];
+      return params ? { params, point: [] } : null;
+    },
+  };
+}
+
+function createRandomSampler(space: SearchSpace, rng: () => number): ParameterSampler {
+  return {
+    next: (_trials, seen) => uniqueCandidate(space, seen, () => SEARCH_DIMENSIONS.map(() => rng())),
+  };
+}
+
+function createLatinHypercubeSampler(space: SearchSpace, rng: () => number, samples: number): ParameterSampler {
+  // One random permutation of strata per dimension
+  const strata = SEARCH_DIMENSIONS.map(() => {
+    const order = Array.from({ length: samples }, (_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(rng() * (i + 1));
+      [order[i], order[j]] = [order[j]!, order[i]!];
+    }
+    return order;
+  });
+  let index = 0;
+
+  return {
+    next: (_trials, seen) => {
+      while (index < samples) {
+        const i = index++;
+        const point = strata.map((order) => (order[i]! + rng()) / samples);
+        const params = paramsFromUnitPoint(space, point);
+        // Discrete dimensions can collapse strata onto the same parameter set
+        if (!seen.has(paramsKey(params))) {
+          return { params, point };
+        }
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * Parzen density of x over points with a Gaussian kernel, mixed with a uniform prior
+ */
+function parzenDensity(x: number, points: number[], bandwidth: number): number {
+  const norm = 1 / (bandwidth * Math.sqrt(2 * Math.PI));
+  const kernels = points.reduce((sum, p) => sum + norm * Math.exp(-0.5 * ((x - p) / bandwidth) ** 2), 0);
+  return (kernels + 1) / (points.length + 1);
+}
+
+function createTpeSampler(
+  space: SearchSpace,
+  rng: () => number,
+  startupTrials: number
+): ParameterSampler {
+  const gamma = 0.25;
+  const candidatesPerStep = 24;
+  const random = createRandomSampler(space, rng);
+
+  return {
+    next: (trials, seen) => {
+      const modelled = trials.filter((t) => t.point.length === SEARCH_DIMENSIONS.length);
+      if (modelled.length < startupTrials) {
+        return random.next(trials, seen);
+      }
+
+      // Infeasible trials always land in the "bad" group
+      const ranked = [...modelled].sort((a, b) =>
+        (b.feasible ? b.objective : -Infinity) - (a.feasible ? a.objective : -Infinity)
+      );
+      const goodCount = Math.max(1, Math.ceil(gamma * ranked.filter((t) => t.feasible).length));
+      const good = ranked.slice(0, goodCount);
+      const bad = ranked.slice(goodCount);
+      const bandwidth = Math.max(0.05, 0.3 / Math.sqrt(good.length));
+
+      let bestCandidate: Candidate | null = null;
+      let bestRatio = -Infinity;
+
+      for (let c = 0; c < candidatesPerStep; c++) {
+        const point = SEARCH_DIMENSIONS.map((_, d) => {
+          const center = good[Math.floor(rng() * good.length)]!.point[d]!;
+          return Math.min(Math.max(center + gaussian(rng) * bandwidth, 0), 1 - 1e-9);
+        });
+        const params = paramsFromUnitPoint(space, point);
+        if (seen.has(paramsKey(params))) {
+          continue;
+        }
+
+        let ratio = 0;
+        for (let d = 0; d < point.length; d++) {
+          const l = parzenDensity(point[d]!, good.map((t) => t.point[d]!), bandwidth);
+          const g = parzenDensity(point[d]!, bad.map((t) => t.point[d]!), bandwidth);
+          ratio += Math.log(l) - Math.log(g);
+        }
+
+        if (ratio > bestRatio) {
+          bestRatio = ratio;
+          bestCandidate = { params, point };
+        }
+      }
+
+      return bestCandidate ?? random.next(trials, seen);
+    },
+  };
+}
+
+function createSampler(options: ParameterSearchOptions, rng: () => number): ParameterSampler {
+  switch (options.strategy) {
+    case "grid":
+      return createGridSampler(options.space);
+    case "random":
+      return createRandomSampler(options.space, rng);
+    case "lhs":
+      return createLatinHypercubeSampler(options.space, rng, options.maxTrials);
+    case "tpe":
+      return createTpeSampler(options.space, rng, options.startupTrials);
+  }
+}
+
+/**
+ * Objective value of a result (higher is better)
+ */
+export function objectiveValue(result: GridSearchResult, objective: SearchObjective): number {
+  switch (objective) {
+    case "score":
+      return result.score;
+    case "successRate":
+      return result.statistics.successRate;
+    case "avgGain24h":
+      return result.statistics.avgGain24h;
+    case "avgReturn24h":
+      return result.statistics.avgReturn24h;
+    case "profitFactor":
+      return result.statistics.profitFactor;
+  }
+}
+
+/**
+ * Search the parameter space with the chosen strategy
+ */
+export async function runParameterSearch(
+  coins: string[],
+  months: number = 3,
+  overrides: Partial<ParameterSearchOptions> = {}
+): Promise<ParameterSearchReport> {
+  const options: ParameterSearchOptions = { ...DEFAULT_SEARCH_OPTIONS, ...overrides };
+
+  console.log("\n" + "=".repeat(80));
+  console.log("PARAMETER SEARCH");
+  console.log("=".repeat(80));
+  console.log(`Coins: ${coins.length}`);
+  console.log(`Period: Last ${months} months`);
+  console.log(`Strategy: ${options.strategy}  Objective: ${options.objective}  Max trials: ${options.maxTrials}`);
+  console.log(`Constraint: >= ${options.minBreakouts} breakouts  Patience: ${options.patience || "off"}  Seed: ${options.seed}`);
+  console.log("=".repeat(80) + "\n");
+
+  const { startTime, endTime } = getTimeRange(months);
+  console.log("📥 Fetching historical candle data...");
+  const historicalData = await fetchHistoricalCandlesForCoins(
+    coins,
+    startTime,
+    endTime,
+    "1h",
+    3,
+    1000
+  );
+  console.log(`✓ Fetched data for ${historicalData.size} coins\n`);
+
+  const rng = createRng(options.seed);
+  const sampler = createSampler(options, rng);
+  const trials: SearchTrial[] = [];
+  const seen = new Set<string>();
+  let best: SearchTrial | null = null;
+  let sinceImprovement = 0;
+  let stopReason: ParameterSearchReport["stopReason"] = "max_trials";
+
+  while (trials.length < options.maxTrials) {
+    const candidate = sampler.next(trials, seen);
+    if (!candidate) {
+      stopReason = "exhausted";
+      break;
+    }
+    seen.add(paramsKey(candidate.params));
+
+    const result = await runBacktestWithParams(coins, historicalData, candidate.params, months);
+    const trial: SearchTrial = {
+      index: trials.length,
+      params: candidate.params,
+      point: candidate.point,
+      result,
+      objective: objectiveValue(result, options.objective),
+      feasible: result.statistics.totalBreakouts >= options.minBreakouts,
+    };
+    trials.push(trial);
+
+    if (trial.feasible && (!best || trial.objective > best.objective + options.minDelta)) {
+      best = trial;
+      sinceImprovement = 0;
+    } else {
+      sinceImprovement++;
+    }
+
+    process.stdout.write(
+      `\r  Trial ${trials.length}/${options.maxTrials} - ${options.objective}=${trial.objective.toFixed(2)}` +
+      `${trial.feasible ? "" : " (infeasible)"}  best=${best ? best.objective.toFixed(2) : "-"}   `
+    );
+
+    if (options.patience > 0 && sinceImprovement >= options.patience) {
+      stopReason = "early_stopping";
+      break;
+    }
+  }
+
+  console.log(`\n\n✓ Search complete: ${trials.length} trials (${stopReason.replace("_", " ")})\n`);
+
+  return { options, trials, best, stopReason };
+}
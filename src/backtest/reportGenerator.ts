@@ -0,0 +1,425 @@
+/**
+ * Backtest Report Generator
+ *
+ * Renders a self-contained HTML report (inline CSS and SVG, no external assets)
+ * for a backtest run and saves it as reports/<runId>.html:
+ *   - Run metadata and headline numbers
+ *   - Breakout tables by asset class, direction and breakout type
+ *   - Gain / return distributions
+ *   - Per-coin breakdown
+ *   - Equity curve and every simulated trade
+ *   - Ranked parameter sets for grid searches
+ * Sections without data are left out.
+ */
+
+import { mkdirSync, writeFileSync } from "fs";
+import crypto from "node:crypto";
+import path from "path";
+import type { AssetClass } from "../assets/assetClassifier.js";
+import type { BreakoutDirection, BreakoutSignal } from "../breakout/breakoutDetector.js";
+import type { GridSearchResult } from "./gridSearch.js";
+import type { SimulatedTrade, TradeSimStats } from "./tradeSimulator.js";
+
+export const REPORTS_DIR = process.env.BACKTEST_REPORTS_DIR || "reports";
+
+const MAX_GRID_ROWS = 100;
+
+export type BacktestReportKind = "backtest" | "trades" | "full-system" | "grid-search";
+
+export interface ReportBreakout {
+  coin: string;
+  assetClass: AssetClass;
+  direction: BreakoutDirection;
+  breakoutType: BreakoutSignal["breakoutType"];
+  timestamp: number;
+  price: number;
+  confidence: number;
+  gain1h: number;
+  gain4h: number;
+  gain12h: number;
+  gain24h: number;
+  success: boolean;
+}
+
+export interface BacktestReport {
+  runId: string;
+  kind: BacktestReportKind;
+  title: string;
+  generatedAt: number;
+  metadata: Record<string, string | number>;
+  breakouts?: ReportBreakout[];
+  trades?: SimulatedTrade[];
+  tradeStats?: TradeSimStats;
+  gridResults?: GridSearchResult[];
+}
+
+/**
+ * Sortable, collision-safe run ID, e.g. backtest-20250114-093015-4f2a
+ */
+export function createRunId(kind: string, now: Date = new Date()): string {
+  const stamp = now.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15);
+  return `${kind}-${stamp}-${crypto.randomBytes(2).toString("hex")}`;
+}
+
+export function toReportBreakout(
+  signal: BreakoutSignal,
+  outcome: { gain1h: number; gain4h: number; gain12h: number; gain24h: number; success: boolean }
+): ReportBreakout {
+  return {
+    coin: signal.coin,
+    assetClass: signal.class ?? "crypto",
+    direction: signal.direction,
+    breakoutType: signal.breakoutType,
+    timestamp: signal.timestamp,
+    price: signal.price,
+    confidence: signal.confidenceScore,
+    gain1h: outcome.gain1h,
+    gain4h: outcome.gain4h,
+    gain12h: outcome.gain12h,
+    gain24h: outcome.gain24h,
+    success: outcome.success,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Formatting helpers
+// ---------------------------------------------------------------------------
+
+function escapeHtml(value: unknown): string {
+  return String(value)
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function pct(value: number, digits: number = 2): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(digits)}%`;
+}
+
+function signClass(value: number): string {
+  return value > 0 ? "pos" : value < 0 ? "neg" : "";
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function table(headers: string[], rows: string[][], numericFrom: number = 1): string {
+  const head = headers
+    .map((h, i) => `<th${i >= numericFrom ? ' class="num"' : ""}>${escapeHtml(h)}</th>`)
+    .join("");
+  const body = rows
+    .map((row) => `<tr>${row.map((cell, i) => `<td${i >= numericFrom ? ' class="num"' : ""}>${cell}</td>`).join("")}</tr>`)
+    .join("\n");
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+function card(label: string, value: string, tone: string = ""): string {
+  return `<div class="card"><div class="label">${escapeHtml(label)}</div><div class="value ${tone}">${value}</div></div>`;
+}
+
+// ---------------------------------------------------------------------------
+// Charts (inline SVG)
+// ---------------------------------------------------------------------------
+
+const CHART_WIDTH = 760;
+const CHART_HEIGHT = 220;
+const CHART_PAD = 36;
+
+function histogram(values: number[], title: string, binCount: number = 20): string {
+  if (values.length === 0) {
+    return "";
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins = new Array<number>(binCount).fill(0);
+  for (const v of values) {
+    bins[Math.min(Math.floor((v - min) / width), binCount - 1)]! += 1;
+  }
+
+  const peak = Math.max(...bins, 1);
+  const plotW = CHART_WIDTH - CHART_PAD * 2;
+  const plotH = CHART_HEIGHT - CHART_PAD * 2;
+  const barW = plotW / binCount;
+
+  const bars = bins
+    .map((count, i) => {
+      const h = (count / peak) * plotH;
+      const from = min + i * width;
+      const tone = from + width <= 0 ? "neg" : from >= 0 ? "pos" : "mid";
+      return (
+        `<rect class="bar ${tone}" x="${(CHART_PAD + i * barW + 1).toFixed(1)}" y="${(CHART_PAD + plotH - h).toFixed(1)}" ` +
+        `width="${Math.max(barW - 2, 1).toFixed(1)}" height="${h.toFixed(1)}">` +
+        `<title>${from.toFixed(2)}% to ${(from + width).toFixed(2)}%: ${count}</title></rect>`
+      );
+    })
+    .join("");
+
+  return (
+    `<figure><figcaption>${escapeHtml(title)} (n=${values.length})</figcaption>` +
+    `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img">` +
+    `<line class="axis" x1="${CHART_PAD}" y1="${CHART_HEIGHT - CHART_PAD}" x2="${CHART_WIDTH - CHART_PAD}" y2="${CHART_HEIGHT - CHART_PAD}"/>` +
+    bars +
+    `<text x="${CHART_PAD}" y="${CHART_HEIGHT - 12}">${min.toFixed(1)}%</text>` +
+    `<text x="${CHART_WIDTH - CHART_PAD}" y="${CHART_HEIGHT - 12}" text-anchor="end">${max.toFixed(1)}%</text>` +
+    `<text x="${CHART_PAD}" y="${CHART_PAD - 8}">${peak}</text>` +
+    `</svg></figure>`
+  );
+}
+
+function lineChart(points: Array<{ timestamp: number; value: number }>, title: string, format: (v: number) => string): string {
+  if (points.length < 2) {
+    return "";
+  }
+
+  const t0 = points[0]!.timestamp;
+  const t1 = points[points.length - 1]!.timestamp;
+  const values = points.map((p) => p.value);
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const span = hi > lo ? hi - lo : 1;
+  const plotW = CHART_WIDTH - CHART_PAD * 2;
+  const plotH = CHART_HEIGHT - CHART_PAD * 2;
+
+  const x = (t: number) => CHART_PAD + (t1 > t0 ? ((t - t0) / (t1 - t0)) * plotW : 0);
+  const y = (v: number) => CHART_PAD + plotH - ((v - lo) / span) * plotH;
+  const path = points.map((p, i) => `${i === 0 ? "M" : "L"}${x(p.timestamp).toFixed(1)},${y(p.value).toFixed(1)}`).join("");
+  const start = points[0]!.value;
+
+  return (
+    `<figure><figcaption>${escapeHtml(title)}</figcaption>` +
+    `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" role="img">` +
+    `<line class="axis" x1="${CHART_PAD}" y1="${y(start).toFixed(1)}" x2="${CHART_WIDTH - CHART_PAD}" y2="${y(start).toFixed(1)}" stroke-dasharray="4 4"/>` +
+    `<path class="line" d="${path}"/>` +
+    `<text x="${CHART_PAD}" y="${CHART_PAD - 8}">${escapeHtml(format(hi))}</text>` +
+    `<text x="${CHART_PAD}" y="${CHART_HEIGHT - CHART_PAD + 14}">${escapeHtml(format(lo))}</text>` +
+    `<text x="${CHART_PAD}" y="${CHART_HEIGHT - 6}">${formatTime(t0).slice(0, 10)}</text>` +
+    `<text x="${CHART_WIDTH - CHART_PAD}" y="${CHART_HEIGHT - 6}" text-anchor="end">${formatTime(t1).slice(0, 10)}</text>` +
+    `</svg></figure>`
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Sections
+// ---------------------------------------------------------------------------
+
+function groupBreakouts(breakouts: ReportBreakout[], key: (b: ReportBreakout) => string): string[][] {
+  const groups = new Map<string, ReportBreakout[]>();
+  for (const b of breakouts) {
+    const k = key(b);
+    groups.set(k, [...(groups.get(k) ?? []), b]);
+  }
+
+  const avg = (list: ReportBreakout[], pick: (b: ReportBreakout) => number) =>
+    list.reduce((sum, b) => sum + pick(b), 0) / list.length;
+
+  return Array.from(groups.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([name, list]) => {
+      const winRate = (list.filter((b) => b.success).length / list.length) * 100;
+      return [
+        escapeHtml(name),
+        String(list.length),
+        `${winRate.toFixed(1)}%`,
+        ...[avg(list, (b) => b.gain1h), avg(list, (b) => b.gain4h), avg(list, (b) => b.gain12h), avg(list, (b) => b.gain24h)]
+          .map((v) => `<span class="${signClass(v)}">${pct(v)}</span>`),
+        String(Math.round(avg(list, (b) => b.confidence))),
+      ];
+    });
+}
+
+function breakoutSections(breakouts: ReportBreakout[]): string {
+  if (breakouts.length === 0) {
+    return `<section><h2>Breakouts</h2><p class="muted">No breakouts in this run.</p></section>`;
+  }
+
+  const headers = ["Group", "Breakouts", "Win rate", "Avg 1h", "Avg 4h", "Avg 12h", "Avg 24h", "Avg conf"];
+  const byCoin = groupBreakouts(breakouts, (b) => b.coin).sort(
+    (a, b) => parseFloat(b[6]!.replace(/<[^>]+>/g, "")) - parseFloat(a[6]!.replace(/<[^>]+>/g, ""))
+  );
+
+  return [
+    `<section><h2>Breakouts by class</h2>${table(headers, groupBreakouts(breakouts, (b) => b.assetClass))}</section>`,
+    `<section><h2>Breakouts by direction</h2>${table(headers, groupBreakouts(breakouts, (b) => b.direction))}</section>`,
+    `<section><h2>Breakouts by type</h2>${table(headers, groupBreakouts(breakouts, (b) => b.breakoutType))}</section>`,
+    `<section><h2>Gain distribution</h2><div class="charts">` +
+      histogram(breakouts.map((b) => b.gain4h), "Peak gain within 4h") +
+      histogram(breakouts.map((b) => b.gain24h), "Peak gain within 24h") +
+      `</div></section>`,
+    `<section><h2>Per-coin breakdown</h2>${table(["Coin", ...headers.slice(1)], byCoin)}</section>`,
+  ].join("\n");
+}
+
+function tradeSections(trades: SimulatedTrade[], stats: TradeSimStats | undefined): string {
+  if (trades.length === 0) {
+    return "";
+  }
+
+  const parts: string[] = [];
+
+  if (stats) {
+    parts.push(
+      `<section><h2>Trade simulation</h2><div class="cards">` +
+        card("Trades", String(stats.totalTrades)) +
+        card("Win rate", `${stats.winRate.toFixed(1)}%`) +
+        card("Expectancy", `${pct(stats.expectancyPct)} / ${stats.expectancyR.toFixed(2)}R`, signClass(stats.expectancyPct)) +
+        card("Profit factor", stats.profitFactor.toFixed(2)) +
+        card("Total return", pct(stats.totalReturnPct), signClass(stats.totalReturnPct)) +
+        card("Max drawdown", `${stats.maxDrawdownPct.toFixed(2)}%`, "neg") +
+        card("Sharpe", stats.sharpe.toFixed(2)) +
+        card("Exits (T/S/Time)", `${stats.exitBreakdown.target}/${stats.exitBreakdown.stop}/${stats.exitBreakdown.time}`) +
+        `</div><div class="charts">` +
+        lineChart(
+          stats.equityCurve.map((p) => ({ timestamp: p.timestamp, value: p.equity })),
+          "Equity curve",
+          (v) => `$${v.toFixed(0)}`
+        ) +
+        histogram(trades.map((t) => t.netReturnPct), "Net return per trade") +
+        `</div></section>`
+    );
+  }
+
+  const rows = trades.map((t) => [
+    escapeHtml(t.symbol),
+    escapeHtml(t.direction),
+    escapeHtml(t.source),
+    formatTime(t.entryTime),
+    t.entryPrice.toPrecision(6),
+    formatTime(t.exitTime),
+    t.exitPrice.toPrecision(6),
+    escapeHtml(t.exitReason),
+    String(t.barsHeld),
+    `<span class="${signClass(t.netReturnPct)}">${pct(t.netReturnPct)}</span>`,
+    `<span class="${signClass(t.rMultiple)}">${t.rMultiple.toFixed(2)}R</span>`,
+  ]);
+
+  parts.push(
+    `<section><h2>Trades (${trades.length})</h2>` +
+      table(["Symbol", "Dir", "Source", "Entry time", "Entry", "Exit time", "Exit", "Reason", "Bars", "Net", "R"], rows, 4) +
+      `</section>`
+  );
+
+  return parts.join("\n");
+}
+
+function gridSection(results: GridSearchResult[]): string {
+  if (results.length === 0) {
+    return "";
+  }
+
+  const rows = results.slice(0, MAX_GRID_ROWS).map((r, i) => [
+    String(i + 1),
+    r.score.toFixed(2),
+    `${r.params.minVolumeRatio}x`,
+    `${r.params.minPriceChange}%`,
+    String(r.params.minConfidenceScore),
+    `${r.params.consolidationThresholds.high}/${r.params.consolidationThresholds.medium}/${r.params.consolidationThresholds.low}`,
+    `${r.params.consolidationHours}h`,
+    `${r.params.successThreshold}%`,
+    String(r.statistics.totalBreakouts),
+    `${r.statistics.successRate.toFixed(1)}%`,
+    `<span class="${signClass(r.statistics.avgGain24h)}">${pct(r.statistics.avgGain24h)}</span>`,
+    `<span class="${signClass(r.statistics.avgReturn24h)}">${pct(r.statistics.avgReturn24h)}</span>`,
+    r.statistics.profitFactor.toFixed(2),
+  ]);
+
+  return (
+    `<section><h2>Parameter sets (top ${Math.min(results.length, MAX_GRID_ROWS)} of ${results.length})</h2>` +
+    `<div class="charts">${histogram(results.map((r) => r.score), "Score distribution")}</div>` +
+    table(
+      ["#", "Score", "Vol ratio", "Price chg", "Min conf", "Consolidation", "Min consol.", "Success", "Breakouts", "Win rate", "Avg 24h", "Ret 24h", "PF"],
+      rows,
+      1
+    ) +
+    `</section>`
+  );
+}
+
+function headlineCards(report: BacktestReport): string {
+  const breakouts = report.breakouts ?? [];
+  if (breakouts.length > 0) {
+    const winRate = (breakouts.filter((b) => b.success).length / breakouts.length) * 100;
+    const avg = (pick: (b: ReportBreakout) => number) => breakouts.reduce((s, b) => s + pick(b), 0) / breakouts.length;
+    return (
+      `<div class="cards">` +
+      card("Breakouts", String(breakouts.length)) +
+      card("Win rate", `${winRate.toFixed(1)}%`) +
+      card("Avg 1h", pct(avg((b) => b.gain1h)), signClass(avg((b) => b.gain1h))) +
+      card("Avg 4h", pct(avg((b) => b.gain4h)), signClass(avg((b) => b.gain4h))) +
+      card("Avg 24h", pct(avg((b) => b.gain24h)), signClass(avg((b) => b.gain24h))) +
+      card("Long / short", `${breakouts.filter((b) => b.direction === "long").length} / ${breakouts.filter((b) => b.direction === "short").length}`) +
+      `</div>`
+    );
+  }
+
+  const best = report.gridResults?.[0];
+  if (best) {
+    return (
+      `<div class="cards">` +
+      card("Combinations", String(report.gridResults!.length)) +
+      card("Best score", best.score.toFixed(2)) +
+      card("Best win rate", `${best.statistics.successRate.toFixed(1)}%`) +
+      card("Best avg 24h", pct(best.statistics.avgGain24h), signClass(best.statistics.avgGain24h)) +
+      card("Best breakouts", String(best.statistics.totalBreakouts)) +
+      `</div>`
+    );
+  }
+
+  return "";
+}
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 0 auto; max-width: 1200px; padding: 24px; color: #1f2328; background: #fafbfc; }
+h1 { margin-bottom: 4px; } h2 { border-bottom: 1px solid #d0d7de; padding-bottom: 4px; margin-top: 32px; }
+.muted { color: #656d76; }
+table { border-collapse: collapse; width: 100%; font-size: 13px; background: #fff; }
+th, td { padding: 4px 8px; border-bottom: 1px solid #eaeef2; text-align: left; white-space: nowrap; }
+th { background: #f6f8fa; position: sticky; top: 0; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+.cards { display: flex; flex-wrap: wrap; gap: 12px; margin: 16px 0; }
+.card { background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 10px 14px; min-width: 120px; }
+.card .label { font-size: 12px; color: #656d76; } .card .value { font-size: 20px; font-weight: 600; }
+.pos { color: #1a7f37; } .neg { color: #cf222e; }
+.charts { display: flex; flex-wrap: wrap; gap: 16px; }
+figure { margin: 0; flex: 1 1 560px; background: #fff; border: 1px solid #d0d7de; border-radius: 6px; padding: 8px; }
+figcaption { font-size: 13px; font-weight: 600; margin-bottom: 4px; }
+svg { width: 100%; height: auto; font-size: 11px; fill: #656d76; }
+.axis { stroke: #8c959f; stroke-width: 1; } .line { fill: none; stroke: #0969da; stroke-width: 1.5; }
+.bar.pos { fill: #4ac26b; } .bar.neg { fill: #ff8182; } .bar.mid { fill: #8c959f; }
+`;
+
+/**
+ * Render the full HTML document
+ */
+export function renderBacktestReport(report: BacktestReport): string {
+  const metadataRows = Object.entries(report.metadata).map(([k, v]) => [escapeHtml(k), escapeHtml(v)]);
+
+  const body = [
+    `<header><h1>${escapeHtml(report.title)}</h1>` +
+      `<p class="muted">Run ${escapeHtml(report.runId)} · generated ${formatTime(report.generatedAt)} UTC</p></header>`,
+    headlineCards(report),
+    `<section><h2>Run</h2>${table(["Setting", "Value"], metadataRows, 2)}</section>`,
+    report.breakouts ? breakoutSections(report.breakouts) : "",
+    tradeSections(report.trades ?? [], report.tradeStats),
+    gridSection(report.gridResults ?? []),
+  ].filter((part) => part !== "");
+
+  return (
+    `<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="utf-8">\n` +
+    `<title>${escapeHtml(report.title)} - ${escapeHtml(report.runId)}</title>\n` +
+    `<style>${STYLE}</style>\n</head>\n<body>\n${body.join("\n")}\n</body>\n</html>\n`
+  );
+}
+
+/**
+ * Write reports/<runId>.html and return its path
+ */
+export function saveBacktestReport(report: BacktestReport, dir: string = REPORTS_DIR): string {
+  mkdirSync(dir, { recursive: true });
+  const filePath = path.join(dir, `${report.runId}.html`);
+  writeFileSync(filePath, renderBacktestReport(report));
+  return filePath;
+}
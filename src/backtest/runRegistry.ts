@@ -0,0 +1,250 @@
+/**
+ * Backtest Run Registry
+ *
+ * Records every backtest run (full-system, intraday, multi-asset, grid search)
+ * as backtest_runs/<runId>.json with its config, code version, data range and
+ * statistics, so runs can be listed and compared after the console is gone.
+ */
+
+import { execSync } from "child_process";
+import { existsSync, mkdirSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+import { error as logError } from "../utils/logger.js";
+import { createRunId } from "./reportGenerator.js";
+
+export const RUNS_DIR = process.env.BACKTEST_RUNS_DIR || "backtest_runs";
+
+export type BacktestRunKind = "full-system" | "intraday" | "multi-asset" | "grid-search";
+
+export interface CodeVersion {
+  commit: string | null;
+  dirty: boolean;
+  packageVersion: string | null;
+}
+
+export interface RunGroupSummary {
+  count: number;
+  winRate: number;
+  avgGain: number;
+}
+
+/**
+ * Statistics in a shape shared by all run kinds. Gain horizons differ per
+ * kind (e.g. 1h/4h/12h/24h vs 15m/1h/4h/eod), so they are keyed by label.
+ */
+export interface RunStatistics {
+  totalSignals: number;
+  successfulSignals: number;
+  successRate: number;
+  avgGains: Record<string, number>;
+  longSignals: number;
+  shortSignals: number;
+  classBreakdown: Record<string, RunGroupSummary>;
+}
+
+export interface BacktestRunRecord {
+  runId: string;
+  kind: BacktestRunKind;
+  recordedAt: string;
+  codeVersion: CodeVersion;
+  config: Record<string, unknown>;
+  dataRange: {
+    startTime: string;
+    endTime: string;
+    symbols: number;
+    timeframes?: string[];
+  };
+  statistics: RunStatistics;
+}
+
+export interface MetricDiff {
+  metric: string;
+  a: number | null;
+  b: number | null;
+  delta: number | null;
+}
+
+export interface ConfigDiff {
+  key: string;
+  a: unknown;
+  b: unknown;
+}
+
+export interface BacktestRunComparison {
+  a: BacktestRunRecord;
+  b: BacktestRunRecord;
+  metrics: MetricDiff[];
+  classes: Array<{ assetClass: string; signals: MetricDiff; winRate: MetricDiff; avgGain: MetricDiff }>;
+  configChanges: ConfigDiff[];
+}
+
+let cachedCodeVersion: CodeVersion | null = null;
+
+function git(args: string): string | null {
+  try {
+    return execSync(`git ${args}`, { stdio: ["ignore", "pipe", "ignore"], timeout: 5000 }).toString().trim();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Current commit (GIT_COMMIT in Docker images, where .git is not copied)
+ */
+export function getCodeVersion(): CodeVersion {
+  if (cachedCodeVersion) {
+    return cachedCodeVersion;
+  }
+
+  let packageVersion: string | null = null;
+  try {
+    packageVersion = JSON.parse(readFileSync("package.json", "utf8")).version ?? null;
+  } catch {
+    packageVersion = null;
+  }
+
+  const commit = git("rev-parse --short HEAD");
+  cachedCodeVersion = commit
+    ? { commit, dirty: (git("status --porcelain --untracked-files=no") ?? "") !== "", packageVersion }
+    : { commit: process.env.GIT_COMMIT || null, dirty: false, packageVersion };
+  return cachedCodeVersion;
+}
+
+/**
+ * Save a run; failures are logged so a finished backtest is never lost to them
+ */
+export function recordBacktestRun(
+  run: Omit<BacktestRunRecord, "runId" | "recordedAt" | "codeVersion"> & { runId?: string }
+): BacktestRunRecord | null {
+  const record: BacktestRunRecord = {
+    runId: run.runId ?? createRunId(run.kind),
+    kind: run.kind,
+    recordedAt: new Date().toISOString(),
+    codeVersion: getCodeVersion(),
+    config: run.config,
+    dataRange: run.dataRange,
+    statistics: run.statistics,
+  };
+
+  try {
+    mkdirSync(RUNS_DIR, { recursive: true });
+    writeFileSync(path.join(RUNS_DIR, `${record.runId}.json`), JSON.stringify(record, null, 2));
+    console.log(`🗂  Recorded run ${record.runId}`);
+    return record;
+  } catch (err) {
+    logError("RunRegistry", `Failed to record run ${record.runId}`, err);
+    return null;
+  }
+}
+
+/**
+ * All recorded runs, oldest first
+ */
+export function listBacktestRuns(kind?: BacktestRunKind): BacktestRunRecord[] {
+  if (!existsSync(RUNS_DIR)) {
+    return [];
+  }
+
+  const runs: BacktestRunRecord[] = [];
+  for (const file of readdirSync(RUNS_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      runs.push(JSON.parse(readFileSync(path.join(RUNS_DIR, file), "utf8")));
+    } catch (err) {
+      logError("RunRegistry", `Skipping unreadable run file ${file}`, err);
+    }
+  }
+
+  return runs
+    .filter((run) => !kind || run.kind === kind)
+    .sort((a, b) => a.recordedAt.localeCompare(b.recordedAt));
+}
+
+/**
+ * Find a run by ID or unique ID prefix ("latest" for the newest run)
+ */
+export function findBacktestRun(idOrPrefix: string): BacktestRunRecord | null {
+  const runs = listBacktestRuns();
+  if (idOrPrefix === "latest") {
+    return runs[runs.length - 1] ?? null;
+  }
+
+  const exact = runs.find((run) => run.runId === idOrPrefix);
+  if (exact) {
+    return exact;
+  }
+
+  const matches = runs.filter((run) => run.runId.startsWith(idOrPrefix));
+  if (matches.length > 1) {
+    throw new Error(`"${idOrPrefix}" matches ${matches.length} runs: ${matches.map((r) => r.runId).join(", ")}`);
+  }
+  return matches[0] ?? null;
+}
+
+/**
+ * The run of the same kind recorded just before the given one
+ */
+export function findPreviousRun(run: BacktestRunRecord): BacktestRunRecord | null {
+  const sameKind = listBacktestRuns(run.kind);
+  const index = sameKind.findIndex((r) => r.runId === run.runId);
+  return index > 0 ? sameKind[index - 1]! : null;
+}
+
+function diff(metric: string, a: number | undefined, b: number | undefined): MetricDiff {
+  return {
+    metric,
+    a: a ?? null,
+    b: b ?? null,
+    delta: a !== undefined && b !== undefined ? b - a : null,
+  };
+}
+
+function flattenConfig(value: unknown, prefix: string, out: Map<string, unknown>): Map<string, unknown> {
+  if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else {
+    out.set(prefix, value);
+  }
+  return out;
+}
+
+/**
+ * Side-by-side diff of two runs (deltas are b - a)
+ */
+export function compareBacktestRuns(a: BacktestRunRecord, b: BacktestRunRecord): BacktestRunComparison {
+  const horizons = Array.from(new Set([...Object.keys(a.statistics.avgGains), ...Object.keys(b.statistics.avgGains)]));
+  const metrics: MetricDiff[] = [
+    diff("Signals", a.statistics.totalSignals, b.statistics.totalSignals),
+    diff("Successful", a.statistics.successfulSignals, b.statistics.successfulSignals),
+    diff("Success rate %", a.statistics.successRate, b.statistics.successRate),
+    ...horizons.map((h) => diff(`Avg gain ${h} %`, a.statistics.avgGains[h], b.statistics.avgGains[h])),
+    diff("Long signals", a.statistics.longSignals, b.statistics.longSignals),
+    diff("Short signals", a.statistics.shortSignals, b.statistics.shortSignals),
+  ];
+
+  const classes = Array.from(
+    new Set([...Object.keys(a.statistics.classBreakdown), ...Object.keys(b.statistics.classBreakdown)])
+  )
+    .filter((c) => (a.statistics.classBreakdown[c]?.count ?? 0) + (b.statistics.classBreakdown[c]?.count ?? 0) > 0)
+    .map((assetClass) => {
+      const ca = a.statistics.classBreakdown[assetClass];
+      const cb = b.statistics.classBreakdown[assetClass];
+      return {
+        assetClass,
+        signals: diff("Signals", ca?.count ?? 0, cb?.count ?? 0),
+        winRate: diff("Win rate %", ca?.winRate, cb?.winRate),
+        avgGain: diff("Avg gain %", ca?.avgGain, cb?.avgGain),
+      };
+    });
+
+  const configA = flattenConfig(a.config, "", new Map());
+  const configB = flattenConfig(b.config, "", new Map());
+  const configChanges: ConfigDiff[] = Array.from(new Set([...configA.keys(), ...configB.keys()]))
+    .filter((key) => JSON.stringify(configA.get(key)) !== JSON.stringify(configB.get(key)))
+    .sort()
+    .map((key) => ({ key, a: configA.get(key), b: configB.get(key) }));
+
+  return { a, b, metrics, classes, configChanges };
+}
@@ -0,0 +1,222 @@
+/**
+ * Backtest Run Registry Runner
+ *
+ * Browse and compare recorded backtest runs:
+ *   node dist/backtest/runRegistryRunner.js list
+ *   node dist/backtest/runRegistryRunner.js list grid-search
+ *   node dist/backtest/runRegistryRunner.js show latest
+ *   node dist/backtest/runRegistryRunner.js compare full-system-20251117 full-system-20251118
+ *   node dist/backtest/runRegistryRunner.js compare latest
+ *
+ * Run IDs can be shortened to any unique prefix. Comparing a single run
+ * diffs it against the previous run of the same kind.
+ */
+
+import {
+  RUNS_DIR,
+  compareBacktestRuns,
+  findBacktestRun,
+  findPreviousRun,
+  listBacktestRuns,
+  type BacktestRunKind,
+  type BacktestRunRecord,
+  type MetricDiff,
+} from "./runRegistry.js";
+
+const RUN_KINDS: BacktestRunKind[] = ["full-system", "intraday", "multi-asset", "grid-search"];
+
+function printUsage(): void {
+  console.log("\nUsage:");
+  console.log("  node dist/backtest/runRegistryRunner.js [command]");
+  console.log("\nCommands:");
+  console.log(`  list [kind] [limit]          - Recorded runs, newest last (kind: ${RUN_KINDS.join(" | ")})`);
+  console.log("  show <run>                   - Config, code version, data range and statistics of a run");
+  console.log("  compare <runA> [runB]        - Side-by-side diff (default runB: previous run of the same kind)");
+  console.log("\n<run> is a run ID, a unique prefix of one, or \"latest\".");
+  console.log(`Runs are stored in ${RUNS_DIR} (BACKTEST_RUNS_DIR)`);
+}
+
+function formatVersion(run: BacktestRunRecord): string {
+  const commit = run.codeVersion.commit ?? "unknown";
+  return run.codeVersion.dirty ? `${commit}+dirty` : commit;
+}
+
+function formatRange(run: BacktestRunRecord): string {
+  return `${run.dataRange.startTime.slice(0, 10)} → ${run.dataRange.endTime.slice(0, 10)}`;
+}
+
+function formatValue(value: number | null, digits: number): string {
+  return value === null ? "-" : value.toFixed(digits);
+}
+
+function formatDelta(value: number | null, digits: number): string {
+  return value === null ? "-" : `${value > 0 ? "+" : ""}${value.toFixed(digits)}`;
+}
+
+function formatConfigValue(value: unknown): string {
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+function resolveRun(idOrPrefix: string): BacktestRunRecord {
+  const run = findBacktestRun(idOrPrefix);
+  if (!run) {
+    throw new Error(`No recorded run matches "${idOrPrefix}"`);
+  }
+  return run;
+}
+
+function printList(runs: BacktestRunRecord[]): void {
+  console.log("\n" + "=".repeat(80));
+  console.log("🗂  BACKTEST RUNS");
+  console.log("=".repeat(80));
+
+  if (runs.length === 0) {
+    console.log(`\nNo recorded runs in ${RUNS_DIR}`);
+    return;
+  }
+
+  console.log(
+    "\n" + "Run ID".padEnd(36) + "Commit".padEnd(14) + "Data".padEnd(25) + "Signals".padStart(8) + "Win%".padStart(7)
+  );
+  console.log("─".repeat(90));
+
+  for (const run of runs) {
+    console.log(
+      run.runId.padEnd(36) + formatVersion(run).padEnd(14) + formatRange(run).padEnd(25) +
+        run.statistics.totalSignals.toString().padStart(8) + run.statistics.successRate.toFixed(1).padStart(7)
+    );
+  }
+}
+
+function printRun(run: BacktestRunRecord): void {
+  console.log("\n" + "=".repeat(80));
+  console.log(`🗂  RUN ${run.runId}`);
+  console.log("=".repeat(80));
+
+  console.log("\n📋 RUN");
+  console.log("─".repeat(80));
+  console.log(`  Kind:       ${run.kind}`);
+  console.log(`  Recorded:   ${run.recordedAt}`);
+  console.log(`  Commit:     ${formatVersion(run)}${run.codeVersion.packageVersion ? ` (v${run.codeVersion.packageVersion})` : ""}`);
+  console.log(`  Data:       ${formatRange(run)}, ${run.dataRange.symbols} symbols` +
+    (run.dataRange.timeframes ? `, ${run.dataRange.timeframes.join("/")}` : ""));
+
+  console.log("\n📊 STATISTICS");
+  console.log("─".repeat(80));
+  console.log(`  Signals:       ${run.statistics.totalSignals} (${run.statistics.longSignals} long / ${run.statistics.shortSignals} short)`);
+  console.log(`  Success rate:  ${run.statistics.successRate.toFixed(1)}%`);
+  for (const [horizon, gain] of Object.entries(run.statistics.avgGains)) {
+    console.log(`  Avg ${horizon.padEnd(9)}  ${gain >= 0 ? "+" : ""}${gain.toFixed(2)}%`);
+  }
+
+  console.log("\n🏦 CLASS BREAKDOWN");
+  console.log("─".repeat(80));
+  for (const [cls, summary] of Object.entries(run.statistics.classBreakdown)) {
+    if (summary.count === 0) continue;
+    console.log(
+      `  ${cls.padEnd(10)}  ${summary.count.toString().padStart(6)}  ${summary.winRate.toFixed(1).padStart(6)}%  ` +
+        `${summary.avgGain >= 0 ? "+" : ""}${summary.avgGain.toFixed(2)}%`
+    );
+  }
+
+  console.log("\n⚙️  CONFIG");
+  console.log("─".repeat(80));
+  console.log(JSON.stringify(run.config, null, 2));
+}
+
+function printMetricRow(label: string, diff: MetricDiff): void {
+  // Counts stay whole numbers, rates and gains get two decimals
+  const digits = [diff.a, diff.b].every((v) => v === null || Number.isInteger(v)) ? 0 : 2;
+  console.log(
+    `  ${label.padEnd(24)}${formatValue(diff.a, digits).padStart(14)}${formatValue(diff.b, digits).padStart(14)}${formatDelta(diff.delta, digits).padStart(14)}`
+  );
+}
+
+function printComparison(a: BacktestRunRecord, b: BacktestRunRecord): void {
+  const comparison = compareBacktestRuns(a, b);
+
+  console.log("\n" + "=".repeat(80));
+  console.log("🔬 BACKTEST RUN COMPARISON");
+  console.log("=".repeat(80));
+  console.log(`  A: ${a.runId}  (${formatVersion(a)}, ${formatRange(a)}, ${a.dataRange.symbols} symbols)`);
+  console.log(`  B: ${b.runId}  (${formatVersion(b)}, ${formatRange(b)}, ${b.dataRange.symbols} symbols)`);
+  if (a.kind !== b.kind) {
+    console.log(`\n⚠️  Comparing different run kinds (${a.kind} vs ${b.kind})`);
+  }
+
+  console.log("\n📊 STATISTICS");
+  console.log("─".repeat(80));
+  console.log(`  ${"Metric".padEnd(24)}${"A".padStart(14)}${"B".padStart(14)}${"Δ (B - A)".padStart(14)}`);
+  comparison.metrics.forEach((m) => printMetricRow(m.metric, m));
+
+  console.log("\n🏦 CLASS BREAKDOWN");
+  console.log("─".repeat(80));
+  for (const c of comparison.classes) {
+    console.log(`  ${c.assetClass}`);
+    printMetricRow(`  ${c.signals.metric}`, c.signals);
+    printMetricRow(`  ${c.winRate.metric}`, c.winRate);
+    printMetricRow(`  ${c.avgGain.metric}`, c.avgGain);
+  }
+
+  console.log(`\n⚙️  CONFIG CHANGES (${comparison.configChanges.length})`);
+  console.log("─".repeat(80));
+  if (comparison.configChanges.length === 0) {
+    console.log("  Same config");
+  }
+  for (const change of comparison.configChanges) {
+    console.log(`  ${change.key}: ${formatConfigValue(change.a)} → ${formatConfigValue(change.b)}`);
+  }
+
+  console.log("\n" + "=".repeat(80));
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2] || "list";
+  let ok = true;
+
+  try {
+    switch (command) {
+      case "list": {
+        const kind = process.argv[3] as BacktestRunKind | undefined;
+        if (kind !== undefined && !RUN_KINDS.includes(kind)) {
+          printUsage();
+          ok = false;
+          break;
+        }
+        const limit = parseInt(process.argv[4] || "20", 10);
+        printList(listBacktestRuns(kind).slice(-limit));
+        break;
+      }
+
+      case "show": {
+        if (!process.argv[3]) throw new Error("show needs a run ID");
+        printRun(resolveRun(process.argv[3]));
+        break;
+      }
+
+      case "compare": {
+        if (!process.argv[3]) throw new Error("compare needs at least one run ID");
+        const first = resolveRun(process.argv[3]);
+        if (process.argv[4]) {
+          printComparison(first, resolveRun(process.argv[4]));
+        } else {
+          const previous = findPreviousRun(first);
+          if (!previous) throw new Error(`No earlier ${first.kind} run to compare ${first.runId} with`);
+          printComparison(previous, first);
+        }
+        break;
+      }
+
+      default:
+        printUsage();
+        ok = false;
+    }
+  } catch (err) {
+    console.error("\n❌ Run registry command failed:", err instanceof Error ? err.message : err);
+    ok = false;
+  }
+
+  process.exit(ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,277 @@
+/**
+ * Parameter Search Space
+ *
+ * Defines which values each GridSearchParams field may take, either as an
+ * explicit list (choice) or a numeric interval (range). Samplers work in a unit
+ * cube: every dimension maps u in [0, 1) to a value, so random search, Latin
+ * hypercube and TPE share the same mapping.
+ *
+ * Spaces can be loaded from a JSON file, e.g. search_space.example.json:
+ *   {
+ *     "minVolumeRatio": { "type": "range", "min": 1.2, "max": 3, "step": 0.1 },
+ *     "minConfidenceScore": { "type": "choice", "values": [40, 50, 60, 70] },
+ *     "consolidationThresholds": { "type": "choice", "values": [{ "high": 0.02, "medium": 0.03, "low": 0.04 }] },
+ *     "consolidationHours": { "type": "choice", "values": [4, 8, 12] }
+ *   }
+ * Fields missing from the file keep the default space.
+ */
+
+import { readFileSync } from "fs";
+import type { GridSearchParams } from "./gridSearch.js";
+
+type ConsolidationThresholds = GridSearchParams["consolidationThresholds"];
+
+export type NumericDimension =
+  | { type: "choice"; values: number[] }
+  | { type: "range"; min: number; max: number; step?: number };
+
+export interface ConsolidationDimension {
+  type: "choice";
+  values: ConsolidationThresholds[];
+}
+
+export interface SearchSpace {
+  minVolumeRatio: NumericDimension;
+  minPriceChange: NumericDimension;
+  minConfidenceScore: NumericDimension;
+  consolidationThresholds: ConsolidationDimension; // Kept as tuples so high < medium < low holds
+  successThreshold: NumericDimension;
+  consolidationHours: NumericDimension; // Required window; below 12 the medium/low thresholds count
+}
+
+export type SearchDimensionName = keyof SearchSpace;
+
+/**
+ * Dimension order used for unit-cube points
+ */
+export const SEARCH_DIMENSIONS: SearchDimensionName[] = [
+  "minVolumeRatio",
+  "minPriceChange",
+  "minConfidenceScore",
+  "consolidationThresholds",
+  "successThreshold",
+  "consolidationHours",
+];
+
+/**
+ * Values of the original hardcoded grid plus the required consolidation
+ * window (576 x 3 = 1728 combinations)
+ */
+export const DEFAULT_SEARCH_SPACE: SearchSpace = {
+  minVolumeRatio: { type: "choice", values: [1.2, 1.5, 2.0, 2.5] },
+  minPriceChange: { type: "choice", values: [0.5, 1.0, 1.5, 2.0] },
+  minConfidenceScore: { type: "choice", values: [40, 50, 60, 70] },
+  consolidationThresholds: {
+    type: "choice",
+    values: [
+      { high: 0.015, medium: 0.025, low: 0.035 },
+      { high: 0.020, medium: 0.030, low: 0.040 },
+      { high: 0.025, medium: 0.035, low: 0.045 },
+    ],
+  },
+  successThreshold: { type: "choice", values: [2.0, 3.0, 4.0] },
+  consolidationHours: { type: "choice", values: [4, 8, 12] },
+};
+
+const GRID_POINTS_PER_CONTINUOUS_RANGE = 5;
+
+/**
+ * Discrete values of a numeric dimension (ranges without step get evenly spaced points)
+ */
+function numericGridValues(dimension: NumericDimension): number[] {
+  if (dimension.type === "choice") {
+    return dimension.values;
+  }
+
+  if (dimension.step && dimension.step > 0) {
+    const values: number[] = [];
+    for (let v = dimension.min; v <= dimension.max + dimension.step / 1e6; v += dimension.step) {
+      values.push(Number(v.toFixed(10)));
+    }
+    return values;
+  }
+
+  const n = GRID_POINTS_PER_CONTINUOUS_RANGE;
+  return Array.from({ length: n }, (_, i) => dimension.min + ((dimension.max - dimension.min) * i) / (n - 1));
+}
+
+/**
+ * Map u in [0, 1) to a numeric value
+ */
+function numericFromUnit(dimension: NumericDimension, u: number): number {
+  const clamped = Math.min(Math.max(u, 0), 1 - 1e-12);
+
+  if (dimension.type === "choice") {
+    return dimension.values[Math.floor(clamped * dimension.values.length)]!;
+  }
+
+  const raw = dimension.min + clamped * (dimension.max - dimension.min);
+  if (dimension.step && dimension.step > 0) {
+    const snapped = dimension.min + Math.round((raw - dimension.min) / dimension.step) * dimension.step;
+    return Number(Math.min(snapped, dimension.max).toFixed(10));
+  }
+  return raw;
+}
+
+/**
+ * Convert a unit-cube point (one coordinate per SEARCH_DIMENSIONS entry) to parameters
+ */
+export function paramsFromUnitPoint(space: SearchSpace, point: number[]): GridSearchParams {
+  const u = (i: number) => point[i] ?? 0.5;
+  const consolidation = space.consolidationThresholds.values;
+  const consolidationIndex = Math.min(Math.floor(Math.max(u(3), 0) * consolidation.length), consolidation.length - 1);
+
+  return {
+    minVolumeRatio: numericFromUnit(space.minVolumeRatio, u(0)),
+    minPriceChange: numericFromUnit(space.minPriceChange, u(1)),
+    minConfidenceScore: numericFromUnit(space.minConfidenceScore, u(2)),
+    consolidationThresholds: consolidation[consolidationIndex]!,
+    successThreshold: numericFromUnit(space.successThreshold, u(4)),
+    consolidationHours: numericFromUnit(space.consolidationHours, u(5)),
+  };
+}
+
+/**
+ * Whether a dimension takes a small set of discrete values
+ */
+export function isDiscreteDimension(space: SearchSpace, name: SearchDimensionName): boolean {
+  const dimension = space[name];
+  return dimension.type === "choice" || (dimension.step !== undefined && dimension.step > 0);
+}
+
+/**
+ * Stable key for de-duplicating evaluated parameter sets
+ */
+export function paramsKey(params: GridSearchParams): string {
+  const c = params.consolidationThresholds;
+  return [
+    params.minVolumeRatio,
+    params.minPriceChange,
+    params.minConfidenceScore,
+    c.high,
+    c.medium,
+    c.low,
+    params.successThreshold,
+    params.consolidationHours,
+  ].join("|");
+}
+
+/**
+ * Full Cartesian product of a space
+ */
+export function enumerateSearchSpace(space: SearchSpace): GridSearchParams[] {
+  const combinations: GridSearchParams[] = [];
+
+  for (const volRatio of numericGridValues(space.minVolumeRatio)) {
+    for (const priceChange of numericGridValues(space.minPriceChange)) {
+      for (const confidence of numericGridValues(space.minConfidenceScore)) {
+        for (const thresholds of space.consolidationThresholds.values) {
+          for (const success of numericGridValues(space.successThreshold)) {
+            for (const hours of numericGridValues(space.consolidationHours)) {
+              combinations.push({
+                minVolumeRatio: volRatio,
+                minPriceChange: priceChange,
+                minConfidenceScore: confidence,
+                consolidationThresholds: thresholds,
+                successThreshold: success,
+                consolidationHours: hours,
+              });
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return combinations;
+}
+
+function validateNumericDimension(name: string, value: unknown): NumericDimension {
+  const dimension = value as Partial<NumericDimension> & Record<string, unknown>;
+
+  if (dimension?.type === "choice") {
+    const values = dimension.values;
+    if (!Array.isArray(values) || values.length === 0 || !values.every((v) => typeof v === "number" && Number.isFinite(v))) {
+      throw new Error(`${name}: choice needs a non-empty array of numbers`);
+    }
+    return { type: "choice", values };
+  }
+
+  if (dimension?.type === "range") {
+    const { min, max, step } = dimension as { min: unknown; max: unknown; step?: unknown };
+    if (typeof min !== "number" || typeof max !== "number" || !(min < max)) {
+      throw new Error(`${name}: range needs numeric min < max`);
+    }
+    if (step !== undefined && (typeof step !== "number" || step <= 0)) {
+      throw new Error(`${name}: step must be a positive number`);
+    }
+    return step !== undefined ? { type: "range", min, max, step } : { type: "range", min, max };
+  }
+
+  throw new Error(`${name}: type must be "choice" or "range"`);
+}
+
+function validateConsolidationDimension(value: unknown): ConsolidationDimension {
+  const dimension = value as { type?: unknown; values?: unknown };
+  if (dimension?.type !== "choice" || !Array.isArray(dimension.values) || dimension.values.length === 0) {
+    throw new Error(`consolidationThresholds: choice needs a non-empty array of { high, medium, low }`);
+  }
+
+  const values = dimension.values.map((v: Partial<ConsolidationThresholds>, i: number) => {
+    if (typeof v?.high !== "number" || typeof v.medium !== "number" || typeof v.low !== "number") {
+      throw new Error(`consolidationThresholds[${i}]: high, medium and low must be numbers`);
+    }
+    return { high: v.high, medium: v.medium, low: v.low };
+  });
+
+  return { type: "choice", values };
+}
+
+/**
+ * Parse and validate a search space object; missing fields fall back to the default space
+ */
+export function parseSearchSpace(raw: unknown): SearchSpace {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error("Search space must be a JSON object");
+  }
+
+  const input = raw as Record<string, unknown>;
+  const unknownKeys = Object.keys(input).filter((k) => !SEARCH_DIMENSIONS.includes(k as SearchDimensionName));
+  if (unknownKeys.length > 0) {
+    throw new Error(`Unknown search space fields: ${unknownKeys.join(", ")}`);
+  }
+
+  return {
+    minVolumeRatio: input.minVolumeRatio !== undefined
+      ? validateNumericDimension("minVolumeRatio", input.minVolumeRatio)
+      : DEFAULT_SEARCH_SPACE.minVolumeRatio,
+    minPriceChange: input.minPriceChange !== undefined
+      ? validateNumericDimension("minPriceChange", input.minPriceChange)
+      : DEFAULT_SEARCH_SPACE.minPriceChange,
+    minConfidenceScore: input.minConfidenceScore !== undefined
+      ? validateNumericDimension("minConfidenceScore", input.minConfidenceScore)
+      : DEFAULT_SEARCH_SPACE.minConfidenceScore,
+    consolidationThresholds: input.consolidationThresholds !== undefined
+      ? validateConsolidationDimension(input.consolidationThresholds)
+      : DEFAULT_SEARCH_SPACE.consolidationThresholds,
+    successThreshold: input.successThreshold !== undefined
+      ? validateNumericDimension("successThreshold", input.successThreshold)
+      : DEFAULT_SEARCH_SPACE.successThreshold,
+    consolidationHours: input.consolidationHours !== undefined
+      ? validateNumericDimension("consolidationHours", input.consolidationHours)
+      : DEFAULT_SEARCH_SPACE.consolidationHours,
+  };
+}
+
+/**
+ * Load a search space definition from a JSON file
+ */
+export function loadSearchSpace(path: string): SearchSpace {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    throw new Error(`Could not read search space ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return parseSearchSpace(raw);
+}
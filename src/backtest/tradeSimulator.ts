@@ -0,0 +1,483 @@
+/**
+ * Trade Simulator
+ *
+ * Replays a signal as an actual trade instead of measuring peak excursion:
+ *   - Entry at the open of the candle after the signal candle
+ *   - Initial stop (percent, ATR or just beyond the broken level), optional
+ *     take-profit at rewardRisk × stop distance, optional ATR trailing stop
+ *     and a time stop
+ *   - Hyperliquid taker fees and slippage on both sides, hourly funding
+ *     (positive rate assumed: longs pay, shorts receive)
+ *
+ * Trades are sized to risk riskPerTradePct of equity and compounded in exit
+ * order to build the equity curve, so overlapping trades are approximated.
+ */
+
+import type { BreakoutDirection } from "../breakout/breakoutEngine.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Minimal OHLC shape shared by HistoricalCandle and IntradayCandle
+ */
+export interface SimCandle {
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+export type SimStopMode = "percent" | "atr" | "structure";
+export type SimExitReason = "stop" | "trailing" | "target" | "time" | "end_of_data";
+
+export interface TradeSimConfig {
+  startingEquity: number;
+  riskPerTradePct: number; // % of equity lost at the initial stop
+  maxPositionPct: number; // Notional cap as % of equity
+  stopMode: SimStopMode;
+  stopPct: number; // Used by "percent" and as fallback when no ATR/level
+  atrPeriod: number;
+  atrMultiplier: number;
+  structureBufferPct: number;
+  rewardRisk: number; // 0 = no take-profit
+  trailingAtrMultiplier: number; // 0 = no trailing stop
+  trailingActivationR: number; // Start trailing once price moved this many R in favor
+  maxHoldHours: number;
+  feeBps: number; // Taker fee per side (Hyperliquid base tier: 4.5)
+  slippageBps: number; // Per side
+  fundingBpsPerHour: number; // 0.125 = 0.01% per 8h
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function envStopMode(fallback: SimStopMode): SimStopMode {
+  const value = process.env.BACKTEST_STOP_MODE;
+  return value === "percent" || value === "atr" || value === "structure" ? value : fallback;
+}
+
+export const TRADE_SIM_CONFIG: TradeSimConfig = {
+  startingEquity: envNumber("BACKTEST_STARTING_EQUITY", 10000),
+  riskPerTradePct: envNumber("BACKTEST_RISK_PCT", 1),
+  maxPositionPct: envNumber("BACKTEST_MAX_POSITION_PCT", 25),
+  stopMode: envStopMode("structure"),
+  stopPct: envNumber("BACKTEST_STOP_PCT", 3),
+  atrPeriod: 14,
+  atrMultiplier: envNumber("BACKTEST_ATR_MULTIPLIER", 1.5),
+  structureBufferPct: 0.5,
+  rewardRisk: envNumber("BACKTEST_REWARD_RISK", 2),
+  trailingAtrMultiplier: envNumber("BACKTEST_TRAIL_ATR", 0),
+  trailingActivationR: envNumber("BACKTEST_TRAIL_ACTIVATION_R", 1),
+  maxHoldHours: envNumber("BACKTEST_MAX_HOLD_HOURS", 24),
+  feeBps: envNumber("BACKTEST_FEE_BPS", 4.5),
+  slippageBps: envNumber("BACKTEST_SLIPPAGE_BPS", 2),
+  fundingBpsPerHour: envNumber("BACKTEST_FUNDING_BPS_HOURLY", 0.125),
+};
+
+/**
+ * Signal to be traded
+ */
+export interface TradeEntry {
+  symbol: string;
+  source: string; // e.g. "breakout", "micro_breakout/15m"
+  direction: BreakoutDirection;
+  timestamp: number;
+  confidence: number;
+  level?: number; // Broken resistance (long) or support (short)
+}
+
+export interface SimulatedTrade {
+  symbol: string;
+  source: string;
+  direction: BreakoutDirection;
+  confidence: number;
+  signalTime: number;
+  entryTime: number;
+  entryPrice: number;
+  initialStop: number;
+  targetPrice: number | null;
+  exitTime: number;
+  exitPrice: number;
+  exitReason: SimExitReason;
+  barsHeld: number;
+  grossReturnPct: number;
+  feesPct: number;
+  slippagePct: number;
+  fundingPct: number;
+  netReturnPct: number;
+  riskPct: number; // Entry-to-stop distance
+  rMultiple: number;
+  positionFraction: number; // Notional / equity
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  equity: number;
+}
+
+export interface TradeSimStats {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  avgWinPct: number;
+  avgLossPct: number;
+  expectancyPct: number; // Avg net return per trade
+  expectancyR: number;
+  profitFactor: number;
+  totalReturnPct: number;
+  finalEquity: number;
+  maxDrawdownPct: number;
+  sharpe: number; // Annualized from daily equity returns
+  avgBarsHeld: number;
+  avgFeesPct: number;
+  avgFundingPct: number;
+  exitBreakdown: Record<SimExitReason, number>;
+  equityCurve: EquityPoint[];
+}
+
+/**
+ * Average true range of the last `period` candles (oldest first)
+ */
+function calculateAtr(candles: SimCandle[], period: number): number {
+  const ranges: number[] = [];
+
+  for (let i = Math.max(1, candles.length - period); i < candles.length; i++) {
+    const current = candles[i]!;
+    const previousClose = candles[i - 1]!.close;
+    ranges.push(Math.max(
+      current.high - current.low,
+      Math.abs(current.high - previousClose),
+      Math.abs(current.low - previousClose)
+    ));
+  }
+
+  return ranges.length > 0 ? ranges.reduce((sum, r) => sum + r, 0) / ranges.length : 0;
+}
+
+function directionalReturnPct(direction: BreakoutDirection, entry: number, exit: number): number {
+  return direction === "long" ? ((exit - entry) / entry) * 100 : ((entry - exit) / entry) * 100;
+}
+
+/**
+ * Initial stop for an entry price
+ */
+function initialStop(
+  entry: TradeEntry,
+  entryPrice: number,
+  atr: number,
+  config: TradeSimConfig
+): number {
+  const isLong = entry.direction === "long";
+
+  if (config.stopMode === "structure" && entry.level !== undefined && entry.level > 0) {
+    const buffer = config.structureBufferPct / 100;
+    const stop = isLong ? entry.level * (1 - buffer) : entry.level * (1 + buffer);
+    if (isLong ? stop < entryPrice : stop > entryPrice) {
+      return stop;
+    }
+  }
+
+  if (config.stopMode !== "percent" && atr > 0) {
+    return isLong ? entryPrice - atr * config.atrMultiplier : entryPrice + atr * config.atrMultiplier;
+  }
+
+  const distance = entryPrice * (config.stopPct / 100);
+  return isLong ? entryPrice - distance : entryPrice + distance;
+}
+
+/**
+ * Replay one signal as a trade.
+ *
+ * history: candles up to and including the signal candle (oldest first)
+ * future:  candles after the signal candle (oldest first)
+ */
+export function simulateTrade(
+  entry: TradeEntry,
+  history: SimCandle[],
+  future: SimCandle[],
+  config: TradeSimConfig = TRADE_SIM_CONFIG
+): SimulatedTrade | null {
+  const entryCandle = future[0];
+  if (!entryCandle || entryCandle.open <= 0) {
+    return null;
+  }
+
+  const isLong = entry.direction === "long";
+  const entryPrice = entryCandle.open;
+  const entryTime = entryCandle.timestamp;
+  const atr = calculateAtr(history, config.atrPeriod);
+  const stop0 = initialStop(entry, entryPrice, atr, config);
+  const risk = Math.abs(entryPrice - stop0);
+  if (risk <= 0) {
+    return null;
+  }
+
+  const targetPrice = config.rewardRisk > 0
+    ? (isLong ? entryPrice + risk * config.rewardRisk : entryPrice - risk * config.rewardRisk)
+    : null;
+  const maxHoldMs = config.maxHoldHours * HOUR_MS;
+
+  let stop = stop0;
+  let exitPrice = entryPrice;
+  let exitTime = entryTime;
+  let exitReason: SimExitReason = "end_of_data";
+  let barsHeld = 0;
+
+  for (const candle of future) {
+    if (candle.timestamp - entryTime >= maxHoldMs) {
+      exitPrice = candle.open;
+      exitTime = candle.timestamp;
+      exitReason = "time";
+      break;
+    }
+
+    barsHeld++;
+    exitPrice = candle.close;
+    exitTime = candle.timestamp;
+
+    // Stop first (conservative when stop and target share a candle); gaps fill at the open
+    const stopHit = isLong ? candle.low <= stop : candle.high >= stop;
+    if (stopHit) {
+      const gapped = isLong ? candle.open < stop : candle.open > stop;
+      exitPrice = gapped ? candle.open : stop;
+      exitReason = stop === stop0 ? "stop" : "trailing";
+      break;
+    }
+
+    if (targetPrice !== null && (isLong ? candle.high >= targetPrice : candle.low <= targetPrice)) {
+      const gapped = isLong ? candle.open > targetPrice : candle.open < targetPrice;
+      exitPrice = gapped ? candle.open : targetPrice;
+      exitReason = "target";
+      break;
+    }
+
+    // Ratchet the trailing stop once the trade has moved trailingActivationR in favor
+    if (config.trailingAtrMultiplier > 0 && atr > 0) {
+      const favorable = isLong ? candle.high - entryPrice : entryPrice - candle.low;
+      if (favorable >= risk * config.trailingActivationR) {
+        const trail = atr * config.trailingAtrMultiplier;
+        stop = isLong ? Math.max(stop, candle.high - trail) : Math.min(stop, candle.low + trail);
+      }
+    }
+  }
+
+  const heldHours = Math.max(0, exitTime - entryTime) / HOUR_MS;
+  const grossReturnPct = directionalReturnPct(entry.direction, entryPrice, exitPrice);
+  const feesPct = (2 * config.feeBps) / 100;
+  const slippagePct = (2 * config.slippageBps) / 100;
+  const fundingPct = (isLong ? -1 : 1) * heldHours * (config.fundingBpsPerHour / 100);
+  const netReturnPct = grossReturnPct - feesPct - slippagePct + fundingPct;
+  const riskPct = (risk / entryPrice) * 100;
+
+  return {
+    symbol: entry.symbol,
+    source: entry.source,
+    direction: entry.direction,
+    confidence: entry.confidence,
+    signalTime: entry.timestamp,
+    entryTime,
+    entryPrice,
+    initialStop: stop0,
+    targetPrice,
+    exitTime,
+    exitPrice,
+    exitReason,
+    barsHeld,
+    grossReturnPct,
+    feesPct,
+    slippagePct,
+    fundingPct,
+    netReturnPct,
+    riskPct,
+    rMultiple: netReturnPct / riskPct,
+    positionFraction: Math.min(config.riskPerTradePct / riskPct, config.maxPositionPct / 100),
+  };
+}
+
+/**
+ * Compound trades in exit order into an equity curve
+ */
+export function buildEquityCurve(trades: SimulatedTrade[], startingEquity: number): EquityPoint[] {
+  const ordered = [...trades].sort((a, b) => a.exitTime - b.exitTime);
+  const first = ordered[0];
+  const curve: EquityPoint[] = [{ timestamp: first ? first.entryTime : 0, equity: startingEquity }];
+  let equity = startingEquity;
+
+  for (const trade of ordered) {
+    equity *= 1 + trade.positionFraction * (trade.netReturnPct / 100);
+    curve.push({ timestamp: trade.exitTime, equity });
+  }
+
+  return curve;
+}
+
+function maxDrawdownPct(curve: EquityPoint[]): number {
+  let peak = -Infinity;
+  let maxDrawdown = 0;
+
+  for (const point of curve) {
+    peak = Math.max(peak, point.equity);
+    if (peak > 0) {
+      maxDrawdown = Math.max(maxDrawdown, ((peak - point.equity) / peak) * 100);
+    }
+  }
+
+  return maxDrawdown;
+}
+
+/**
+ * Annualized Sharpe from end-of-day equity (365 trading days, zero risk-free rate)
+ */
+function annualizedSharpe(curve: EquityPoint[]): number {
+  const first = curve[0];
+  const last = curve[curve.length - 1];
+  if (!first || !last || curve.length < 2) {
+    return 0;
+  }
+
+  const startDay = Math.floor(first.timestamp / DAY_MS);
+  const endDay = Math.floor(last.timestamp / DAY_MS);
+  const dailyEquity: number[] = [];
+  let index = 0;
+  let equity = first.equity;
+
+  for (let day = startDay; day <= endDay; day++) {
+    const dayEnd = (day + 1) * DAY_MS;
+    while (index < curve.length && curve[index]!.timestamp < dayEnd) {
+      equity = curve[index]!.equity;
+      index++;
+    }
+    dailyEquity.push(equity);
+  }
+
+  const returns: number[] = [];
+  for (let i = 1; i < dailyEquity.length; i++) {
+    returns.push(dailyEquity[i]! / dailyEquity[i - 1]! - 1);
+  }
+  if (returns.length < 2) {
+    return 0;
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1);
+  const std = Math.sqrt(variance);
+
+  return std > 0 ? (mean / std) * Math.sqrt(365) : 0;
+}
+
+/**
+ * Gross profit / gross loss, capped so an all-winning set stays comparable
+ */
+export function calculateProfitFactor(grossProfit: number, grossLoss: number): number {
+  if (grossLoss > 0) {
+    return Math.min(grossProfit / grossLoss, 100);
+  }
+  return grossProfit > 0 ? 100 : 0;
+}
+
+/**
+ * Aggregate simulated trades into performance statistics
+ */
+export function calculateTradeStats(
+  trades: SimulatedTrade[],
+  config: TradeSimConfig = TRADE_SIM_CONFIG
+): TradeSimStats {
+  const exitBreakdown: Record<SimExitReason, number> = {
+    stop: 0,
+    trailing: 0,
+    target: 0,
+    time: 0,
+    end_of_data: 0,
+  };
+  trades.forEach((t) => exitBreakdown[t.exitReason]++);
+
+  const equityCurve = buildEquityCurve(trades, config.startingEquity);
+  const finalEquity = equityCurve[equityCurve.length - 1]?.equity ?? config.startingEquity;
+  const count = Math.max(trades.length, 1);
+
+  const winners = trades.filter((t) => t.netReturnPct > 0);
+  const losers = trades.filter((t) => t.netReturnPct <= 0);
+  const weighted = (t: SimulatedTrade) => t.positionFraction * t.netReturnPct;
+  const grossProfit = winners.reduce((sum, t) => sum + weighted(t), 0);
+  const grossLoss = Math.abs(losers.reduce((sum, t) => sum + weighted(t), 0));
+
+  return {
+    totalTrades: trades.length,
+    wins: winners.length,
+    losses: losers.length,
+    winRate: trades.length > 0 ? (winners.length / trades.length) * 100 : 0,
+    avgWinPct: winners.length > 0 ? winners.reduce((sum, t) => sum + t.netReturnPct, 0) / winners.length : 0,
+    avgLossPct: losers.length > 0 ? losers.reduce((sum, t) => sum + t.netReturnPct, 0) / losers.length : 0,
+    expectancyPct: trades.reduce((sum, t) => sum + t.netReturnPct, 0) / count,
+    expectancyR: trades.reduce((sum, t) => sum + t.rMultiple, 0) / count,
+    profitFactor: calculateProfitFactor(grossProfit, grossLoss),
+    totalReturnPct: ((finalEquity - config.startingEquity) / config.startingEquity) * 100,
+    finalEquity,
+    maxDrawdownPct: maxDrawdownPct(equityCurve),
+    sharpe: annualizedSharpe(equityCurve),
+    avgBarsHeld: trades.reduce((sum, t) => sum + t.barsHeld, 0) / count,
+    avgFeesPct: trades.reduce((sum, t) => sum + t.feesPct + t.slippagePct, 0) / count,
+    avgFundingPct: trades.reduce((sum, t) => sum + t.fundingPct, 0) / count,
+    exitBreakdown,
+    equityCurve,
+  };
+}
+
+/**
+ * Print a trade-simulation report to the console
+ */
+export function printTradeReport(
+  title: string,
+  stats: TradeSimStats,
+  config: TradeSimConfig = TRADE_SIM_CONFIG
+): void {
+  const sign = (v: number) => (v >= 0 ? "+" : "");
+
+  console.log("\n" + "=".repeat(80));
+  console.log(title);
+  console.log("=".repeat(80));
+
+  console.log("\n⚙️  RULES");
+  console.log("─".repeat(80));
+  console.log(`  Entry:           next candle open, risk ${config.riskPerTradePct}% of equity (max ${config.maxPositionPct}% notional)`);
+  console.log(
+    `  Stop:            ${config.stopMode}` +
+      (config.stopMode === "percent" ? ` ${config.stopPct}%` : ` (ATR${config.atrPeriod} × ${config.atrMultiplier})`)
+  );
+  console.log(`  Target:          ${config.rewardRisk > 0 ? `${config.rewardRisk}R` : "none"}`);
+  console.log(
+    `  Trailing:        ${config.trailingAtrMultiplier > 0
+      ? `ATR × ${config.trailingAtrMultiplier} after ${config.trailingActivationR}R`
+      : "off"}`
+  );
+  console.log(`  Time stop:       ${config.maxHoldHours}h`);
+  console.log(
+    `  Costs:           fee ${config.feeBps}bps + slippage ${config.slippageBps}bps per side, ` +
+      `funding ${config.fundingBpsPerHour}bps/h`
+  );
+
+  console.log("\n📊 PERFORMANCE");
+  console.log("─".repeat(80));
+  console.log(`  Trades:          ${stats.totalTrades} (${stats.wins}W / ${stats.losses}L, ${stats.winRate.toFixed(1)}%)`);
+  console.log(`  Avg Win / Loss:  ${sign(stats.avgWinPct)}${stats.avgWinPct.toFixed(2)}% / ${stats.avgLossPct.toFixed(2)}%`);
+  console.log(`  Expectancy:      ${sign(stats.expectancyPct)}${stats.expectancyPct.toFixed(2)}% (${sign(stats.expectancyR)}${stats.expectancyR.toFixed(2)}R) per trade`);
+  console.log(`  Profit Factor:   ${Number.isFinite(stats.profitFactor) ? stats.profitFactor.toFixed(2) : "∞"}`);
+  console.log(`  Total Return:    ${sign(stats.totalReturnPct)}${stats.totalReturnPct.toFixed(2)}% ($${stats.finalEquity.toFixed(2)})`);
+  console.log(`  Max Drawdown:    ${stats.maxDrawdownPct.toFixed(2)}%`);
+  console.log(`  Sharpe (ann.):   ${stats.sharpe.toFixed(2)}`);
+  console.log(`  Avg Bars Held:   ${stats.avgBarsHeld.toFixed(1)}`);
+  console.log(`  Avg Costs:       ${stats.avgFeesPct.toFixed(3)}% fees+slippage, ${sign(stats.avgFundingPct)}${stats.avgFundingPct.toFixed(3)}% funding`);
+
+  console.log("\n🚪 EXITS");
+  console.log("─".repeat(80));
+  for (const [reason, count] of Object.entries(stats.exitBreakdown)) {
+    console.log(`  ${reason.padEnd(12)} ${count}`);
+  }
+
+  console.log("\n" + "=".repeat(80) + "\n");
+}
@@ -0,0 +1,323 @@
+/**
+ * Walk-Forward Optimization
+ *
+ * Grid search ranked on the whole period only measures in-sample fit. Walk-forward
+ * splits history into rolling train/test folds:
+ *
+ *   |---- train ----|gap|-- test --|
+ *              |---- train ----|gap|-- test --|
+ *                         |---- train ----|gap|-- test --|
+ *
+ * Each fold picks the best GridSearchParams on its train window and evaluates
+ * them on the following test window only. The gap is the outcome horizon, so
+ * train signals never score on prices from the test window. Test results are stitched into one
+ * out-of-sample record, and the chosen parameters are compared across folds to
+ * show how stable the optimum is.
+ */
+
+import { fetchHistoricalCandlesForCoins, getTimeRange, type HistoricalCandle } from "./historicalDataFetcher.js";
+import {
+  generateParameterGrid,
+  runBacktestWithParams,
+  scoreStatistics,
+  type GridSearchParams,
+  type GridSearchResult,
+} from "./gridSearch.js";
+import { calculateProfitFactor } from "./tradeSimulator.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WARMUP_MS = 60 * HOUR_MS; // Detection reads the last 60 candles
+const OUTCOME_MS = 25 * HOUR_MS; // Outcome evaluation needs 24h after the signal
+
+export interface WalkForwardOptions {
+  trainDays: number;
+  testDays: number;
+  stepDays: number; // Defaults to testDays (non-overlapping test windows)
+  maxCombinations?: number;
+  minTrainBreakouts: number; // Combinations with fewer in-sample breakouts are not eligible
+}
+
+export const DEFAULT_WALK_FORWARD_OPTIONS: WalkForwardOptions = {
+  trainDays: 30,
+  testDays: 10,
+  stepDays: 10,
+  minTrainBreakouts: 5,
+};
+
+export interface WalkForwardFold {
+  index: number;
+  trainStart: number;
+  trainEnd: number;
+  testStart: number;
+  testEnd: number;
+  best: GridSearchResult; // In-sample winner
+  outOfSample: GridSearchResult; // Same params on the test window
+}
+
+export interface ParameterStability {
+  name: string;
+  values: number[]; // Chosen value per fold
+  mode: number;
+  modeShare: number; // % of folds choosing the mode
+  mean: number;
+  coefficientOfVariation: number; // std / mean, 0 = perfectly stable
+}
+
+export interface WalkForwardReport {
+  options: WalkForwardOptions;
+  startTime: number;
+  endTime: number;
+  folds: WalkForwardFold[];
+  outOfSample: GridSearchResult["statistics"] & { score: number };
+  avgInSampleScore: number;
+  avgOutOfSampleScore: number;
+  efficiency: number; // OOS score / IS score
+  stability: ParameterStability[];
+}
+
+/**
+ * Build rolling train/test windows over [startTime, endTime)
+ */
+export function buildWalkForwardFolds(
+  startTime: number,
+  endTime: number,
+  options: WalkForwardOptions
+): Array<Pick<WalkForwardFold, "index" | "trainStart" | "trainEnd" | "testStart" | "testEnd">> {
+  const trainMs = options.trainDays * DAY_MS;
+  const testMs = options.testDays * DAY_MS;
+  const stepMs = Math.max(options.stepDays, 1) * DAY_MS;
+  const folds: Array<Pick<WalkForwardFold, "index" | "trainStart" | "trainEnd" | "testStart" | "testEnd">> = [];
+
+  // Leave room for warmup before the first train window and outcomes after the last test window
+  for (
+    let trainStart = startTime + WARMUP_MS;
+    trainStart + trainMs + OUTCOME_MS + testMs <= endTime - OUTCOME_MS;
+    trainStart += stepMs
+  ) {
+    // Purge gap: the last train outcomes end before the test window starts
+    const testStart = trainStart + trainMs + OUTCOME_MS;
+    folds.push({
+      index: folds.length,
+      trainStart,
+      trainEnd: trainStart + trainMs,
+      testStart,
+      testEnd: testStart + testMs,
+    });
+  }
+
+  return folds;
+}
+
+/**
+ * Keep only candles needed to evaluate a window (warmup before, outcome horizon after)
+ */
+function sliceHistoricalData(
+  historicalData: Map<string, HistoricalCandle[]>,
+  start: number,
+  end: number
+): Map<string, HistoricalCandle[]> {
+  const sliced = new Map<string, HistoricalCandle[]>();
+
+  for (const [coin, candles] of historicalData) {
+    const window = candles.filter((c) => c.timestamp >= start - WARMUP_MS && c.timestamp < end + OUTCOME_MS);
+    if (window.length > 0) {
+      sliced.set(coin, window);
+    }
+  }
+
+  return sliced;
+}
+
+/**
+ * Combine per-fold statistics into one record, weighting averages by breakout count
+ */
+export function stitchStatistics(results: GridSearchResult[]): GridSearchResult["statistics"] {
+  const sum = (pick: (s: GridSearchResult["statistics"]) => number) =>
+    results.reduce((total, r) => total + pick(r.statistics), 0);
+  const weighted = (pick: (s: GridSearchResult["statistics"]) => number) =>
+    results.reduce((total, r) => total + pick(r.statistics) * r.statistics.totalBreakouts, 0);
+
+  const totalBreakouts = sum((s) => s.totalBreakouts);
+  const successfulBreakouts = sum((s) => s.successfulBreakouts);
+  const grossProfit24h = sum((s) => s.grossProfit24h);
+  const grossLoss24h = sum((s) => s.grossLoss24h);
+  const divisor = Math.max(totalBreakouts, 1);
+
+  return {
+    totalBreakouts,
+    successfulBreakouts,
+    successRate: totalBreakouts > 0 ? (successfulBreakouts / totalBreakouts) * 100 : 0,
+    avgGain1h: weighted((s) => s.avgGain1h) / divisor,
+    avgGain4h: weighted((s) => s.avgGain4h) / divisor,
+    avgGain12h: weighted((s) => s.avgGain12h) / divisor,
+    avgGain24h: weighted((s) => s.avgGain24h) / divisor,
+    avgReturn24h: weighted((s) => s.avgReturn24h) / divisor,
+    grossProfit24h,
+    grossLoss24h,
+    profitFactor: calculateProfitFactor(grossProfit24h, grossLoss24h),
+    strongBreakouts: sum((s) => s.strongBreakouts),
+    moderateBreakouts: sum((s) => s.moderateBreakouts),
+    totalSignals: sum((s) => s.totalSignals),
+    longBreakouts: sum((s) => s.longBreakouts),
+    shortBreakouts: sum((s) => s.shortBreakouts),
+  };
+}
+
+/**
+ * Flatten the searched parameters to named numbers
+ */
+function flattenParams(params: GridSearchParams): Record<string, number> {
+  return {
+    minVolumeRatio: params.minVolumeRatio,
+    minPriceChange: params.minPriceChange,
+    minConfidenceScore: params.minConfidenceScore,
+    "consolidation.high": params.consolidationThresholds.high,
+    "consolidation.medium": params.consolidationThresholds.medium,
+    "consolidation.low": params.consolidationThresholds.low,
+    consolidationHours: params.consolidationHours,
+    successThreshold: params.successThreshold,
+  };
+}
+
+/**
+ * How consistently each parameter was chosen across folds
+ */
+export function calculateParameterStability(folds: WalkForwardFold[]): ParameterStability[] {
+  if (folds.length === 0) {
+    return [];
+  }
+
+  const perFold = folds.map((fold) => flattenParams(fold.best.params));
+  const names = Object.keys(perFold[0]!);
+
+  return names.map((name) => {
+    const values = perFold.map((p) => p[name]!);
+    const counts = new Map<number, number>();
+    values.forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+
+    let mode = values[0]!;
+    for (const [value, count] of counts) {
+      if (count > (counts.get(mode) ?? 0)) {
+        mode = value;
+      }
+    }
+
+    const mean = values.reduce((total, v) => total + v, 0) / values.length;
+    const variance = values.reduce((total, v) => total + (v - mean) ** 2, 0) / values.length;
+
+    return {
+      name,
+      values,
+      mode,
+      modeShare: ((counts.get(mode) ?? 0) / values.length) * 100,
+      mean,
+      coefficientOfVariation: mean !== 0 ? Math.sqrt(variance) / Math.abs(mean) : 0,
+    };
+  });
+}
+
+/**
+ * Optimize on each train window and evaluate on the following test window
+ */
+export async function runWalkForward(
+  coins: string[],
+  months: number = 3,
+  overrides: Partial<WalkForwardOptions> = {}
+): Promise<WalkForwardReport> {
+  const options: WalkForwardOptions = {
+    ...DEFAULT_WALK_FORWARD_OPTIONS,
+    stepDays: overrides.testDays ?? DEFAULT_WALK_FORWARD_OPTIONS.testDays,
+    ...overrides,
+  };
+
+  console.log("\n" + "=".repeat(80));
+  console.log("WALK-FORWARD OPTIMIZATION");
+  console.log("=".repeat(80));
+  console.log(`Coins: ${coins.length}`);
+  console.log(`Period: Last ${months} months`);
+  console.log(`Folds: ${options.trainDays}d train / ${options.testDays}d test, step ${options.stepDays}d`);
+  console.log("=".repeat(80) + "\n");
+
+  const { startTime, endTime } = getTimeRange(months);
+  console.log("📥 Fetching historical candle data...");
+  const historicalData = await fetchHistoricalCandlesForCoins(
+    coins,
+    startTime,
+    endTime,
+    "1h",
+    3,
+    1000
+  );
+  console.log(`✓ Fetched data for ${historicalData.size} coins\n`);
+
+  const windows = buildWalkForwardFolds(startTime, endTime, options);
+  if (windows.length === 0) {
+    throw new Error(
+      `Period too short for ${options.trainDays}d train + ${options.testDays}d test; fetch more months or shrink the windows`
+    );
+  }
+
+  const allCombinations = generateParameterGrid();
+  const combinations = options.maxCombinations
+    ? allCombinations.slice(0, options.maxCombinations)
+    : allCombinations;
+
+  const folds: WalkForwardFold[] = [];
+
+  for (const window of windows) {
+    const trainLabel = `${new Date(window.trainStart).toLocaleDateString()} - ${new Date(window.trainEnd).toLocaleDateString()}`;
+    console.log(`\n📂 Fold ${window.index + 1}/${windows.length} (train ${trainLabel})`);
+
+    const trainData = sliceHistoricalData(historicalData, window.trainStart, window.trainEnd);
+    const trainResults: GridSearchResult[] = [];
+    let completed = 0;
+
+    for (const params of combinations) {
+      completed++;
+      process.stdout.write(`\r  Optimizing ${completed}/${combinations.length}`);
+      trainResults.push(
+        await runBacktestWithParams(coins, trainData, params, months, { start: window.trainStart, end: window.trainEnd })
+      );
+    }
+
+    trainResults.sort((a, b) => b.score - a.score);
+    const best = trainResults.find((r) => r.statistics.totalBreakouts >= options.minTrainBreakouts) ?? trainResults[0];
+    if (!best) {
+      continue;
+    }
+
+    const testData = sliceHistoricalData(historicalData, window.testStart, window.testEnd);
+    const outOfSample = await runBacktestWithParams(
+      coins,
+      testData,
+      best.params,
+      months,
+      { start: window.testStart, end: window.testEnd }
+    );
+
+    console.log(
+      `\n  IS score ${best.score.toFixed(2)} (${best.statistics.totalBreakouts} breakouts) → ` +
+        `OOS score ${outOfSample.score.toFixed(2)} (${outOfSample.statistics.totalBreakouts} breakouts, ` +
+        `${outOfSample.statistics.successRate.toFixed(1)}% success)`
+    );
+
+    folds.push({ ...window, best, outOfSample });
+  }
+
+  const stitched = stitchStatistics(folds.map((f) => f.outOfSample));
+  const avgInSampleScore = folds.reduce((total, f) => total + f.best.score, 0) / Math.max(folds.length, 1);
+  const avgOutOfSampleScore = folds.reduce((total, f) => total + f.outOfSample.score, 0) / Math.max(folds.length, 1);
+
+  return {
+    options,
+    startTime,
+    endTime,
+    folds,
+    outOfSample: { ...stitched, score: scoreStatistics(stitched) },
+    avgInSampleScore,
+    avgOutOfSampleScore,
+    efficiency: avgInSampleScore > 0 ? avgOutOfSampleScore / avgInSampleScore : 0,
+    stability: calculateParameterStability(folds),
+  };
+}
@@ -6,41 +6,35 @@
  * - Price breakout above resistance levels
  * - Consolidation pattern (low volatility period before breakout)
  * - Sustained momentum (not just a spike)
+ *
+ * The evaluation itself lives in breakoutEngine.ts so live detection,
+ * backtests and grid search all run the same code.
  */
 
 import redis from "../utils/redisClient.js";
-import candleStreamer, { type ProcessedCandle } from "../stream/candleStreamer.js";
+import candleStreamer from "../stream/candleStreamer.js";
+import { getTradeAggression, type TradeWindow } from "../stream/tradeStreamer.js";
+import { getStreamHealth } from "../stream/streamHealth.js";
 import { info, warn, error as logError } from "../utils/logger.js";
-import { notifyBreakout } from "../utils/telegramNotifier.js";
+import { notifyBreakout } from "../notify/notifierRegistry.js";
+import { publishBreakout } from "../utils/signalEvents.js";
 import { classifyAsset, type AssetClass } from "../assets/assetClassifier.js";
-import { CLASS_CONFIG, type BreakoutConfig } from "./breakoutClassConfig.js";
+import { resolveClassConfig } from "./classConfigOverrides.js";
+import { getClassCalibration } from "./calibrationStore.js";
+import { registerBreakoutSignal } from "./signalDedup.js";
 import {
   MULTI_ASSET_SYMBOLS,
   getStoredMultiAssetCandles,
-  type NormalizedCandle,
 } from "../ingestion/multiAssetIngestion.js";
-import { calculateConfidenceScore } from "./confidenceModel.js";
-
-export type BreakoutDirection = "long" | "short";
+import {
+  evaluateBreakout,
+  evaluateBreakouts,
+  type BreakoutDirection,
+  type BreakoutEvaluation,
+  type BreakoutSignal,
+} from "./breakoutEngine.js";
 
-export interface BreakoutSignal {
-  coin: string;
-  symbol: string;
-  class: AssetClass;
-  timestamp: number;
-  price: number;
-  volumeRatio: number; // Current volume / Average volume
-  priceChange: number; // Percentage change from resistance level
-  consolidationPeriod: number; // Hours of consolidation before breakout
-  consolidationHours: number;
-  confidenceScore: number; // 0-100
-  confidence: number;
-  resistanceLevel?: number;
-  supportLevel?: number;
-  direction: BreakoutDirection;
-  breakoutType: "strong" | "moderate" | "weak";
-  provider: "yahoo" | "twelvedata" | "hyperliquid";
-}
+export type { BreakoutDirection, BreakoutSignal } from "./breakoutEngine.js";
 
 export interface BreakoutMetrics {
   coin: string;
@@ -52,34 +46,19 @@ export interface BreakoutMetrics {
   priceChange24h: number;
 }
 
-const DEFAULT_MIN_VOLUME_RATIO = 1.5;
-const DEFAULT_MIN_PRICE_CHANGE = 1;
-const DEFAULT_MIN_CONFIDENCE_SCORE = 50;
+// Trade-flow confirmation: longs need aggressive buying, shorts aggressive selling
+const TRADE_CONFIRMATION_WINDOW: TradeWindow = "1h";
+const MIN_AGGRESSIVE_RATIO = 0.55;
 
-type CandleData = {
-  open: number;
-  close: number;
-  high: number;
-  low: number;
-  volume: number;
+export interface DetectionRunSummary {
   timestamp: number;
-};
-
-interface ConsolidationThreshold {
-  hours: number;
-  maxVolatility: number;
+  durationMs: number;
+  coins: number;
+  multiAssetSymbols: number;
+  signals: number;
 }
 
-const DEFAULT_CONSOLIDATION_THRESHOLDS: ConsolidationThreshold[] = [
-  { hours: 12, maxVolatility: 0.02 },
-  { hours: 8, maxVolatility: 0.03 },
-  { hours: 4, maxVolatility: 0.04 },
-];
-
-const EXTENDED_CONSOLIDATION_THRESHOLDS: ConsolidationThreshold[] = [
-  { hours: 24, maxVolatility: 0.015 },
-  ...DEFAULT_CONSOLIDATION_THRESHOLDS,
-];
+const LAST_RUN_KEY = "detection:lastRun";
 
 interface BreakoutRunOptions {
   includeMultiAsset?: boolean;
@@ -87,303 +66,37 @@ interface BreakoutRunOptions {
   multiAssetSymbols?: readonly string[];
 }
 
-/**
- * Calculate resistance level from recent highs
- */
-function calculateResistanceLevel<T extends CandleData>(candles: T[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-
-  // Get last 20 candles, exclude most recent 2 (for breakout comparison)
-  const relevantCandles = candles.slice(2, 22);
-  const highs = relevantCandles.map(c => c.high);
-  
-  // Use 95th percentile as resistance
-  const sorted = highs.sort((a, b) => a - b);
-  const index = Math.floor(sorted.length * 0.95);
-  
-  return sorted[index] || 0;
-}
-
-/**
- * Calculate support level from recent lows (5th percentile)
- */
-function calculateSupportLevel<T extends CandleData>(candles: T[]): number {
-  if (candles.length < 20) {
-    return 0;
-  }
-
-  const relevantCandles = candles.slice(2, 22);
-  const lows = relevantCandles.map(c => c.low);
-
-  const sorted = lows.sort((a, b) => a - b);
-  const index = Math.max(0, Math.floor(sorted.length * 0.05));
-
-  return sorted[index] || 0;
-}
-
-/**
- * Calculate average volume over a period
- */
-function calculateAverageVolume<T extends CandleData>(candles: T[], period: number = 24): number {
-  if (candles.length < period) {
-    return 0;
-  }
-
-  const relevantCandles = candles.slice(0, period);
-  const totalVolume = relevantCandles.reduce((sum, c) => sum + c.volume, 0);
-  
-  return totalVolume / period;
-}
-
-/**
- * Calculate volatility over consolidation period
- */
-function calculateConsolidationVolatility<T extends CandleData>(candles: T[], period: number = 12): number {
-  if (candles.length < period) {
-    return 0;
-  }
-
-  const relevantCandles = candles.slice(1, period + 1); // Exclude most recent
-  const prices = relevantCandles.map(c => c.close);
-  
-  const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
-  const variance = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length;
-  const stdDev = Math.sqrt(variance);
-  
-  // Return coefficient of variation (stdDev / mean)
-  return mean > 0 ? stdDev / mean : 0;
-}
-
-/**
- * Detect if recent candles show a consolidation pattern
- */
-function detectConsolidation<T extends CandleData>(
-  candles: T[],
-  thresholds: ConsolidationThreshold[] = DEFAULT_CONSOLIDATION_THRESHOLDS
-): number {
-  for (const threshold of thresholds) {
-    if (candles.length < threshold.hours) {
-      continue;
-    }
-
-    const volatility = calculateConsolidationVolatility(candles, threshold.hours);
-    if (volatility < threshold.maxVolatility) {
-      return threshold.hours;
-    }
-  }
-  
-  return 0;
-}
-
-function getConsolidationThresholdsForClass(assetClass: AssetClass): ConsolidationThreshold[] {
-  const required = CLASS_CONFIG[assetClass]?.consolidationHours ?? 12;
-  return required >= 24 ? EXTENDED_CONSOLIDATION_THRESHOLDS : DEFAULT_CONSOLIDATION_THRESHOLDS;
-}
-
-function meetsConsolidationRequirement(actualHours: number, requiredHours: number): boolean {
-  if (requiredHours <= 0) {
-    return true;
-  }
-  return actualHours >= requiredHours;
-}
-
 function logRejection(symbol: string, assetClass: AssetClass, reason: string): void {
   info("BreakoutDetector", `[Reject] ${symbol} ${assetClass} reason=${reason}`);
 }
 
-function createBreakoutSignal(params: {
-  symbol: string;
-  assetClass: AssetClass;
-  provider: BreakoutSignal["provider"];
-  direction: BreakoutDirection;
-  timestamp: number;
-  price: number;
-  volumeRatio: number;
-  priceChange: number;
-  consolidationPeriod: number;
-  confidenceScore: number;
-  resistanceLevel?: number;
-  supportLevel?: number;
-}): BreakoutSignal {
-  const baseSignal: BreakoutSignal = {
-    coin: params.symbol,
-    symbol: params.symbol,
-    class: params.assetClass,
-    timestamp: params.timestamp,
-    price: params.price,
-    volumeRatio: params.volumeRatio,
-    priceChange: params.priceChange,
-    consolidationPeriod: params.consolidationPeriod,
-    consolidationHours: params.consolidationPeriod,
-    confidenceScore: params.confidenceScore,
-    confidence: params.confidenceScore,
-    direction: params.direction,
-    breakoutType: determineBreakoutType(params.confidenceScore),
-    provider: params.provider,
-  };
-
-  if (params.resistanceLevel !== undefined) {
-    baseSignal.resistanceLevel = params.resistanceLevel;
-  }
-
-  if (params.supportLevel !== undefined) {
-    baseSignal.supportLevel = params.supportLevel;
-  }
-
-  return baseSignal;
-}
-
-function evaluateMultiAssetLong(
-  symbol: string,
-  assetClass: AssetClass,
-  provider: BreakoutSignal["provider"],
-  config: BreakoutConfig,
-  latestCandle: NormalizedCandle,
-  volumeRatio: number,
-  consolidationPeriod: number,
-  sustainedMomentum: boolean,
-  resistanceLevel: number
-): BreakoutSignal | null {
-  if (resistanceLevel <= 0) {
-    logRejection(symbol, assetClass, "no_resistance_level");
-    return null;
-  }
-
-  if (latestCandle.close <= resistanceLevel) {
-    logRejection(symbol, assetClass, "long_price_below_resistance");
-    return null;
-  }
-
-  const priceChange = ((latestCandle.close - resistanceLevel) / resistanceLevel) * 100;
-  if (priceChange < config.minPriceChange) {
-    logRejection(symbol, assetClass, `long_price_change_below_threshold(${priceChange.toFixed(2)}%)`);
-    return null;
-  }
-
-  if (volumeRatio < config.minVolumeRatio) {
-    logRejection(symbol, assetClass, `long_volume_ratio_below_threshold(${volumeRatio.toFixed(2)}x)`);
-    return null;
-  }
-
-  if (!sustainedMomentum) {
-    logRejection(symbol, assetClass, "long_no_sustained_momentum");
-    return null;
-  }
-
-  const confidenceScore = calculateConfidenceScore(
-    {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum,
-    },
-    assetClass
-  );
-
-  if (confidenceScore < config.minConfidence) {
-    logRejection(symbol, assetClass, `long_low_confidence(${confidenceScore.toFixed(1)})`);
-    return null;
-  }
-
+function logDetection(signal: BreakoutSignal): void {
+  const tag = signal.direction === "long" ? "BreakoutLong" : "BreakoutShort";
+  const sign = signal.direction === "long" ? "+" : "-";
   info(
     "BreakoutDetector",
-    `[BreakoutLong] ${symbol} ${assetClass} conf=${confidenceScore.toFixed(1)} price=${latestCandle.close.toFixed(4)} ` +
-      `vr=${volumeRatio.toFixed(2)} change=+${priceChange.toFixed(2)}% provider=${provider}`
+    `[${tag}] ${signal.symbol} ${signal.class} conf=${signal.confidenceScore.toFixed(1)}` +
+      (signal.winProbability !== undefined ? ` p=${signal.winProbability.toFixed(2)}` : "") +
+      ` price=${signal.price.toFixed(4)} ` +
+      `vr=${signal.volumeRatio.toFixed(2)} change=${sign}${signal.priceChange.toFixed(2)}% provider=${signal.provider}`
   );
-
-  return createBreakoutSignal({
-    symbol,
-    assetClass,
-    provider,
-    direction: "long",
-    timestamp: latestCandle.timestamp,
-    price: latestCandle.close,
-    volumeRatio,
-    priceChange,
-    consolidationPeriod,
-    confidenceScore,
-    resistanceLevel,
-  });
 }
 
-function evaluateMultiAssetShort(
+/**
+ * Log an engine evaluation and return its signal (if any)
+ */
+function handleEvaluation(
   symbol: string,
   assetClass: AssetClass,
-  provider: BreakoutSignal["provider"],
-  config: BreakoutConfig,
-  latestCandle: NormalizedCandle,
-  volumeRatio: number,
-  consolidationPeriod: number,
-  sustainedBearMomentum: boolean,
-  supportLevel: number
+  evaluation: BreakoutEvaluation
 ): BreakoutSignal | null {
-  if (supportLevel <= 0) {
-    logRejection(symbol, assetClass, "no_support_level");
-    return null;
-  }
-
-  if (latestCandle.close >= supportLevel) {
-    logRejection(symbol, assetClass, "short_price_above_support");
-    return null;
-  }
-
-  const priceChange = ((supportLevel - latestCandle.close) / supportLevel) * 100;
-  if (priceChange <= 0) {
-    logRejection(symbol, assetClass, "short_no_downside_break");
-    return null;
-  }
-
-  if (priceChange < config.minPriceChange) {
-    logRejection(symbol, assetClass, `short_price_change_below_threshold(${priceChange.toFixed(2)}%)`);
+  if (!evaluation.signal) {
+    logRejection(symbol, assetClass, evaluation.rejectionReason ?? "unknown");
     return null;
   }
 
-  if (volumeRatio < config.minVolumeRatio) {
-    logRejection(symbol, assetClass, `short_volume_ratio_below_threshold(${volumeRatio.toFixed(2)}x)`);
-    return null;
-  }
-
-  if (!sustainedBearMomentum) {
-    logRejection(symbol, assetClass, "short_no_sustained_bearish_momentum");
-    return null;
-  }
-
-  const confidenceScore = calculateConfidenceScore(
-    {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum: sustainedBearMomentum,
-    },
-    assetClass
-  );
-
-  if (confidenceScore < config.minConfidence) {
-    logRejection(symbol, assetClass, `short_low_confidence(${confidenceScore.toFixed(1)})`);
-    return null;
-  }
-
-  info(
-    "BreakoutDetector",
-    `[BreakoutShort] ${symbol} ${assetClass} conf=${confidenceScore.toFixed(1)} price=${latestCandle.close.toFixed(4)} ` +
-      `vr=${volumeRatio.toFixed(2)} change=-${priceChange.toFixed(2)}% provider=${provider}`
-  );
-
-  return createBreakoutSignal({
-    symbol,
-    assetClass,
-    provider,
-    direction: "short",
-    timestamp: latestCandle.timestamp,
-    price: latestCandle.close,
-    volumeRatio,
-    priceChange,
-    consolidationPeriod,
-    confidenceScore,
-    supportLevel,
-  });
+  logDetection(evaluation.signal);
+  return evaluation.signal;
 }
 
 async function detectBreakoutsForNonCryptoSymbol(symbol: string): Promise<BreakoutSignal[]> {
@@ -394,69 +107,21 @@ async function detectBreakoutsForNonCryptoSymbol(symbol: string): Promise<Breako
   }
 
   const latestCandle = candles[0]!;
-  const detectedSignals: BreakoutSignal[] = [];
   const resolvedClass = latestCandle.class ?? classifyAsset(symbol);
-  const config = CLASS_CONFIG[resolvedClass] ?? CLASS_CONFIG.crypto;
-
-  if (candles.length < 24) {
-    logRejection(symbol, resolvedClass, `insufficient_data(${candles.length})`);
-    return [];
-  }
-
-  const thresholds = getConsolidationThresholdsForClass(resolvedClass);
-  const consolidationPeriod = detectConsolidation(candles, thresholds);
-  if (!meetsConsolidationRequirement(consolidationPeriod, config.consolidationHours)) {
-    logRejection(
-      symbol,
-      resolvedClass,
-      `low_consolidation(${consolidationPeriod}h<${config.consolidationHours}h)`
-    );
-    return [];
-  }
-
-  const avgVolume = calculateAverageVolume(candles, 24);
-  let volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 1;
-  if (!Number.isFinite(volumeRatio) || volumeRatio <= 0) {
-    volumeRatio = 1;
-  }
-
-  const sustainedMomentum = checkSustainedMomentum(candles);
-  const sustainedBearMomentum = checkSustainedBearMomentum(candles);
-  const resistanceLevel = calculateResistanceLevel(candles);
-  const supportLevel = calculateSupportLevel(candles);
-  const provider = latestCandle.provider ?? "yahoo";
-
-  const longSignal = evaluateMultiAssetLong(
-    symbol,
-    resolvedClass,
-    provider,
-    config,
-    latestCandle,
-    volumeRatio,
-    consolidationPeriod,
-    sustainedMomentum,
-    resistanceLevel
-  );
-  if (longSignal) {
-    detectedSignals.push(longSignal);
-  }
+  const config = await resolveClassConfig(resolvedClass);
 
-  const shortSignal = evaluateMultiAssetShort(
+  const evaluations = evaluateBreakouts({
     symbol,
-    resolvedClass,
-    provider,
+    assetClass: resolvedClass,
+    provider: latestCandle.provider ?? "yahoo",
+    candles,
     config,
-    latestCandle,
-    volumeRatio,
-    consolidationPeriod,
-    sustainedBearMomentum,
-    supportLevel
-  );
-  if (shortSignal) {
-    detectedSignals.push(shortSignal);
-  }
+    calibration: await getClassCalibration(resolvedClass),
+  });
 
-  return detectedSignals;
+  return evaluations
+    .map((evaluation) => handleEvaluation(symbol, resolvedClass, evaluation))
+    .filter((s): s is BreakoutSignal => s !== null);
 }
 
 async function detectMultiAssetBreakouts(
@@ -476,274 +141,165 @@ async function detectMultiAssetBreakouts(
   return signals;
 }
 
-
 /**
- * Check if momentum is sustained (not just a spike)
+ * Check that taker flow agrees with the breakout direction.
+ * Returns a rejection reason, or null when confirmed. Coins without any
+ * recorded trade flow (e.g. right after startup) are not blocked.
  */
-function checkSustainedMomentum<T extends CandleData>(candles: T[]): boolean {
-  if (candles.length < 3) {
-    return false;
+async function checkTradeConfirmation(signal: BreakoutSignal): Promise<string | null> {
+  const aggression = await getTradeAggression(signal.symbol, TRADE_CONFIRMATION_WINDOW);
+  // Only known in the process that runs the trade stream (null elsewhere)
+  const tradeHealth = getStreamHealth("tradeStreamer");
+  const streamDown = tradeHealth !== null && tradeHealth.status !== "connected";
+
+  if (aggression.buyVolume + aggression.sellVolume === 0) {
+    warn(
+      "BreakoutDetector",
+      streamDown
+        ? `${signal.symbol}: Trade stream is down, skipping aggression confirmation (signal is unconfirmed)`
+        : `${signal.symbol}: No trade flow recorded, skipping aggression confirmation`
+    );
+    return null;
   }
-
-  // Check if last 2-3 candles all show upward movement
-  const recent = candles.slice(0, 3);
-  
-  let greenCandles = 0;
-  for (const candle of recent) {
-    if (candle.close > candle.open) {
-      greenCandles++;
-    }
+  if (streamDown) {
+    warn("BreakoutDetector", `${signal.symbol}: Trade stream is down, confirming on partial trade flow`);
   }
 
-  return greenCandles >= 2;
-}
+  signal.aggressiveBuyRatio = aggression.aggressiveBuyRatio;
+  const ratio = aggression.aggressiveBuyRatio;
 
-/**
- * Check if recent candles show sustained bearish momentum
- */
-function checkSustainedBearMomentum<T extends CandleData>(candles: T[]): boolean {
-  if (candles.length < 3) {
-    return false;
+  if (signal.direction === "long" && ratio < MIN_AGGRESSIVE_RATIO) {
+    return `long_no_aggressive_buying(${(ratio * 100).toFixed(0)}%)`;
   }
 
-  const recent = candles.slice(0, 3);
-  let redCandles = 0;
-
-  for (const candle of recent) {
-    if (candle.close < candle.open) {
-      redCandles++;
-    }
+  if (signal.direction === "short" && 1 - ratio < MIN_AGGRESSIVE_RATIO) {
+    return `short_no_aggressive_selling(${((1 - ratio) * 100).toFixed(0)}%)`;
   }
 
-  return redCandles >= 2;
-}
-
-/**
- * Map confidence score to breakout classification
- */
-function determineBreakoutType(confidenceScore: number): "strong" | "moderate" | "weak" {
-  if (confidenceScore >= 75) {
-    return "strong";
-  }
-  if (confidenceScore >= 50) {
-    return "moderate";
-  }
-  return "weak";
+  return null;
 }
 
 /**
- * Detect breakout for a single coin
+ * Detect a crypto breakout in one direction using the Hyperliquid candle stream
  */
-export async function detectBreakoutForCoin(coin: string): Promise<BreakoutSignal | null> {
+async function detectCryptoBreakout(
+  coin: string,
+  direction: BreakoutDirection
+): Promise<BreakoutSignal | null> {
   try {
-    // Get recent candles (last 60 hours)
-    const candles = await candleStreamer.getCandles(coin, 60);
-    
-    if (candles.length < 24) {
-      info("BreakoutDetector", `${coin}: Insufficient data (${candles.length} candles, need 24+)`);
-      return null; // Not enough data
-    }
-
-    const latestCandle = candles[0];
-    
-    if (!latestCandle) {
-      warn("BreakoutDetector", `${coin}: No latest candle available`);
-      return null; // No latest candle
-    }
-    
+    // Get closed candles (last 60 hours, one per hour)
+    const candles = await candleStreamer.getClosedCandles(coin, 60);
     const assetClass: AssetClass = "crypto";
-    const provider: BreakoutSignal["provider"] = "hyperliquid";
-    
-    // Calculate metrics
-    const resistanceLevel = calculateResistanceLevel(candles);
-    const avgVolume = calculateAverageVolume(candles, 24);
-    const consolidationPeriod = detectConsolidation(candles);
-    const sustainedMomentum = checkSustainedMomentum(candles);
-
-    info(
-      "BreakoutDetector",
-      `${coin}: price=${latestCandle.close.toFixed(4)} resistance=${resistanceLevel.toFixed(4)} ` +
-      `vol=${latestCandle.volume.toFixed(0)} avgVol=${avgVolume.toFixed(0)} ` +
-      `consolidation=${consolidationPeriod}h momentum=${sustainedMomentum}`
-    );
-
-    // Check if price broke above resistance
-    if (latestCandle.close <= resistanceLevel) {
-      info("BreakoutDetector", `${coin}: No breakout (price below resistance)`);
-      return null; // No breakout
-    }
-
-    // Calculate breakout metrics
-    const volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 0;
-    const priceChange = ((latestCandle.close - resistanceLevel) / resistanceLevel) * 100;
 
-    info(
-      "BreakoutDetector",
-      `${coin}: PRICE BREAKOUT! volRatio=${volumeRatio.toFixed(2)}x priceChange=+${priceChange.toFixed(2)}%`
-    );
-
-    // Require minimum volume surge and price breakout
-    if (volumeRatio < 1.5 || priceChange < 1) {
-      info("BreakoutDetector", `${coin}: Breakout too weak (volRatio < 1.5x or priceChange < 1%)`);
-      return null; // Not strong enough
+    if (candles.length === 0) {
+      warn("BreakoutDetector", `${coin}: No latest candle available`);
+      return null;
     }
 
-    // Calculate confidence score
-    const confidenceScore = calculateConfidenceScore(
+    const evaluation = evaluateBreakout(
       {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum,
+        symbol: coin,
+        assetClass,
+        provider: "hyperliquid",
+        candles,
+        config: await resolveClassConfig(assetClass),
+        calibration: await getClassCalibration(assetClass),
       },
-      assetClass
+      direction
     );
 
-    // Determine breakout type
-    const breakoutType = determineBreakoutType(confidenceScore);
+    const metrics = evaluation.metrics;
+    if (metrics) {
+      const level = direction === "long"
+        ? `resistance=${metrics.resistanceLevel.toFixed(4)}`
+        : `support=${metrics.supportLevel.toFixed(4)}`;
+      info(
+        "BreakoutDetector",
+        `${coin} [${direction}]: price=${metrics.price.toFixed(4)} ${level} ` +
+        `vr=${metrics.volumeRatio.toFixed(2)} avgVol=${metrics.avgVolume.toFixed(0)} ` +
+        `consolidation=${metrics.consolidationPeriod}h`
+      );
+    }
 
-    info(
-      "BreakoutDetector",
-      `${coin}: Confidence score = ${confidenceScore}/100 (${breakoutType})`
-    );
+    if (!evaluation.signal) {
+      return handleEvaluation(coin, assetClass, evaluation);
+    }
 
-    // Only return high-confidence breakouts (50+)
-    if (confidenceScore < DEFAULT_MIN_CONFIDENCE_SCORE) {
-      info("BreakoutDetector", `${coin}: Confidence too low (< 50), skipping`);
+    const tradeRejection = await checkTradeConfirmation(evaluation.signal);
+    if (tradeRejection) {
+      logRejection(coin, assetClass, tradeRejection);
       return null;
     }
 
-    const signal: BreakoutSignal = {
-      coin,
-      symbol: coin,
-      class: assetClass,
-      timestamp: latestCandle.timestamp,
-      price: latestCandle.close,
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      consolidationHours: consolidationPeriod,
-      confidenceScore,
-      confidence: confidenceScore,
-      resistanceLevel,
-      direction: "long",
-      breakoutType,
-      provider,
-    };
-
-    return signal;
+    return handleEvaluation(coin, assetClass, evaluation);
   } catch (err) {
-    logError("BreakoutDetector", `Error detecting breakout for ${coin}`, err);
+    logError("BreakoutDetector", `Error detecting ${direction} breakout for ${coin}`, err);
     return null;
   }
 }
 
+/**
+ * Detect breakout for a single coin
+ */
+export async function detectBreakoutForCoin(coin: string): Promise<BreakoutSignal | null> {
+  return detectCryptoBreakout(coin, "long");
+}
+
 /**
  * Detect short-side breakout for a single coin
  */
 async function detectShortBreakoutForCoin(coin: string): Promise<BreakoutSignal | null> {
-  try {
-    const candles = await candleStreamer.getCandles(coin, 60);
-
-    if (candles.length < 24) {
-      info("BreakoutDetector", `[ShortBreakout] REJECTED ${coin} reason=insufficient_data (${candles.length} candles)`);
-      return null;
-    }
-
-    const latestCandle = candles[0];
-
-    if (!latestCandle) {
-      warn("BreakoutDetector", `[ShortBreakout] REJECTED ${coin} reason=no_latest_candle`);
-      return null;
-    }
-
-    const assetClass: AssetClass = "crypto";
-    const provider: BreakoutSignal["provider"] = "hyperliquid";
-
-    const supportLevel = calculateSupportLevel(candles);
-    if (supportLevel <= 0) {
-      info("BreakoutDetector", `[ShortBreakout] REJECTED ${coin} reason=no_support_level`);
-      return null;
-    }
-
-    if (latestCandle.close >= supportLevel) {
-      info("BreakoutDetector", `[ShortBreakout] REJECTED ${coin} reason=price_above_support`);
-      return null;
-    }
+  return detectCryptoBreakout(coin, "short");
+}
 
-    const avgVolume = calculateAverageVolume(candles, 24);
-    const consolidationPeriod = detectConsolidation(candles);
-    const sustainedBearMomentum = checkSustainedBearMomentum(candles);
-    const volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 0;
-    const priceChange = ((supportLevel - latestCandle.close) / supportLevel) * 100;
+/**
+ * Detect long and short breakouts for one coin, store new signals and alert
+ * (returns the signals that weren't duplicates of this candle)
+ */
+export async function detectAndStoreForCoin(coin: string): Promise<BreakoutSignal[]> {
+  const signals: BreakoutSignal[] = [];
+  try {
+    const [longSignal, shortSignal] = await Promise.all([
+      detectBreakoutForCoin(coin),
+      detectShortBreakoutForCoin(coin),
+    ]);
 
-    info(
-      "BreakoutDetector",
-      `[ShortBreakout] ${coin}: price=${latestCandle.close.toFixed(4)} support=${supportLevel.toFixed(4)} ` +
-      `vol=${latestCandle.volume.toFixed(0)} avgVol=${avgVolume.toFixed(0)} ` +
-      `consolidation=${consolidationPeriod}h momentum=${sustainedBearMomentum}`
+    const detectedSignals = [longSignal, shortSignal].filter(
+      (s): s is BreakoutSignal => s !== null
     );
 
-    if (priceChange <= 0) {
-      info("BreakoutDetector", `[ShortBreakout] REJECTED ${coin} reason=no_downside_break`);
-      return null;
-    }
+    for (const signal of detectedSignals) {
+      const decision = await registerBreakoutSignal(signal);
+      if (decision.reason === "duplicate_candle") {
+        continue;
+      }
 
-    if (volumeRatio < DEFAULT_MIN_VOLUME_RATIO || priceChange < DEFAULT_MIN_PRICE_CHANGE) {
+      const keyBase = `breakout:signal:${coin}:${signal.timestamp}`;
+      const key = signal.direction === "long" ? keyBase : `${keyBase}:short`;
+      await redis.setex(key, 86400 * 7, JSON.stringify(signal));
+
+      await redis.zadd("breakouts:active", signal.timestamp, `${coin}:${signal.direction}`);
+      
+      signals.push(signal);
+      
       info(
         "BreakoutDetector",
-        `[ShortBreakout] REJECTED ${coin} reason=thresholds volumeRatio=${volumeRatio.toFixed(2)} ` +
-        `priceChange=${priceChange.toFixed(2)}%`
+        `🚀 BREAKOUT DETECTED (${signal.direction.toUpperCase()}): ${coin} | Price: $${signal.price.toFixed(4)} | ` +
+        `Volume: ${signal.volumeRatio.toFixed(1)}x | Change: ${signal.direction === "short" ? "-" : "+"}${signal.priceChange.toFixed(1)}% | ` +
+        `Confidence: ${signal.confidenceScore}/100` +
+        (signal.winProbability !== undefined ? ` (${(signal.winProbability * 100).toFixed(0)}% win prob)` : "") +
+        ` | Type: ${signal.breakoutType.toUpperCase()}`
       );
-      return null;
-    }
-
-    const confidenceScore = calculateConfidenceScore(
-      {
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      sustainedMomentum: sustainedBearMomentum,
-      },
-      assetClass
-    );
-
-    if (confidenceScore < DEFAULT_MIN_CONFIDENCE_SCORE) {
-      info("BreakoutDetector", `[ShortBreakout] REJECTED ${coin} reason=low_confidence (${confidenceScore.toFixed(1)})`);
-      return null;
+      
+      if (decision.alert) {
+        await notifyBreakout(signal);
+        await publishBreakout(signal);
+      }
     }
-
-    const breakoutType = determineBreakoutType(confidenceScore);
-
-    info(
-      "BreakoutDetector",
-      `[ShortBreakout] DETECTED ${coin} price=${latestCandle.close.toFixed(4)} ` +
-      `support=${supportLevel.toFixed(4)} vr=${volumeRatio.toFixed(2)} change=${priceChange.toFixed(2)}%`
-    );
-
-    const signal: BreakoutSignal = {
-      coin,
-      symbol: coin,
-      class: assetClass,
-      timestamp: latestCandle.timestamp,
-      price: latestCandle.close,
-      volumeRatio,
-      priceChange,
-      consolidationPeriod,
-      consolidationHours: consolidationPeriod,
-      confidenceScore,
-      confidence: confidenceScore,
-      supportLevel,
-      direction: "short",
-      breakoutType,
-      provider,
-    };
-
-    return signal;
   } catch (err) {
-    logError("BreakoutDetector", `Error detecting short breakout for ${coin}`, err);
-    return null;
+    logError("BreakoutDetector", `Error processing ${coin}`, err);
   }
+  return signals;
 }
 
 /**
@@ -753,44 +309,15 @@ export async function run(
   coins: string[],
   options: BreakoutRunOptions = {}
 ): Promise<BreakoutSignal[]> {
+  const startedAt = Date.now();
   const signals: BreakoutSignal[] = [];
   const shouldProcessCrypto = !options.skipCrypto;
 
   if (shouldProcessCrypto) {
     info("BreakoutDetector", `Running breakout detection for ${coins.length} coins`);
 
-  for (const coin of coins) {
-    try {
-      const [longSignal, shortSignal] = await Promise.all([
-        detectBreakoutForCoin(coin),
-        detectShortBreakoutForCoin(coin),
-      ]);
-
-      const detectedSignals = [longSignal, shortSignal].filter(
-        (s): s is BreakoutSignal => s !== null
-      );
-
-      for (const signal of detectedSignals) {
-        const keyBase = `breakout:signal:${coin}:${signal.timestamp}`;
-        const key = signal.direction === "long" ? keyBase : `${keyBase}:short`;
-        await redis.setex(key, 86400 * 7, JSON.stringify(signal));
-
-        await redis.zadd("breakouts:active", signal.timestamp, `${coin}:${signal.direction}`);
-        
-        signals.push(signal);
-        
-        info(
-          "BreakoutDetector",
-          `🚀 BREAKOUT DETECTED (${signal.direction.toUpperCase()}): ${coin} | Price: $${signal.price.toFixed(4)} | ` +
-          `Volume: ${signal.volumeRatio.toFixed(1)}x | Change: ${signal.direction === "short" ? "-" : "+"}${signal.priceChange.toFixed(1)}% | ` +
-          `Confidence: ${signal.confidenceScore}/100 | Type: ${signal.breakoutType.toUpperCase()}`
-        );
-        
-        await notifyBreakout(signal);
-      }
-    } catch (err) {
-      logError("BreakoutDetector", `Error processing ${coin}`, err);
-      }
+    for (const coin of coins) {
+      signals.push(...(await detectAndStoreForCoin(coin)));
     }
   } else {
     info("BreakoutDetector", "Skipping crypto breakout detection (skipCrypto=true)");
@@ -802,17 +329,59 @@ export async function run(
     const multiSignals = await detectMultiAssetBreakouts(symbols);
 
     for (const signal of multiSignals) {
+      const decision = await registerBreakoutSignal(signal);
+      if (decision.reason === "duplicate_candle") {
+        continue;
+      }
+
       const keyBase = `breakout:signal:${signal.symbol}:${signal.timestamp}`;
       const key = signal.direction === "long" ? keyBase : `${keyBase}:short`;
       await redis.setex(key, 86400 * 7, JSON.stringify(signal));
       await redis.zadd("breakouts:active", signal.timestamp, `${signal.symbol}:${signal.direction}`);
       signals.push(signal);
-      await notifyBreakout(signal);
+      if (decision.alert) {
+        await notifyBreakout(signal);
+        await publishBreakout(signal);
+      }
     }
   }
 
   info("BreakoutDetector", `Detected ${signals.length} breakouts`);
 
+  await recordDetectionRun({
+    timestamp: startedAt,
+    durationMs: Date.now() - startedAt,
+    coins: shouldProcessCrypto ? coins.length : 0,
+    multiAssetSymbols: options.includeMultiAsset
+      ? (options.multiAssetSymbols ?? MULTI_ASSET_SYMBOLS).length
+      : 0,
+    signals: signals.length,
+  });
+
   return signals;
 }
 
+/**
+ * Remember the most recent detection run (shown by /status)
+ */
+export async function recordDetectionRun(summary: DetectionRunSummary): Promise<void> {
+  try {
+    await redis.set(LAST_RUN_KEY, JSON.stringify(summary));
+  } catch (err) {
+    logError("BreakoutDetector", "Error recording detection run", err);
+  }
+}
+
+/**
+ * Get the most recent detection run, if any
+ */
+export async function getLastDetectionRun(): Promise<DetectionRunSummary | null> {
+  try {
+    const data = await redis.get(LAST_RUN_KEY);
+    return data ? (JSON.parse(data) as DetectionRunSummary) : null;
+  } catch (err) {
+    logError("BreakoutDetector", "Error reading last detection run", err);
+    return null;
+  }
+}
+
@@ -0,0 +1,484 @@
+/**
+ * Breakout Detection Engine
+ *
+ * Pure, parameterized breakout evaluation shared by the live detector,
+ * the backtesters and grid search. Takes a candle window (most recent first)
+ * plus a BreakoutConfig and returns a signal or the reason it was rejected.
+ * No Redis, no network, no logging - callers decide what to do with the result.
+ */
+
+import type { AssetClass } from "../assets/assetClassifier.js";
+import { CLASS_CONFIG, type BreakoutConfig } from "./breakoutClassConfig.js";
+import { calculateConfidenceScore } from "./confidenceModel.js";
+import { predictWinProbability, type ClassCalibration } from "./confidenceCalibration.js";
+
+export type BreakoutDirection = "long" | "short";
+
+export interface BreakoutSignal {
+  coin: string;
+  symbol: string;
+  class: AssetClass;
+  timestamp: number;
+  price: number;
+  volumeRatio: number; // Current volume / Average volume
+  priceChange: number; // Percentage change from resistance level
+  consolidationPeriod: number; // Hours of consolidation before breakout
+  consolidationHours: number;
+  confidenceScore: number; // 0-100
+  confidence: number;
+  winProbability?: number; // Calibrated P(success), 0-1 (only with a fitted calibration)
+  resistanceLevel?: number;
+  supportLevel?: number;
+  direction: BreakoutDirection;
+  breakoutType: "strong" | "moderate" | "weak";
+  provider: "yahoo" | "twelvedata" | "hyperliquid";
+  aggressiveBuyRatio?: number; // Taker buy share of trade notional (live crypto only)
+  confirmedBy?: string[]; // Model-2 alerts on the same symbol/direction (set by signalDedup)
+}
+
+export type CandleData = {
+  open: number;
+  close: number;
+  high: number;
+  low: number;
+  volume: number;
+  timestamp: number;
+};
+
+export interface ConsolidationThreshold {
+  hours: number;
+  maxVolatility: number;
+}
+
+export const MIN_CANDLES_FOR_DETECTION = 24;
+
+export const DEFAULT_CONSOLIDATION_THRESHOLDS: ConsolidationThreshold[] = [
+  { hours: 12, maxVolatility: 0.02 },
+  { hours: 8, maxVolatility: 0.03 },
+  { hours: 4, maxVolatility: 0.04 },
+];
+
+export const EXTENDED_CONSOLIDATION_THRESHOLDS: ConsolidationThreshold[] = [
+  { hours: 24, maxVolatility: 0.015 },
+  ...DEFAULT_CONSOLIDATION_THRESHOLDS,
+];
+
+export interface BreakoutEvaluationInput {
+  symbol: string;
+  assetClass: AssetClass;
+  provider: BreakoutSignal["provider"];
+  candles: readonly CandleData[]; // Most recent first
+  config: BreakoutConfig;
+  consolidationThresholds?: ConsolidationThreshold[];
+  calibration?: ClassCalibration | null; // Adds winProbability to signals
+}
+
+/**
+ * Metrics computed once per candle window and shared by both directions
+ */
+export interface BreakoutWindowMetrics {
+  price: number;
+  timestamp: number;
+  resistanceLevel: number;
+  supportLevel: number;
+  avgVolume: number;
+  volumeRatio: number;
+  consolidationPeriod: number;
+  sustainedMomentum: boolean;
+  sustainedBearMomentum: boolean;
+}
+
+export interface BreakoutEvaluation {
+  direction: BreakoutDirection;
+  signal: BreakoutSignal | null;
+  rejectionReason: string | null;
+  metrics: BreakoutWindowMetrics | null;
+}
+
+/**
+ * Calculate resistance level from recent highs (95th percentile)
+ */
+export function calculateResistanceLevel(candles: readonly CandleData[]): number {
+  if (candles.length < 20) {
+    return 0;
+  }
+
+  // Get last 20 candles, exclude most recent 2 (for breakout comparison)
+  const relevantCandles = candles.slice(2, 22);
+  const highs = relevantCandles.map(c => c.high);
+
+  const sorted = highs.sort((a, b) => a - b);
+  const index = Math.floor(sorted.length * 0.95);
+
+  return sorted[index] || 0;
+}
+
+/**
+ * Calculate support level from recent lows (5th percentile)
+ */
+export function calculateSupportLevel(candles: readonly CandleData[]): number {
+  if (candles.length < 20) {
+    return 0;
+  }
+
+  const relevantCandles = candles.slice(2, 22);
+  const lows = relevantCandles.map(c => c.low);
+
+  const sorted = lows.sort((a, b) => a - b);
+  const index = Math.max(0, Math.floor(sorted.length * 0.05));
+
+  return sorted[index] || 0;
+}
+
+/**
+ * Calculate average volume over a period
+ */
+export function calculateAverageVolume(candles: readonly CandleData[], period: number = 24): number {
+  if (candles.length < period) {
+    return 0;
+  }
+
+  const relevantCandles = candles.slice(0, period);
+  const totalVolume = relevantCandles.reduce((sum, c) => sum + c.volume, 0);
+
+  return totalVolume / period;
+}
+
+/**
+ * Calculate volatility (coefficient of variation) over consolidation period
+ */
+export function calculateConsolidationVolatility(
+  candles: readonly CandleData[],
+  period: number = 12
+): number {
+  if (candles.length < period) {
+    return 0;
+  }
+
+  const relevantCandles = candles.slice(1, period + 1); // Exclude most recent
+  const prices = relevantCandles.map(c => c.close);
+
+  const mean = prices.reduce((sum, p) => sum + p, 0) / prices.length;
+  const variance = prices.reduce((sum, p) => sum + Math.pow(p - mean, 2), 0) / prices.length;
+  const stdDev = Math.sqrt(variance);
+
+  return mean > 0 ? stdDev / mean : 0;
+}
+
+/**
+ * Detect if recent candles show a consolidation pattern.
+ * Returns the longest matching window in hours (0 if none).
+ */
+export function detectConsolidation(
+  candles: readonly CandleData[],
+  thresholds: ConsolidationThreshold[] = DEFAULT_CONSOLIDATION_THRESHOLDS
+): number {
+  for (const threshold of thresholds) {
+    if (candles.length < threshold.hours) {
+      continue;
+    }
+
+    const volatility = calculateConsolidationVolatility(candles, threshold.hours);
+    if (volatility < threshold.maxVolatility) {
+      return threshold.hours;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Pick consolidation thresholds matching the class's required consolidation window
+ */
+export function getConsolidationThresholdsForClass(assetClass: AssetClass): ConsolidationThreshold[] {
+  const required = CLASS_CONFIG[assetClass]?.consolidationHours ?? 12;
+  return required >= 24 ? EXTENDED_CONSOLIDATION_THRESHOLDS : DEFAULT_CONSOLIDATION_THRESHOLDS;
+}
+
+/**
+ * Check if momentum is sustained (2 of the last 3 candles green)
+ */
+export function checkSustainedMomentum(candles: readonly CandleData[]): boolean {
+  if (candles.length < 3) {
+    return false;
+  }
+
+  const recent = candles.slice(0, 3);
+  const greenCandles = recent.filter(c => c.close > c.open).length;
+
+  return greenCandles >= 2;
+}
+
+/**
+ * Check if bearish momentum is sustained (2 of the last 3 candles red)
+ */
+export function checkSustainedBearMomentum(candles: readonly CandleData[]): boolean {
+  if (candles.length < 3) {
+    return false;
+  }
+
+  const recent = candles.slice(0, 3);
+  const redCandles = recent.filter(c => c.close < c.open).length;
+
+  return redCandles >= 2;
+}
+
+/**
+ * Map confidence score to breakout classification
+ */
+export function determineBreakoutType(confidenceScore: number): "strong" | "moderate" | "weak" {
+  if (confidenceScore >= 75) {
+    return "strong";
+  }
+  if (confidenceScore >= 50) {
+    return "moderate";
+  }
+  return "weak";
+}
+
+function meetsConsolidationRequirement(actualHours: number, requiredHours: number): boolean {
+  if (requiredHours <= 0) {
+    return true;
+  }
+  return actualHours >= requiredHours;
+}
+
+/**
+ * Compute the direction-independent metrics for a candle window
+ */
+export function analyzeBreakoutWindow(input: BreakoutEvaluationInput): BreakoutWindowMetrics | null {
+  const latestCandle = input.candles[0];
+  if (!latestCandle) {
+    return null;
+  }
+
+  const thresholds =
+    input.consolidationThresholds ?? getConsolidationThresholdsForClass(input.assetClass);
+  const avgVolume = calculateAverageVolume(input.candles, 24);
+
+  let volumeRatio = avgVolume > 0 ? latestCandle.volume / avgVolume : 1;
+  if (!Number.isFinite(volumeRatio) || volumeRatio <= 0) {
+    volumeRatio = 1;
+  }
+
+  return {
+    price: latestCandle.close,
+    timestamp: latestCandle.timestamp,
+    resistanceLevel: calculateResistanceLevel(input.candles),
+    supportLevel: calculateSupportLevel(input.candles),
+    avgVolume,
+    volumeRatio,
+    consolidationPeriod: detectConsolidation(input.candles, thresholds),
+    sustainedMomentum: checkSustainedMomentum(input.candles),
+    sustainedBearMomentum: checkSustainedBearMomentum(input.candles),
+  };
+}
+
+function reject(
+  direction: BreakoutDirection,
+  reason: string,
+  metrics: BreakoutWindowMetrics | null
+): BreakoutEvaluation {
+  return { direction, signal: null, rejectionReason: reason, metrics };
+}
+
+function buildSignal(
+  input: BreakoutEvaluationInput,
+  metrics: BreakoutWindowMetrics,
+  direction: BreakoutDirection,
+  priceChange: number,
+  confidenceScore: number
+): BreakoutSignal {
+  const signal: BreakoutSignal = {
+    coin: input.symbol,
+    symbol: input.symbol,
+    class: input.assetClass,
+    timestamp: metrics.timestamp,
+    price: metrics.price,
+    volumeRatio: metrics.volumeRatio,
+    priceChange,
+    consolidationPeriod: metrics.consolidationPeriod,
+    consolidationHours: metrics.consolidationPeriod,
+    confidenceScore,
+    confidence: confidenceScore,
+    direction,
+    breakoutType: determineBreakoutType(confidenceScore),
+    provider: input.provider,
+  };
+
+  if (input.calibration) {
+    signal.winProbability = predictWinProbability(input.calibration, confidenceScore);
+  }
+
+  if (direction === "long") {
+    signal.resistanceLevel = metrics.resistanceLevel;
+  } else {
+    signal.supportLevel = metrics.supportLevel;
+  }
+
+  return signal;
+}
+
+function evaluateLong(
+  input: BreakoutEvaluationInput,
+  metrics: BreakoutWindowMetrics
+): BreakoutEvaluation {
+  const { config } = input;
+  const { resistanceLevel, volumeRatio } = metrics;
+
+  if (resistanceLevel <= 0) {
+    return reject("long", "no_resistance_level", metrics);
+  }
+
+  if (metrics.price <= resistanceLevel) {
+    return reject("long", "long_price_below_resistance", metrics);
+  }
+
+  const priceChange = ((metrics.price - resistanceLevel) / resistanceLevel) * 100;
+  if (priceChange < config.minPriceChange) {
+    return reject("long", `long_price_change_below_threshold(${priceChange.toFixed(2)}%)`, metrics);
+  }
+
+  if (volumeRatio < config.minVolumeRatio) {
+    return reject("long", `long_volume_ratio_below_threshold(${volumeRatio.toFixed(2)}x)`, metrics);
+  }
+
+  if (!metrics.sustainedMomentum) {
+    return reject("long", "long_no_sustained_momentum", metrics);
+  }
+
+  const confidenceScore = calculateConfidenceScore(
+    {
+      volumeRatio,
+      priceChange,
+      consolidationPeriod: metrics.consolidationPeriod,
+      sustainedMomentum: metrics.sustainedMomentum,
+    },
+    input.assetClass
+  );
+
+  if (confidenceScore < config.minConfidence) {
+    return reject("long", `long_low_confidence(${confidenceScore.toFixed(1)})`, metrics);
+  }
+
+  return {
+    direction: "long",
+    signal: buildSignal(input, metrics, "long", priceChange, confidenceScore),
+    rejectionReason: null,
+    metrics,
+  };
+}
+
+function evaluateShort(
+  input: BreakoutEvaluationInput,
+  metrics: BreakoutWindowMetrics
+): BreakoutEvaluation {
+  const { config } = input;
+  const { supportLevel, volumeRatio } = metrics;
+
+  if (supportLevel <= 0) {
+    return reject("short", "no_support_level", metrics);
+  }
+
+  if (metrics.price >= supportLevel) {
+    return reject("short", "short_price_above_support", metrics);
+  }
+
+  const priceChange = ((supportLevel - metrics.price) / supportLevel) * 100;
+  if (priceChange <= 0) {
+    return reject("short", "short_no_downside_break", metrics);
+  }
+
+  if (priceChange < config.minPriceChange) {
+    return reject("short", `short_price_change_below_threshold(${priceChange.toFixed(2)}%)`, metrics);
+  }
+
+  if (volumeRatio < config.minVolumeRatio) {
+    return reject("short", `short_volume_ratio_below_threshold(${volumeRatio.toFixed(2)}x)`, metrics);
+  }
+
+  if (!metrics.sustainedBearMomentum) {
+    return reject("short", "short_no_sustained_bearish_momentum", metrics);
+  }
+
+  const confidenceScore = calculateConfidenceScore(
+    {
+      volumeRatio,
+      priceChange,
+      consolidationPeriod: metrics.consolidationPeriod,
+      sustainedMomentum: metrics.sustainedBearMomentum,
+    },
+    input.assetClass
+  );
+
+  if (confidenceScore < config.minConfidence) {
+    return reject("short", `short_low_confidence(${confidenceScore.toFixed(1)})`, metrics);
+  }
+
+  return {
+    direction: "short",
+    signal: buildSignal(input, metrics, "short", priceChange, confidenceScore),
+    rejectionReason: null,
+    metrics,
+  };
+}
+
+/**
+ * Run the direction-independent gates (data sufficiency, consolidation)
+ */
+function prepareWindow(
+  input: BreakoutEvaluationInput
+): { metrics: BreakoutWindowMetrics | null; rejectionReason: string | null } {
+  if (input.candles.length < MIN_CANDLES_FOR_DETECTION) {
+    return { metrics: null, rejectionReason: `insufficient_data(${input.candles.length})` };
+  }
+
+  const metrics = analyzeBreakoutWindow(input);
+  if (!metrics) {
+    return { metrics: null, rejectionReason: "no_latest_candle" };
+  }
+
+  if (!meetsConsolidationRequirement(metrics.consolidationPeriod, input.config.consolidationHours)) {
+    return {
+      metrics,
+      rejectionReason: `low_consolidation(${metrics.consolidationPeriod}h<${input.config.consolidationHours}h)`,
+    };
+  }
+
+  return { metrics, rejectionReason: null };
+}
+
+function evaluateDirection(
+  input: BreakoutEvaluationInput,
+  direction: BreakoutDirection,
+  prepared: { metrics: BreakoutWindowMetrics | null; rejectionReason: string | null }
+): BreakoutEvaluation {
+  if (prepared.rejectionReason !== null || !prepared.metrics) {
+    return reject(direction, prepared.rejectionReason ?? "no_latest_candle", prepared.metrics);
+  }
+
+  return direction === "long"
+    ? evaluateLong(input, prepared.metrics)
+    : evaluateShort(input, prepared.metrics);
+}
+
+/**
+ * Evaluate a single breakout direction for a candle window
+ */
+export function evaluateBreakout(
+  input: BreakoutEvaluationInput,
+  direction: BreakoutDirection
+): BreakoutEvaluation {
+  return evaluateDirection(input, direction, prepareWindow(input));
+}
+
+/**
+ * Evaluate both long and short breakouts for a candle window
+ */
+export function evaluateBreakouts(input: BreakoutEvaluationInput): BreakoutEvaluation[] {
+  const prepared = prepareWindow(input);
+  return [
+    evaluateDirection(input, "long", prepared),
+    evaluateDirection(input, "short", prepared),
+  ];
+}
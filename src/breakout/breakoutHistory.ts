@@ -119,6 +119,36 @@ export async function getAllBreakouts(daysBack: number = 90): Promise<BreakoutSi
   }
 }
 
+/**
+ * Get active breakout signals (breakouts:active) newer than `since`
+ */
+export async function getActiveBreakoutSignals(since: number, limit: number): Promise<BreakoutSignal[]> {
+  const members = await redis.zrevrangebyscore("breakouts:active", "+inf", since, "WITHSCORES");
+  const signals: BreakoutSignal[] = [];
+
+  for (let i = 0; i < members.length && signals.length < limit; i += 2) {
+    const member = members[i]!;
+    const timestamp = members[i + 1]!;
+    const separator = member.lastIndexOf(":");
+    const symbol = member.slice(0, separator);
+    const direction = member.slice(separator + 1);
+
+    const keyBase = `breakout:signal:${symbol}:${timestamp}`;
+    const data = await redis.get(direction === "short" ? `${keyBase}:short` : keyBase);
+    if (!data) {
+      continue;
+    }
+
+    try {
+      signals.push(JSON.parse(data) as BreakoutSignal);
+    } catch {
+      // Skip invalid JSON
+    }
+  }
+
+  return signals;
+}
+
 /**
  * Evaluate breakout outcomes (to be run periodically)
  */
@@ -149,7 +179,7 @@ export async function evaluateBreakoutOutcomes(): Promise<void> {
       }
       
       // Get candles from the breakout time onward
-      const allCandles = await candleStreamer.getCandles(signal.coin, 168); // Last 7 days
+      const allCandles = await candleStreamer.getClosedCandles(signal.coin, 168); // Last 7 days
       
       // Filter to candles after the breakout
       const candlesAfterBreakout = allCandles.filter(c => c.timestamp >= signal.timestamp);
@@ -235,30 +265,36 @@ export async function evaluateBreakoutOutcomes(): Promise<void> {
 }
 
 /**
- * Get statistics on breakout performance
+ * Get evaluated breakout outcomes for signals in the last N days
  */
-export async function getBreakoutStats(daysBack: number = 90): Promise<BreakoutStats> {
-  try {
-    const cutoffTime = Date.now() - (daysBack * 24 * 60 * 60 * 1000);
-    
-    // Get all outcomes
-    const outcomeKeys = await redis.keys("breakout:outcome:*");
-    
-    const outcomes: BreakoutOutcome[] = [];
-    
-    for (const key of outcomeKeys) {
-      try {
-        const data = await redis.get(key);
-        if (data) {
-          const outcome = JSON.parse(data as string) as BreakoutOutcome;
-          if (outcome.signal.timestamp >= cutoffTime) {
-            outcomes.push(outcome);
-          }
+export async function getBreakoutOutcomes(daysBack: number = 90): Promise<BreakoutOutcome[]> {
+  const cutoffTime = Date.now() - (daysBack * 24 * 60 * 60 * 1000);
+  const outcomeKeys = await redis.keys("breakout:outcome:*");
+  const outcomes: BreakoutOutcome[] = [];
+
+  for (const key of outcomeKeys) {
+    try {
+      const data = await redis.get(key);
+      if (data) {
+        const outcome = JSON.parse(data as string) as BreakoutOutcome;
+        if (outcome.signal.timestamp >= cutoffTime) {
+          outcomes.push(outcome);
         }
-      } catch {
-        continue;
       }
+    } catch {
+      continue;
     }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Get statistics on breakout performance
+ */
+export async function getBreakoutStats(daysBack: number = 90): Promise<BreakoutStats> {
+  try {
+    const outcomes = await getBreakoutOutcomes(daysBack);
     
     if (outcomes.length === 0) {
       return {
@@ -9,8 +9,9 @@ import redis from "../utils/redisClient.js";
 import { discoverMarkets } from "../cron/discoverMarkets.js";
 import { run as detectBreakouts } from "./breakoutDetector.js";
 import { storeBreakoutSignal, run as evaluateHistory, printBreakoutStats } from "./breakoutHistory.js";
+import { evaluateMultiHorizonOutcomes, printMultiHorizonStats } from "./multiHorizonEvaluator.js";
 import { info } from "../utils/logger.js";
-import { initTelegram } from "../utils/telegramNotifier.js";
+import { initNotifiers } from "../notify/notifierRegistry.js";
 
 /**
  * Get list of active coins from Redis
@@ -63,6 +64,7 @@ export async function runBreakoutDetection(): Promise<void> {
 export async function runHistoryEvaluation(): Promise<void> {
   info("BreakoutRunner", "Running history evaluation");
   await evaluateHistory();
+  await evaluateMultiHorizonOutcomes();
   info("BreakoutRunner", "History evaluation complete");
 }
 
@@ -71,6 +73,7 @@ export async function runHistoryEvaluation(): Promise<void> {
  */
 export async function showStats(days: number = 90): Promise<void> {
   await printBreakoutStats(days);
+  await printMultiHorizonStats(days);
 }
 
 /**
@@ -79,8 +82,8 @@ export async function showStats(days: number = 90): Promise<void> {
 async function main(): Promise<void> {
   const command = process.argv[2] || "detect";
   
-  // Initialize Telegram
-  initTelegram();
+  // Initialize notification channels
+  initNotifiers();
   
   try {
     console.log(`Breakout Runner - Command: ${command}`);
@@ -111,7 +114,7 @@ async function main(): Promise<void> {
         console.log("  node dist/breakout/breakoutRunner.js [command]");
         console.log("\nCommands:");
         console.log("  detect   - Run breakout detection (default)");
-        console.log("  evaluate - Evaluate historical breakout outcomes");
+        console.log("  evaluate - Evaluate historical breakout outcomes (incl. 24h/72h/7d horizons)");
         console.log("  stats [days] - Show breakout statistics (default: 90 days)");
         console.log("  all      - Run all tasks");
         process.exit(1);
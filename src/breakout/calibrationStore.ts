@@ -0,0 +1,51 @@
+/**
+ * Confidence Calibration Store
+ *
+ * Keeps the fitted calibration model in Redis (config:confidenceCalibration)
+ * so the live detector picks up a refit without a redeploy. Reads are cached
+ * for a minute since detection looks up a class for every coin.
+ */
+
+import redis from "../utils/redisClient.js";
+import { error as logError } from "../utils/logger.js";
+import type { AssetClass } from "../assets/assetClassifier.js";
+import type { CalibrationModel, ClassCalibration } from "./confidenceCalibration.js";
+
+const CALIBRATION_KEY = "config:confidenceCalibration";
+const CACHE_TTL_MS = 60 * 1000;
+
+let cached: { model: CalibrationModel | null; loadedAt: number } | null = null;
+
+export async function saveCalibrationModel(model: CalibrationModel): Promise<void> {
+  await redis.set(CALIBRATION_KEY, JSON.stringify(model));
+  cached = { model, loadedAt: Date.now() };
+}
+
+export async function clearCalibrationModel(): Promise<void> {
+  await redis.del(CALIBRATION_KEY);
+  cached = { model: null, loadedAt: Date.now() };
+}
+
+export async function loadCalibrationModel(): Promise<CalibrationModel | null> {
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+    return cached.model;
+  }
+
+  try {
+    const raw = await redis.get(CALIBRATION_KEY);
+    const model = raw ? (JSON.parse(raw) as CalibrationModel) : null;
+    cached = { model, loadedAt: Date.now() };
+    return model;
+  } catch (err) {
+    logError("CalibrationStore", "Error reading confidence calibration", err);
+    return null;
+  }
+}
+
+/**
+ * Calibration for an asset class, or null when none has been fitted
+ */
+export async function getClassCalibration(assetClass: AssetClass): Promise<ClassCalibration | null> {
+  const model = await loadCalibrationModel();
+  return model?.classes[assetClass] ?? null;
+}
@@ -0,0 +1,68 @@
+/**
+ * Runtime Class Config Overrides
+ *
+ * Lets operators tune the live detector's minimum confidence per asset class
+ * (e.g. from Telegram: /threshold crypto 75) without a redeploy. Overrides are
+ * kept in the Redis hash config:minConfidence and layered over CLASS_CONFIG.
+ * Backtests always use the static CLASS_CONFIG.
+ */
+
+import redis from "../utils/redisClient.js";
+import { error as logError } from "../utils/logger.js";
+import type { AssetClass } from "../assets/assetClassifier.js";
+import { CLASS_CONFIG, type BreakoutConfig } from "./breakoutClassConfig.js";
+
+const MIN_CONFIDENCE_KEY = "config:minConfidence";
+
+export const ASSET_CLASSES = Object.keys(CLASS_CONFIG) as AssetClass[];
+
+export function isAssetClass(value: string): value is AssetClass {
+  return ASSET_CLASSES.includes(value as AssetClass);
+}
+
+/**
+ * Override the minimum confidence (0-100) for an asset class
+ */
+export async function setMinConfidenceOverride(assetClass: AssetClass, minConfidence: number): Promise<void> {
+  await redis.hset(MIN_CONFIDENCE_KEY, assetClass, String(minConfidence));
+}
+
+/**
+ * Remove an override, restoring the CLASS_CONFIG default
+ */
+export async function clearMinConfidenceOverride(assetClass: AssetClass): Promise<void> {
+  await redis.hdel(MIN_CONFIDENCE_KEY, assetClass);
+}
+
+/**
+ * Get all active minimum-confidence overrides
+ */
+export async function getMinConfidenceOverrides(): Promise<Partial<Record<AssetClass, number>>> {
+  try {
+    const raw = await redis.hgetall(MIN_CONFIDENCE_KEY);
+    const overrides: Partial<Record<AssetClass, number>> = {};
+
+    for (const [assetClass, value] of Object.entries(raw)) {
+      const parsed = parseFloat(value);
+      if (isAssetClass(assetClass) && Number.isFinite(parsed)) {
+        overrides[assetClass] = parsed;
+      }
+    }
+
+    return overrides;
+  } catch (err) {
+    logError("ClassConfigOverrides", "Error reading threshold overrides", err);
+    return {};
+  }
+}
+
+/**
+ * CLASS_CONFIG for a class with any runtime overrides applied
+ */
+export async function resolveClassConfig(assetClass: AssetClass): Promise<BreakoutConfig> {
+  const base = CLASS_CONFIG[assetClass] ?? CLASS_CONFIG.crypto;
+  const overrides = await getMinConfidenceOverrides();
+  const minConfidence = overrides[assetClass];
+
+  return minConfidence === undefined ? base : { ...base, minConfidence };
+}
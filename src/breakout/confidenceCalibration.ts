@@ -0,0 +1,298 @@
+/**
+ * Confidence Calibration
+ *
+ * Maps the hand-weighted 0-100 confidence score to a win probability fitted
+ * on realized outcomes, separately per asset class:
+ *   - isotonic: monotone step curve (pool-adjacent-violators), interpolated
+ *     linearly between steps. Needs more data, follows any monotone shape.
+ *   - platt: logistic curve p = 1 / (1 + exp(-(slope * score/100 + intercept))).
+ *     Two parameters, stable on small samples.
+ * Pure functions only; persistence lives in calibrationStore.ts.
+ */
+
+import type { AssetClass } from "../assets/assetClassifier.js";
+
+export type CalibrationMethod = "isotonic" | "platt";
+
+export const CALIBRATION_METHODS: readonly CalibrationMethod[] = ["isotonic", "platt"];
+
+// Isotonic steps fitted on few samples can hit 0 or 1; keep probabilities honest
+const MIN_PROBABILITY = 0.01;
+const MAX_PROBABILITY = 0.99;
+
+export interface CalibrationSample {
+  assetClass: AssetClass;
+  confidence: number; // Raw 0-100 score
+  success: boolean;
+}
+
+export interface ReliabilityBin {
+  from: number;
+  to: number;
+  count: number;
+  wins: number;
+  winRate: number; // 0-1
+  avgConfidence: number; // 0-100
+  avgPredicted: number; // Mean calibrated probability, 0-1
+}
+
+export type CalibrationCurve =
+  | { method: "isotonic"; scores: number[]; probabilities: number[] }
+  | { method: "platt"; slope: number; intercept: number };
+
+export interface ClassCalibration {
+  assetClass: AssetClass;
+  samples: number;
+  wins: number;
+  baseRate: number;
+  curve: CalibrationCurve;
+  bins: ReliabilityBin[];
+  brierScore: number; // Calibrated probabilities
+  rawBrierScore: number; // Raw score read as a probability (score / 100)
+  expectedCalibrationError: number;
+}
+
+export interface CalibrationModel {
+  fittedAt: number;
+  source: string;
+  method: CalibrationMethod;
+  classes: Partial<Record<AssetClass, ClassCalibration>>;
+}
+
+export interface CalibrationFitOptions {
+  method?: CalibrationMethod;
+  minSamples?: number; // Classes with fewer outcomes are left uncalibrated
+  binWidth?: number; // Confidence points per reliability bin
+  source?: string;
+}
+
+export interface CalibrationFitResult {
+  model: CalibrationModel;
+  skipped: Array<{ assetClass: AssetClass; samples: number }>;
+}
+
+function clampProbability(p: number): number {
+  return Math.min(Math.max(p, MIN_PROBABILITY), MAX_PROBABILITY);
+}
+
+function sigmoid(z: number): number {
+  return 1 / (1 + Math.exp(-z));
+}
+
+/**
+ * Pool-adjacent-violators: the non-decreasing step function closest (least
+ * squares) to the observed outcomes
+ */
+export function fitIsotonic(samples: CalibrationSample[]): CalibrationCurve {
+  const sorted = [...samples].sort((a, b) => a.confidence - b.confidence);
+  const blocks: Array<{ minScore: number; maxScore: number; wins: number; count: number }> = [];
+
+  for (const sample of sorted) {
+    const last = blocks[blocks.length - 1];
+    const win = sample.success ? 1 : 0;
+
+    // Identical scores always share a block
+    if (last && last.maxScore === sample.confidence) {
+      last.wins += win;
+      last.count += 1;
+    } else {
+      blocks.push({ minScore: sample.confidence, maxScore: sample.confidence, wins: win, count: 1 });
+    }
+
+    while (blocks.length > 1) {
+      const current = blocks[blocks.length - 1]!;
+      const previous = blocks[blocks.length - 2]!;
+      if (previous.wins / previous.count <= current.wins / current.count) break;
+      previous.maxScore = current.maxScore;
+      previous.wins += current.wins;
+      previous.count += current.count;
+      blocks.pop();
+    }
+  }
+
+  const scores: number[] = [];
+  const probabilities: number[] = [];
+  for (const block of blocks) {
+    const p = clampProbability(block.wins / block.count);
+    scores.push(block.minScore);
+    probabilities.push(p);
+    if (block.maxScore !== block.minScore) {
+      scores.push(block.maxScore);
+      probabilities.push(p);
+    }
+  }
+
+  return { method: "isotonic", scores, probabilities };
+}
+
+/**
+ * Logistic fit by Newton-Raphson, using Platt's smoothed targets so a class
+ * with only wins (or only losses) still gets finite parameters
+ */
+export function fitPlatt(samples: CalibrationSample[], maxIterations: number = 100): CalibrationCurve {
+  const positives = samples.filter((s) => s.success).length;
+  const negatives = samples.length - positives;
+  const targetHigh = (positives + 1) / (positives + 2);
+  const targetLow = 1 / (negatives + 2);
+
+  const xs = samples.map((s) => s.confidence / 100);
+  const ts = samples.map((s) => (s.success ? targetHigh : targetLow));
+
+  let slope = 0;
+  let intercept = Math.log((positives + 1) / (negatives + 1));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    let gSlope = 0;
+    let gIntercept = 0;
+    let hSS = 1e-9; // Tiny ridge keeps the Hessian invertible
+    let hSI = 0;
+    let hII = 1e-9;
+
+    for (let i = 0; i < xs.length; i++) {
+      const x = xs[i]!;
+      const p = sigmoid(slope * x + intercept);
+      const residual = p - ts[i]!;
+      const weight = p * (1 - p);
+      gSlope += residual * x;
+      gIntercept += residual;
+      hSS += weight * x * x;
+      hSI += weight * x;
+      hII += weight;
+    }
+
+    const det = hSS * hII - hSI * hSI;
+    if (Math.abs(det) < 1e-12) break;
+
+    const stepSlope = (hII * gSlope - hSI * gIntercept) / det;
+    const stepIntercept = (hSS * gIntercept - hSI * gSlope) / det;
+    slope -= stepSlope;
+    intercept -= stepIntercept;
+
+    if (Math.abs(stepSlope) < 1e-10 && Math.abs(stepIntercept) < 1e-10) break;
+  }
+
+  return { method: "platt", slope, intercept };
+}
+
+/**
+ * Calibrated win probability (0-1) for a raw confidence score
+ */
+export function applyCalibrationCurve(curve: CalibrationCurve, confidence: number): number {
+  if (curve.method === "platt") {
+    return clampProbability(sigmoid(curve.slope * (confidence / 100) + curve.intercept));
+  }
+
+  const { scores, probabilities } = curve;
+  if (scores.length === 0) return 0.5;
+  if (confidence <= scores[0]!) return probabilities[0]!;
+  if (confidence >= scores[scores.length - 1]!) return probabilities[probabilities.length - 1]!;
+
+  const hi = scores.findIndex((s) => s >= confidence);
+  if (scores[hi] === confidence) return probabilities[hi]!;
+  const lo = hi - 1;
+  const t = (confidence - scores[lo]!) / (scores[hi]! - scores[lo]!);
+  return probabilities[lo]! + t * (probabilities[hi]! - probabilities[lo]!);
+}
+
+export function predictWinProbability(calibration: ClassCalibration, confidence: number): number {
+  return applyCalibrationCurve(calibration.curve, confidence);
+}
+
+/**
+ * Reliability table: outcomes grouped by raw confidence
+ */
+export function binByConfidence(
+  samples: CalibrationSample[],
+  binWidth: number = 10,
+  predict: (confidence: number) => number = (c) => c / 100
+): ReliabilityBin[] {
+  const bins = new Map<number, CalibrationSample[]>();
+  for (const sample of samples) {
+    const from = Math.min(Math.floor(sample.confidence / binWidth) * binWidth, 100 - binWidth);
+    const group = bins.get(from) ?? [];
+    group.push(sample);
+    bins.set(from, group);
+  }
+
+  return Array.from(bins.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([from, group]) => {
+      const wins = group.filter((s) => s.success).length;
+      return {
+        from,
+        to: from + binWidth,
+        count: group.length,
+        wins,
+        winRate: wins / group.length,
+        avgConfidence: group.reduce((sum, s) => sum + s.confidence, 0) / group.length,
+        avgPredicted: group.reduce((sum, s) => sum + predict(s.confidence), 0) / group.length,
+      };
+    });
+}
+
+function brierScore(samples: CalibrationSample[], predict: (confidence: number) => number): number {
+  if (samples.length === 0) return 0;
+  return samples.reduce((sum, s) => sum + (predict(s.confidence) - (s.success ? 1 : 0)) ** 2, 0) / samples.length;
+}
+
+export function fitClassCalibration(
+  assetClass: AssetClass,
+  samples: CalibrationSample[],
+  method: CalibrationMethod = "isotonic",
+  binWidth: number = 10
+): ClassCalibration {
+  const curve = method === "platt" ? fitPlatt(samples) : fitIsotonic(samples);
+  const predict = (confidence: number) => applyCalibrationCurve(curve, confidence);
+  const bins = binByConfidence(samples, binWidth, predict);
+  const wins = samples.filter((s) => s.success).length;
+
+  return {
+    assetClass,
+    samples: samples.length,
+    wins,
+    baseRate: samples.length > 0 ? wins / samples.length : 0,
+    curve,
+    bins,
+    brierScore: brierScore(samples, predict),
+    rawBrierScore: brierScore(samples, (c) => c / 100),
+    expectedCalibrationError:
+      bins.reduce((sum, bin) => sum + bin.count * Math.abs(bin.avgPredicted - bin.winRate), 0) /
+      Math.max(samples.length, 1),
+  };
+}
+
+/**
+ * Fit one curve per asset class with enough outcomes
+ */
+export function fitCalibrationModel(
+  samples: CalibrationSample[],
+  options: CalibrationFitOptions = {}
+): CalibrationFitResult {
+  const method = options.method ?? "isotonic";
+  const minSamples = options.minSamples ?? 30;
+
+  const byClass = new Map<AssetClass, CalibrationSample[]>();
+  for (const sample of samples) {
+    const group = byClass.get(sample.assetClass) ?? [];
+    group.push(sample);
+    byClass.set(sample.assetClass, group);
+  }
+
+  const model: CalibrationModel = {
+    fittedAt: Date.now(),
+    source: options.source ?? "unknown",
+    method,
+    classes: {},
+  };
+  const skipped: CalibrationFitResult["skipped"] = [];
+
+  for (const [assetClass, classSamples] of byClass) {
+    if (classSamples.length < minSamples) {
+      skipped.push({ assetClass, samples: classSamples.length });
+      continue;
+    }
+    model.classes[assetClass] = fitClassCalibration(assetClass, classSamples, method, options.binWidth);
+  }
+
+  return { model, skipped };
+}
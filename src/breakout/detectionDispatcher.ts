@@ -0,0 +1,204 @@
+/**
+ * Detection Dispatcher
+ *
+ * Runs breakout detection when hourly candles close instead of on a clock.
+ * The candle streamer reports each coin's bar as soon as it is final:
+ *   - "coin" mode (default): detect that coin right away
+ *   - "barrier" mode: wait until every coin's bar closed, then detect them all
+ * A bar is finished once every coin reported or the barrier timeout passed
+ * since the first close. Coins that never closed on the stream (no trades in
+ * the new hour yet) are then detected from the store, so none are skipped.
+ */
+
+import { info, error as logError } from "../utils/logger.js";
+import type { ProcessedCandle } from "../stream/candleStreamer.js";
+import { CANDLE_INTERVAL_MS, type CandleInterval } from "../stream/candleStore.js";
+import { detectAndStoreForCoin, recordDetectionRun, type BreakoutSignal } from "./breakoutDetector.js";
+import { storeBreakoutSignal } from "./breakoutHistory.js";
+
+export type DetectionMode = "coin" | "barrier";
+
+export const DISPATCH_CONFIG: { interval: CandleInterval; mode: DetectionMode; barrierTimeoutMs: number } = {
+  interval: "1h",
+  mode: process.env.DETECTION_MODE === "barrier" ? "barrier" : "coin",
+  barrierTimeoutMs: parseInt(process.env.DETECTION_BARRIER_TIMEOUT_SECONDS || "120", 10) * 1000,
+};
+
+export interface BarDetectionSummary {
+  interval: CandleInterval;
+  openTime: number;
+  mode: DetectionMode;
+  coins: number;
+  closedOnStream: number; // Coins whose close arrived on the stream (the rest timed out)
+  signals: BreakoutSignal[];
+  durationMs: number; // First close to last detection
+}
+
+export interface DetectionDispatcherOptions {
+  getCoins: () => string[];
+  onBarComplete?: (summary: BarDetectionSummary) => Promise<void>;
+}
+
+interface BarProgress {
+  openTime: number;
+  startedAt: number;
+  expected: Set<string>;
+  closed: Set<string>;
+  detected: Set<string>; // Detection queued or done
+  signals: BreakoutSignal[];
+  timer: NodeJS.Timeout | null;
+  finished: boolean;
+}
+
+let dispatcherOptions: DetectionDispatcherOptions | null = null;
+let currentBar: BarProgress | null = null;
+// One coin at a time: closes for every coin arrive in a burst at the top of the hour
+let detectionChain: Promise<void> = Promise.resolve();
+
+function lastClosedOpenTime(now: number): number {
+  const intervalMs = CANDLE_INTERVAL_MS[DISPATCH_CONFIG.interval];
+  return Math.floor(now / intervalMs) * intervalMs - intervalMs;
+}
+
+function enqueue(task: () => Promise<void>): Promise<void> {
+  detectionChain = detectionChain.then(task).catch((err) => {
+    logError("DetectionDispatcher", "Detection task failed", err);
+  });
+  return detectionChain;
+}
+
+function scheduleDetection(bar: BarProgress, coin: string): void {
+  bar.detected.add(coin);
+  void enqueue(async () => {
+    const signals = await detectAndStoreForCoin(coin);
+    for (const signal of signals) {
+      await storeBreakoutSignal(signal);
+    }
+    bar.signals.push(...signals);
+  });
+}
+
+function startBar(openTime: number, now: number): BarProgress {
+  const bar: BarProgress = {
+    openTime,
+    startedAt: now,
+    expected: new Set(dispatcherOptions?.getCoins() ?? []),
+    closed: new Set(),
+    detected: new Set(),
+    signals: [],
+    timer: null,
+    finished: false,
+  };
+  bar.timer = setTimeout(() => void finishBar(bar), DISPATCH_CONFIG.barrierTimeoutMs);
+
+  info(
+    "DetectionDispatcher",
+    `${DISPATCH_CONFIG.interval} bar ${new Date(openTime).toISOString()} closing: ` +
+      `waiting for ${bar.expected.size} coins (${DISPATCH_CONFIG.mode} mode)`
+  );
+  return bar;
+}
+
+async function finishBar(bar: BarProgress): Promise<void> {
+  if (bar.finished) return;
+  bar.finished = true;
+  if (bar.timer) {
+    clearTimeout(bar.timer);
+    bar.timer = null;
+  }
+
+  const stragglers = Array.from(bar.expected).filter((coin) => !bar.closed.has(coin));
+  if (stragglers.length > 0) {
+    info(
+      "DetectionDispatcher",
+      `${stragglers.length} coins had no close after ${DISPATCH_CONFIG.barrierTimeoutMs / 1000}s, detecting from the store`
+    );
+  }
+
+  // Barrier mode detects everything now; coin mode only what hasn't run yet
+  for (const coin of bar.expected) {
+    if (!bar.detected.has(coin)) {
+      scheduleDetection(bar, coin);
+    }
+  }
+
+  await enqueue(async () => {
+    const summary: BarDetectionSummary = {
+      interval: DISPATCH_CONFIG.interval,
+      openTime: bar.openTime,
+      mode: DISPATCH_CONFIG.mode,
+      coins: bar.detected.size,
+      closedOnStream: bar.closed.size,
+      signals: bar.signals,
+      durationMs: Date.now() - bar.startedAt,
+    };
+    info(
+      "DetectionDispatcher",
+      `${summary.interval} bar ${new Date(summary.openTime).toISOString()} done: ${summary.coins} coins ` +
+        `(${summary.closedOnStream} closed on stream), ${summary.signals.length} breakouts in ${summary.durationMs}ms`
+    );
+
+    await recordDetectionRun({
+      timestamp: bar.startedAt,
+      durationMs: summary.durationMs,
+      coins: summary.coins,
+      multiAssetSymbols: 0,
+      signals: summary.signals.length,
+    });
+    await dispatcherOptions?.onBarComplete?.(summary);
+  });
+}
+
+/**
+ * Start dispatching; wire handleCandleClosed to the candle streamer
+ */
+export function startDetectionDispatcher(options: DetectionDispatcherOptions): void {
+  dispatcherOptions = options;
+  info(
+    "DetectionDispatcher",
+    `Detection runs on ${DISPATCH_CONFIG.interval} candle close (${DISPATCH_CONFIG.mode} mode, ` +
+      `${DISPATCH_CONFIG.barrierTimeoutMs / 1000}s barrier timeout)`
+  );
+}
+
+export function stopDetectionDispatcher(): void {
+  if (currentBar?.timer) {
+    clearTimeout(currentBar.timer);
+    currentBar.timer = null;
+  }
+  currentBar = null;
+  dispatcherOptions = null;
+}
+
+/**
+ * candleClosed listener: only the latest closed bar of the detection interval
+ * counts (late updates and bars promoted after a restart are ignored)
+ */
+export function handleCandleClosed(
+  coin: string,
+  interval: CandleInterval,
+  candle: ProcessedCandle,
+  now: number = Date.now()
+): void {
+  if (!dispatcherOptions || interval !== DISPATCH_CONFIG.interval) return;
+
+  const openTime = lastClosedOpenTime(now);
+  if (candle.openTime !== openTime) return;
+
+  if (!currentBar || currentBar.openTime < openTime) {
+    if (currentBar) void finishBar(currentBar);
+    currentBar = startBar(openTime, now);
+  }
+  const bar = currentBar;
+  if (bar.finished || bar.closed.has(coin)) return;
+
+  bar.closed.add(coin);
+  bar.expected.add(coin);
+  if (DISPATCH_CONFIG.mode === "coin" && !bar.detected.has(coin)) {
+    scheduleDetection(bar, coin);
+  }
+
+  if (bar.closed.size >= bar.expected.size) {
+    void finishBar(bar);
+  }
+}
@@ -7,11 +7,17 @@
 
 import { info, warn, error as logError } from "../utils/logger.js";
 import { detectIntradayBreakouts } from "./intradayDetector.js";
-import { storeIntradaySignal } from "../utils/intradayStorage.js";
-import { notifyIntradayBreakout } from "../utils/telegramNotifier.js";
+import { signalExists, storeIntradaySignal } from "../utils/intradayStorage.js";
+import { notifyIntradayBreakout } from "../notify/notifierRegistry.js";
+import { publishIntraday } from "../utils/signalEvents.js";
+import { registerIntradaySignal } from "./signalDedup.js";
 import { fetchHistoricalCandles } from "../backtest/historicalDataFetcher.js";
+import { CANDLE_INTERVAL_MS, getRecentCandles } from "../stream/candleStore.js";
 import type { IntradayCandle, IntradayTimeframe } from "./intradayTypes.js";
 
+// Share of the lookback the streamed store must hold before it replaces REST
+const MIN_STORE_COVERAGE = 0.9;
+
 /**
  * Convert historical candles to intraday candles
  */
@@ -27,7 +33,33 @@ function convertToIntradayCandles(candles: any[]): IntradayCandle[] {
 }
 
 /**
- * Fetch recent candles for a symbol
+ * Candles streamed into Redis by the candle streamer, oldest first (null when
+ * the symbol/timeframe isn't streamed or the stored history is incomplete)
+ */
+async function readStoredCandles(
+  symbol: string,
+  timeframe: IntradayTimeframe,
+  lookbackHours: number
+): Promise<IntradayCandle[] | null> {
+  const intervalMs = CANDLE_INTERVAL_MS[timeframe];
+  const bars = Math.floor((lookbackHours * 60 * 60 * 1000) / intervalMs);
+  const candles = await getRecentCandles(symbol, bars, timeframe);
+
+  const newest = candles[0];
+  if (!newest || Date.now() - newest.openTime > 2 * intervalMs) {
+    return null; // Not streamed, or the stream stopped
+  }
+  if (candles.length < bars * MIN_STORE_COVERAGE) {
+    return null;
+  }
+
+  // Same shape as the REST candles: timestamp is the close time
+  return convertToIntradayCandles(candles.reverse());
+}
+
+/**
+ * Fetch recent candles for a symbol: the streamed store when it has the
+ * lookback, otherwise the REST API
  */
 async function fetchRecentCandles(
   symbol: string,
@@ -35,6 +67,11 @@ async function fetchRecentCandles(
   lookbackHours: number = 48
 ): Promise<IntradayCandle[]> {
   try {
+    const stored = await readStoredCandles(symbol, timeframe, lookbackHours);
+    if (stored) {
+      return stored;
+    }
+
     const endTime = Date.now();
     const startTime = endTime - lookbackHours * 60 * 60 * 1000;
 
@@ -82,11 +119,24 @@ async function detectForSymbol(
     ]);
 
     for (const signal of signals) {
+      // Already stored by an earlier cycle on the same candle
+      if (await signalExists(signal.symbol, signal.timestamp, signal.pattern)) {
+        continue;
+      }
+
+      const decision = await registerIntradaySignal(signal);
+      if (decision.reason === "duplicate_candle") {
+        continue;
+      }
+
       // Store in Redis
       await storeIntradaySignal(signal);
 
-      // Send notification
-      await notifyIntradayBreakout(signal);
+      // Send notification (suppressed while cooling down)
+      if (decision.alert) {
+        await notifyIntradayBreakout(signal);
+        await publishIntraday(signal);
+      }
 
       info(
         "IntradayRunner",
@@ -24,6 +24,7 @@ export interface IntradaySignal {
   confidence: number;
   signalType: "intraday_model";
   timestamp: number;
+  confirmedBy?: string[]; // Model-1 alerts on the same symbol/direction (set by signalDedup)
 }
 
 /**
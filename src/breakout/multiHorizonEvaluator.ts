@@ -0,0 +1,399 @@
+/**
+ * Multi-Horizon Outcome Evaluator
+ *
+ * Scores stored breakout (Model-1) and intraday (Model-2) signals at 24h, 72h
+ * and 7d horizons. The win threshold for each horizon is the larger of:
+ * - the class successThreshold24h, scaled by sqrt(horizon / 24h)
+ * - a volatility-normalized move: VOL_MULTIPLIER x rv20 x sqrt(horizon hours)
+ * so a quiet forex pair and a meme coin are held to comparable standards.
+ * Returns are measured close-to-close at the horizon, which separates
+ * sustained runs from pops that fade back within the day.
+ */
+
+import redis from "../utils/redisClient.js";
+import { info, warn, error as logError } from "../utils/logger.js";
+import { getAllBreakouts } from "./breakoutHistory.js";
+import { getIntradaySignalHistory } from "../utils/intradayStorage.js";
+import { CLASS_CONFIG } from "./breakoutClassConfig.js";
+import { publishEvaluation } from "../utils/signalEvents.js";
+import { fetchHistoricalCandles, type HistoricalCandle } from "../backtest/historicalDataFetcher.js";
+import { fetchMultiAssetHistoricalCandles } from "../backtest/multiAssetHistoricalFetcher.js";
+import type { BreakoutSignal } from "./breakoutDetector.js";
+import type { IntradayPattern, IntradaySignal, IntradayTimeframe } from "./intradayTypes.js";
+import type { AssetClass } from "../assets/assetClassifier.js";
+import type { MultiHorizonEvaluation } from "../utils/types.js";
+
+export type EvaluationHorizon = MultiHorizonEvaluation["horizon"];
+export type SignalSource = "breakout" | "intraday";
+
+export const HORIZON_HOURS: Record<EvaluationHorizon, number> = {
+  "24h": 24,
+  "72h": 72,
+  "7d": 168,
+};
+
+export const EVALUATION_HORIZONS: EvaluationHorizon[] = ["24h", "72h", "7d"];
+
+/**
+ * Stored evaluation with the signal context needed for reporting
+ */
+export interface SignalHorizonEvaluation extends MultiHorizonEvaluation {
+  source: SignalSource;
+  direction: "long" | "short";
+  pattern?: IntradayPattern;
+  timeframe?: IntradayTimeframe;
+}
+
+export interface HorizonSummary {
+  horizon: EvaluationHorizon;
+  total: number;
+  wins: number;
+  winRate: number;
+  avgReturn: number;
+  avgThreshold: number;
+}
+
+const RV_LOOKBACK = 20; // Hourly candles used for rv20
+const VOL_MULTIPLIER = 1.5;
+const MAX_SIGNAL_AGE_DAYS = 14; // Signals older than this are not evaluated anymore
+const EVALUATION_TTL_SECONDS = 90 * 24 * 60 * 60;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Normalized view of a signal for evaluation
+ */
+interface EvaluableSignal {
+  source: SignalSource;
+  symbol: string;
+  assetClass: AssetClass;
+  timestamp: number;
+  price: number;
+  direction: "long" | "short";
+  score: number; // 0-100 confidence score
+  pattern?: IntradayPattern;
+  timeframe?: IntradayTimeframe;
+}
+
+function fromBreakout(signal: BreakoutSignal): EvaluableSignal {
+  return {
+    source: "breakout",
+    symbol: signal.symbol ?? signal.coin,
+    assetClass: signal.class ?? "crypto",
+    timestamp: signal.timestamp,
+    price: signal.price,
+    direction: signal.direction,
+    score: signal.confidenceScore,
+  };
+}
+
+function fromIntraday(signal: IntradaySignal): EvaluableSignal {
+  return {
+    source: "intraday",
+    symbol: signal.symbol,
+    assetClass: signal.class,
+    timestamp: signal.timestamp,
+    price: signal.price,
+    direction: signal.direction,
+    score: signal.confidence,
+    pattern: signal.pattern,
+    timeframe: signal.timeframe,
+  };
+}
+
+/**
+ * One key per signal: opposite directions or different intraday patterns on the
+ * same symbol and timestamp are separate signals
+ */
+function evaluationKey(signal: EvaluableSignal, horizon: EvaluationHorizon): string {
+  const variant = [signal.direction, signal.pattern, signal.timeframe].filter(Boolean).join(":");
+  return `evaluation:${signal.source}:${signal.symbol}:${signal.timestamp}:${variant}:${horizon}`;
+}
+
+function indexKey(source: SignalSource, horizon: EvaluationHorizon): string {
+  return `evaluation:index:${source}:${horizon}`;
+}
+
+/**
+ * Hourly realized volatility (stdev of log returns) over candles sorted oldest first
+ */
+export function calculateRv20(candles: HistoricalCandle[]): number {
+  const window = candles.slice(-(RV_LOOKBACK + 1));
+  const returns: number[] = [];
+
+  for (let i = 1; i < window.length; i++) {
+    const prev = window[i - 1]!.close;
+    const curr = window[i]!.close;
+    if (prev > 0 && curr > 0) {
+      returns.push(Math.log(curr / prev));
+    }
+  }
+
+  if (returns.length < 2) {
+    return 0;
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  return Math.sqrt(variance);
+}
+
+/**
+ * Win threshold (%) for a horizon, combining class floor and volatility scaling
+ */
+export function calculateWinThreshold(
+  assetClass: AssetClass,
+  horizon: EvaluationHorizon,
+  rv20: number
+): number {
+  const hours = HORIZON_HOURS[horizon];
+  const classConfig = CLASS_CONFIG[assetClass] ?? CLASS_CONFIG.crypto;
+  const classThreshold = classConfig.successThreshold24h * Math.sqrt(hours / 24);
+  const volThreshold = VOL_MULTIPLIER * rv20 * Math.sqrt(hours) * 100;
+
+  return Math.max(classThreshold, volThreshold);
+}
+
+/**
+ * Fetch hourly candles covering rv20 lookback through the longest due horizon
+ */
+async function fetchEvaluationCandles(signal: EvaluableSignal, endTime: number): Promise<HistoricalCandle[]> {
+  const startTime = signal.timestamp - (RV_LOOKBACK + 2) * HOUR_MS;
+
+  const candles = signal.assetClass === "crypto"
+    ? await fetchHistoricalCandles(signal.symbol, startTime, endTime, "1h")
+    : await fetchMultiAssetHistoricalCandles(signal.symbol, startTime, endTime);
+
+  return [...candles].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Evaluate one signal at one horizon from pre-fetched candles (oldest first)
+ */
+function evaluateAtHorizon(
+  signal: EvaluableSignal,
+  horizon: EvaluationHorizon,
+  candles: HistoricalCandle[]
+): SignalHorizonEvaluation | null {
+  const horizonEnd = signal.timestamp + HORIZON_HOURS[horizon] * HOUR_MS;
+  const before = candles.filter((c) => c.timestamp <= signal.timestamp);
+  const exitCandle = [...candles].reverse().find((c) => c.timestamp <= horizonEnd);
+
+  if (!exitCandle || exitCandle.timestamp <= signal.timestamp) {
+    return null;
+  }
+
+  // Markets closed over weekends/holidays may not have a candle at the exact
+  // horizon end; accept the last close up to 3 days earlier
+  if (horizonEnd - exitCandle.timestamp > 72 * HOUR_MS) {
+    return null;
+  }
+
+  const rv20 = calculateRv20(before);
+  const winThreshold = calculateWinThreshold(signal.assetClass, horizon, rv20);
+  const rawReturn = ((exitCandle.close - signal.price) / signal.price) * 100;
+  const forwardReturn = signal.direction === "short" ? -rawReturn : rawReturn;
+
+  const evaluation: SignalHorizonEvaluation = {
+    coin: signal.symbol,
+    signalTs: signal.timestamp,
+    evalTs: Date.now(),
+    horizon,
+    cluster: signal.assetClass,
+    confidence: signal.score / 100,
+    score: signal.score,
+    entryPrice: signal.price,
+    exitPrice: exitCandle.close,
+    forwardReturn,
+    rv20,
+    winThreshold,
+    isWin: forwardReturn >= winThreshold,
+    source: signal.source,
+    direction: signal.direction,
+  };
+
+  if (signal.pattern) {
+    evaluation.pattern = signal.pattern;
+  }
+  if (signal.timeframe) {
+    evaluation.timeframe = signal.timeframe;
+  }
+
+  return evaluation;
+}
+
+/**
+ * Store an evaluation and index it by source/horizon
+ */
+async function storeEvaluation(signal: EvaluableSignal, evaluation: SignalHorizonEvaluation): Promise<void> {
+  const key = evaluationKey(signal, evaluation.horizon);
+  const index = indexKey(evaluation.source, evaluation.horizon);
+
+  await redis.setex(key, EVALUATION_TTL_SECONDS, JSON.stringify(evaluation));
+  await redis.zadd(index, evaluation.signalTs, key);
+  await redis.zremrangebyscore(index, "-inf", Date.now() - EVALUATION_TTL_SECONDS * 1000);
+  await publishEvaluation(evaluation);
+}
+
+/**
+ * Evaluate all horizons that are due and not yet stored for a signal
+ */
+async function evaluateSignal(signal: EvaluableSignal, now: number): Promise<number> {
+  const due: EvaluationHorizon[] = [];
+
+  for (const horizon of EVALUATION_HORIZONS) {
+    if (signal.timestamp + HORIZON_HOURS[horizon] * HOUR_MS > now) {
+      continue;
+    }
+
+    const exists = await redis.exists(evaluationKey(signal, horizon));
+    if (exists === 0) {
+      due.push(horizon);
+    }
+  }
+
+  if (due.length === 0) {
+    return 0;
+  }
+
+  const longest = due[due.length - 1]!;
+  const endTime = Math.min(now, signal.timestamp + (HORIZON_HOURS[longest] + 1) * HOUR_MS);
+  const candles = await fetchEvaluationCandles(signal, endTime);
+
+  if (candles.length === 0) {
+    warn("MultiHorizonEvaluator", `No candles for ${signal.symbol} @ ${new Date(signal.timestamp).toISOString()}`);
+    return 0;
+  }
+
+  let stored = 0;
+  for (const horizon of due) {
+    const evaluation = evaluateAtHorizon(signal, horizon, candles);
+    if (!evaluation) {
+      continue;
+    }
+
+    await storeEvaluation(signal, evaluation);
+    stored++;
+
+    info(
+      "MultiHorizonEvaluator",
+      `${signal.source} ${signal.symbol} ${signal.direction.toUpperCase()} ${horizon}: ` +
+      `return=${evaluation.forwardReturn >= 0 ? "+" : ""}${evaluation.forwardReturn.toFixed(2)}% ` +
+      `threshold=${evaluation.winThreshold.toFixed(2)}% ${evaluation.isWin ? "WIN" : "LOSS"}`
+    );
+  }
+
+  return stored;
+}
+
+/**
+ * Evaluate every stored breakout and intraday signal at all due horizons
+ */
+export async function evaluateMultiHorizonOutcomes(now: number = Date.now()): Promise<number> {
+  try {
+    info("MultiHorizonEvaluator", "Evaluating multi-horizon outcomes...");
+
+    const breakouts = await getAllBreakouts(MAX_SIGNAL_AGE_DAYS);
+    const intraday = await getIntradaySignalHistory(MAX_SIGNAL_AGE_DAYS);
+    const signals = [...breakouts.map(fromBreakout), ...intraday.map(fromIntraday)];
+
+    let stored = 0;
+    for (const signal of signals) {
+      try {
+        stored += await evaluateSignal(signal, now);
+      } catch (err) {
+        logError("MultiHorizonEvaluator", `Error evaluating ${signal.source} ${signal.symbol}`, err);
+      }
+    }
+
+    info("MultiHorizonEvaluator", `Stored ${stored} evaluations from ${signals.length} signals`);
+    return stored;
+  } catch (err) {
+    logError("MultiHorizonEvaluator", "Error evaluating multi-horizon outcomes", err);
+    return 0;
+  }
+}
+
+/**
+ * Load stored evaluations for a source/horizon in the last N days
+ */
+export async function getHorizonEvaluations(
+  source: SignalSource,
+  horizon: EvaluationHorizon,
+  daysBack: number = 90
+): Promise<SignalHorizonEvaluation[]> {
+  try {
+    const cutoffTime = Date.now() - daysBack * 24 * HOUR_MS;
+    const keys = await redis.zrangebyscore(indexKey(source, horizon), cutoffTime, "+inf");
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const values = await redis.mget(...keys);
+    const evaluations: SignalHorizonEvaluation[] = [];
+
+    for (const value of values) {
+      if (!value) continue;
+      try {
+        evaluations.push(JSON.parse(value) as SignalHorizonEvaluation);
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+
+    return evaluations;
+  } catch (err) {
+    logError("MultiHorizonEvaluator", `Error reading ${source} ${horizon} evaluations`, err);
+    return [];
+  }
+}
+
+/**
+ * Summarize win rate and returns per horizon for a source
+ */
+export async function getHorizonSummaries(
+  source: SignalSource,
+  daysBack: number = 90
+): Promise<HorizonSummary[]> {
+  const summaries: HorizonSummary[] = [];
+
+  for (const horizon of EVALUATION_HORIZONS) {
+    const evaluations = await getHorizonEvaluations(source, horizon, daysBack);
+    const total = evaluations.length;
+    const wins = evaluations.filter((e) => e.isWin).length;
+
+    summaries.push({
+      horizon,
+      total,
+      wins,
+      winRate: total > 0 ? (wins / total) * 100 : 0,
+      avgReturn: total > 0 ? evaluations.reduce((sum, e) => sum + e.forwardReturn, 0) / total : 0,
+      avgThreshold: total > 0 ? evaluations.reduce((sum, e) => sum + e.winThreshold, 0) / total : 0,
+    });
+  }
+
+  return summaries;
+}
+
+/**
+ * Print multi-horizon summaries for both models
+ */
+export async function printMultiHorizonStats(daysBack: number = 90): Promise<void> {
+  console.log("\n" + "=".repeat(70));
+  console.log(`MULTI-HORIZON OUTCOMES (Last ${daysBack} days)`);
+  console.log("=".repeat(70));
+
+  for (const source of ["breakout", "intraday"] as const) {
+    const summaries = await getHorizonSummaries(source, daysBack);
+    console.log(`\n${source === "breakout" ? "Model-1 Breakouts" : "Model-2 Intraday"}:`);
+
+    for (const s of summaries) {
+      console.log(
+        `  ${s.horizon.padEnd(4)} ${String(s.total).padStart(5)} signals | ` +
+        `win ${s.winRate.toFixed(1)}% | avg return ${s.avgReturn >= 0 ? "+" : ""}${s.avgReturn.toFixed(2)}% | ` +
+        `avg threshold ${s.avgThreshold.toFixed(2)}%`
+      );
+    }
+  }
+
+  console.log("=".repeat(70) + "\n");
+}
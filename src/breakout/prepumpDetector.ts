@@ -0,0 +1,325 @@
+/**
+ * Orderbook Pre-Pump Detector
+ *
+ * Early-warning layer ahead of the 1h breakout detector. Scores each closed
+ * 1-minute orderbook candle on three conditions:
+ * - Bid-side imbalance (buyers stacking the book)
+ * - Spread compression (market makers tightening quotes)
+ * - Volatility compression relative to the 20-minute baseline (rv20)
+ */
+
+import redis from "../utils/redisClient.js";
+import orderbookStreamer from "../stream/orderbookStreamer.js";
+import { info, error as logError, logBaselineSignal, logConfirmedSignal } from "../utils/logger.js";
+import { notifyPrepump } from "../notify/notifierRegistry.js";
+import type {
+  CoinMetrics,
+  OrderbookCandle,
+  PrepumpConfidence,
+  PrepumpSignal,
+  ScorePersistence,
+} from "../utils/types.js";
+
+export const PREPUMP_CONFIG = {
+  shortWindow: 5, // minutes used for current imbalance/spread/volatility
+  baselineWindow: 20, // minutes used for rv20 and baseline spread
+  minImbalance: 0.6, // bid share of top-of-book depth
+  minSpreadCompression: 0.2, // recent spread at least 20% tighter than baseline
+  maxVolatilityRatio: 0.5, // recent volatility at most half of rv20
+  baselineScore: 2, // minimum score stored as a baseline signal
+  confirmedScore: 3, // minimum score for a confirmed (alerted) signal
+  minConfidence: 0.6, // minimum confidence for a confirmed signal
+  persistenceLength: 5, // scores kept for persistence
+  cooldownSeconds: 30 * 60, // one confirmed alert per coin per 30 minutes
+} as const;
+
+const SIGNAL_TTL_SECONDS = 86400; // 24 hours
+
+/**
+ * Standard deviation of log returns over a price series (oldest first)
+ */
+function realizedVolatility(prices: number[]): number {
+  const returns: number[] = [];
+  for (let i = 1; i < prices.length; i++) {
+    const prev = prices[i - 1]!;
+    const curr = prices[i]!;
+    if (prev > 0 && curr > 0) {
+      returns.push(Math.log(curr / prev));
+    }
+  }
+
+  if (returns.length < 2) {
+    return 0;
+  }
+
+  const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length - 1);
+  return Math.sqrt(variance);
+}
+
+function average(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Calculate 20-minute realized volatility from orderbook candles (most recent first)
+ */
+export function calculateRv20(candles: OrderbookCandle[]): number {
+  const window = candles.slice(0, PREPUMP_CONFIG.baselineWindow + 1).reverse();
+  return realizedVolatility(window.map((c) => c.avgMidPrice));
+}
+
+/**
+ * Compute imbalance, spread compression and volatility metrics (most recent first)
+ */
+export function calculateCoinMetrics(candles: OrderbookCandle[]): CoinMetrics | null {
+  const latest = candles[0];
+  if (!latest || candles.length < PREPUMP_CONFIG.baselineWindow + 1) {
+    return null;
+  }
+
+  const recent = candles.slice(0, PREPUMP_CONFIG.shortWindow);
+  const baseline = candles.slice(0, PREPUMP_CONFIG.baselineWindow);
+
+  const recentSpread = average(recent.map((c) => c.avgSpread));
+  const baselineSpread = average(baseline.map((c) => c.avgSpread));
+  const spreadCompression = baselineSpread > 0 ? 1 - recentSpread / baselineSpread : 0;
+
+  const recentPrices = candles
+    .slice(0, PREPUMP_CONFIG.shortWindow + 1)
+    .reverse()
+    .map((c) => c.avgMidPrice);
+
+  return {
+    coin: latest.coin,
+    timestamp: latest.timestamp,
+    avgImbalance: average(recent.map((c) => c.bidAskImbalance)),
+    volatility: realizedVolatility(recentPrices),
+    spreadCompression,
+  };
+}
+
+/**
+ * Score metrics 0-3 (one point per satisfied condition)
+ */
+export function scorePrepump(metrics: CoinMetrics, rv20: number): number {
+  let score = 0;
+
+  if (metrics.avgImbalance >= PREPUMP_CONFIG.minImbalance) {
+    score++;
+  }
+
+  if (metrics.spreadCompression >= PREPUMP_CONFIG.minSpreadCompression) {
+    score++;
+  }
+
+  if (rv20 > 0 && metrics.volatility <= rv20 * PREPUMP_CONFIG.maxVolatilityRatio) {
+    score++;
+  }
+
+  return score;
+}
+
+/**
+ * Record the latest score and return rolling persistence for a coin
+ */
+async function updateScorePersistence(coin: string, score: number, timestamp: number): Promise<ScorePersistence> {
+  const key = `prepump:persistence:${coin}`;
+  let lastScores: number[] = [];
+
+  try {
+    const stored = await redis.get(key);
+    if (stored) {
+      lastScores = (JSON.parse(stored) as ScorePersistence).lastScores;
+    }
+  } catch (err) {
+    logError("PrepumpDetector", `Failed to read persistence for ${coin}`, err);
+  }
+
+  lastScores = [...lastScores, score].slice(-PREPUMP_CONFIG.persistenceLength);
+
+  const persistence: ScorePersistence = {
+    persistence: average(lastScores) / PREPUMP_CONFIG.confirmedScore,
+    lastScores,
+    timestamp,
+  };
+
+  await redis.setex(key, 3600, JSON.stringify(persistence));
+  return persistence;
+}
+
+/**
+ * Combine score, persistence and imbalance trend into a 0-1 confidence
+ */
+export function calculatePrepumpConfidence(
+  score: number,
+  persistence: ScorePersistence,
+  candles: OrderbookCandle[]
+): PrepumpConfidence {
+  const recent = candles.slice(0, PREPUMP_CONFIG.shortWindow);
+  const oldest = recent[recent.length - 1];
+  const newest = recent[0];
+  const imbalanceDelta = oldest && newest ? newest.bidAskImbalance - oldest.bidAskImbalance : 0;
+
+  // Imbalance building over the short window
+  const trendStrength = clamp01(0.5 + imbalanceDelta * 5);
+
+  // Share of the last 3 minutes already above the imbalance threshold
+  const lastThree = candles.slice(0, 3);
+  const mtfConfirmation = lastThree.length > 0
+    ? lastThree.filter((c) => c.bidAskImbalance >= PREPUMP_CONFIG.minImbalance).length / lastThree.length
+    : 0;
+
+  const scoreComponent = score / PREPUMP_CONFIG.confirmedScore;
+  const confidence = clamp01(
+    scoreComponent * 0.4 +
+    persistence.persistence * 0.3 +
+    trendStrength * 0.15 +
+    mtfConfirmation * 0.15
+  );
+
+  return {
+    confidence,
+    persistenceScore: persistence.persistence,
+    trendStrength,
+    aggressionScore: 0, // Orderbook-only model, no trade flow input
+    mtfConfirmation,
+    timestamp: newest?.timestamp ?? Date.now(),
+  };
+}
+
+/**
+ * Store a pre-pump signal in Redis
+ */
+async function storePrepumpSignal(
+  coin: string,
+  signal: PrepumpSignal,
+  confirmed: boolean,
+  confidence: PrepumpConfidence
+): Promise<void> {
+  const kind = confirmed ? "confirmed" : "baseline";
+  const key = `prepump:${kind}:${coin}:${signal.ts}`;
+
+  await redis.setex(key, SIGNAL_TTL_SECONDS, JSON.stringify({ coin, ...signal, confidence: confidence.confidence }));
+  await redis.zadd(`prepump:${kind}:all`, signal.ts, `${coin}:${signal.ts}`);
+  await redis.zremrangebyscore(`prepump:${kind}:all`, 0, signal.ts - SIGNAL_TTL_SECONDS * 1000);
+}
+
+/**
+ * Evaluate the latest orderbook candle for a coin and emit signals
+ */
+export async function handleOrderbookCandle(candle: OrderbookCandle): Promise<PrepumpSignal | null> {
+  const coin = candle.coin;
+
+  try {
+    const candles = await orderbookStreamer.getCandles(coin, PREPUMP_CONFIG.baselineWindow + 1);
+    const metrics = calculateCoinMetrics(candles);
+    if (!metrics) {
+      return null;
+    }
+
+    const rv20 = calculateRv20(candles);
+    const score = scorePrepump(metrics, rv20);
+    const persistence = await updateScorePersistence(coin, score, metrics.timestamp);
+
+    if (score < PREPUMP_CONFIG.baselineScore) {
+      return null;
+    }
+
+    const signal: PrepumpSignal = {
+      ts: metrics.timestamp,
+      score,
+      price: candle.avgMidPrice,
+      imbalance: metrics.avgImbalance,
+      volatility: metrics.volatility,
+      compression: metrics.spreadCompression,
+      rv20,
+    };
+
+    const confidence = calculatePrepumpConfidence(score, persistence, candles);
+
+    logBaselineSignal(coin, score, signal.price, signal.imbalance, signal.volatility, signal.compression, rv20);
+    await storePrepumpSignal(coin, signal, false, confidence);
+
+    if (score < PREPUMP_CONFIG.confirmedScore || confidence.confidence < PREPUMP_CONFIG.minConfidence) {
+      return signal;
+    }
+
+    const cooldownSet = await redis.set(
+      `prepump:cooldown:${coin}`,
+      String(signal.ts),
+      "EX",
+      PREPUMP_CONFIG.cooldownSeconds,
+      "NX"
+    );
+    if (cooldownSet === null) {
+      info("PrepumpDetector", `${coin} confirmed pre-pump suppressed (cooldown)`);
+      return signal;
+    }
+
+    logConfirmedSignal(
+      coin,
+      score,
+      signal.price,
+      signal.imbalance,
+      signal.volatility,
+      signal.compression,
+      rv20,
+      confidence.confidence,
+      persistence.persistence,
+      signal.imbalance, // Book-side buy ratio
+      candle.totalBidSize + candle.totalAskSize
+    );
+    await storePrepumpSignal(coin, signal, true, confidence);
+    await notifyPrepump(coin, signal, confidence);
+
+    return signal;
+  } catch (err) {
+    logError("PrepumpDetector", `Error evaluating pre-pump for ${coin}`, err);
+    return null;
+  }
+}
+
+/**
+ * Get recent confirmed pre-pump signals across all coins
+ */
+export async function getRecentPrepumpSignals(
+  sinceMs: number = Date.now() - SIGNAL_TTL_SECONDS * 1000
+): Promise<Array<PrepumpSignal & { coin: string; confidence: number }>> {
+  try {
+    const members = await redis.zrangebyscore("prepump:confirmed:all", sinceMs, "+inf");
+    const signals: Array<PrepumpSignal & { coin: string; confidence: number }> = [];
+
+    for (const member of members) {
+      const separator = member.lastIndexOf(":");
+      const coin = member.slice(0, separator);
+      const ts = member.slice(separator + 1);
+      const data = await redis.get(`prepump:confirmed:${coin}:${ts}`);
+      if (data) {
+        signals.push(JSON.parse(data));
+      }
+    }
+
+    return signals;
+  } catch (err) {
+    logError("PrepumpDetector", "Failed to read pre-pump signals", err);
+    return [];
+  }
+}
+
+/**
+ * Start pre-pump detection on every closed orderbook candle
+ */
+export function startPrepumpDetection(): void {
+  orderbookStreamer.onCandle(async (candle) => {
+    await handleOrderbookCandle(candle);
+  });
+  info("PrepumpDetector", "Pre-pump detection attached to orderbook stream");
+}
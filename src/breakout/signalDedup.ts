@@ -0,0 +1,245 @@
+/**
+ * Signal Deduplication & Cooldown
+ *
+ * Both models re-run on overlapping data (Model-1 on snapshot load and every
+ * hour, Model-2 every few minutes), so the same setup is detected repeatedly.
+ * This service decides which detections are worth alerting on:
+ *
+ *   - duplicate_candle: same symbol/direction/model/timeframe on a candle that
+ *     was already seen is dropped entirely
+ *   - cooldown: a new candle inside the cooldown window is suppressed unless
+ *     confidence rose by at least escalationDelta over the last alert
+ *   - cross-model merge: when the other model alerted on the same symbol and
+ *     direction within mergeWindowMs, the signal is annotated with confirmedBy
+ *   - contended: concurrent detections kept rewriting the record; the one whose
+ *     write landed owns the alert and this candidate is suppressed
+ *
+ * State lives in one Redis hash per symbol+direction, dedup:{symbol}:{direction},
+ * with a field per {model}:{timeframe}, so Model-1 and Model-2 share it.
+ */
+
+import redis from "../utils/redisClient.js";
+import { info, warn, error as logError } from "../utils/logger.js";
+import type { BreakoutSignal } from "./breakoutDetector.js";
+import type { IntradaySignal } from "./intradayTypes.js";
+
+export type SignalModel = "model1" | "model2";
+
+export interface DedupConfig {
+  cooldownMs: Record<string, number>; // by timeframe
+  defaultCooldownMs: number;
+  escalationDelta: number; // confidence points needed to re-alert inside cooldown
+  mergeWindowMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function envMinutes(name: string, fallbackMinutes: number): number {
+  const value = parseFloat(process.env[name] ?? "");
+  return (Number.isFinite(value) && value >= 0 ? value : fallbackMinutes) * MINUTE_MS;
+}
+
+export const DEDUP_CONFIG: DedupConfig = {
+  cooldownMs: {
+    "5m": envMinutes("SIGNAL_COOLDOWN_5M", 30),
+    "15m": envMinutes("SIGNAL_COOLDOWN_15M", 60),
+    "1h": envMinutes("SIGNAL_COOLDOWN_1H", 240),
+  },
+  defaultCooldownMs: envMinutes("SIGNAL_COOLDOWN_DEFAULT", 240),
+  escalationDelta: parseFloat(process.env.SIGNAL_ESCALATION_DELTA ?? "") || 10,
+  mergeWindowMs: envMinutes("SIGNAL_MERGE_WINDOW", 120),
+};
+
+export interface DedupCandidate {
+  model: SignalModel;
+  symbol: string;
+  direction: "long" | "short";
+  timeframe: string;
+  timestamp: number; // Candle/signal time
+  confidence: number;
+  pattern: string;
+}
+
+export type DedupReason = "new" | "escalated" | "duplicate_candle" | "cooldown" | "contended";
+
+export interface DedupDecision {
+  alert: boolean;
+  reason: DedupReason;
+  confirmedBy: string[]; // Other-model alerts on the same symbol/direction, e.g. "model2 15m micro_breakout (72)"
+}
+
+interface DedupRecord {
+  timestamp: number; // Latest candle seen
+  confidence: number;
+  pattern: string;
+  alertedAt: number;
+  alertedConfidence: number;
+}
+
+function dedupKey(symbol: string, direction: string): string {
+  return `dedup:${symbol}:${direction}`;
+}
+
+function cooldownFor(timeframe: string, config: DedupConfig): number {
+  return config.cooldownMs[timeframe] ?? config.defaultCooldownMs;
+}
+
+// Overwrite a field only if it still holds the value the decision was based on
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call("HGET", KEYS[1], ARGV[1]) == ARGV[2] then
+  redis.call("HSET", KEYS[1], ARGV[1], ARGV[3])
+  return 1
+end
+return 0
+`;
+
+// A lost write means another detection of the same field just landed; the re-read sees it
+const MAX_REGISTER_ATTEMPTS = 3;
+
+interface DedupEvaluation {
+  reason: DedupReason;
+  confirmedBy: string[];
+  previous: DedupRecord | null;
+}
+
+function evaluateCandidate(
+  records: Record<string, string>,
+  field: string,
+  candidate: DedupCandidate,
+  config: DedupConfig,
+  now: number
+): DedupEvaluation {
+  const previous = records[field] ? (JSON.parse(records[field]) as DedupRecord) : null;
+
+  // Other model's recent alerts on the same symbol and direction
+  const confirmedBy: string[] = [];
+  for (const [otherField, value] of Object.entries(records)) {
+    if (otherField.startsWith(`${candidate.model}:`)) {
+      continue;
+    }
+    const other = JSON.parse(value) as DedupRecord;
+    if (now - other.alertedAt <= config.mergeWindowMs) {
+      const [model, timeframe] = otherField.split(":");
+      confirmedBy.push(`${model} ${timeframe} ${other.pattern} (${other.alertedConfidence.toFixed(0)})`);
+    }
+  }
+
+  let reason: DedupReason = "new";
+  if (previous) {
+    if (candidate.timestamp <= previous.timestamp) {
+      reason = "duplicate_candle";
+    } else if (now - previous.alertedAt < cooldownFor(candidate.timeframe, config)) {
+      reason = candidate.confidence >= previous.alertedConfidence + config.escalationDelta
+        ? "escalated"
+        : "cooldown";
+    }
+  }
+
+  return { reason, confirmedBy, previous };
+}
+
+/**
+ * Decide whether a candidate should alert, and record it.
+ * The record is written only if the field is unchanged since it was read
+ * (HSETNX for a new field, compare-and-set otherwise), so concurrent
+ * detections of the same setup cannot both alert.
+ * Fails open (alerts) if Redis is unavailable.
+ */
+export async function registerSignal(
+  candidate: DedupCandidate,
+  config: DedupConfig = DEDUP_CONFIG,
+  now: number = Date.now()
+): Promise<DedupDecision> {
+  const key = dedupKey(candidate.symbol, candidate.direction);
+  const field = `${candidate.model}:${candidate.timeframe}`;
+
+  try {
+    for (let attempt = 1; attempt <= MAX_REGISTER_ATTEMPTS; attempt++) {
+      const records = await redis.hgetall(key);
+      const { reason, confirmedBy, previous } = evaluateCandidate(records, field, candidate, config, now);
+      const alert = reason === "new" || reason === "escalated";
+
+      if (reason !== "duplicate_candle") {
+        const record: DedupRecord = alert || !previous
+          ? {
+            timestamp: candidate.timestamp,
+            confidence: candidate.confidence,
+            pattern: candidate.pattern,
+            alertedAt: now,
+            alertedConfidence: candidate.confidence,
+          }
+          : { ...previous, timestamp: candidate.timestamp, confidence: candidate.confidence };
+
+        const previousValue = records[field];
+        const written = previousValue === undefined
+          ? await redis.hsetnx(key, field, JSON.stringify(record))
+          : await redis.eval(COMPARE_AND_SET_SCRIPT, 1, key, field, previousValue, JSON.stringify(record));
+        if (written !== 1) {
+          continue;
+        }
+
+        const ttlMs = Math.max(cooldownFor(candidate.timeframe, config), config.mergeWindowMs);
+        await redis.pexpire(key, ttlMs * 2);
+      }
+
+      if (!alert) {
+        info(
+          "SignalDedup",
+          `[Suppress] ${candidate.symbol} ${candidate.direction} ${field} reason=${reason} conf=${candidate.confidence.toFixed(0)}` +
+            (previous ? ` lastAlertConf=${previous.alertedConfidence.toFixed(0)}` : "")
+        );
+      } else if (confirmedBy.length > 0) {
+        info("SignalDedup", `[Merge] ${candidate.symbol} ${candidate.direction} ${field} confirmed by ${confirmedBy.join(", ")}`);
+      }
+
+      return { alert, reason, confirmedBy };
+    }
+
+    // Every write lost to a concurrent detection: that writer owns the alert, suppress this candidate
+    warn("SignalDedup", `[Suppress] ${candidate.symbol} ${candidate.direction} ${field} reason=contended: record changed on every attempt`);
+    return { alert: false, reason: "contended", confirmedBy: [] };
+  } catch (err) {
+    logError("SignalDedup", `Error checking ${candidate.symbol} ${field}`, err);
+    return { alert: true, reason: "new", confirmedBy: [] };
+  }
+}
+
+/**
+ * Dedup a Model-1 breakout; annotates confirmedBy on the signal
+ */
+export async function registerBreakoutSignal(signal: BreakoutSignal): Promise<DedupDecision> {
+  const decision = await registerSignal({
+    model: "model1",
+    symbol: signal.symbol,
+    direction: signal.direction,
+    timeframe: "1h",
+    timestamp: signal.timestamp,
+    confidence: signal.confidenceScore,
+    pattern: `${signal.breakoutType}_breakout`,
+  });
+
+  if (decision.confirmedBy.length > 0) {
+    signal.confirmedBy = decision.confirmedBy;
+  }
+  return decision;
+}
+
+/**
+ * Dedup a Model-2 intraday signal; annotates confirmedBy on the signal
+ */
+export async function registerIntradaySignal(signal: IntradaySignal): Promise<DedupDecision> {
+  const decision = await registerSignal({
+    model: "model2",
+    symbol: signal.symbol,
+    direction: signal.direction,
+    timeframe: signal.timeframe,
+    timestamp: signal.timestamp,
+    confidence: signal.confidence,
+    pattern: signal.pattern,
+  });
+
+  if (decision.confirmedBy.length > 0) {
+    signal.confirmedBy = decision.confirmedBy;
+  }
+  return decision;
+}
@@ -2,11 +2,32 @@ import "dotenv/config";
 import cron from "node-cron";
 import { discoverMarkets } from "./cron/discoverMarkets.js";
 import candleStreamer from "./stream/candleStreamer.js";
+import { isCandleInterval } from "./stream/candleStore.js";
+import orderbookStreamer from "./stream/orderbookStreamer.js";
+import tradeStreamer from "./stream/tradeStreamer.js";
+import { startPrepumpDetection } from "./breakout/prepumpDetector.js";
+import { getDefaultCryptoSymbols } from "./breakout/intradayRunner.js";
+import { evaluateMultiHorizonOutcomes, printMultiHorizonStats } from "./breakout/multiHorizonEvaluator.js";
 import { run as detectBreakouts } from "./breakout/breakoutDetector.js";
 import { storeBreakoutSignal, run as evaluateBreakoutHistory, printBreakoutStats } from "./breakout/breakoutHistory.js";
+import {
+  handleCandleClosed,
+  startDetectionDispatcher,
+  stopDetectionDispatcher,
+  type BarDetectionSummary,
+} from "./breakout/detectionDispatcher.js";
 import redis from "./utils/redisClient.js";
+import { startApiServer } from "./api/apiServer.js";
+import signalStream from "./api/signalStream.js";
 import { info, warn, error } from "./utils/logger.js";
-import { initTelegram, isTelegramEnabled } from "./utils/telegramNotifier.js";
+import { initNotifiers, notifyCustom, notifySubscribers } from "./notify/notifierRegistry.js";
+import { onStreamHealth, type StreamHealthMetrics } from "./stream/streamHealth.js";
+import {
+  startTelegramCommands,
+  stopTelegramCommands,
+  sendWatchlistDigest,
+} from "./utils/telegramCommands.js";
+import paperTrader from "./trading/paperTrader.js";
 import {
   ingestMultiAssetCandles,
   FOREX_SYMBOLS,
@@ -19,6 +40,22 @@ import {
 
 let activatedCoins: string[] = [];
 
+const PREPUMP_ENABLED = process.env.PREPUMP_ENABLED === "true";
+const API_PORT = process.env.API_PORT ? parseInt(process.env.API_PORT, 10) : null;
+const TELEGRAM_COMMANDS_ENABLED = process.env.TELEGRAM_COMMANDS_ENABLED === "true";
+const PAPER_TRADING_ENABLED = process.env.PAPER_TRADING_ENABLED === "true";
+// Extra candle intervals streamed for the Model-2 symbols (every coin streams 1h)
+const INTRADAY_STREAM_INTERVALS = (process.env.CANDLE_STREAM_INTERVALS ?? "5m,15m")
+  .split(",")
+  .map((s) => s.trim())
+  .filter(isCandleInterval)
+  .filter((interval) => interval !== "1h");
+// Short blips are only logged; alert once an outage outlasts this many retries or a minute
+const STREAM_ALERT_ATTEMPTS = 5;
+const STREAM_RECOVERY_ALERT_MS = 60 * 1000;
+
+let apiServer: ReturnType<typeof startApiServer> | null = null;
+
 const POLL_GROUPS = {
   forex: 5 * 60 * 1000,
   metals: 6 * 60 * 1000,
@@ -70,6 +107,36 @@ function isIndianMarketOpen(date: Date = new Date()): boolean {
   return minutes >= open && minutes <= close;
 }
 
+/**
+ * Forward stream health changes worth a human's attention to the notifiers
+ */
+function notifyStreamHealth(health: StreamHealthMetrics): void {
+  let message: string | null = null;
+
+  if (health.status === "stale") {
+    message =
+      `⚠️ *Stream Stale*\n\n` +
+      `Stream: ${health.component}\n` +
+      `Reason: ${health.message ?? "unknown"}\n` +
+      `Action: forcing reconnect`;
+  } else if (health.status === "reconnecting" && health.reconnectAttempt === STREAM_ALERT_ATTEMPTS) {
+    message =
+      `🔴 *Stream Down*\n\n` +
+      `Stream: ${health.component}\n` +
+      `Disconnected since: ${new Date(health.since).toLocaleString()}\n` +
+      `Still retrying (${health.message ?? `attempt ${health.reconnectAttempt}`})`;
+  } else if (health.status === "connected" && (health.lastDowntimeMs ?? 0) >= STREAM_RECOVERY_ALERT_MS) {
+    message =
+      `✅ *Stream Recovered*\n\n` +
+      `Stream: ${health.component}\n` +
+      `Downtime: ${Math.round(health.lastDowntimeMs! / 1000)}s`;
+  }
+
+  if (message) {
+    void notifyCustom(message);
+  }
+}
+
 /**
  * Initialize WebSocket and subscribe to all discovered coins
  */
@@ -78,6 +145,16 @@ async function initializeStreaming(): Promise<void> {
     info("Main", "Initializing WebSocket streaming (1h candles)...");
     await candleStreamer.connect();
     info("Main", "Candle WebSocket connected");
+
+    await tradeStreamer.connect();
+    info("Main", "Trades WebSocket connected");
+
+    if (PREPUMP_ENABLED) {
+      info("Main", "Initializing l2Book streaming for pre-pump detection...");
+      await orderbookStreamer.connect();
+      startPrepumpDetection();
+      info("Main", "Orderbook WebSocket connected");
+    }
   } catch (err) {
     error("Main", "Failed to initialize streaming", err);
     throw err;
@@ -95,12 +172,21 @@ async function discoverAndSubscribe(): Promise<void> {
     // Update the full list of available coins
     // The candleStreamer will automatically manage subscriptions (limited to MAX_ACTIVE_SUBSCRIPTIONS)
     candleStreamer.setAvailableCoins(coins);
+    if (INTRADAY_STREAM_INTERVALS.length > 0) {
+      const intradaySymbols = getDefaultCryptoSymbols().filter((symbol) => coins.includes(symbol));
+      void candleStreamer.subscribeIntervals(intradaySymbols, INTRADAY_STREAM_INTERVALS);
+    }
+    void tradeStreamer.setCoins(coins);
+
+    if (PREPUMP_ENABLED) {
+      void orderbookStreamer.setCoins(coins);
+    }
     
     activatedCoins = coins;
     
     // Log subscription stats
     const stats = candleStreamer.getSubscriptionStats();
-    info("Main", `Subscription stats: ${stats.confirmed}/${stats.subscribed} active (of ${stats.total} total markets)`);
+    info("Main", `Subscription stats: ${stats.confirmed}/${stats.subscribed} active (of ${stats.total} total markets), ${stats.confirmedStreams}/${stats.streams} candle streams`);
   } catch (err) {
     error("Main", "Error during market discovery", err);
   }
@@ -131,30 +217,72 @@ async function runBreakoutDetection(): Promise<void> {
     console.log(`[Main] ${message}\n`);
     console.log(`${"+".repeat(70)}\n`);
     
-    // Send Telegram notification about detection run
-    const { notifyCustom } = await import("./utils/telegramNotifier.js");
-    if (signals.length === 0) {
-      await notifyCustom(
-        `🔍 *Detection Complete*\n\n` +
-        `Analyzed: ${activatedCoins.length} coins\n` +
-        `Duration: ${duration}ms\n` +
-        `Result: No breakouts detected\n` +
-        `Time: ${new Date().toLocaleString()}`
-      );
-    } else {
-      await notifyCustom(
-        `✅ *Detection Complete*\n\n` +
-        `Analyzed: ${activatedCoins.length} coins\n` +
-        `Duration: ${duration}ms\n` +
-        `Found: ${signals.length} breakout${signals.length !== 1 ? 's' : ''}\n` +
-        `Time: ${new Date().toLocaleString()}`
-      );
-    }
+    await notifyDetectionComplete(activatedCoins.length, duration, signals.length);
   } catch (err) {
     error("Main", "Error in breakout detection", err);
   }
 }
 
+/**
+ * Log the detection run summary, send it to subscribers who opted in to
+ * status messages (not the global channels: it fires every hourly bar),
+ * then send the watchlist digest
+ */
+async function notifyDetectionComplete(coins: number, durationMs: number, signalCount: number): Promise<void> {
+  info("Main", `Detection complete: ${coins} coins, ${signalCount} breakout${signalCount !== 1 ? 's' : ''} in ${durationMs}ms`);
+
+  if (signalCount === 0) {
+    await notifySubscribers(
+      `🔍 *Detection Complete*\n\n` +
+      `Analyzed: ${coins} coins\n` +
+      `Duration: ${durationMs}ms\n` +
+      `Result: No breakouts detected\n` +
+      `Time: ${new Date().toLocaleString()}`
+    );
+  } else {
+    await notifySubscribers(
+      `✅ *Detection Complete*\n\n` +
+      `Analyzed: ${coins} coins\n` +
+      `Duration: ${durationMs}ms\n` +
+      `Found: ${signalCount} breakout${signalCount !== 1 ? 's' : ''}\n` +
+      `Time: ${new Date().toLocaleString()}`
+    );
+  }
+
+  await sendWatchlistDigest();
+}
+
+/**
+ * First detection pass, on the backfilled history
+ */
+async function runInitialDetection(): Promise<void> {
+  console.log(`\n🔍 Running initial detection on the backfilled candles...\n`);
+  await runBreakoutDetection();
+
+  // Show next expected live candle time
+  const nextHourTime = new Date();
+  nextHourTime.setHours(nextHourTime.getHours() + 1, 0, 0, 0);
+  const minutesUntilNext = Math.ceil((nextHourTime.getTime() - Date.now()) / 60000);
+  console.log(`\n⏰ Waiting for next hourly candles...`);
+  console.log(`   Expected at: ${nextHourTime.toLocaleTimeString()} (in ${minutesUntilNext} minutes)`);
+  console.log(`   ${activatedCoins.length} coins subscribed and ready\n`);
+}
+
+/**
+ * Candle-close detection finished a bar for every coin
+ */
+async function handleBarComplete(summary: BarDetectionSummary): Promise<void> {
+  try {
+    console.log(
+      `\n[Main] ${summary.interval} candle close detection: ${summary.signals.length} breakout` +
+      `${summary.signals.length !== 1 ? 's' : ''} across ${summary.coins} coins (${summary.durationMs}ms)\n`
+    );
+    await notifyDetectionComplete(summary.coins, summary.durationMs, summary.signals.length);
+  } catch (err) {
+    error("Main", "Error reporting candle close detection", err);
+  }
+}
+
 async function runMultiAssetDetectionCycle(symbols?: readonly string[]): Promise<void> {
   try {
     const symbolList =
@@ -270,6 +398,7 @@ async function evaluateBreakouts(): Promise<void> {
   try {
     console.log("\n[Main] Evaluating historical breakout outcomes");
     await evaluateBreakoutHistory();
+    await evaluateMultiHorizonOutcomes();
     console.log("[Main] Breakout evaluation completed\n");
   } catch (err) {
     error("Main", "Error evaluating breakouts", err);
@@ -286,15 +415,38 @@ async function start(): Promise<void> {
     console.log("=".repeat(70));
     console.log("");
 
-    // Initialize Telegram notifications
-    initTelegram();
-    if (isTelegramEnabled()) {
-      console.log("✓ Telegram notifications enabled");
+    // Initialize notification channels (Telegram, Discord, Slack, webhook, email)
+    const channels = initNotifiers();
+    onStreamHealth(notifyStreamHealth);
+    if (channels.length > 0) {
+      console.log(`✓ Notifications enabled: ${channels.join(", ")}`);
     } else {
-      console.log("⚠ Telegram notifications disabled (no credentials configured)");
+      console.log("⚠ Notifications disabled (no channels configured)");
+    }
+    if (TELEGRAM_COMMANDS_ENABLED && startTelegramCommands({ getActiveCoins: () => activatedCoins })) {
+      console.log("✓ Telegram bot commands enabled");
+    }
+    if (PAPER_TRADING_ENABLED) {
+      await paperTrader.start();
+      console.log("✓ Paper trading enabled");
     }
     console.log("");
 
+    if (API_PORT) {
+      apiServer = startApiServer({ port: API_PORT, getActiveCoins: () => activatedCoins });
+    }
+
+    // Detection follows the candles: once per coin as each hourly bar closes,
+    // and once for everything when the startup backfill has loaded the history
+    startDetectionDispatcher({ getCoins: () => activatedCoins, onBarComplete: handleBarComplete });
+    candleStreamer.onCandleClosed(handleCandleClosed);
+    let initialDetectionDone = false;
+    candleStreamer.onHistoryReady(() => {
+      if (initialDetectionDone) return;
+      initialDetectionDone = true;
+      void runInitialDetection();
+    });
+
     // Initial setup
     await initializeStreaming();
     await discoverAndSubscribe();
@@ -305,20 +457,7 @@ async function start(): Promise<void> {
     
     info("Main", `Monitoring ${activatedCoins.length} coins for breakouts`);
     
-    // Wait for snapshot candles to load, then run initial detection
-    console.log(`⏳ Waiting 30 seconds for all snapshot candles to load...`);
-    setTimeout(async () => {
-      console.log(`\n🔍 Running initial detection with snapshot data...\n`);
-      await runBreakoutDetection();
-      
-      // Show next expected live candle time
-      const nextHourTime = new Date();
-      nextHourTime.setHours(nextHourTime.getHours() + 1, 0, 0, 0);
-      const minutesUntilNext = Math.ceil((nextHourTime.getTime() - Date.now()) / 60000);
-      console.log(`\n⏰ Waiting for next hourly candles...`);
-      console.log(`   Expected at: ${nextHourTime.toLocaleTimeString()} (in ${minutesUntilNext} minutes)`);
-      console.log(`   ${activatedCoins.length} coins subscribed and ready\n`);
-    }, 30000); // 30 seconds to allow all snapshots to be fetched
+    console.log(`⏳ Initial detection runs once the candle history is backfilled...`);
     
     // Log status showing system is waiting for hourly candles
     const now = new Date();
@@ -331,14 +470,6 @@ async function start(): Promise<void> {
     console.log(`📊 WebSocket subscriptions active - will receive candles automatically`);
     console.log(`🔍 Detection will run automatically when new hourly candles arrive\n`);
 
-    // Schedule breakout detection at 1 minute past each hour (after hourly candles arrive)
-    cron.schedule("1 * * * *", async () => {
-      if (activatedCoins.length > 0) {
-        info("Main", "Running scheduled hourly breakout detection...");
-        await runBreakoutDetection();
-      }
-    });
-
     // Schedule market discovery every 5 minutes
     cron.schedule("*/5 * * * *", async () => {
       info("Main", "Running scheduled market discovery...");
@@ -376,15 +507,29 @@ async function start(): Promise<void> {
       console.log("=".repeat(70) + "\n");
       
       await printBreakoutStats(90); // Last 90 days
+      await printMultiHorizonStats(90);
       
       console.log("=".repeat(70) + "\n");
+
+      if (PAPER_TRADING_ENABLED) {
+        await paperTrader.sendDailySummary();
+      }
     });
 
     console.log("\n✓ Hyperliquid Breakout Detector started successfully");
     console.log("  - Monitoring 1-hour candles for high-confidence breakouts");
     console.log("  - Real-time detection: Runs automatically when new candles arrive");
     console.log("  - Tracking 3-month historical breakout data");
+    if (PREPUMP_ENABLED) {
+      console.log("  - Orderbook pre-pump early warnings (1-minute l2Book candles)");
+    }
     console.log("  - Telegram notifications for all detection runs");
+    if (PAPER_TRADING_ENABLED) {
+      console.log("  - Paper trading on every alerted signal (daily PnL summary)");
+    }
+    if (API_PORT) {
+      console.log(`  - REST API on port ${API_PORT}`);
+    }
     console.log("");
   } catch (error) {
     console.error("Fatal error during startup:", error);
@@ -399,8 +544,17 @@ async function shutdown(): Promise<void> {
   console.log("\nShutting down Hyperliquid Breakout Detector...");
 
   clearAllGroupPolling();
+  await stopTelegramCommands();
+  await paperTrader.stop();
+  if (apiServer) {
+    await signalStream.stop();
+    apiServer.close();
+  }
 
+  stopDetectionDispatcher();
   candleStreamer.close();
+  orderbookStreamer.close();
+  tradeStreamer.close();
   await redis.quit();
   console.log("✓ Shutdown complete");
   process.exit(0);
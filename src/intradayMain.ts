@@ -10,11 +10,12 @@
  *   npm run intraday:15m          # Only 15m
  *   npm run intraday:1h           # Only 1h
  *   npm run intraday:backtest     # Run backtest
+ *   npm run intraday:trades       # Trade simulation (stops, targets, fees)
  */
 
 import "dotenv/config";
 import { info, error as logError } from "./utils/logger.js";
-import { initTelegram } from "./utils/telegramNotifier.js";
+import { initNotifiers } from "./notify/notifierRegistry.js";
 import {
   startIntradayCron,
   stopIntradayCron,
@@ -28,6 +29,7 @@ import {
 import {
   quickIntradayBacktest,
   runIntradayBacktestWithNotification,
+  runIntradayTradeBacktest,
 } from "./backtest/intradayBacktestRunner.js";
 import type { IntradayTimeframe } from "./breakout/intradayTypes.js";
 
@@ -35,7 +37,7 @@ import type { IntradayTimeframe } from "./breakout/intradayTypes.js";
  * Parse command line arguments
  */
 function parseArgs(): {
-  mode: "start" | "backtest" | "test";
+  mode: "start" | "backtest" | "trades" | "test";
   timeframe?: IntradayTimeframe | undefined;
 } {
   const args = process.argv.slice(2);
@@ -43,7 +45,7 @@ function parseArgs(): {
   const timeframe = args[1] as IntradayTimeframe | undefined;
 
   return {
-    mode: mode as "start" | "backtest" | "test",
+    mode: mode as "start" | "backtest" | "trades" | "test",
     timeframe: timeframe || undefined,
   };
 }
@@ -54,9 +56,9 @@ function parseArgs(): {
 async function startIntraday(timeframe?: IntradayTimeframe): Promise<void> {
   info("IntradayMain", "=== STARTING MODEL-2: INTRADAY DETECTION SYSTEM ===");
 
-  // Initialize Telegram
-  initTelegram();
-  info("IntradayMain", "Telegram initialized");
+  // Initialize notification channels
+  initNotifiers();
+  info("IntradayMain", "Notifiers initialized");
 
   if (timeframe) {
     info("IntradayMain", `Starting detection for ${timeframe} only`);
@@ -95,7 +97,7 @@ async function startIntraday(timeframe?: IntradayTimeframe): Promise<void> {
 async function runTestCycle(timeframe?: IntradayTimeframe): Promise<void> {
   info("IntradayMain", "=== RUNNING TEST CYCLE ===");
 
-  initTelegram();
+  initNotifiers();
 
   if (timeframe) {
     info("IntradayMain", `Testing ${timeframe} detection`);
@@ -115,7 +117,7 @@ async function runTestCycle(timeframe?: IntradayTimeframe): Promise<void> {
 async function runBacktest(): Promise<void> {
   info("IntradayMain", "=== RUNNING INTRADAY BACKTEST ===");
 
-  initTelegram();
+  initNotifiers();
 
   // Get backtest parameters from env or use defaults
   const daysBack = parseInt(process.env.BACKTEST_DAYS || "30", 10);
@@ -139,6 +141,28 @@ async function runBacktest(): Promise<void> {
   process.exit(0);
 }
 
+/**
+ * Run trade-level backtest
+ */
+async function runTradeBacktest(): Promise<void> {
+  info("IntradayMain", "=== RUNNING INTRADAY TRADE SIMULATION ===");
+
+  const daysBack = parseInt(process.env.BACKTEST_DAYS || "30", 10);
+  const symbols = process.env.BACKTEST_SYMBOLS?.split(",") || [
+    "BTC",
+    "ETH",
+    "SOL",
+    "ARB",
+    "AVAX",
+  ];
+  const timeframes: IntradayTimeframe[] = ["5m", "15m", "1h"];
+
+  await runIntradayTradeBacktest(symbols, timeframes, daysBack);
+
+  info("IntradayMain", "✓ Trade simulation completed");
+  process.exit(0);
+}
+
 /**
  * Main entry point
  */
@@ -156,9 +180,12 @@ async function main(): Promise<void> {
       case "backtest":
         await runBacktest();
         break;
+      case "trades":
+        await runTradeBacktest();
+        break;
       default:
         console.error(`Unknown mode: ${mode}`);
-        console.error("Usage: node intradayMain.js [start|test|backtest] [5m|15m|1h]");
+        console.error("Usage: node intradayMain.js [start|test|backtest|trades] [5m|15m|1h]");
         process.exit(1);
     }
   } catch (err) {
@@ -0,0 +1,121 @@
+/**
+ * Discord Channel
+ *
+ * Posts notifications as embeds to a Discord incoming webhook.
+ */
+
+import axios from "axios";
+import { info, error as logError } from "../utils/logger.js";
+import { notificationTitle, type ChannelFilters, type Notification, type Notifier } from "./notifier.js";
+
+const COLOR_LONG = 0x2ecc71;
+const COLOR_SHORT = 0xe74c3c;
+const COLOR_NEUTRAL = 0x3498db;
+
+interface DiscordField {
+  name: string;
+  value: string;
+  inline: boolean;
+}
+
+interface DiscordEmbed {
+  title: string;
+  description?: string;
+  color: number;
+  fields: DiscordField[];
+  timestamp: string;
+}
+
+function field(name: string, value: string): DiscordField {
+  return { name, value, inline: true };
+}
+
+/**
+ * Format a notification as a Discord webhook payload
+ */
+function formatDiscordPayload(notification: Notification): { content?: string; embeds?: DiscordEmbed[] } {
+  const title = notificationTitle(notification);
+
+  switch (notification.type) {
+    case "breakout": {
+      const s = notification.signal;
+      const isShort = s.direction === "short";
+      const level = (isShort ? s.supportLevel : s.resistanceLevel) ?? s.price;
+      const fields = [
+        field("Price", `$${s.price.toFixed(4)}`),
+        field("Price Change", `${isShort ? "-" : "+"}${s.priceChange.toFixed(2)}%`),
+        field("Volume Ratio", `${s.volumeRatio.toFixed(1)}x`),
+        field(isShort ? "Support" : "Resistance", `$${level.toFixed(4)}`),
+        field("Consolidation", `${s.consolidationPeriod}h`),
+        field("Class", s.class),
+      ];
+      if (s.winProbability !== undefined) {
+        fields.push(field("Win Probability", `${(s.winProbability * 100).toFixed(0)}%`));
+      }
+      if (s.aggressiveBuyRatio !== undefined) {
+        fields.push(field("Taker Buy Share", `${(s.aggressiveBuyRatio * 100).toFixed(0)}%`));
+      }
+      return {
+        embeds: [{
+          title,
+          color: isShort ? COLOR_SHORT : COLOR_LONG,
+          fields,
+          timestamp: new Date(s.timestamp).toISOString(),
+        }],
+      };
+    }
+    case "intraday": {
+      const s = notification.signal;
+      return {
+        embeds: [{
+          title,
+          color: s.direction === "short" ? COLOR_SHORT : COLOR_LONG,
+          fields: [
+            field("Price", `$${s.price.toFixed(4)}`),
+            field("Price Change", `${s.priceChange >= 0 ? "+" : ""}${s.priceChange.toFixed(2)}%`),
+            field("Volume Ratio", `${s.volumeRatio.toFixed(2)}x`),
+            field("Consolidation", `${s.consolidation} candles`),
+            field("ATR Compression", `${s.atrCompression.toFixed(0)}%`),
+            field("BB Compression", `${s.bbCompression.toFixed(0)}%`),
+          ],
+          timestamp: new Date(s.timestamp).toISOString(),
+        }],
+      };
+    }
+    case "prepump": {
+      const { signal, confidence } = notification;
+      return {
+        embeds: [{
+          title,
+          color: COLOR_NEUTRAL,
+          fields: [
+            field("Confidence", `${(confidence.confidence * 100).toFixed(0)}%`),
+            field("Price", `$${signal.price.toFixed(4)}`),
+            field("Bid Imbalance", `${(signal.imbalance * 100).toFixed(1)}%`),
+            field("Spread Compression", `${(signal.compression * 100).toFixed(1)}%`),
+            field("Persistence", `${(confidence.persistenceScore * 100).toFixed(0)}%`),
+          ],
+          timestamp: new Date(signal.ts).toISOString(),
+        }],
+      };
+    }
+    case "custom":
+      // Telegram-style *bold* becomes Discord **bold**
+      return { content: notification.message.replace(/\*([^*\n]+)\*/g, "**$1**") };
+  }
+}
+
+export class DiscordChannel implements Notifier {
+  readonly name = "discord";
+
+  constructor(private readonly webhookUrl: string, readonly filters: ChannelFilters) {}
+
+  async send(notification: Notification): Promise<void> {
+    try {
+      await axios.post(this.webhookUrl, formatDiscordPayload(notification), { timeout: 10000 });
+      info("DiscordChannel", `Sent ${notification.type} notification`);
+    } catch (err) {
+      logError("DiscordChannel", `Failed to send ${notification.type} notification`, err);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Email Channel
+ *
+ * Sends notifications over SMTP as plain-text mail.
+ */
+
+import nodemailer, { type Transporter } from "nodemailer";
+import { info, error as logError } from "../utils/logger.js";
+import { notificationTitle, type ChannelFilters, type Notification, type Notifier } from "./notifier.js";
+
+export interface EmailConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+  to: string[];
+}
+
+/**
+ * Format a notification as a plain-text email body
+ */
+function formatEmailBody(notification: Notification): string {
+  switch (notification.type) {
+    case "breakout": {
+      const s = notification.signal;
+      const isShort = s.direction === "short";
+      const level = (isShort ? s.supportLevel : s.resistanceLevel) ?? s.price;
+      return [
+        `Symbol:        ${s.symbol} (${s.class})`,
+        `Direction:     ${s.direction.toUpperCase()}`,
+        `Type:          ${s.breakoutType}`,
+        `Confidence:    ${s.confidenceScore}/100` +
+          (s.winProbability !== undefined ? ` (${(s.winProbability * 100).toFixed(0)}% win probability)` : ""),
+        `Price:         $${s.price.toFixed(4)}`,
+        `Price Change:  ${isShort ? "-" : "+"}${s.priceChange.toFixed(2)}%`,
+        `Volume Ratio:  ${s.volumeRatio.toFixed(1)}x`,
+        `${isShort ? "Support:      " : "Resistance:   "} $${level.toFixed(4)}`,
+        `Consolidation: ${s.consolidationPeriod}h`,
+        `Time:          ${new Date(s.timestamp).toISOString()}`,
+      ].join("\n");
+    }
+    case "intraday": {
+      const s = notification.signal;
+      return [
+        `Symbol:          ${s.symbol} (${s.class})`,
+        `Timeframe:       ${s.timeframe}`,
+        `Pattern:         ${s.pattern.replace(/_/g, " ")}`,
+        `Direction:       ${s.direction.toUpperCase()}`,
+        `Confidence:      ${s.confidence}/100`,
+        `Price:           $${s.price.toFixed(4)}`,
+        `Price Change:    ${s.priceChange >= 0 ? "+" : ""}${s.priceChange.toFixed(2)}%`,
+        `Volume Ratio:    ${s.volumeRatio.toFixed(2)}x`,
+        `ATR Compression: ${s.atrCompression.toFixed(0)}%`,
+        `BB Compression:  ${s.bbCompression.toFixed(0)}%`,
+        `Time:            ${new Date(s.timestamp).toISOString()}`,
+      ].join("\n");
+    }
+    case "prepump": {
+      const { coin, signal, confidence } = notification;
+      return [
+        `Coin:               ${coin}`,
+        `Score:              ${signal.score}/3`,
+        `Confidence:         ${(confidence.confidence * 100).toFixed(0)}%`,
+        `Price:              $${signal.price.toFixed(4)}`,
+        `Bid Imbalance:      ${(signal.imbalance * 100).toFixed(1)}%`,
+        `Spread Compression: ${(signal.compression * 100).toFixed(1)}%`,
+        `Time:               ${new Date(signal.ts).toISOString()}`,
+      ].join("\n");
+    }
+    case "custom":
+      // Strip Telegram Markdown markers
+      return notification.message.replace(/[*_`]/g, "");
+  }
+}
+
+export class EmailChannel implements Notifier {
+  readonly name = "email";
+  private transporter: Transporter;
+
+  constructor(private readonly config: EmailConfig, readonly filters: ChannelFilters) {
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      ...(config.user ? { auth: { user: config.user, pass: config.pass ?? "" } } : {}),
+    });
+  }
+
+  async send(notification: Notification): Promise<void> {
+    try {
+      await this.transporter.sendMail({
+        from: this.config.from,
+        to: this.config.to,
+        subject: `[Hyperliquid Alert] ${notificationTitle(notification)}`,
+        text: formatEmailBody(notification),
+      });
+      info("EmailChannel", `Sent ${notification.type} notification`);
+    } catch (err) {
+      logError("EmailChannel", `Failed to send ${notification.type} notification`, err);
+    }
+  }
+}
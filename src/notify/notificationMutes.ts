@@ -0,0 +1,61 @@
+/**
+ * Notification Mutes
+ *
+ * Temporarily silences all notifications for a symbol (e.g. /mute BTC 4h).
+ * Each mute is a Redis key notify:mute:{SYMBOL} that expires on its own.
+ */
+
+import redis from "../utils/redisClient.js";
+import { error as logError } from "../utils/logger.js";
+
+const MUTE_PREFIX = "notify:mute:";
+
+/**
+ * Mute a symbol for a duration
+ */
+export async function muteSymbol(symbol: string, durationMs: number): Promise<number> {
+  const until = Date.now() + durationMs;
+  await redis.set(`${MUTE_PREFIX}${symbol.toUpperCase()}`, String(until), "PX", durationMs);
+  return until;
+}
+
+/**
+ * Remove a mute. Returns false if the symbol was not muted.
+ */
+export async function unmuteSymbol(symbol: string): Promise<boolean> {
+  return (await redis.del(`${MUTE_PREFIX}${symbol.toUpperCase()}`)) > 0;
+}
+
+/**
+ * Check whether a symbol is currently muted
+ */
+export async function isSymbolMuted(symbol: string): Promise<boolean> {
+  try {
+    return (await redis.exists(`${MUTE_PREFIX}${symbol.toUpperCase()}`)) > 0;
+  } catch (err) {
+    logError("NotificationMutes", `Error checking mute for ${symbol}`, err);
+    return false;
+  }
+}
+
+/**
+ * List muted symbols with their expiry time
+ */
+export async function getMutedSymbols(): Promise<Array<{ symbol: string; until: number }>> {
+  try {
+    const keys = await redis.keys(`${MUTE_PREFIX}*`);
+    const mutes: Array<{ symbol: string; until: number }> = [];
+
+    for (const key of keys) {
+      const until = await redis.get(key);
+      if (until) {
+        mutes.push({ symbol: key.slice(MUTE_PREFIX.length), until: parseInt(until, 10) });
+      }
+    }
+
+    return mutes.sort((a, b) => a.until - b.until);
+  } catch (err) {
+    logError("NotificationMutes", "Error listing mutes", err);
+    return [];
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Notifier Abstraction
+ *
+ * A Notifier is one output channel (Telegram, Discord, Slack, webhook, email).
+ * Every channel receives the same Notification and formats it itself; the
+ * registry only decides which channels a notification is routed to.
+ */
+
+import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
+import type { IntradaySignal } from "../breakout/intradayTypes.js";
+import type { PrepumpConfidence, PrepumpSignal } from "../utils/types.js";
+
+export type Notification =
+  | { type: "breakout"; signal: BreakoutSignal }
+  | { type: "intraday"; signal: IntradaySignal }
+  | { type: "prepump"; coin: string; signal: PrepumpSignal; confidence: PrepumpConfidence }
+  | { type: "custom"; message: string };
+
+export type NotificationType = Notification["type"];
+
+export const NOTIFICATION_TYPES: NotificationType[] = ["breakout", "intraday", "prepump", "custom"];
+
+/**
+ * Per-channel routing rules. Unset fields match everything.
+ * Custom (status) messages ignore symbol/class/direction/confidence.
+ */
+export interface ChannelFilters {
+  types?: NotificationType[];
+  symbols?: string[];
+  classes?: string[];
+  direction?: "long" | "short";
+  patterns?: string[]; // "breakout", "prepump" or an intraday pattern
+  timeframes?: string[]; // "1h" for breakouts, "1m" for pre-pump, intraday timeframes
+  minConfidence?: number; // 0-100
+}
+
+export interface Notifier {
+  readonly name: string;
+  readonly filters: ChannelFilters;
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * Filterable fields of a notification
+ */
+export interface NotificationFields {
+  symbol: string;
+  assetClass: string;
+  direction: "long" | "short";
+  pattern: string;
+  timeframe: string;
+  confidence: number; // 0-100
+}
+
+/**
+ * Extract the filterable fields of a notification (null for custom messages)
+ */
+export function describeNotification(notification: Notification): NotificationFields | null {
+  switch (notification.type) {
+    case "breakout":
+      return {
+        symbol: notification.signal.symbol,
+        assetClass: notification.signal.class,
+        direction: notification.signal.direction,
+        pattern: "breakout",
+        timeframe: "1h",
+        confidence: notification.signal.confidenceScore,
+      };
+    case "intraday":
+      return {
+        symbol: notification.signal.symbol,
+        assetClass: notification.signal.class,
+        direction: notification.signal.direction,
+        pattern: notification.signal.pattern,
+        timeframe: notification.signal.timeframe,
+        confidence: notification.signal.confidence,
+      };
+    case "prepump":
+      return {
+        symbol: notification.coin,
+        assetClass: "crypto",
+        direction: "long",
+        pattern: "prepump",
+        timeframe: "1m",
+        confidence: notification.confidence.confidence * 100,
+      };
+    case "custom":
+      return null;
+  }
+}
+
+/**
+ * Check whether a notification passes a channel's filters
+ */
+export function notificationMatchesFilters(notification: Notification, filters: ChannelFilters): boolean {
+  if (filters.types && !filters.types.includes(notification.type)) {
+    return false;
+  }
+
+  const fields = describeNotification(notification);
+  if (!fields) {
+    return true;
+  }
+
+  if (filters.symbols && !filters.symbols.includes(fields.symbol.toUpperCase())) {
+    return false;
+  }
+  if (filters.classes && !filters.classes.includes(fields.assetClass)) {
+    return false;
+  }
+  if (filters.direction && fields.direction !== filters.direction) {
+    return false;
+  }
+  if (filters.patterns && !filters.patterns.includes(fields.pattern)) {
+    return false;
+  }
+  if (filters.timeframes && !filters.timeframes.includes(fields.timeframe)) {
+    return false;
+  }
+  if (filters.minConfidence !== undefined && fields.confidence < filters.minConfidence) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Split a comma-separated environment value
+ */
+function splitEnvList(value: string | undefined): string[] | undefined {
+  const items = (value ?? "").split(",").map((v) => v.trim()).filter((v) => v.length > 0);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Read a channel's filters from the environment, e.g. for prefix DISCORD:
+ *   DISCORD_TYPES=breakout,intraday  DISCORD_SYMBOLS=BTC,ETH
+ *   DISCORD_CLASSES=crypto  DISCORD_DIRECTION=long  DISCORD_MIN_CONFIDENCE=70
+ *   DISCORD_PATTERNS=breakout,micro_breakout  DISCORD_TIMEFRAMES=1h,15m
+ */
+export function parseChannelFilters(prefix: string, env: NodeJS.ProcessEnv = process.env): ChannelFilters {
+  const filters: ChannelFilters = {};
+
+  const types = splitEnvList(env[`${prefix}_TYPES`])
+    ?.filter((t): t is NotificationType => NOTIFICATION_TYPES.includes(t as NotificationType));
+  if (types && types.length > 0) filters.types = types;
+
+  const symbols = splitEnvList(env[`${prefix}_SYMBOLS`]);
+  if (symbols) filters.symbols = symbols.map((s) => s.toUpperCase());
+
+  const classes = splitEnvList(env[`${prefix}_CLASSES`]);
+  if (classes) filters.classes = classes;
+
+  const patterns = splitEnvList(env[`${prefix}_PATTERNS`]);
+  if (patterns) filters.patterns = patterns;
+
+  const timeframes = splitEnvList(env[`${prefix}_TIMEFRAMES`]);
+  if (timeframes) filters.timeframes = timeframes;
+
+  const direction = env[`${prefix}_DIRECTION`];
+  if (direction === "long" || direction === "short") filters.direction = direction;
+
+  const minConfidence = Number(env[`${prefix}_MIN_CONFIDENCE`]);
+  if (Number.isFinite(minConfidence) && minConfidence > 0) filters.minConfidence = minConfidence;
+
+  return filters;
+}
+
+/**
+ * Short one-line title shared by the plain-text formatters
+ */
+export function notificationTitle(notification: Notification): string {
+  switch (notification.type) {
+    case "breakout": {
+      const s = notification.signal;
+      return `Breakout ${s.direction.toUpperCase()} ${s.symbol} (${s.breakoutType}, ${s.confidenceScore}/100)`;
+    }
+    case "intraday": {
+      const s = notification.signal;
+      return `Intraday ${s.pattern.replace(/_/g, " ")} ${s.direction.toUpperCase()} ${s.symbol} ${s.timeframe} (${s.confidence}/100)`;
+    }
+    case "prepump":
+      return `Pre-pump watch ${notification.coin} (score ${notification.signal.score}/3)`;
+    case "custom":
+      return "Hyperliquid Alert";
+  }
+}
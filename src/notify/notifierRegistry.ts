@@ -0,0 +1,167 @@
+/**
+ * Notifier Registry
+ *
+ * Holds the configured output channels and fans every notification out to
+ * the channels whose filters match. Channels are configured from env:
+ *   Telegram: TELEGRAM_BOT_TOKEN, TELEGRAM_CHAT_ID
+ *   Discord:  DISCORD_WEBHOOK_URL
+ *   Slack:    SLACK_WEBHOOK_URL
+ *   Webhook:  WEBHOOK_URL, WEBHOOK_SECRET (optional HMAC key)
+ *   Email:    SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, EMAIL_FROM, EMAIL_TO
+ * and filtered per channel with {PREFIX}_TYPES / _SYMBOLS / _CLASSES /
+ * _DIRECTION / _PATTERNS / _TIMEFRAMES / _MIN_CONFIDENCE (see parseChannelFilters).
+ * Per-subscriber routing from Redis is always registered (see subscriptions.ts).
+ */
+
+import { info, error as logError } from "../utils/logger.js";
+import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
+import type { IntradaySignal } from "../breakout/intradayTypes.js";
+import type { PrepumpConfidence, PrepumpSignal } from "../utils/types.js";
+import {
+  describeNotification,
+  notificationMatchesFilters,
+  parseChannelFilters,
+  type Notification,
+  type Notifier,
+} from "./notifier.js";
+import { createTelegramChannel } from "./telegramChannel.js";
+import { DiscordChannel } from "./discordChannel.js";
+import { SlackChannel } from "./slackChannel.js";
+import { WebhookChannel } from "./webhookChannel.js";
+import { EmailChannel } from "./emailChannel.js";
+import { isSymbolMuted } from "./notificationMutes.js";
+import { SubscriptionRouter } from "./subscriptions.js";
+
+const notifiers: Map<string, Notifier> = new Map();
+let initialized = false;
+
+/**
+ * Register a channel (replaces any channel with the same name)
+ */
+export function registerNotifier(notifier: Notifier): void {
+  notifiers.set(notifier.name, notifier);
+  info("NotifierRegistry", `Registered ${notifier.name} channel`, notifier.filters);
+}
+
+/**
+ * Remove a channel by name
+ */
+export function unregisterNotifier(name: string): boolean {
+  return notifiers.delete(name);
+}
+
+/**
+ * Names of all registered channels
+ */
+export function getNotifierNames(): string[] {
+  return Array.from(notifiers.keys());
+}
+
+/**
+ * Build the channels configured in the environment. Safe to call more than once.
+ */
+export function initNotifiers(env: NodeJS.ProcessEnv = process.env): string[] {
+  if (initialized) {
+    return getNotifierNames();
+  }
+  initialized = true;
+
+  const telegram = createTelegramChannel(parseChannelFilters("TELEGRAM", env));
+  if (telegram) {
+    registerNotifier(telegram);
+  }
+
+  if (env.DISCORD_WEBHOOK_URL) {
+    registerNotifier(new DiscordChannel(env.DISCORD_WEBHOOK_URL, parseChannelFilters("DISCORD", env)));
+  }
+
+  if (env.SLACK_WEBHOOK_URL) {
+    registerNotifier(new SlackChannel(env.SLACK_WEBHOOK_URL, parseChannelFilters("SLACK", env)));
+  }
+
+  if (env.WEBHOOK_URL) {
+    registerNotifier(new WebhookChannel(env.WEBHOOK_URL, env.WEBHOOK_SECRET || null, parseChannelFilters("WEBHOOK", env)));
+  }
+
+  if (env.SMTP_HOST && env.EMAIL_FROM && env.EMAIL_TO) {
+    try {
+      const port = parseInt(env.SMTP_PORT || "587", 10);
+      registerNotifier(new EmailChannel({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+        ...(env.SMTP_USER ? { user: env.SMTP_USER } : {}),
+        ...(env.SMTP_PASS ? { pass: env.SMTP_PASS } : {}),
+        from: env.EMAIL_FROM,
+        to: env.EMAIL_TO.split(",").map((s) => s.trim()).filter((s) => s.length > 0),
+      }, parseChannelFilters("EMAIL", env)));
+    } catch (err) {
+      logError("NotifierRegistry", "Failed to configure email channel", err);
+    }
+  }
+
+  registerNotifier(new SubscriptionRouter());
+
+  info("NotifierRegistry", `Notification channels: ${getNotifierNames().join(", ") || "none"}`);
+  return getNotifierNames();
+}
+
+/**
+ * Send a notification to every channel whose filters match.
+ * Signals for muted symbols are dropped on all channels.
+ */
+export async function dispatchNotification(notification: Notification): Promise<void> {
+  const fields = describeNotification(notification);
+  if (fields && await isSymbolMuted(fields.symbol)) {
+    info("NotifierRegistry", `Skipping ${notification.type} notification for muted ${fields.symbol}`);
+    return;
+  }
+
+  const targets = Array.from(notifiers.values())
+    .filter((notifier) => notificationMatchesFilters(notification, notifier.filters));
+
+  await Promise.all(targets.map(async (notifier) => {
+    try {
+      await notifier.send(notification);
+    } catch (err) {
+      logError("NotifierRegistry", `${notifier.name} failed to send ${notification.type} notification`, err);
+    }
+  }));
+}
+
+export async function notifyBreakout(signal: BreakoutSignal): Promise<void> {
+  await dispatchNotification({ type: "breakout", signal });
+}
+
+export async function notifyIntradayBreakout(signal: IntradaySignal): Promise<void> {
+  await dispatchNotification({ type: "intraday", signal });
+}
+
+export async function notifyPrepump(
+  coin: string,
+  signal: PrepumpSignal,
+  confidence: PrepumpConfidence
+): Promise<void> {
+  await dispatchNotification({ type: "prepump", coin, signal, confidence });
+}
+
+export async function notifyCustom(message: string): Promise<void> {
+  await dispatchNotification({ type: "custom", message });
+}
+
+/**
+ * Send a routine status message only to subscribers whose types include
+ * "custom"; the global channels don't get it
+ */
+export async function notifySubscribers(message: string): Promise<void> {
+  const router = notifiers.get("subscriptions");
+  if (!router) {
+    return;
+  }
+
+  try {
+    await router.send({ type: "custom", message });
+  } catch (err) {
+    logError("NotifierRegistry", "subscriptions failed to send custom notification", err);
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Slack Channel
+ *
+ * Posts notifications to a Slack incoming webhook using Block Kit sections.
+ */
+
+import axios from "axios";
+import { info, error as logError } from "../utils/logger.js";
+import { notificationTitle, type ChannelFilters, type Notification, type Notifier } from "./notifier.js";
+
+/**
+ * Format a notification as "label: value" mrkdwn lines
+ */
+function formatSlackLines(notification: Notification): string[] {
+  switch (notification.type) {
+    case "breakout": {
+      const s = notification.signal;
+      const isShort = s.direction === "short";
+      const level = (isShort ? s.supportLevel : s.resistanceLevel) ?? s.price;
+      const lines = [
+        `*Price:* $${s.price.toFixed(4)} (${isShort ? "-" : "+"}${s.priceChange.toFixed(2)}%)`,
+        `*Volume Ratio:* ${s.volumeRatio.toFixed(1)}x`,
+        `*${isShort ? "Support" : "Resistance"}:* $${level.toFixed(4)}`,
+        `*Consolidation:* ${s.consolidationPeriod}h`,
+      ];
+      if (s.winProbability !== undefined) {
+        lines.push(`*Win Probability:* ${(s.winProbability * 100).toFixed(0)}%`);
+      }
+      if (s.aggressiveBuyRatio !== undefined) {
+        lines.push(`*Taker Buy Share:* ${(s.aggressiveBuyRatio * 100).toFixed(0)}%`);
+      }
+      return lines;
+    }
+    case "intraday": {
+      const s = notification.signal;
+      return [
+        `*Price:* $${s.price.toFixed(4)} (${s.priceChange >= 0 ? "+" : ""}${s.priceChange.toFixed(2)}%)`,
+        `*Volume Ratio:* ${s.volumeRatio.toFixed(2)}x`,
+        `*Consolidation:* ${s.consolidation} candles`,
+        `*ATR / BB Compression:* ${s.atrCompression.toFixed(0)}% / ${s.bbCompression.toFixed(0)}%`,
+      ];
+    }
+    case "prepump": {
+      const { signal, confidence } = notification;
+      return [
+        `*Confidence:* ${(confidence.confidence * 100).toFixed(0)}%`,
+        `*Price:* $${signal.price.toFixed(4)}`,
+        `*Bid Imbalance:* ${(signal.imbalance * 100).toFixed(1)}%`,
+        `*Spread Compression:* ${(signal.compression * 100).toFixed(1)}%`,
+      ];
+    }
+    case "custom":
+      // Telegram Markdown bold (*x*) is already Slack mrkdwn bold
+      return [notification.message];
+  }
+}
+
+/**
+ * Format a notification as a Slack webhook payload
+ */
+function formatSlackPayload(notification: Notification): unknown {
+  const title = notificationTitle(notification);
+  const text = formatSlackLines(notification).join("\n");
+
+  if (notification.type === "custom") {
+    return { text };
+  }
+
+  return {
+    text: title,
+    blocks: [
+      { type: "header", text: { type: "plain_text", text: title } },
+      { type: "section", text: { type: "mrkdwn", text } },
+    ],
+  };
+}
+
+export class SlackChannel implements Notifier {
+  readonly name = "slack";
+
+  constructor(private readonly webhookUrl: string, readonly filters: ChannelFilters) {}
+
+  async send(notification: Notification): Promise<void> {
+    try {
+      await axios.post(this.webhookUrl, formatSlackPayload(notification), { timeout: 10000 });
+      info("SlackChannel", `Sent ${notification.type} notification`);
+    } catch (err) {
+      logError("SlackChannel", `Failed to send ${notification.type} notification`, err);
+    }
+  }
+}
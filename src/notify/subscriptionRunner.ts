@@ -0,0 +1,133 @@
+/**
+ * Subscription Runner
+ *
+ * Manage per-subscriber alert routing from the command line:
+ *   node dist/notify/subscriptionRunner.js list
+ *   node dist/notify/subscriptionRunner.js telegram -100123 class=crypto minConfidence=75 quiet=22-7
+ *   node dist/notify/subscriptionRunner.js webhook https://bot.example/hook secret=abc direction=long
+ *   node dist/notify/subscriptionRunner.js remove tg:-100123
+ */
+
+import "dotenv/config";
+import redis from "../utils/redisClient.js";
+import {
+  describeSubscription,
+  listSubscriptions,
+  parseSubscriptionArgs,
+  removeSubscription,
+  saveSubscription,
+  type SubscriptionTarget,
+} from "./subscriptions.js";
+
+function printUsage(): void {
+  console.log("\nUsage:");
+  console.log("  node dist/notify/subscriptionRunner.js [command]");
+  console.log("\nCommands:");
+  console.log("  list                              - Show all subscriptions");
+  console.log("  telegram CHAT_ID [filters...]     - Subscribe a Telegram chat");
+  console.log("  webhook URL [secret=..] [filters...] - Subscribe an HTTP endpoint");
+  console.log("  remove ID                         - Delete a subscription");
+  console.log("\nFilters (key=value):");
+  console.log("  class=crypto,forex symbols=BTC,ETH direction=long|short");
+  console.log("  pattern=breakout,micro_breakout timeframe=1h,15m minConfidence=75");
+  console.log("  types=breakout,intraday,prepump,custom quiet=22-7 tz=Europe/London name=desk");
+}
+
+/**
+ * Pull name= and secret= out of the filter arguments
+ */
+function extractOption(args: string[], key: string): { value: string | undefined; rest: string[] } {
+  const prefix = `${key}=`;
+  const match = args.find((a) => a.startsWith(prefix));
+  return {
+    value: match?.slice(prefix.length),
+    rest: args.filter((a) => a !== match),
+  };
+}
+
+async function subscribe(target: SubscriptionTarget, args: string[]): Promise<boolean> {
+  const { value: name, rest } = extractOption(args, "name");
+  const { filters, quietHours, errors } = parseSubscriptionArgs(rest);
+
+  if (errors.length > 0) {
+    errors.forEach((e) => console.error(`✗ ${e}`));
+    return false;
+  }
+
+  const subscription = await saveSubscription(target, filters, {
+    ...(name !== undefined ? { name } : {}),
+    ...(quietHours !== undefined ? { quietHours } : {}),
+  });
+  console.log(`✓ Saved ${subscription.id}: ${describeSubscription(subscription)}`);
+  return true;
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2] || "list";
+  const args = process.argv.slice(3);
+  let ok = true;
+
+  try {
+    switch (command) {
+      case "list": {
+        const subscriptions = await listSubscriptions();
+        if (subscriptions.length === 0) {
+          console.log("No subscriptions.");
+        }
+        for (const s of subscriptions) {
+          const target = s.target.kind === "telegram" ? `chat ${s.target.chatId}` : s.target.url;
+          console.log(`${s.id.padEnd(18)} ${(s.name ?? "").padEnd(12)} ${target}`);
+          console.log(`${"".padEnd(18)} ${describeSubscription(s)}`);
+        }
+        break;
+      }
+
+      case "telegram": {
+        const chatId = args[0];
+        if (!chatId) {
+          printUsage();
+          ok = false;
+          break;
+        }
+        ok = await subscribe({ kind: "telegram", chatId }, args.slice(1));
+        break;
+      }
+
+      case "webhook": {
+        const url = args[0];
+        if (!url) {
+          printUsage();
+          ok = false;
+          break;
+        }
+        const { value: secret, rest } = extractOption(args.slice(1), "secret");
+        ok = await subscribe(secret ? { kind: "webhook", url, secret } : { kind: "webhook", url }, rest);
+        break;
+      }
+
+      case "remove": {
+        const id = args[0];
+        if (!id) {
+          printUsage();
+          ok = false;
+          break;
+        }
+        ok = await removeSubscription(id);
+        console.log(ok ? `✓ Removed ${id}` : `✗ No subscription ${id}`);
+        break;
+      }
+
+      default:
+        printUsage();
+        ok = false;
+    }
+  } catch (error) {
+    console.error("\n✗ Command failed:", error);
+    ok = false;
+  }
+
+  await redis.quit();
+  process.exit(ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,355 @@
+/**
+ * Alert Subscriptions
+ *
+ * Per-subscriber routing on top of the global channels. Each subscription is
+ * a target (a Telegram chat or an HTTP webhook) with its own filters and
+ * optional quiet hours, stored as JSON in the Redis hash notify:subscriptions
+ * so both Model-1 and Model-2 processes route from the same list.
+ *
+ * Subscribers only receive signals by default; status messages such as
+ * "Detection Complete" are delivered only when types includes "custom".
+ */
+
+import crypto from "node:crypto";
+import redis from "../utils/redisClient.js";
+import { info, error as logError } from "../utils/logger.js";
+import {
+  formatBreakoutMessage,
+  formatIntradayMessage,
+  formatPrepumpMessage,
+  sendTelegramMessageTo,
+} from "../utils/telegramNotifier.js";
+import {
+  NOTIFICATION_TYPES,
+  notificationMatchesFilters,
+  type ChannelFilters,
+  type Notification,
+  type NotificationType,
+  type Notifier,
+} from "./notifier.js";
+import { WebhookChannel } from "./webhookChannel.js";
+
+const SUBSCRIPTIONS_KEY = "notify:subscriptions";
+const DEFAULT_SUBSCRIBER_TYPES: NotificationType[] = ["breakout", "intraday", "prepump"];
+
+export type SubscriptionTarget =
+  | { kind: "telegram"; chatId: string }
+  | { kind: "webhook"; url: string; secret?: string };
+
+/**
+ * Hours [start, end) during which nothing is delivered; wraps past midnight
+ * when start > end (e.g. 22-7). Evaluated in timeZone (IANA name, default UTC).
+ */
+export interface QuietHours {
+  start: number;
+  end: number;
+  timeZone?: string;
+}
+
+export interface Subscription {
+  id: string;
+  name?: string;
+  target: SubscriptionTarget;
+  filters: ChannelFilters;
+  quietHours?: QuietHours;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * Stable ID for a target, so re-subscribing updates instead of duplicating
+ */
+export function subscriptionIdFor(target: SubscriptionTarget): string {
+  if (target.kind === "telegram") {
+    return `tg:${target.chatId}`;
+  }
+  return `wh:${crypto.createHash("sha1").update(target.url).digest("hex").slice(0, 12)}`;
+}
+
+/**
+ * Create or replace a subscription
+ */
+export async function saveSubscription(
+  target: SubscriptionTarget,
+  filters: ChannelFilters,
+  extras: { name?: string; quietHours?: QuietHours } = {}
+): Promise<Subscription> {
+  const id = subscriptionIdFor(target);
+  const existing = await getSubscription(id);
+  const now = Date.now();
+
+  const subscription: Subscription = {
+    id,
+    target,
+    filters,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  if (extras.name !== undefined) subscription.name = extras.name;
+  if (extras.quietHours !== undefined) subscription.quietHours = extras.quietHours;
+
+  await redis.hset(SUBSCRIPTIONS_KEY, id, JSON.stringify(subscription));
+  info("Subscriptions", `Saved subscription ${id}`, filters);
+  return subscription;
+}
+
+/**
+ * Delete a subscription. Returns false if it did not exist.
+ */
+export async function removeSubscription(id: string): Promise<boolean> {
+  return (await redis.hdel(SUBSCRIPTIONS_KEY, id)) > 0;
+}
+
+export async function getSubscription(id: string): Promise<Subscription | null> {
+  try {
+    const data = await redis.hget(SUBSCRIPTIONS_KEY, id);
+    return data ? (JSON.parse(data) as Subscription) : null;
+  } catch (err) {
+    logError("Subscriptions", `Error reading subscription ${id}`, err);
+    return null;
+  }
+}
+
+export async function listSubscriptions(): Promise<Subscription[]> {
+  try {
+    const raw = await redis.hgetall(SUBSCRIPTIONS_KEY);
+    const subscriptions: Subscription[] = [];
+
+    for (const data of Object.values(raw)) {
+      try {
+        subscriptions.push(JSON.parse(data) as Subscription);
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+
+    return subscriptions.sort((a, b) => a.createdAt - b.createdAt);
+  } catch (err) {
+    logError("Subscriptions", "Error listing subscriptions", err);
+    return [];
+  }
+}
+
+/**
+ * Hour of day (0-23) for a timestamp in a time zone
+ */
+function hourInTimeZone(timestamp: number, timeZone: string): number {
+  const hour = new Intl.DateTimeFormat("en-US", { hour: "numeric", hourCycle: "h23", timeZone })
+    .format(new Date(timestamp));
+  return parseInt(hour, 10);
+}
+
+/**
+ * Check whether a timestamp falls inside quiet hours
+ */
+export function isWithinQuietHours(quietHours: QuietHours, timestamp: number = Date.now()): boolean {
+  if (quietHours.start === quietHours.end) {
+    return false;
+  }
+
+  let hour: number;
+  try {
+    hour = hourInTimeZone(timestamp, quietHours.timeZone ?? "UTC");
+  } catch {
+    hour = new Date(timestamp).getUTCHours();
+  }
+
+  return quietHours.start < quietHours.end
+    ? hour >= quietHours.start && hour < quietHours.end
+    : hour >= quietHours.start || hour < quietHours.end;
+}
+
+/**
+ * Check whether a subscription should receive a notification right now
+ */
+export function subscriptionMatches(
+  subscription: Subscription,
+  notification: Notification,
+  now: number = Date.now()
+): boolean {
+  const types = subscription.filters.types ?? DEFAULT_SUBSCRIBER_TYPES;
+  if (!types.includes(notification.type)) {
+    return false;
+  }
+  if (!notificationMatchesFilters(notification, subscription.filters)) {
+    return false;
+  }
+  if (subscription.quietHours && isWithinQuietHours(subscription.quietHours, now)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Parse "key=value" tokens into filters and quiet hours, e.g.
+ *   class=crypto symbols=BTC,ETH direction=long pattern=micro_breakout
+ *   timeframe=5m,15m minConfidence=75 types=breakout,custom quiet=22-7 tz=Europe/London
+ */
+export function parseSubscriptionArgs(args: string[]): {
+  filters: ChannelFilters;
+  quietHours?: QuietHours;
+  errors: string[];
+} {
+  const filters: ChannelFilters = {};
+  const errors: string[] = [];
+  let quiet: { start: number; end: number } | null = null;
+  let timeZone: string | undefined;
+
+  for (const arg of args) {
+    const separator = arg.indexOf("=");
+    if (separator <= 0) {
+      errors.push(`Expected key=value, got "${arg}"`);
+      continue;
+    }
+
+    const key = arg.slice(0, separator).toLowerCase();
+    const value = arg.slice(separator + 1);
+    const list = value.split(",").map((v) => v.trim()).filter((v) => v.length > 0);
+
+    switch (key) {
+      case "class":
+      case "classes":
+        filters.classes = list;
+        break;
+      case "symbol":
+      case "symbols":
+        filters.symbols = list.map((s) => s.toUpperCase());
+        break;
+      case "direction":
+        if (value === "long" || value === "short") {
+          filters.direction = value;
+        } else {
+          errors.push(`direction must be long or short`);
+        }
+        break;
+      case "pattern":
+      case "patterns":
+        filters.patterns = list;
+        break;
+      case "timeframe":
+      case "timeframes":
+        filters.timeframes = list;
+        break;
+      case "type":
+      case "types": {
+        const types = list.filter((t): t is NotificationType => NOTIFICATION_TYPES.includes(t as NotificationType));
+        if (types.length !== list.length) {
+          errors.push(`types must be among ${NOTIFICATION_TYPES.join(", ")}`);
+        }
+        filters.types = types;
+        break;
+      }
+      case "minconfidence":
+      case "confidence": {
+        const minConfidence = Number(value);
+        if (Number.isFinite(minConfidence) && minConfidence >= 0 && minConfidence <= 100) {
+          filters.minConfidence = minConfidence;
+        } else {
+          errors.push(`minConfidence must be between 0 and 100`);
+        }
+        break;
+      }
+      case "quiet": {
+        const match = /^(\d{1,2})-(\d{1,2})$/.exec(value);
+        const start = match ? parseInt(match[1]!, 10) : NaN;
+        const end = match ? parseInt(match[2]!, 10) : NaN;
+        if (start >= 0 && start < 24 && end >= 0 && end < 24) {
+          quiet = { start, end };
+        } else {
+          errors.push(`quiet must look like 22-7 (hours 0-23)`);
+        }
+        break;
+      }
+      case "tz":
+        try {
+          new Intl.DateTimeFormat("en-US", { timeZone: value });
+          timeZone = value;
+        } catch {
+          errors.push(`Unknown time zone ${value}`);
+        }
+        break;
+      default:
+        errors.push(`Unknown filter ${key}`);
+    }
+  }
+
+  if (quiet) {
+    const quietHours: QuietHours = timeZone ? { ...quiet, timeZone } : quiet;
+    return { filters, quietHours, errors };
+  }
+
+  return { filters, errors };
+}
+
+/**
+ * Human-readable summary of a subscription's rules
+ */
+export function describeSubscription(subscription: Subscription): string {
+  const f = subscription.filters;
+  const parts = [
+    `types=${(f.types ?? DEFAULT_SUBSCRIBER_TYPES).join(",")}`,
+    f.classes ? `class=${f.classes.join(",")}` : null,
+    f.symbols ? `symbols=${f.symbols.join(",")}` : null,
+    f.direction ? `direction=${f.direction}` : null,
+    f.patterns ? `pattern=${f.patterns.join(",")}` : null,
+    f.timeframes ? `timeframe=${f.timeframes.join(",")}` : null,
+    f.minConfidence !== undefined ? `minConfidence=${f.minConfidence}` : null,
+    subscription.quietHours
+      ? `quiet=${subscription.quietHours.start}-${subscription.quietHours.end}` +
+        (subscription.quietHours.timeZone ? ` tz=${subscription.quietHours.timeZone}` : "")
+      : null,
+  ];
+  return parts.filter((p): p is string => p !== null).join(" ");
+}
+
+/**
+ * Telegram Markdown for a notification
+ */
+function formatForTelegram(notification: Notification): string {
+  switch (notification.type) {
+    case "breakout":
+      return formatBreakoutMessage(notification.signal);
+    case "intraday":
+      return formatIntradayMessage(notification.signal);
+    case "prepump":
+      return formatPrepumpMessage(notification.coin, notification.signal, notification.confidence);
+    case "custom":
+      return notification.message;
+  }
+}
+
+/**
+ * Deliver a notification to one subscriber
+ */
+async function deliver(subscription: Subscription, notification: Notification): Promise<void> {
+  const target = subscription.target;
+
+  if (target.kind === "telegram") {
+    await sendTelegramMessageTo(target.chatId, formatForTelegram(notification));
+    return;
+  }
+
+  await new WebhookChannel(target.url, target.secret ?? null, {}).send(notification);
+}
+
+/**
+ * Notifier that fans out to every matching subscription in Redis
+ */
+export class SubscriptionRouter implements Notifier {
+  readonly name = "subscriptions";
+  readonly filters: ChannelFilters = {};
+
+  async send(notification: Notification): Promise<void> {
+    const now = Date.now();
+    const subscriptions = (await listSubscriptions())
+      .filter((subscription) => subscriptionMatches(subscription, notification, now));
+
+    for (const subscription of subscriptions) {
+      try {
+        await deliver(subscription, notification);
+      } catch (err) {
+        logError("Subscriptions", `Failed to deliver ${notification.type} to ${subscription.id}`, err);
+      }
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Telegram Channel
+ *
+ * Adapts the existing Telegram notifier (and its Markdown formatters) to the
+ * Notifier interface.
+ */
+
+import {
+  initTelegram,
+  isTelegramEnabled,
+  notifyBreakout,
+  notifyCustom,
+  notifyIntradayBreakout,
+  notifyPrepump,
+} from "../utils/telegramNotifier.js";
+import type { ChannelFilters, Notification, Notifier } from "./notifier.js";
+
+export class TelegramChannel implements Notifier {
+  readonly name = "telegram";
+
+  constructor(readonly filters: ChannelFilters) {}
+
+  async send(notification: Notification): Promise<void> {
+    switch (notification.type) {
+      case "breakout":
+        await notifyBreakout(notification.signal);
+        break;
+      case "intraday":
+        await notifyIntradayBreakout(notification.signal);
+        break;
+      case "prepump":
+        await notifyPrepump(notification.coin, notification.signal, notification.confidence);
+        break;
+      case "custom":
+        await notifyCustom(notification.message);
+        break;
+    }
+  }
+}
+
+/**
+ * Create the Telegram channel if TELEGRAM_BOT_TOKEN/TELEGRAM_CHAT_ID are set
+ */
+export function createTelegramChannel(filters: ChannelFilters): TelegramChannel | null {
+  initTelegram();
+  return isTelegramEnabled() ? new TelegramChannel(filters) : null;
+}
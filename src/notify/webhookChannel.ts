@@ -0,0 +1,51 @@
+/**
+ * Generic HTTP Webhook Channel
+ *
+ * POSTs the raw notification as JSON. When a secret is configured the body is
+ * signed with HMAC-SHA256 over "{timestamp}.{body}" so receivers can verify
+ * origin and reject replays:
+ *   X-Signature-Timestamp: 1700000000000
+ *   X-Signature: sha256=<hex digest>
+ */
+
+import crypto from "node:crypto";
+import axios from "axios";
+import { info, error as logError } from "../utils/logger.js";
+import type { ChannelFilters, Notification, Notifier } from "./notifier.js";
+
+/**
+ * Compute the signature header value for a payload
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `sha256=${digest}`;
+}
+
+export class WebhookChannel implements Notifier {
+  readonly name = "webhook";
+
+  constructor(
+    private readonly url: string,
+    private readonly secret: string | null,
+    readonly filters: ChannelFilters
+  ) {}
+
+  async send(notification: Notification): Promise<void> {
+    const timestamp = Date.now();
+    const body = JSON.stringify({ ...notification, sentAt: timestamp });
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+
+    if (this.secret) {
+      headers["X-Signature-Timestamp"] = String(timestamp);
+      headers["X-Signature"] = signWebhookPayload(this.secret, timestamp, body);
+    }
+
+    try {
+      // Send the pre-serialized body so the signature matches byte-for-byte
+      await axios.post(this.url, body, { headers, timeout: 10000 });
+      info("WebhookChannel", `Sent ${notification.type} notification`);
+    } catch (err) {
+      logError("WebhookChannel", `Failed to send ${notification.type} notification`, err);
+    }
+  }
+}
@@ -0,0 +1,283 @@
+/**
+ * Hyperliquid Candle Backfill
+ *
+ * Fills the candle store with the full detection lookback via candleSnapshot
+ * when the streamer starts, and repairs the candles missed while the WebSocket
+ * was down after a reconnect. Only coins with gaps are fetched; requests run
+ * in rate-limited batches (candleSnapshot costs ~20 of the 1200 request
+ * weight per minute). Each run ends with a per-coin completeness report.
+ * The 1h lookback is CANDLE_BACKFILL_HOURS; other intervals fill their retention.
+ */
+
+import axios from "axios";
+import { info, warn, error as logError } from "../utils/logger.js";
+import type { CandleClosedListener, HyperliquidCandle, ProcessedCandle } from "./candleStreamer.js";
+import {
+  CANDLE_INTERVAL_MS,
+  CANDLE_RETENTION,
+  MAX_CLOSED_CANDLES,
+  getClosedCandles,
+  toProcessedCandle,
+  upsertCandle,
+  type CandleInterval,
+} from "./candleStore.js";
+
+const HYPERLIQUID_API_URL = "https://api.hyperliquid.xyz/info";
+
+export const BACKFILL_CONFIG = {
+  lookbackHours: Math.min(parseInt(process.env.CANDLE_BACKFILL_HOURS || "72", 10), MAX_CLOSED_CANDLES),
+  batchSize: parseInt(process.env.CANDLE_BACKFILL_BATCH_SIZE || "20", 10),
+  requestDelayMs: parseInt(process.env.CANDLE_BACKFILL_DELAY_MS || "1200", 10),
+  batchPauseMs: 5000,
+  rateLimitPauseMs: 10000,
+  maxRetries: 3,
+};
+
+export type BackfillReason = "startup" | "reconnect" | "manual";
+
+export interface CandleGap {
+  start: number; // Open time of the first missing candle
+  end: number; // Open time of the last missing candle
+  missing: number;
+}
+
+export interface CoinCompleteness {
+  coin: string;
+  interval: CandleInterval;
+  expected: number;
+  stored: number;
+  completeness: number; // 0-100
+  gaps: CandleGap[];
+  oldest: number | null; // Open time
+  newest: number | null;
+}
+
+export type CoinBackfillStatus = "complete" | "repaired" | "partial" | "failed";
+
+export interface CoinBackfillResult {
+  coin: string;
+  status: CoinBackfillStatus;
+  fetched: number;
+  before: CoinCompleteness;
+  after: CoinCompleteness;
+}
+
+export interface BackfillReport {
+  reason: BackfillReason;
+  interval: CandleInterval;
+  startedAt: number;
+  finishedAt: number;
+  lookback: number; // Candles
+  coins: CoinBackfillResult[];
+  candlesStored: number;
+  avgCompleteness: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Default lookback (in candles) for an interval
+ */
+export function defaultBackfillLookback(interval: CandleInterval): number {
+  return interval === "1h" ? BACKFILL_CONFIG.lookbackHours : CANDLE_RETENTION[interval];
+}
+
+/**
+ * Open time of the newest closed candle
+ */
+function lastClosedOpenTime(now: number, intervalMs: number): number {
+  return Math.floor(now / intervalMs) * intervalMs - intervalMs;
+}
+
+/**
+ * Missing open times between from and to (inclusive), one candle per stepMs
+ */
+export function findCandleGaps(
+  candles: ProcessedCandle[],
+  from: number,
+  to: number,
+  stepMs: number = CANDLE_INTERVAL_MS["1h"]
+): CandleGap[] {
+  const present = new Set(candles.map((c) => c.openTime));
+  const gaps: CandleGap[] = [];
+  let current: CandleGap | null = null;
+
+  for (let openTime = from; openTime <= to; openTime += stepMs) {
+    if (present.has(openTime)) {
+      current = null;
+      continue;
+    }
+    if (current) {
+      current.end = openTime;
+      current.missing++;
+    } else {
+      current = { start: openTime, end: openTime, missing: 1 };
+      gaps.push(current);
+    }
+  }
+
+  return gaps;
+}
+
+/**
+ * How much of the lookback window (in candles) is stored for a coin
+ */
+export async function getCandleCompleteness(
+  coin: string,
+  lookback: number = BACKFILL_CONFIG.lookbackHours,
+  interval: CandleInterval = "1h",
+  now: number = Date.now()
+): Promise<CoinCompleteness> {
+  const intervalMs = CANDLE_INTERVAL_MS[interval];
+  const to = lastClosedOpenTime(now, intervalMs);
+  const from = to - (lookback - 1) * intervalMs;
+  const candles = (await getClosedCandles(coin, lookback, interval, now)).filter((c) => c.openTime >= from);
+  const gaps = findCandleGaps(candles, from, to, intervalMs);
+  const missing = gaps.reduce((sum, g) => sum + g.missing, 0);
+
+  return {
+    coin,
+    interval,
+    expected: lookback,
+    stored: lookback - missing,
+    completeness: ((lookback - missing) / lookback) * 100,
+    gaps,
+    oldest: candles[candles.length - 1]?.openTime ?? null,
+    newest: candles[0]?.openTime ?? null,
+  };
+}
+
+/**
+ * candleSnapshot for one coin (null when the request failed)
+ */
+async function fetchCandleSnapshot(
+  coin: string,
+  interval: CandleInterval,
+  startTime: number,
+  endTime: number
+): Promise<ProcessedCandle[] | null> {
+  for (let attempt = 0; attempt < BACKFILL_CONFIG.maxRetries; attempt++) {
+    try {
+      const response = await axios.post(
+        HYPERLIQUID_API_URL,
+        { type: "candleSnapshot", req: { coin, interval, startTime, endTime } },
+        { timeout: 15000 }
+      );
+
+      if (!Array.isArray(response.data)) {
+        return [];
+      }
+      return (response.data as HyperliquidCandle[]).map(toProcessedCandle);
+    } catch (err: any) {
+      if (err?.response?.status === 429 && attempt < BACKFILL_CONFIG.maxRetries - 1) {
+        warn("CandleBackfill", `Rate limit hit for ${coin}, pausing ${BACKFILL_CONFIG.rateLimitPauseMs}ms`);
+        await sleep(BACKFILL_CONFIG.rateLimitPauseMs);
+        continue;
+      }
+      logError("CandleBackfill", `Error fetching ${interval} candles for ${coin}`, err);
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Fetch the span covering every gap (plus the forming candle) and upsert it;
+ * bars the upsert finalizes are reported to onClosed like streamed closes
+ */
+async function backfillCoin(
+  coin: string,
+  lookback: number,
+  interval: CandleInterval,
+  onClosed?: CandleClosedListener
+): Promise<CoinBackfillResult> {
+  const before = await getCandleCompleteness(coin, lookback, interval);
+  const firstGap = before.gaps[0];
+  if (!firstGap) {
+    return { coin, status: "complete", fetched: 0, before, after: before };
+  }
+
+  const candles = await fetchCandleSnapshot(coin, interval, firstGap.start, Date.now());
+  if (candles === null) {
+    return { coin, status: "failed", fetched: 0, before, after: before };
+  }
+
+  for (const candle of candles) {
+    const { closed } = await upsertCandle(candle);
+    if (closed && onClosed) {
+      onClosed(coin, interval, closed);
+    }
+  }
+
+  const after = await getCandleCompleteness(coin, lookback, interval);
+  // Periods without trades have no candle on the exchange either
+  const status: CoinBackfillStatus = after.gaps.length === 0 ? "repaired" : "partial";
+  return { coin, status, fetched: candles.length, before, after };
+}
+
+/**
+ * Backfill and gap-repair a set of coins in rate-limited batches
+ */
+export async function runCandleBackfill(
+  coins: string[],
+  reason: BackfillReason,
+  interval: CandleInterval = "1h",
+  lookback: number = defaultBackfillLookback(interval),
+  onClosed?: CandleClosedListener
+): Promise<BackfillReport> {
+  const startedAt = Date.now();
+  const results: CoinBackfillResult[] = [];
+  info("CandleBackfill", `Backfill (${reason}) of ${coins.length} coins, ${lookback} x ${interval} lookback`);
+
+  for (let i = 0; i < coins.length; i += BACKFILL_CONFIG.batchSize) {
+    const batch = coins.slice(i, i + BACKFILL_CONFIG.batchSize);
+    let requests = 0;
+
+    for (const coin of batch) {
+      try {
+        const result = await backfillCoin(coin, lookback, interval, onClosed);
+        results.push(result);
+        if (result.status !== "complete") {
+          requests++;
+          await sleep(BACKFILL_CONFIG.requestDelayMs);
+        }
+      } catch (err) {
+        logError("CandleBackfill", `Backfill failed for ${coin} ${interval}`, err);
+      }
+    }
+
+    info(
+      "CandleBackfill",
+      `Batch ${i / BACKFILL_CONFIG.batchSize + 1}/${Math.ceil(coins.length / BACKFILL_CONFIG.batchSize)}: ` +
+        `${requests} fetched, ${batch.length - requests} already complete`
+    );
+    if (requests > 0 && i + BACKFILL_CONFIG.batchSize < coins.length) {
+      await sleep(BACKFILL_CONFIG.batchPauseMs);
+    }
+  }
+
+  const report: BackfillReport = {
+    reason,
+    interval,
+    startedAt,
+    finishedAt: Date.now(),
+    lookback,
+    coins: results,
+    candlesStored: results.reduce((sum, r) => sum + (r.after.stored - r.before.stored), 0),
+    avgCompleteness:
+      results.length > 0 ? results.reduce((sum, r) => sum + r.after.completeness, 0) / results.length : 0,
+  };
+
+  const count = (status: CoinBackfillStatus) => results.filter((r) => r.status === status).length;
+  info(
+    "CandleBackfill",
+    `Backfill (${reason}, ${interval}) done in ${((report.finishedAt - startedAt) / 1000).toFixed(0)}s: ` +
+      `${count("repaired")} repaired, ${count("partial")} partial, ${count("failed")} failed, ` +
+      `${count("complete")} already complete, +${report.candlesStored} candles, ` +
+      `avg completeness ${report.avgCompleteness.toFixed(1)}%`
+  );
+
+  return report;
+}
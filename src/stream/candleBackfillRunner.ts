@@ -0,0 +1,136 @@
+/**
+ * Candle Backfill Runner
+ *
+ * Check and repair the stored candle history outside the live process:
+ *   node dist/stream/candleBackfillRunner.js report
+ *   node dist/stream/candleBackfillRunner.js report BTC ETH
+ *   node dist/stream/candleBackfillRunner.js repair --lookback=168
+ *   node dist/stream/candleBackfillRunner.js report BTC ETH --interval=5m
+ *
+ * Without coins, every active Hyperliquid perp is checked.
+ */
+
+import "dotenv/config";
+import { discoverMarkets } from "../cron/discoverMarkets.js";
+import { CANDLE_INTERVALS, CANDLE_RETENTION, isCandleInterval, type CandleInterval } from "./candleStore.js";
+import {
+  defaultBackfillLookback,
+  getCandleCompleteness,
+  runCandleBackfill,
+  type CandleGap,
+  type CoinCompleteness,
+} from "./candleBackfill.js";
+
+function printUsage(): void {
+  console.log("\nUsage:");
+  console.log("  node dist/stream/candleBackfillRunner.js [command] [coins...] [--flags]");
+  console.log("\nCommands:");
+  console.log("  report [coins...]          - Per-coin completeness of the stored lookback");
+  console.log("  repair [coins...]          - Fetch missing history and fill gaps, then report");
+  console.log("\nFlags:");
+  console.log(`  --interval=1h              - Candle interval (${CANDLE_INTERVALS.join(", ")})`);
+  console.log("  --lookback=N               - Candles to check (default: 72 for 1h, the retention otherwise)");
+  console.log("  --all                      - List complete coins too");
+}
+
+function parseFlags(args: string[]): Map<string, string> {
+  const flags = new Map<string, string>();
+  for (const arg of args) {
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(arg);
+    if (match) {
+      flags.set(match[1]!, match[2] ?? "true");
+    }
+  }
+  return flags;
+}
+
+function formatOpenTime(openTime: number | null): string {
+  return openTime === null ? "-" : new Date(openTime).toISOString().slice(0, 16).replace("T", " ");
+}
+
+function formatGaps(gaps: CandleGap[]): string {
+  const shown = gaps
+    .slice(0, 3)
+    .map((g) => (g.missing === 1 ? formatOpenTime(g.start) : `${formatOpenTime(g.start)}→${formatOpenTime(g.end)} (${g.missing})`));
+  return shown.join(", ") + (gaps.length > 3 ? ` +${gaps.length - 3} more` : "");
+}
+
+function parseInterval(value: string | undefined): CandleInterval {
+  if (value === undefined) return "1h";
+  if (!isCandleInterval(value)) {
+    throw new Error(`Unknown interval "${value}" (use ${CANDLE_INTERVALS.join(", ")})`);
+  }
+  return value;
+}
+
+function printCompleteness(rows: CoinCompleteness[], interval: CandleInterval, lookback: number, showAll: boolean): void {
+  const complete = rows.filter((r) => r.gaps.length === 0);
+  const incomplete = rows.filter((r) => r.gaps.length > 0).sort((a, b) => a.completeness - b.completeness);
+  const avg = rows.length > 0 ? rows.reduce((sum, r) => sum + r.completeness, 0) / rows.length : 0;
+
+  console.log("\n" + "=".repeat(80));
+  console.log(`🧱 CANDLE COMPLETENESS (last ${lookback} closed ${interval} candles)`);
+  console.log("=".repeat(80));
+  console.log(`Coins: ${rows.length}  |  Complete: ${complete.length}  |  With gaps: ${incomplete.length}  |  Avg: ${avg.toFixed(1)}%`);
+
+  const shown = showAll ? [...incomplete, ...complete] : incomplete;
+  if (shown.length === 0) {
+    console.log("\n✅ Every coin has the full lookback stored");
+  } else {
+    console.log("\n" + "Coin".padEnd(12) + "Stored".padStart(10) + "Complete".padStart(10) + "  Oldest".padEnd(20) + "Gaps");
+    console.log("─".repeat(80));
+    for (const row of shown) {
+      console.log(
+        row.coin.padEnd(12) + `${row.stored}/${row.expected}`.padStart(10) + `${row.completeness.toFixed(1)}%`.padStart(10) +
+          `  ${formatOpenTime(row.oldest)}`.padEnd(20) + formatGaps(row.gaps)
+      );
+    }
+  }
+
+  console.log("\n" + "=".repeat(80));
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2];
+  const coinArgs = process.argv.slice(3).filter((a) => !a.startsWith("--"));
+  const flags = parseFlags(process.argv.slice(3));
+  let ok = true;
+
+  try {
+    const interval = parseInterval(flags.get("interval"));
+    const lookback = Math.min(
+      parseInt(flags.get("lookback") ?? `${defaultBackfillLookback(interval)}`, 10),
+      CANDLE_RETENTION[interval]
+    );
+
+    switch (command) {
+      case "report":
+      case "repair": {
+        const coins = coinArgs.length > 0 ? coinArgs : await discoverMarkets();
+        if (coins.length === 0) throw new Error("No coins to check");
+
+        if (command === "repair") {
+          await runCandleBackfill(coins, "manual", interval, lookback);
+        }
+
+        const rows: CoinCompleteness[] = [];
+        for (const coin of coins) {
+          rows.push(await getCandleCompleteness(coin, lookback, interval));
+        }
+        printCompleteness(rows, interval, lookback, flags.has("all"));
+        break;
+      }
+
+      default:
+        printUsage();
+        ok = false;
+    }
+  } catch (err) {
+    console.error("\n❌ Candle backfill command failed:", err instanceof Error ? err.message : err);
+    ok = false;
+  }
+
+  process.exit(ok ? 0 : 1);
+}
+
+main();
@@ -0,0 +1,257 @@
+/**
+ * Hyperliquid Candle Store
+ *
+ * One entry per interval per coin, keyed by open time:
+ *   candles:{interval}:{coin}     sorted set of closed candles, scored by openTime
+ *   candles:forming:{interval}    hash of the forming (current) candle per coin
+ *
+ * The WebSocket sends many updates for the current candle; each replaces the
+ * forming candle instead of being appended. A candle moves to the closed set
+ * once its close time has passed or the next candle's first update arrives,
+ * so readers see exactly one bar per interval. Retention is per interval.
+ */
+
+import redis from "../utils/redisClient.js";
+import { info, error as logError } from "../utils/logger.js";
+import type { HyperliquidCandle, ProcessedCandle } from "./candleStreamer.js";
+
+export type CandleInterval = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+
+export const CANDLE_INTERVALS: readonly CandleInterval[] = ["1m", "5m", "15m", "1h", "4h", "1d"];
+
+export const CANDLE_INTERVAL_MS: Record<CandleInterval, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "15m": 15 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+  "4h": 4 * 60 * 60 * 1000,
+  "1d": 24 * 60 * 60 * 1000,
+};
+
+// Closed candles kept per coin
+export const CANDLE_RETENTION: Record<CandleInterval, number> = {
+  "1m": 1440, // 1 day
+  "5m": 864, // 3 days, Model-2 reads 48h
+  "15m": 384, // 4 days
+  "1h": 168, // 7 days, the breakout outcome window
+  "4h": 180, // 30 days
+  "1d": 365,
+};
+
+export const MAX_CLOSED_CANDLES = CANDLE_RETENTION["1h"];
+
+export type CandleState = "closed" | "forming";
+
+export interface UpsertResult {
+  state: CandleState; // State of the written candle
+  closed: ProcessedCandle | null; // Candle this write finalized: itself, or the forming one it replaced
+}
+
+// Writes for a coin/interval are applied in arrival order (messages are not awaited)
+const pendingWrites = new Map<string, Promise<unknown>>();
+const migratedCoins = new Set<string>();
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return (CANDLE_INTERVALS as readonly string[]).includes(value);
+}
+
+function closedKey(coin: string, interval: CandleInterval): string {
+  return `candles:${interval}:${coin}`;
+}
+
+function formingKey(interval: CandleInterval): string {
+  return `candles:forming:${interval}`;
+}
+
+function intervalOf(candle: ProcessedCandle): CandleInterval {
+  return isCandleInterval(candle.interval) ? candle.interval : "1h";
+}
+
+function parseCandle(json: string | null): ProcessedCandle | null {
+  if (!json) return null;
+  try {
+    return JSON.parse(json) as ProcessedCandle;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert a WebSocket or candleSnapshot candle to the stored shape
+ */
+export function toProcessedCandle(candle: HyperliquidCandle): ProcessedCandle {
+  return {
+    coin: candle.s,
+    timestamp: Number(candle.T), // Use close time as primary timestamp
+    openTime: Number(candle.t),
+    closeTime: Number(candle.T),
+    open: parseFloat(candle.o),
+    close: parseFloat(candle.c),
+    high: parseFloat(candle.h),
+    low: parseFloat(candle.l),
+    volume: parseFloat(candle.v),
+    numTrades: candle.n,
+    interval: candle.i,
+  };
+}
+
+export function isCandleClosed(candle: ProcessedCandle, now: number = Date.now()): boolean {
+  return candle.closeTime < now;
+}
+
+function serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const previous = pendingWrites.get(key) ?? Promise.resolve();
+  const next = previous.then(task, task);
+  pendingWrites.set(key, next);
+
+  const cleanup = () => {
+    if (pendingWrites.get(key) === next) pendingWrites.delete(key);
+  };
+  next.then(cleanup, cleanup);
+  return next;
+}
+
+async function storeClosedCandle(candle: ProcessedCandle): Promise<void> {
+  const interval = intervalOf(candle);
+  const key = closedKey(candle.coin, interval);
+  await redis
+    .multi()
+    .zremrangebyscore(key, candle.openTime, candle.openTime)
+    .zadd(key, candle.openTime, JSON.stringify(candle))
+    .zremrangebyrank(key, 0, -(CANDLE_RETENTION[interval] + 1))
+    .exec();
+}
+
+/**
+ * Convert a pre-sorted-set candles:1h:{coin} list (every update pushed) in place
+ */
+async function migrateLegacyList(coin: string, now: number): Promise<void> {
+  if (migratedCoins.has(coin)) return;
+
+  const key = closedKey(coin, "1h");
+  if ((await redis.type(key)) === "list") {
+    const entries = await redis.lrange(key, 0, -1);
+    await redis.del(key);
+
+    // Newest first, so the first entry per open time is that candle's last state
+    const latest = new Map<number, ProcessedCandle>();
+    for (const entry of entries) {
+      const candle = parseCandle(entry);
+      if (candle && !latest.has(candle.openTime)) latest.set(candle.openTime, candle);
+    }
+
+    for (const candle of latest.values()) {
+      if (isCandleClosed(candle, now)) {
+        await storeClosedCandle(candle);
+      } else {
+        await redis.hsetnx(formingKey("1h"), coin, JSON.stringify(candle));
+      }
+    }
+    info("CandleStore", `Migrated ${coin}: ${entries.length} list entries → ${latest.size} candles`);
+  }
+
+  migratedCoins.add(coin);
+}
+
+/**
+ * Insert or replace the candle with this open time (interval from candle.interval)
+ */
+export function upsertCandle(candle: ProcessedCandle, now: number = Date.now()): Promise<UpsertResult> {
+  const interval = intervalOf(candle);
+  return serialize(`${interval}:${candle.coin}`, async () => {
+    if (interval === "1h") {
+      await migrateLegacyList(candle.coin, now);
+    }
+    const forming = parseCandle(await redis.hget(formingKey(interval), candle.coin));
+
+    if (isCandleClosed(candle, now)) {
+      await storeClosedCandle(candle);
+      if (forming && forming.openTime <= candle.openTime) {
+        await redis.hdel(formingKey(interval), candle.coin);
+      }
+      return { state: "closed", closed: candle };
+    }
+
+    if (forming && forming.openTime > candle.openTime) {
+      return { state: "forming", closed: null }; // Late update for a candle that has already rolled over
+    }
+    let closed: ProcessedCandle | null = null;
+    if (forming && forming.openTime < candle.openTime) {
+      // A new candle started: the last update of the previous one is final
+      await storeClosedCandle(forming);
+      closed = forming;
+    }
+    await redis.hset(formingKey(interval), candle.coin, JSON.stringify(candle));
+    return { state: "forming", closed };
+  });
+}
+
+async function readCandles(
+  coin: string,
+  limit: number,
+  interval: CandleInterval,
+  includeForming: boolean,
+  now: number
+): Promise<ProcessedCandle[]> {
+  try {
+    if (interval === "1h") {
+      await serialize(`${interval}:${coin}`, () => migrateLegacyList(coin, now));
+    }
+    const [closedJsons, formingJson] = await Promise.all([
+      redis.zrevrange(closedKey(coin, interval), 0, limit - 1),
+      redis.hget(formingKey(interval), coin),
+    ]);
+
+    const candles = closedJsons
+      .map(parseCandle)
+      .filter((candle): candle is ProcessedCandle => candle !== null);
+    const forming = parseCandle(formingJson);
+
+    // A forming candle with no update since it ended is closed all the same
+    const newest = candles[0]?.openTime ?? -Infinity;
+    if (forming && forming.openTime > newest && (includeForming || isCandleClosed(forming, now))) {
+      candles.unshift(forming);
+    }
+
+    return candles.slice(0, limit);
+  } catch (err) {
+    logError("CandleStore", `Error retrieving ${interval} candles for ${coin}`, err);
+    return [];
+  }
+}
+
+/**
+ * Closed candles, newest first, one per interval
+ */
+export function getClosedCandles(
+  coin: string,
+  limit: number,
+  interval: CandleInterval = "1h",
+  now: number = Date.now()
+): Promise<ProcessedCandle[]> {
+  return readCandles(coin, limit, interval, false, now);
+}
+
+/**
+ * Newest candles including the forming one, one per interval
+ */
+export function getRecentCandles(
+  coin: string,
+  limit: number,
+  interval: CandleInterval = "1h",
+  now: number = Date.now()
+): Promise<ProcessedCandle[]> {
+  return readCandles(coin, limit, interval, true, now);
+}
+
+/**
+ * The current candle, if any update has arrived for it
+ */
+export async function getFormingCandle(coin: string, interval: CandleInterval = "1h"): Promise<ProcessedCandle | null> {
+  try {
+    return parseCandle(await redis.hget(formingKey(interval), coin));
+  } catch (err) {
+    logError("CandleStore", `Error retrieving forming candle for ${coin}`, err);
+    return null;
+  }
+}
@@ -1,17 +1,32 @@
 import WebSocket from "ws";
-import redis from "../utils/redisClient.js";
 import type { HyperliquidWSMessage } from "../utils/types.js";
 import { info, warn, error as logError } from "../utils/logger.js";
+import { ConnectionSupervisor } from "./connectionSupervisor.js";
+import {
+  CANDLE_INTERVALS,
+  getClosedCandles,
+  getRecentCandles,
+  isCandleInterval,
+  toProcessedCandle,
+  upsertCandle,
+  type CandleInterval,
+} from "./candleStore.js";
+import { runCandleBackfill, type BackfillReason, type BackfillReport } from "./candleBackfill.js";
 
 /**
- * Hyperliquid Native 1-Hour Candle Streamer
- * Uses official candle subscription for accurate, stable 1H mega-run signals
+ * Hyperliquid Native Candle Streamer
+ * Uses official candle subscriptions: 1H for every coin (mega-run signals),
+ * plus any other intervals requested per coin (e.g. 5m/15m for Model-2).
+ * Each coin/interval pair is one subscription with its own store key.
+ * Closed bars are passed to onCandleClosed listeners (the detection dispatcher).
  */
 
 const HYPERLIQUID_WS_URL = "wss://api.hyperliquid.xyz/ws";
-const CANDLE_INTERVAL = "1h";
-const MAX_CANDLES_STORED = 60; // Keep last 60 candles (60 hours of data)
-// Hyperliquid allows 1000 subscriptions per connection, so we can subscribe to all coins
+const DEFAULT_INTERVAL: CandleInterval = "1h";
+// Live updates arrive every few seconds, so minutes of silence mean a dead stream
+const STALE_AFTER_MS = parseInt(process.env.CANDLE_STALE_MINUTES || "5", 10) * 60 * 1000;
+// Hyperliquid allows 1000 subscriptions per connection (one per coin/interval pair)
+const MAX_SUBSCRIPTIONS = 1000;
 
 export interface HyperliquidCandle {
   t: number; // Open time (ms)
@@ -40,175 +55,190 @@ export interface ProcessedCandle {
   interval: string;
 }
 
+// Called once per coin/interval bar when it closes (the store finalized it)
+export type CandleClosedListener = (coin: string, interval: CandleInterval, candle: ProcessedCandle) => void;
+
+interface PendingSubscription {
+  coin: string;
+  interval: CandleInterval;
+}
+
+function subscriptionKey(coin: string, interval: string): string {
+  return `${coin}:${interval}`;
+}
+
 class CandleStreamer {
-  private ws: WebSocket | null = null;
-  private activeCoins: Set<string> = new Set();
-  private subscribedCoins: Set<string> = new Set(); // Coins with confirmed subscriptions
+  private activeCoins: Map<string, Set<CandleInterval>> = new Map(); // Requested intervals per coin
+  private confirmedSubscriptions: Set<string> = new Set(); // "coin:interval" pairs confirmed by the server
   private allAvailableCoins: string[] = []; // Full list of coins to monitor
-  private subscriptionQueue: string[] = [];
+  private subscriptionQueue: PendingSubscription[] = [];
   private isSubscribing = false;
   private readonly BATCH_SUBSCRIBE_DELAY = 200; // ms between subscriptions (5/sec, well under 2000 msg/min limit)
-  private reconnectAttempts = 0;
-  private readonly MAX_RECONNECT_ATTEMPTS = 5;
-  private reconnectTimer: NodeJS.Timeout | null = null;
-  private restApiQueue: string[] = [];
-  private isProcessingRestApi = false;
-  private readonly REST_API_DELAY = 100; // ms between REST API calls to avoid rate limiting
+  private backfillQueue: Map<CandleInterval, Set<string>> = new Map();
+  private backfillReason: BackfillReason = "startup";
+  private isBackfilling = false;
+  private lastBackfillReport: BackfillReport | null = null;
+  private candleClosedListeners: CandleClosedListener[] = [];
+  private historyReadyListeners: Array<() => void> = [];
+  private readonly supervisor = new ConnectionSupervisor({
+    component: "candleStreamer",
+    logModule: "CandleStreamer",
+    url: HYPERLIQUID_WS_URL,
+    staleAfterMs: STALE_AFTER_MS,
+    onOpen: (reconnect) => this.handleOpen(reconnect),
+    onMessage: (data) => this.handleMessage(data),
+  });
 
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      try {
-        info("CandleStreamer", `Connecting to Hyperliquid WebSocket (${CANDLE_INTERVAL} candles)...`);
-        console.log(`🔌 Connecting to WebSocket: ${HYPERLIQUID_WS_URL}`);
-        this.ws = new WebSocket(HYPERLIQUID_WS_URL);
-
-        this.ws.on("open", () => {
-          info("CandleStreamer", "WebSocket connected successfully");
-          console.log("✅ WebSocket connection established");
-          this.reconnectAttempts = 0;
-          resolve();
-        });
-
-        this.ws.on("message", (data: WebSocket.Data) => {
-          this.handleMessage(data);
-        });
-
-        this.ws.on("error", (err: Error) => {
-          logError("CandleStreamer", "WebSocket error", err);
-          reject(err);
-        });
-
-        this.ws.on("close", () => {
-          warn("CandleStreamer", "WebSocket closed, attempting reconnect...");
-          this.attemptReconnect();
-        });
-      } catch (err) {
-        logError("CandleStreamer", "Connection failed", err);
-        reject(err);
-      }
-    });
+    info("CandleStreamer", "Connecting to Hyperliquid WebSocket (candle subscriptions)...");
+    console.log(`🔌 Connecting to WebSocket: ${HYPERLIQUID_WS_URL}`);
+    await this.supervisor.start();
+    console.log("✅ WebSocket connection established");
   }
 
   /**
-   * Attempt to reconnect with exponential backoff
+   * After a reconnect the server has forgotten every subscription: resend
+   * them all and repair the candles missed while disconnected
    */
-  private attemptReconnect(): void {
-    if (this.reconnectAttempts >= this.MAX_RECONNECT_ATTEMPTS) {
-      logError("CandleStreamer", "Max reconnect attempts reached, giving up");
+  private handleOpen(reconnect: boolean): void {
+    if (!reconnect) {
       return;
     }
 
-    const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-    this.reconnectAttempts++;
-
-    info("CandleStreamer", `Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    const pending = this.allSubscriptions();
+    this.confirmedSubscriptions.clear();
+    this.subscriptionQueue = pending;
+    info("CandleStreamer", `Resubscribing to ${pending.length} streams (${this.activeCoins.size} coins) after reconnect`);
+    void this.processSubscriptionQueue();
+    for (const { coin, interval } of pending) {
+      this.queueBackfill([coin], "reconnect", interval);
+    }
+  }
 
-    this.reconnectTimer = setTimeout(async () => {
-      try {
-        await this.connect();
-        // Re-subscribe to all active coins
-        const coins = Array.from(this.activeCoins);
-        this.activeCoins.clear();
-        this.subscriptionQueue = [];
-        
-        for (const coin of coins) {
-          await this.subscribe(coin);
-        }
-      } catch (err) {
-        logError("CandleStreamer", "Reconnect failed", err);
+  private allSubscriptions(): PendingSubscription[] {
+    const pending: PendingSubscription[] = [];
+    for (const [coin, intervals] of this.activeCoins) {
+      for (const interval of intervals) {
+        pending.push({ coin, interval });
       }
-    }, delay);
+    }
+    return pending;
+  }
+
+  private subscriptionCount(): number {
+    let count = 0;
+    for (const intervals of this.activeCoins.values()) {
+      count += intervals.size;
+    }
+    return count;
   }
 
   /**
-   * Queue a coin for REST API snapshot fetch
+   * Queue coins for history backfill / gap repair of one interval
    */
-  private queueRestApiFetch(coin: string): void {
-    if (!this.restApiQueue.includes(coin)) {
-      this.restApiQueue.push(coin);
-      this.processRestApiQueue();
+  private queueBackfill(coins: string[], reason: BackfillReason, interval: CandleInterval = DEFAULT_INTERVAL): void {
+    let queued = this.backfillQueue.get(interval);
+    if (!queued) {
+      queued = new Set();
+      this.backfillQueue.set(interval, queued);
+    }
+    for (const coin of coins) {
+      queued.add(coin);
+    }
+    // A reconnect repair outranks the startup label of coins still waiting
+    if (reason === "reconnect") {
+      this.backfillReason = reason;
     }
+    void this.processBackfillQueue();
   }
 
   /**
-   * Process REST API queue with rate limiting
+   * Drain the backfill queue one interval at a time; coins queued while a run
+   * is going get the next run
    */
-  private async processRestApiQueue(): Promise<void> {
-    if (this.isProcessingRestApi || this.restApiQueue.length === 0) {
+  private async processBackfillQueue(): Promise<void> {
+    if (this.isBackfilling || this.backfillQueue.size === 0) {
       return;
     }
 
-    this.isProcessingRestApi = true;
-    const axios = (await import("axios")).default;
+    this.isBackfilling = true;
+    try {
+      while (this.backfillQueue.size > 0) {
+        // Let subscriptions queued in the same tick join this run
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        const queued = Array.from(this.backfillQueue);
+        const reason = this.backfillReason;
+        this.backfillQueue.clear();
+        this.backfillReason = "startup";
+
+        for (const [interval, coins] of queued) {
+          // Bars finalized by the repair reach the close listeners like streamed ones
+          const report = await runCandleBackfill(
+            Array.from(coins),
+            reason,
+            interval,
+            undefined,
+            (coin, closedInterval, candle) => this.emitCandleClosed(coin, closedInterval, candle)
+          );
+          // The detection interval's report is the one /status shows
+          if (interval === DEFAULT_INTERVAL || this.lastBackfillReport === null) {
+            this.lastBackfillReport = report;
+          }
+        }
+      }
+    } catch (err) {
+      logError("CandleStreamer", "Candle backfill failed", err);
+    } finally {
+      this.isBackfilling = false;
+    }
 
-    while (this.restApiQueue.length > 0) {
-      const coin = this.restApiQueue.shift();
-      if (!coin) continue;
+    // Every subscribed stream has its lookback loaded (or repaired)
+    if (this.backfillQueue.size === 0 && !this.isSubscribing && this.subscriptionQueue.length === 0) {
+      for (const listener of this.historyReadyListeners) {
+        try {
+          listener();
+        } catch (err) {
+          logError("CandleStreamer", "History ready listener failed", err);
+        }
+      }
+    }
+  }
 
-      try {
-        const currentHourStart = new Date();
-        currentHourStart.setMinutes(0, 0, 0);
-        
-        const endTime = currentHourStart.getTime();
-        const startTime = endTime - (3 * 60 * 60 * 1000);
-
-        const response = await axios.post("https://api.hyperliquid.xyz/info", {
-          type: "candleSnapshot",
-          req: {
-            coin: coin,
-            interval: CANDLE_INTERVAL,
-            startTime: startTime,
-            endTime: endTime,
-          },
-        });
+  /**
+   * Listen for closed candles (one call per coin/interval bar)
+   */
+  onCandleClosed(listener: CandleClosedListener): void {
+    this.candleClosedListeners.push(listener);
+  }
 
-        if (response.data && Array.isArray(response.data) && response.data.length > 0) {
-          const mostRecentCandle = response.data[response.data.length - 1];
-          
-          const candle: HyperliquidCandle = {
-            t: parseInt(mostRecentCandle.t),
-            T: parseInt(mostRecentCandle.T),
-            s: mostRecentCandle.s,
-            i: mostRecentCandle.i,
-            o: mostRecentCandle.o,
-            c: mostRecentCandle.c,
-            h: mostRecentCandle.h,
-            l: mostRecentCandle.l,
-            v: mostRecentCandle.v,
-            n: mostRecentCandle.n,
-          };
+  /**
+   * Listen for the backfill queue draining with no subscriptions pending
+   * (after startup and after each reconnect repair)
+   */
+  onHistoryReady(listener: () => void): void {
+    this.historyReadyListeners.push(listener);
+  }
 
-          await this.processCandle(candle, true);
-        }
-      } catch (err: any) {
-        if (err?.response?.status === 429) {
-          warn("CandleStreamer", `Rate limit hit for ${coin}, will retry later`);
-          // Re-queue the coin for later
-          this.restApiQueue.push(coin);
-          // Wait longer before continuing
-          await new Promise((resolve) => setTimeout(resolve, 2000));
-        } else {
-          logError("CandleStreamer", `Error fetching candle for ${coin}`, err);
-        }
+  private emitCandleClosed(coin: string, interval: CandleInterval, candle: ProcessedCandle): void {
+    for (const listener of this.candleClosedListeners) {
+      try {
+        listener(coin, interval, candle);
+      } catch (err) {
+        logError("CandleStreamer", `Candle closed listener failed for ${coin} ${interval}`, err);
       }
-
-      // Rate limiting delay
-      await new Promise((resolve) => setTimeout(resolve, this.REST_API_DELAY));
     }
-
-    this.isProcessingRestApi = false;
-    info("CandleStreamer", `REST API queue processed. Fetched snapshots for initial data.`);
   }
 
   /**
    * Set the list of all available coins and subscribe to all of them
    */
   setAvailableCoins(coins: string[]): void {
+    const initial = this.allAvailableCoins.length === 0;
     this.allAvailableCoins = coins;
     info("CandleStreamer", `Updated available coins list: ${coins.length} total coins`);
     
     // Subscribe to ALL coins (Hyperliquid supports 1000 subscriptions per connection)
-    if (this.activeCoins.size === 0) {
+    if (initial) {
       info("CandleStreamer", `Initial subscription - will subscribe to all ${coins.length} coins`);
       this.subscribeToAllCoins();
     }
@@ -233,48 +263,84 @@ class CandleStreamer {
   }
 
   /**
-   * Subscribe to a coin's candle updates
+   * Subscribe to a coin's candle updates for each interval (1H by default)
    */
-  async subscribe(coin: string): Promise<void> {
-    if (!this.activeCoins.has(coin)) {
-      this.activeCoins.add(coin);
-      this.subscriptionQueue.push(coin);
+  async subscribe(coin: string, intervals: readonly CandleInterval[] = [DEFAULT_INTERVAL]): Promise<void> {
+    let active = this.activeCoins.get(coin);
+    let added = false;
+
+    for (const interval of intervals) {
+      if (active?.has(interval)) continue;
+
+      if (this.subscriptionCount() >= MAX_SUBSCRIPTIONS) {
+        warn("CandleStreamer", `Subscription limit (${MAX_SUBSCRIPTIONS}) reached, skipping ${coin} ${interval}`);
+        break;
+      }
+      if (!active) {
+        active = new Set();
+        this.activeCoins.set(coin, active);
+      }
+      active.add(interval);
+      this.subscriptionQueue.push({ coin, interval });
+      added = true;
+    }
+
+    if (added) {
       this.processSubscriptionQueue();
     }
   }
 
+  /**
+   * Subscribe several coins to extra intervals (coins keep their other intervals)
+   */
+  async subscribeIntervals(coins: string[], intervals: readonly CandleInterval[]): Promise<void> {
+    const before = this.subscriptionCount();
+    for (const coin of coins) {
+      await this.subscribe(coin, intervals);
+    }
+    const added = this.subscriptionCount() - before;
+    if (added > 0) {
+      info("CandleStreamer", `Queued ${added} ${intervals.join("/")} streams for ${coins.length} coins`);
+    }
+  }
+
   /**
    * Process subscription queue with rate limiting
    */
   private async processSubscriptionQueue(): Promise<void> {
-    if (this.isSubscribing || this.subscriptionQueue.length === 0 || !this.ws) {
+    if (this.isSubscribing || this.subscriptionQueue.length === 0 || !this.supervisor.isConnected()) {
       return;
     }
 
     this.isSubscribing = true;
     console.log(`\n📡 Processing ${this.subscriptionQueue.length} subscription requests...`);
-    info("CandleStreamer", `Processing subscription queue (${this.subscriptionQueue.length} coins)`);
+    info("CandleStreamer", `Processing subscription queue (${this.subscriptionQueue.length} streams)`);
 
     while (this.subscriptionQueue.length > 0) {
-      const coin = this.subscriptionQueue.shift();
-      if (coin) {
+      const next = this.subscriptionQueue.shift();
+      if (next) {
+        const { coin, interval } = next;
         try {
           const subscription = {
             method: "subscribe",
             subscription: {
               type: "candle",
               coin: coin,
-              interval: CANDLE_INTERVAL,
+              interval: interval,
             },
           };
-          this.ws?.send(JSON.stringify(subscription));
-          console.log(`   → Subscribing to ${coin}...`);
-          info("CandleStreamer", `Subscribed to ${coin} ${CANDLE_INTERVAL} candles`);
+          if (!this.supervisor.send(subscription)) {
+            // Disconnected: the reconnect handler resubscribes every active stream
+            warn("CandleStreamer", `Socket closed while subscribing, ${this.subscriptionQueue.length + 1} streams left for reconnect`);
+            break;
+          }
+          console.log(`   → Subscribing to ${coin} ${interval}...`);
+          info("CandleStreamer", `Subscribed to ${coin} ${interval} candles`);
           
-          // Queue the REST API fetch (rate-limited)
-          this.queueRestApiFetch(coin);
+          // Load the lookback for this interval (rate-limited)
+          this.queueBackfill([coin], "startup", interval);
         } catch (err) {
-          logError("CandleStreamer", `Error subscribing to ${coin}`, err);
+          logError("CandleStreamer", `Error subscribing to ${coin} ${interval}`, err);
         }
       }
 
@@ -282,43 +348,55 @@ class CandleStreamer {
     }
 
     this.isSubscribing = false;
-    console.log(`\n✅ Subscription requests sent. Requested: ${this.activeCoins.size}, Confirmed: ${this.subscribedCoins.size}`);
-    info("CandleStreamer", `Subscription queue processed. Requested: ${this.activeCoins.size}, Confirmed: ${this.subscribedCoins.size}`);
+    const requested = this.subscriptionCount();
+    console.log(`\n✅ Subscription requests sent. Requested: ${requested}, Confirmed: ${this.confirmedSubscriptions.size}`);
+    info("CandleStreamer", `Subscription queue processed. Requested: ${requested}, Confirmed: ${this.confirmedSubscriptions.size}`);
     
-    // Log any coins that were requested but not confirmed
+    // Log any streams that were requested but not confirmed
     setTimeout(() => {
-      const unconfirmed = Array.from(this.activeCoins).filter(coin => !this.subscribedCoins.has(coin));
+      const unconfirmed = this.allSubscriptions()
+        .map(({ coin, interval }) => subscriptionKey(coin, interval))
+        .filter(key => !this.confirmedSubscriptions.has(key));
       if (unconfirmed.length > 0) {
         warn("CandleStreamer", `${unconfirmed.length} subscriptions not confirmed yet: ${unconfirmed.slice(0, 5).join(', ')}${unconfirmed.length > 5 ? '...' : ''}`);
         console.log(`⚠️  ${unconfirmed.length} subscriptions not confirmed yet`);
       } else {
-        console.log(`✅ All ${this.activeCoins.size} subscriptions confirmed!\n`);
+        console.log(`✅ All ${this.subscriptionCount()} subscriptions confirmed!\n`);
       }
     }, 5000); // Wait 5 seconds for confirmations
   }
 
   /**
-   * Unsubscribe from a coin's candles
+   * Unsubscribe from a coin's candles (every interval unless given)
    */
-  async unsubscribe(coin: string): Promise<void> {
-    if (!this.ws) {
+  async unsubscribe(coin: string, intervals?: readonly CandleInterval[]): Promise<void> {
+    const active = this.activeCoins.get(coin);
+    if (!active) {
       return;
     }
 
-    info("CandleStreamer", `Unsubscribing from ${coin}`);
-    const unsubscription = {
-      method: "unsubscribe",
-      subscription: {
-        type: "candle",
-        coin: coin,
-        interval: CANDLE_INTERVAL,
-      },
-    };
+    const targets = intervals ? intervals.filter((interval) => active.has(interval)) : Array.from(active);
+    info("CandleStreamer", `Unsubscribing from ${coin} ${targets.join(", ")}`);
+    for (const interval of targets) {
+      const unsubscription = {
+        method: "unsubscribe",
+        subscription: {
+          type: "candle",
+          coin: coin,
+          interval: interval,
+        },
+      };
+
+      this.supervisor.send(unsubscription);
+      active.delete(interval);
+      this.confirmedSubscriptions.delete(subscriptionKey(coin, interval));
+    }
+    this.subscriptionQueue = this.subscriptionQueue.filter((s) => s.coin !== coin || active.has(s.interval));
 
-    this.ws.send(JSON.stringify(unsubscription));
-    this.activeCoins.delete(coin);
-    this.subscribedCoins.delete(coin);
-    info("CandleStreamer", `Unsubscribed from ${coin}. Remaining: ${this.activeCoins.size}`);
+    if (active.size === 0) {
+      this.activeCoins.delete(coin);
+    }
+    info("CandleStreamer", `Unsubscribed from ${coin}. Remaining: ${this.activeCoins.size} coins, ${this.subscriptionCount()} streams`);
   }
 
   /**
@@ -329,6 +407,8 @@ class CandleStreamer {
       const message = JSON.parse(data.toString()) as HyperliquidWSMessage;
 
       if (message.channel === "candle" && message.data) {
+        this.supervisor.markActivity();
+
         // Candle data can come as a single object or an array
         const candleData = message.data as unknown;
         const candles = Array.isArray(candleData) ? candleData : [candleData];
@@ -340,8 +420,9 @@ class CandleStreamer {
         const data = message.data as any;
         if (data?.method === "subscribe") {
           const coin = data.subscription?.coin || 'unknown';
-          this.subscribedCoins.add(coin);
-          info("CandleStreamer", `✓ Subscription confirmed: ${coin} ${CANDLE_INTERVAL} (${this.subscribedCoins.size}/${this.activeCoins.size})`);
+          const interval = data.subscription?.interval || DEFAULT_INTERVAL;
+          this.confirmedSubscriptions.add(subscriptionKey(coin, interval));
+          info("CandleStreamer", `✓ Subscription confirmed: ${coin} ${interval} (${this.confirmedSubscriptions.size}/${this.subscriptionCount()})`);
         }
       } else if (message.channel === "error") {
         // Log error details with full message
@@ -363,45 +444,35 @@ class CandleStreamer {
   /**
    * Process and store candle data
    */
-  private async processCandle(candle: HyperliquidCandle, isSnapshot: boolean = false): Promise<void> {
+  private async processCandle(candle: HyperliquidCandle): Promise<void> {
     try {
       const coin = candle.s;
+      const interval = candle.i;
 
-      if (!this.activeCoins.has(coin)) {
+      if (!isCandleInterval(interval) || !this.activeCoins.get(coin)?.has(interval)) {
         return;
       }
 
-      const processed: ProcessedCandle = {
-        coin,
-        timestamp: candle.T, // Use close time as primary timestamp
-        openTime: candle.t,
-        closeTime: candle.T,
-        open: parseFloat(candle.o),
-        close: parseFloat(candle.c),
-        high: parseFloat(candle.h),
-        low: parseFloat(candle.l),
-        volume: parseFloat(candle.v),
-        numTrades: candle.n,
-        interval: candle.i,
-      };
-
-      // Store in Redis
-      const key = `candles:1h:${coin}`;
-      const candleJson = JSON.stringify(processed);
+      const processed = toProcessedCandle(candle);
 
-      await redis.lpush(key, candleJson);
-      await redis.ltrim(key, 0, MAX_CANDLES_STORED - 1);
+      // Upsert by open time: live updates replace the forming candle
+      const { state, closed } = await upsertCandle(processed);
+      if (closed) {
+        this.emitCandleClosed(coin, interval, closed);
+      }
 
       const candleTime = new Date(processed.closeTime);
       const timeStr = candleTime.toLocaleTimeString();
-      const now = Date.now();
-      const isCompletedCandle = processed.closeTime < now; // Candle is from a completed hour
+      const isCompletedCandle = state === "closed"; // Candle is from a completed interval
       
-      if (isSnapshot) {
-        info(
-          "CandleStreamer",
-          `[1H] 📸 Snapshot stored ${coin} @ ${timeStr}: close=${processed.close.toFixed(4)} vol=${processed.volume.toFixed(0)} trades=${processed.numTrades}`
-        );
+      if (interval !== DEFAULT_INTERVAL) {
+        // Intraday intervals update constantly; only completed bars are worth a line
+        if (isCompletedCandle) {
+          info(
+            "CandleStreamer",
+            `[${interval.toUpperCase()}] ✅ Completed candle ${coin} @ ${timeStr}: close=${processed.close.toFixed(4)} vol=${processed.volume.toFixed(0)}`
+          );
+        }
       } else if (isCompletedCandle) {
         // This is a completed candle from a previous hour - this is what we want!
         console.log(`\n✅ [${timeStr}] COMPLETED CANDLE: ${coin} | Close: ${processed.close.toFixed(4)} | Vol: ${processed.volume.toFixed(0)} | Trades: ${processed.numTrades}`);
@@ -423,20 +494,17 @@ class CandleStreamer {
   }
 
   /**
-   * Get recent candles for a coin
+   * Get recent candles for a coin, newest first, including the forming one
    */
-  async getCandles(coin: string, limit: number = 20): Promise<ProcessedCandle[]> {
-    try {
-      const key = `candles:1h:${coin}`;
-      const candleJsons = await redis.lrange(key, 0, limit - 1);
+  async getCandles(coin: string, limit: number = 20, interval: CandleInterval = DEFAULT_INTERVAL): Promise<ProcessedCandle[]> {
+    return getRecentCandles(coin, limit, interval);
+  }
 
-      return candleJsons
-        .filter((json) => json)
-        .map((json) => JSON.parse(json as string) as ProcessedCandle);
-    } catch (err) {
-      logError("CandleStreamer", `Error retrieving candles for ${coin}`, err);
-      return [];
-    }
+  /**
+   * Get completed candles for a coin, newest first, one per interval
+   */
+  async getClosedCandles(coin: string, limit: number = 20, interval: CandleInterval = DEFAULT_INTERVAL): Promise<ProcessedCandle[]> {
+    return getClosedCandles(coin, limit, interval);
   }
 
   /**
@@ -451,51 +519,65 @@ class CandleStreamer {
    * Close WebSocket connection
    */
   close(): void {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
-    }
-
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
+    this.supervisor.stop();
 
     this.activeCoins.clear();
-    this.subscribedCoins.clear();
+    this.confirmedSubscriptions.clear();
     this.subscriptionQueue = [];
+    this.backfillQueue.clear();
   }
 
   /**
    * Get active coins (subscribed)
    */
   getActiveCoins(): string[] {
-    return Array.from(this.activeCoins);
+    return Array.from(this.activeCoins.keys());
+  }
+
+  /**
+   * Get the intervals streamed for a coin
+   */
+  getIntervals(coin: string): CandleInterval[] {
+    const active = this.activeCoins.get(coin);
+    return active ? CANDLE_INTERVALS.filter((interval) => active.has(interval)) : [];
   }
 
   /**
-   * Get confirmed subscriptions
+   * Get coins with at least one confirmed subscription
    */
   getSubscribedCoins(): string[] {
-    return Array.from(this.subscribedCoins);
+    const coins = new Set<string>();
+    for (const key of this.confirmedSubscriptions) {
+      coins.add(key.slice(0, key.lastIndexOf(":")));
+    }
+    return Array.from(coins);
   }
 
   /**
-   * Get subscription stats
+   * Get subscription stats (streams count coin/interval pairs)
    */
-  getSubscriptionStats(): { total: number, subscribed: number, confirmed: number } {
+  getSubscriptionStats(): { total: number, subscribed: number, confirmed: number, streams: number, confirmedStreams: number } {
     return {
       total: this.allAvailableCoins.length,
       subscribed: this.activeCoins.size,
-      confirmed: this.subscribedCoins.size
+      confirmed: this.getSubscribedCoins().length,
+      streams: this.subscriptionCount(),
+      confirmedStreams: this.confirmedSubscriptions.size
     };
   }
 
+  /**
+   * Per-coin completeness from the most recent backfill run
+   */
+  getLastBackfillReport(): BackfillReport | null {
+    return this.lastBackfillReport;
+  }
+
   /**
    * Check if WebSocket is connected
    */
   isConnected(): boolean {
-    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+    return this.supervisor.isConnected();
   }
 }
 
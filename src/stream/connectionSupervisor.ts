@@ -0,0 +1,216 @@
+/**
+ * WebSocket Connection Supervisor
+ *
+ * Keeps one WebSocket connection alive for a streamer:
+ *   - reconnects forever with capped exponential backoff plus jitter
+ *   - sends ping frames and reconnects when a pong doesn't come back
+ *   - reconnects when the socket is open but no data arrived for staleAfterMs
+ *   - calls onOpen after every (re)connect so the owner can resubscribe
+ * Status changes go to streamHealth.ts (metrics, events, notifications).
+ */
+
+import WebSocket from "ws";
+import { info, warn, error as logError } from "../utils/logger.js";
+import { recordStreamActivity, recordStreamHealth } from "./streamHealth.js";
+
+const WATCHDOG_INTERVAL_MS = 30 * 1000;
+
+export interface ConnectionSupervisorOptions {
+  component: string; // Health event name, e.g. "candleStreamer"
+  logModule?: string; // Logger module, defaults to component
+  url: string;
+  onOpen: (reconnect: boolean) => void;
+  onMessage: (data: WebSocket.Data) => void;
+  staleAfterMs?: number; // 0 disables the watchdog
+  heartbeatIntervalMs?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+/**
+ * Backoff for a reconnect attempt: exponential, capped, with the upper half
+ * jittered so many clients don't reconnect in lockstep
+ */
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const capped = Math.min(baseDelayMs * Math.pow(2, attempt), maxDelayMs);
+  return Math.round(capped / 2 + Math.random() * (capped / 2));
+}
+
+export class ConnectionSupervisor {
+  private ws: WebSocket | null = null;
+  private stopped = true;
+  private hasConnected = false;
+  private attempts = 0;
+  private awaitingPong = false;
+  private lastActivityAt = 0;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private watchdogTimer: NodeJS.Timeout | null = null;
+  private readonly options: Required<ConnectionSupervisorOptions>;
+
+  constructor(options: ConnectionSupervisorOptions) {
+    this.options = {
+      staleAfterMs: 5 * 60 * 1000,
+      heartbeatIntervalMs: 30 * 1000,
+      baseDelayMs: 1000,
+      maxDelayMs: 60 * 1000,
+      logModule: options.component,
+      ...options,
+    };
+  }
+
+  /**
+   * Open the connection. Resolves on the first open and rejects if the first
+   * attempt fails; either way the supervisor keeps reconnecting until stop().
+   */
+  start(): Promise<void> {
+    this.stopped = false;
+    return new Promise((resolve, reject) => {
+      this.open(resolve, reject);
+    });
+  }
+
+  private open(onFirstOpen?: () => void, onFirstError?: (err: Error) => void): void {
+    const { component, logModule, url } = this.options;
+    info(logModule, `Connecting to ${url}${this.attempts > 0 ? ` (attempt ${this.attempts})` : ""}`);
+
+    const ws = new WebSocket(url);
+    this.ws = ws;
+
+    ws.on("open", () => {
+      const reconnect = this.hasConnected;
+      this.hasConnected = true;
+      this.attempts = 0;
+      this.awaitingPong = false;
+      this.lastActivityAt = Date.now();
+      this.startTimers();
+
+      info(logModule, reconnect ? "WebSocket reconnected" : "WebSocket connected successfully");
+      recordStreamHealth(component, "connected");
+      this.options.onOpen(reconnect);
+      onFirstOpen?.();
+    });
+
+    ws.on("message", (data: WebSocket.Data) => {
+      this.options.onMessage(data);
+    });
+
+    ws.on("pong", () => {
+      this.awaitingPong = false;
+    });
+
+    ws.on("error", (err: Error) => {
+      logError(logModule, "WebSocket error", err);
+      onFirstError?.(err);
+    });
+
+    ws.on("close", (code: number) => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.stopTimers();
+      if (this.stopped) return;
+
+      warn(logModule, `WebSocket closed (code ${code}), reconnecting...`);
+      recordStreamHealth(component, "disconnected", `Socket closed (code ${code})`, this.attempts);
+      this.scheduleReconnect();
+    });
+  }
+
+  private scheduleReconnect(): void {
+    const { component, logModule, baseDelayMs, maxDelayMs } = this.options;
+    const delay = backoffDelay(this.attempts, baseDelayMs, maxDelayMs);
+    this.attempts++;
+
+    info(logModule, `Reconnecting in ${delay}ms (attempt ${this.attempts})`);
+    recordStreamHealth(component, "reconnecting", `Attempt ${this.attempts} in ${(delay / 1000).toFixed(1)}s`, this.attempts);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (!this.stopped) {
+        this.open();
+      }
+    }, delay);
+  }
+
+  private startTimers(): void {
+    this.stopTimers();
+    const { heartbeatIntervalMs, staleAfterMs } = this.options;
+
+    this.heartbeatTimer = setInterval(() => {
+      if (this.awaitingPong) {
+        this.forceReconnect(`No pong within ${heartbeatIntervalMs / 1000}s`);
+        return;
+      }
+      this.awaitingPong = true;
+      this.ws?.ping();
+    }, heartbeatIntervalMs);
+
+    if (staleAfterMs > 0) {
+      this.watchdogTimer = setInterval(() => {
+        const silentFor = Date.now() - this.lastActivityAt;
+        if (silentFor > staleAfterMs) {
+          this.forceReconnect(`No data for ${Math.round(silentFor / 60000)} min`);
+        }
+      }, Math.min(WATCHDOG_INTERVAL_MS, staleAfterMs));
+    }
+  }
+
+  private stopTimers(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.watchdogTimer) {
+      clearInterval(this.watchdogTimer);
+      this.watchdogTimer = null;
+    }
+  }
+
+  /**
+   * Drop a live-but-silent socket; the close handler reconnects
+   */
+  private forceReconnect(reason: string): void {
+    const { component, logModule } = this.options;
+    warn(logModule, `Stream stale: ${reason}, forcing reconnect`);
+    recordStreamHealth(component, "stale", reason);
+    this.stopTimers();
+    this.ws?.terminate();
+  }
+
+  /**
+   * Reset the stale watchdog; call when the data the stream exists for arrives
+   */
+  markActivity(): void {
+    this.lastActivityAt = Date.now();
+    recordStreamActivity(this.options.component, this.lastActivityAt);
+  }
+
+  /**
+   * Send a JSON payload (false when the socket is not open)
+   */
+  send(payload: unknown): boolean {
+    if (!this.isConnected()) {
+      return false;
+    }
+    this.ws!.send(JSON.stringify(payload));
+    return true;
+  }
+
+  isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  stop(): void {
+    this.stopped = true;
+    this.stopTimers();
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      const ws = this.ws;
+      this.ws = null;
+      ws.close();
+    }
+  }
+}
@@ -0,0 +1,360 @@
+import WebSocket from "ws";
+import redis from "../utils/redisClient.js";
+import type { HyperliquidWSMessage, L2Book, OrderbookCandle, OrderbookLevel } from "../utils/types.js";
+import { info, warn, error as logError } from "../utils/logger.js";
+import { ConnectionSupervisor } from "./connectionSupervisor.js";
+
+/**
+ * Hyperliquid L2 Orderbook Streamer
+ * Subscribes to l2Book snapshots and aggregates them into 1-minute orderbook candles
+ */
+
+const HYPERLIQUID_WS_URL = "wss://api.hyperliquid.xyz/ws";
+const CANDLE_WINDOW_MS = 60 * 1000;
+const DEPTH_LEVELS = 10; // Book levels per side counted towards bid/ask size
+const MAX_CANDLES_STORED = 120; // Keep last 120 minutes of orderbook candles
+// Book snapshots arrive every second or so per coin
+const STALE_AFTER_MS = parseInt(process.env.ORDERBOOK_STALE_MINUTES || "2", 10) * 60 * 1000;
+
+/**
+ * In-progress 1-minute bucket for a coin
+ */
+interface OrderbookBucket {
+  windowStart: number;
+  samples: number;
+  sumMidPrice: number;
+  sumSpread: number;
+  sumBidSize: number;
+  sumAskSize: number;
+}
+
+export type OrderbookCandleHandler = (candle: OrderbookCandle) => Promise<void> | void;
+
+/**
+ * Sum size across the top levels of one side of the book
+ */
+function sumDepth(levels: OrderbookLevel[]): number {
+  let total = 0;
+  for (const level of levels.slice(0, DEPTH_LEVELS)) {
+    const size = parseFloat(level.sz);
+    if (Number.isFinite(size)) {
+      total += size;
+    }
+  }
+  return total;
+}
+
+class OrderbookStreamer {
+  private activeCoins: Set<string> = new Set();
+  private subscribedCoins: Set<string> = new Set();
+  private subscriptionQueue: string[] = [];
+  private isSubscribing = false;
+  private readonly BATCH_SUBSCRIBE_DELAY = 200; // ms between subscriptions
+  private flushTimer: NodeJS.Timeout | null = null;
+  private buckets: Map<string, OrderbookBucket> = new Map();
+  private handlers: OrderbookCandleHandler[] = [];
+  private readonly supervisor = new ConnectionSupervisor({
+    component: "orderbookStreamer",
+    logModule: "OrderbookStreamer",
+    url: HYPERLIQUID_WS_URL,
+    staleAfterMs: STALE_AFTER_MS,
+    onOpen: (reconnect) => this.handleOpen(reconnect),
+    onMessage: (data) => this.handleMessage(data),
+  });
+
+  async connect(): Promise<void> {
+    info("OrderbookStreamer", "Connecting to Hyperliquid WebSocket (l2Book)...");
+    await this.supervisor.start();
+  }
+
+  /**
+   * Start flushing on the first open; after a reconnect resend every subscription
+   */
+  private handleOpen(reconnect: boolean): void {
+    this.startFlushTimer();
+    if (!reconnect) {
+      return;
+    }
+
+    const coins = Array.from(this.activeCoins);
+    this.subscribedCoins.clear();
+    this.subscriptionQueue = coins;
+    info("OrderbookStreamer", `Resubscribing to ${coins.length} coins after reconnect`);
+    void this.processSubscriptionQueue();
+  }
+
+  /**
+   * Register a handler called whenever a 1-minute orderbook candle closes
+   */
+  onCandle(handler: OrderbookCandleHandler): void {
+    this.handlers.push(handler);
+  }
+
+  /**
+   * Subscribe to every coin in the list that is not already active
+   */
+  async setCoins(coins: string[]): Promise<void> {
+    for (const coin of coins) {
+      await this.subscribe(coin);
+    }
+  }
+
+  /**
+   * Subscribe to a coin's l2Book updates
+   */
+  async subscribe(coin: string): Promise<void> {
+    if (!this.activeCoins.has(coin)) {
+      this.activeCoins.add(coin);
+      this.subscriptionQueue.push(coin);
+      this.processSubscriptionQueue();
+    }
+  }
+
+  /**
+   * Process subscription queue with rate limiting
+   */
+  private async processSubscriptionQueue(): Promise<void> {
+    if (this.isSubscribing || this.subscriptionQueue.length === 0 || !this.supervisor.isConnected()) {
+      return;
+    }
+
+    this.isSubscribing = true;
+    info("OrderbookStreamer", `Processing subscription queue (${this.subscriptionQueue.length} coins)`);
+
+    while (this.subscriptionQueue.length > 0) {
+      const coin = this.subscriptionQueue.shift();
+      if (coin) {
+        try {
+          const subscription = {
+            method: "subscribe",
+            subscription: {
+              type: "l2Book",
+              coin: coin,
+            },
+          };
+          if (!this.supervisor.send(subscription)) {
+            // Disconnected: the reconnect handler resubscribes every active coin
+            warn("OrderbookStreamer", `Socket closed while subscribing, ${this.subscriptionQueue.length + 1} coins left for reconnect`);
+            break;
+          }
+        } catch (err) {
+          logError("OrderbookStreamer", `Error subscribing to ${coin}`, err);
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.BATCH_SUBSCRIBE_DELAY));
+    }
+
+    this.isSubscribing = false;
+    info("OrderbookStreamer", `Subscription queue processed. Requested: ${this.activeCoins.size}, Confirmed: ${this.subscribedCoins.size}`);
+  }
+
+  /**
+   * Unsubscribe from a coin's l2Book
+   */
+  async unsubscribe(coin: string): Promise<void> {
+
+    const unsubscription = {
+      method: "unsubscribe",
+      subscription: {
+        type: "l2Book",
+        coin: coin,
+      },
+    };
+
+    this.supervisor.send(unsubscription);
+    this.activeCoins.delete(coin);
+    this.subscribedCoins.delete(coin);
+    this.buckets.delete(coin);
+    info("OrderbookStreamer", `Unsubscribed from ${coin}. Remaining: ${this.activeCoins.size}`);
+  }
+
+  /**
+   * Handle incoming WebSocket messages
+   */
+  private handleMessage(data: WebSocket.Data): void {
+    try {
+      const message = JSON.parse(data.toString()) as HyperliquidWSMessage;
+
+      if (message.channel === "l2Book" && message.data) {
+        this.supervisor.markActivity();
+        this.processBook(message.data as unknown as L2Book);
+      } else if (message.channel === "subscriptionResponse") {
+        const data = message.data as any;
+        if (data?.method === "subscribe") {
+          const coin = data.subscription?.coin || "unknown";
+          this.subscribedCoins.add(coin);
+        }
+      } else if (message.channel === "error") {
+        logError("OrderbookStreamer", "WebSocket error response", message.data);
+      }
+    } catch (err) {
+      logError("OrderbookStreamer", "Error processing message", err);
+    }
+  }
+
+  /**
+   * Fold an l2Book snapshot into the coin's current 1-minute bucket
+   */
+  private processBook(book: L2Book): void {
+    const coin = book.coin;
+    if (!this.activeCoins.has(coin) || !Array.isArray(book.levels)) {
+      return;
+    }
+
+    const [bids, asks] = book.levels;
+    const bestBid = bids?.[0] ? parseFloat(bids[0].px) : NaN;
+    const bestAsk = asks?.[0] ? parseFloat(asks[0].px) : NaN;
+
+    if (!Number.isFinite(bestBid) || !Number.isFinite(bestAsk) || bestBid <= 0 || bestAsk <= 0) {
+      return;
+    }
+
+    const midPrice = (bestBid + bestAsk) / 2;
+    const spread = (bestAsk - bestBid) / midPrice;
+    const windowStart = Math.floor(book.time / CANDLE_WINDOW_MS) * CANDLE_WINDOW_MS;
+
+    const current = this.buckets.get(coin);
+
+    // Out-of-order snapshot for an already closed window
+    if (current && current.windowStart > windowStart) {
+      return;
+    }
+
+    if (current && current.windowStart < windowStart) {
+      void this.closeBucket(coin, current);
+    }
+
+    const bucket =
+      current && current.windowStart === windowStart
+        ? current
+        : {
+            windowStart,
+            samples: 0,
+            sumMidPrice: 0,
+            sumSpread: 0,
+            sumBidSize: 0,
+            sumAskSize: 0,
+          };
+
+    bucket.samples++;
+    bucket.sumMidPrice += midPrice;
+    bucket.sumSpread += spread;
+    bucket.sumBidSize += sumDepth(bids ?? []);
+    bucket.sumAskSize += sumDepth(asks ?? []);
+
+    this.buckets.set(coin, bucket);
+  }
+
+  /**
+   * Close buckets whose minute has elapsed even if no new snapshot arrived
+   */
+  private startFlushTimer(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => {
+      const currentWindow = Math.floor(Date.now() / CANDLE_WINDOW_MS) * CANDLE_WINDOW_MS;
+      for (const [coin, bucket] of this.buckets) {
+        if (bucket.windowStart < currentWindow) {
+          this.buckets.delete(coin);
+          void this.closeBucket(coin, bucket);
+        }
+      }
+    }, 5000);
+  }
+
+  /**
+   * Finalize a bucket into an OrderbookCandle, store it and notify handlers
+   */
+  private async closeBucket(coin: string, bucket: OrderbookBucket): Promise<void> {
+    if (bucket.samples === 0) {
+      return;
+    }
+
+    const avgBidSize = bucket.sumBidSize / bucket.samples;
+    const avgAskSize = bucket.sumAskSize / bucket.samples;
+    const totalSize = avgBidSize + avgAskSize;
+
+    const candle: OrderbookCandle = {
+      coin,
+      timestamp: bucket.windowStart + CANDLE_WINDOW_MS,
+      avgMidPrice: bucket.sumMidPrice / bucket.samples,
+      avgSpread: bucket.sumSpread / bucket.samples,
+      totalBidSize: avgBidSize,
+      totalAskSize: avgAskSize,
+      bidAskImbalance: totalSize > 0 ? avgBidSize / totalSize : 0.5,
+    };
+
+    try {
+      const key = `orderbook:1m:${coin}`;
+      await redis.lpush(key, JSON.stringify(candle));
+      await redis.ltrim(key, 0, MAX_CANDLES_STORED - 1);
+    } catch (err) {
+      logError("OrderbookStreamer", `Error storing orderbook candle for ${coin}`, err);
+      return;
+    }
+
+    for (const handler of this.handlers) {
+      try {
+        await handler(candle);
+      } catch (err) {
+        logError("OrderbookStreamer", `Candle handler failed for ${coin}`, err);
+      }
+    }
+  }
+
+  /**
+   * Get recent orderbook candles for a coin (most recent first)
+   */
+  async getCandles(coin: string, limit: number = 20): Promise<OrderbookCandle[]> {
+    try {
+      const key = `orderbook:1m:${coin}`;
+      const candleJsons = await redis.lrange(key, 0, limit - 1);
+
+      return candleJsons
+        .filter((json) => json)
+        .map((json) => JSON.parse(json) as OrderbookCandle);
+    } catch (err) {
+      logError("OrderbookStreamer", `Error retrieving orderbook candles for ${coin}`, err);
+      return [];
+    }
+  }
+
+  /**
+   * Close WebSocket connection
+   */
+  close(): void {
+    this.supervisor.stop();
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.activeCoins.clear();
+    this.subscribedCoins.clear();
+    this.subscriptionQueue = [];
+    this.buckets.clear();
+  }
+
+  /**
+   * Get subscription stats
+   */
+  getSubscriptionStats(): { subscribed: number, confirmed: number } {
+    return {
+      subscribed: this.activeCoins.size,
+      confirmed: this.subscribedCoins.size,
+    };
+  }
+
+  /**
+   * Check if WebSocket is connected
+   */
+  isConnected(): boolean {
+    return this.supervisor.isConnected();
+  }
+}
+
+export default new OrderbookStreamer();
@@ -0,0 +1,107 @@
+/**
+ * Stream Health
+ *
+ * Per-component connection metrics for the WebSocket streams, fed by the
+ * connection supervisor. Every status change is published on the signal
+ * event channel and passed to local listeners (index.ts routes the ones
+ * worth a message to the notification channels).
+ */
+
+import { publishHealth, type HealthStatus } from "../utils/signalEvents.js";
+
+export interface StreamHealthMetrics {
+  component: string;
+  status: HealthStatus;
+  since: number; // When the current status started
+  connects: number;
+  disconnects: number;
+  staleReconnects: number;
+  reconnectAttempt: number; // Consecutive failed attempts, 0 while connected
+  lastMessageAt: number | null;
+  lastDowntimeMs: number | null; // Length of the last outage, set on reconnect
+  message?: string;
+}
+
+export type StreamHealthListener = (metrics: StreamHealthMetrics) => void;
+
+const metrics = new Map<string, StreamHealthMetrics>();
+const listeners: StreamHealthListener[] = [];
+
+function getOrCreate(component: string): StreamHealthMetrics {
+  const existing = metrics.get(component);
+  if (existing) return existing;
+
+  const created: StreamHealthMetrics = {
+    component,
+    status: "disconnected",
+    since: Date.now(),
+    connects: 0,
+    disconnects: 0,
+    staleReconnects: 0,
+    reconnectAttempt: 0,
+    lastMessageAt: null,
+    lastDowntimeMs: null,
+  };
+  metrics.set(component, created);
+  return created;
+}
+
+/**
+ * Record a status change, publish it and notify listeners
+ */
+export function recordStreamHealth(
+  component: string,
+  status: HealthStatus,
+  message?: string,
+  reconnectAttempt: number = 0
+): void {
+  const entry = getOrCreate(component);
+  const now = Date.now();
+
+  if (status === "connected") {
+    entry.lastDowntimeMs = entry.connects > 0 && entry.status !== "connected" ? now - entry.since : null;
+    entry.connects++;
+  } else if (status === "disconnected") {
+    entry.disconnects++;
+  } else if (status === "stale") {
+    entry.staleReconnects++;
+  }
+
+  // The outage clock keeps running from the first disconnect through every retry
+  const outageContinues = entry.status !== "connected" && status !== "connected" && entry.connects > 0;
+  if (!outageContinues) {
+    entry.since = now;
+  }
+  entry.status = status;
+  entry.reconnectAttempt = reconnectAttempt;
+  if (message !== undefined) {
+    entry.message = message;
+  } else {
+    delete entry.message;
+  }
+
+  void publishHealth(component, status, message);
+  for (const listener of listeners) {
+    listener({ ...entry });
+  }
+}
+
+/**
+ * Note that data arrived (cheap, called per message)
+ */
+export function recordStreamActivity(component: string, now: number = Date.now()): void {
+  getOrCreate(component).lastMessageAt = now;
+}
+
+export function onStreamHealth(listener: StreamHealthListener): void {
+  listeners.push(listener);
+}
+
+export function getStreamHealth(component: string): StreamHealthMetrics | null {
+  const entry = metrics.get(component);
+  return entry ? { ...entry } : null;
+}
+
+export function getAllStreamHealth(): StreamHealthMetrics[] {
+  return Array.from(metrics.values()).map((entry) => ({ ...entry }));
+}
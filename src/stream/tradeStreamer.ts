@@ -0,0 +1,340 @@
+import WebSocket from "ws";
+import redis from "../utils/redisClient.js";
+import type { HyperliquidWSMessage, TradeAggression, WsTrade } from "../utils/types.js";
+import { info, warn, error as logError } from "../utils/logger.js";
+import { ConnectionSupervisor } from "./connectionSupervisor.js";
+
+/**
+ * Hyperliquid Trade-Flow Streamer
+ * Subscribes to the trades channel and tracks rolling aggressor volume per coin
+ */
+
+const HYPERLIQUID_WS_URL = "wss://api.hyperliquid.xyz/ws";
+const BUCKET_MS = 60 * 1000; // Aggressor volume is bucketed per minute
+const FLUSH_INTERVAL_MS = 5000;
+const FLOW_TTL_SECONDS = 2 * 60 * 60; // Keep 2 hours of minute buckets
+// Trades across all coins arrive every second, so minutes of silence mean a dead stream
+const STALE_AFTER_MS = parseInt(process.env.TRADE_STALE_MINUTES || "5", 10) * 60 * 1000;
+
+export type TradeWindow = "1m" | "5m" | "1h";
+
+export const TRADE_WINDOWS_MS: Record<TradeWindow, number> = {
+  "1m": 60 * 1000,
+  "5m": 5 * 60 * 1000,
+  "1h": 60 * 60 * 1000,
+};
+
+/**
+ * Pending notional per side for one coin/minute, not yet flushed to Redis
+ */
+interface PendingBucket {
+  buy: number;
+  sell: number;
+}
+
+class TradeStreamer {
+  private activeCoins: Set<string> = new Set();
+  private subscribedCoins: Set<string> = new Set();
+  private subscriptionQueue: string[] = [];
+  private isSubscribing = false;
+  private readonly BATCH_SUBSCRIBE_DELAY = 200; // ms between subscriptions
+  private flushTimer: NodeJS.Timeout | null = null;
+  private pending: Map<string, Map<number, PendingBucket>> = new Map();
+  private readonly supervisor = new ConnectionSupervisor({
+    component: "tradeStreamer",
+    logModule: "TradeStreamer",
+    url: HYPERLIQUID_WS_URL,
+    staleAfterMs: STALE_AFTER_MS,
+    onOpen: (reconnect) => this.handleOpen(reconnect),
+    onMessage: (data) => this.handleMessage(data),
+  });
+
+  async connect(): Promise<void> {
+    info("TradeStreamer", "Connecting to Hyperliquid WebSocket (trades)...");
+    await this.supervisor.start();
+  }
+
+  /**
+   * Start flushing on the first open; after a reconnect resend every subscription
+   */
+  private handleOpen(reconnect: boolean): void {
+    this.startFlushTimer();
+    if (!reconnect) {
+      return;
+    }
+
+    const coins = Array.from(this.activeCoins);
+    this.subscribedCoins.clear();
+    this.subscriptionQueue = coins;
+    info("TradeStreamer", `Resubscribing to ${coins.length} coins after reconnect`);
+    void this.processSubscriptionQueue();
+  }
+
+  /**
+   * Subscribe to every coin in the list that is not already active
+   */
+  async setCoins(coins: string[]): Promise<void> {
+    for (const coin of coins) {
+      await this.subscribe(coin);
+    }
+  }
+
+  /**
+   * Subscribe to a coin's trades
+   */
+  async subscribe(coin: string): Promise<void> {
+    if (!this.activeCoins.has(coin)) {
+      this.activeCoins.add(coin);
+      this.subscriptionQueue.push(coin);
+      this.processSubscriptionQueue();
+    }
+  }
+
+  /**
+   * Process subscription queue with rate limiting
+   */
+  private async processSubscriptionQueue(): Promise<void> {
+    if (this.isSubscribing || this.subscriptionQueue.length === 0 || !this.supervisor.isConnected()) {
+      return;
+    }
+
+    this.isSubscribing = true;
+    info("TradeStreamer", `Processing subscription queue (${this.subscriptionQueue.length} coins)`);
+
+    while (this.subscriptionQueue.length > 0) {
+      const coin = this.subscriptionQueue.shift();
+      if (coin) {
+        try {
+          const subscription = {
+            method: "subscribe",
+            subscription: {
+              type: "trades",
+              coin: coin,
+            },
+          };
+          if (!this.supervisor.send(subscription)) {
+            // Disconnected: the reconnect handler resubscribes every active coin
+            warn("TradeStreamer", `Socket closed while subscribing, ${this.subscriptionQueue.length + 1} coins left for reconnect`);
+            break;
+          }
+        } catch (err) {
+          logError("TradeStreamer", `Error subscribing to ${coin}`, err);
+        }
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, this.BATCH_SUBSCRIBE_DELAY));
+    }
+
+    this.isSubscribing = false;
+    info("TradeStreamer", `Subscription queue processed. Requested: ${this.activeCoins.size}, Confirmed: ${this.subscribedCoins.size}`);
+  }
+
+  /**
+   * Handle incoming WebSocket messages
+   */
+  private handleMessage(data: WebSocket.Data): void {
+    try {
+      const message = JSON.parse(data.toString()) as HyperliquidWSMessage;
+
+      if (message.channel === "trades" && message.data) {
+        this.supervisor.markActivity();
+
+        const tradeData = message.data as unknown;
+        const trades = Array.isArray(tradeData) ? tradeData : [tradeData];
+
+        for (const trade of trades) {
+          this.processTrade(trade as WsTrade);
+        }
+      } else if (message.channel === "subscriptionResponse") {
+        const data = message.data as any;
+        if (data?.method === "subscribe") {
+          const coin = data.subscription?.coin || "unknown";
+          this.subscribedCoins.add(coin);
+        }
+      } else if (message.channel === "error") {
+        logError("TradeStreamer", "WebSocket error response", message.data);
+      }
+    } catch (err) {
+      logError("TradeStreamer", "Error processing message", err);
+    }
+  }
+
+  /**
+   * Add a trade's notional to the aggressor side of its minute bucket.
+   * Side "B" means the taker bought (lifted the ask), "A" means the taker sold.
+   */
+  private processTrade(trade: WsTrade): void {
+    if (!this.activeCoins.has(trade.coin)) {
+      return;
+    }
+
+    const notional = parseFloat(trade.px) * parseFloat(trade.sz);
+    if (!Number.isFinite(notional) || notional <= 0) {
+      return;
+    }
+
+    const bucketStart = Math.floor(trade.time / BUCKET_MS) * BUCKET_MS;
+    let coinBuckets = this.pending.get(trade.coin);
+    if (!coinBuckets) {
+      coinBuckets = new Map();
+      this.pending.set(trade.coin, coinBuckets);
+    }
+
+    const bucket = coinBuckets.get(bucketStart) ?? { buy: 0, sell: 0 };
+    if (trade.side === "B") {
+      bucket.buy += notional;
+    } else if (trade.side === "A") {
+      bucket.sell += notional;
+    }
+    coinBuckets.set(bucketStart, bucket);
+  }
+
+  /**
+   * Periodically flush pending buckets to Redis
+   */
+  private startFlushTimer(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setInterval(() => {
+      void this.flush();
+    }, FLUSH_INTERVAL_MS);
+  }
+
+  /**
+   * Write pending minute buckets into trades:flow:{coin} hashes
+   */
+  private async flush(): Promise<void> {
+    if (this.pending.size === 0) {
+      return;
+    }
+
+    const pending = this.pending;
+    this.pending = new Map();
+    const cutoff = Date.now() - FLOW_TTL_SECONDS * 1000;
+
+    try {
+      const pipeline = redis.multi();
+
+      for (const [coin, buckets] of pending) {
+        const key = `trades:flow:${coin}`;
+        for (const [bucketStart, bucket] of buckets) {
+          if (bucket.buy > 0) {
+            pipeline.hincrbyfloat(key, `${bucketStart}:B`, bucket.buy);
+          }
+          if (bucket.sell > 0) {
+            pipeline.hincrbyfloat(key, `${bucketStart}:A`, bucket.sell);
+          }
+        }
+        pipeline.expire(key, FLOW_TTL_SECONDS);
+      }
+
+      await pipeline.exec();
+
+      for (const coin of pending.keys()) {
+        await this.pruneBuckets(coin, cutoff);
+      }
+    } catch (err) {
+      logError("TradeStreamer", "Error flushing trade flow", err);
+    }
+  }
+
+  /**
+   * Drop minute buckets older than the retention cutoff
+   */
+  private async pruneBuckets(coin: string, cutoff: number): Promise<void> {
+    const key = `trades:flow:${coin}`;
+    const fields = await redis.hkeys(key);
+    const stale = fields.filter((field) => parseInt(field.split(":")[0] ?? "0", 10) < cutoff);
+
+    if (stale.length > 0) {
+      await redis.hdel(key, ...stale);
+    }
+  }
+
+  /**
+   * Close WebSocket connection
+   */
+  close(): void {
+    this.supervisor.stop();
+
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    this.activeCoins.clear();
+    this.subscribedCoins.clear();
+    this.subscriptionQueue = [];
+    this.pending.clear();
+  }
+
+  /**
+   * Get subscription stats
+   */
+  getSubscriptionStats(): { subscribed: number, confirmed: number } {
+    return {
+      subscribed: this.activeCoins.size,
+      confirmed: this.subscribedCoins.size,
+    };
+  }
+
+  /**
+   * Check if WebSocket is connected
+   */
+  isConnected(): boolean {
+    return this.supervisor.isConnected();
+  }
+}
+
+/**
+ * Get rolling aggressor volume for a coin over a window.
+ * Volumes are USD notional; aggressiveBuyRatio is buy / (buy + sell),
+ * or 0.5 when no trades were seen in the window.
+ */
+export async function getTradeAggression(
+  coin: string,
+  window: TradeWindow,
+  now: number = Date.now()
+): Promise<TradeAggression> {
+  const windowStart = now - TRADE_WINDOWS_MS[window];
+  let buyVolume = 0;
+  let sellVolume = 0;
+
+  try {
+    const flow = await redis.hgetall(`trades:flow:${coin}`);
+
+    for (const [field, value] of Object.entries(flow)) {
+      const [bucketStart, side] = field.split(":");
+      // Include any minute bucket that overlaps the window
+      if (parseInt(bucketStart ?? "0", 10) + BUCKET_MS <= windowStart) {
+        continue;
+      }
+
+      const volume = parseFloat(value);
+      if (!Number.isFinite(volume)) {
+        continue;
+      }
+
+      if (side === "B") {
+        buyVolume += volume;
+      } else if (side === "A") {
+        sellVolume += volume;
+      }
+    }
+  } catch (err) {
+    logError("TradeStreamer", `Error reading trade flow for ${coin}`, err);
+  }
+
+  const total = buyVolume + sellVolume;
+
+  return {
+    buyVolume,
+    sellVolume,
+    aggressiveBuyRatio: total > 0 ? buyVolume / total : 0.5,
+    timestamp: now,
+  };
+}
+
+export default new TradeStreamer();
@@ -0,0 +1,91 @@
+/**
+ * Paper Trading Runner
+ *
+ * Inspect the paper-trading ledger from the command line:
+ *   node dist/trading/paperRunner.js status
+ *   node dist/trading/paperRunner.js summary 7
+ *   node dist/trading/paperRunner.js reset
+ */
+
+import "dotenv/config";
+import redis from "../utils/redisClient.js";
+import paperTrader, { type PaperPosition } from "./paperTrader.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function printUsage(): void {
+  console.log("\nUsage:");
+  console.log("  node dist/trading/paperRunner.js [command]");
+  console.log("\nCommands:");
+  console.log("  status        - Equity and open positions (default)");
+  console.log("  summary [N]   - Closed-trade stats for the last N days (default: 1)");
+  console.log("  reset         - Delete all paper positions and reset equity");
+}
+
+function formatPnl(value: number): string {
+  return `${value >= 0 ? "+" : "-"}$${Math.abs(value).toFixed(2)}`;
+}
+
+function printPosition(p: PaperPosition): void {
+  const pnl = p.realizedPnl ?? p.unrealizedPnl;
+  const exit = p.exitReason ? ` exit=${p.exitPrice?.toFixed(4)} (${p.exitReason})` : ` last=${p.lastPrice.toFixed(4)}`;
+  console.log(
+    `  ${p.symbol.padEnd(10)} ${p.direction.padEnd(5)} ${`${p.source}/${p.timeframe}`.padEnd(14)} ` +
+      `entry=${p.entryPrice.toFixed(4)} stop=${p.stopPrice.toFixed(4)} target=${p.targetPrice.toFixed(4)}${exit} ` +
+      `pnl=${formatPnl(pnl)}`
+  );
+}
+
+async function main(): Promise<void> {
+  const command = process.argv[2] || "status";
+  let ok = true;
+
+  try {
+    switch (command) {
+      case "status": {
+        const open = await paperTrader.getOpenPositions();
+        console.log(`\nEquity: $${(await paperTrader.getEquity()).toFixed(2)}`);
+        console.log(`Open positions: ${open.length}`);
+        open.forEach(printPosition);
+        break;
+      }
+
+      case "summary": {
+        const days = parseInt(process.argv[3] || "1", 10);
+        const now = Date.now();
+        const summary = await paperTrader.getSummary(now - days * DAY_MS, now);
+
+        console.log(`\nPaper trading, last ${days} day(s)`);
+        console.log(`  Trades:       ${summary.trades} (${summary.wins}W / ${summary.losses}L, ${summary.winRate.toFixed(1)}%)`);
+        console.log(`  Realized PnL: ${formatPnl(summary.realizedPnl)} (fees $${summary.fees.toFixed(2)})`);
+        console.log(`  Exits:        ${summary.byExitReason.target} target / ${summary.byExitReason.stop} stop / ${summary.byExitReason.time} time`);
+        console.log(`  Open:         ${summary.openPositions} (unrealized ${formatPnl(summary.unrealizedPnl)})`);
+        console.log(`  Equity:       $${summary.equity.toFixed(2)}`);
+
+        const closed = await paperTrader.getClosedPositions(now - days * DAY_MS, now);
+        if (closed.length > 0) {
+          console.log("\nClosed trades:");
+          closed.forEach(printPosition);
+        }
+        break;
+      }
+
+      case "reset":
+        await paperTrader.reset();
+        console.log("✓ Paper trading ledger reset");
+        break;
+
+      default:
+        printUsage();
+        ok = false;
+    }
+  } catch (error) {
+    console.error("\n✗ Command failed:", error);
+    ok = false;
+  }
+
+  await redis.quit();
+  process.exit(ok ? 0 : 1);
+}
+
+main();
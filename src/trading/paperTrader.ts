@@ -0,0 +1,479 @@
+/**
+ * Paper Trader
+ *
+ * Turns live BreakoutSignal / IntradaySignal alerts into virtual positions so
+ * we can see what trading them would have returned:
+ *   - Entry at the signal price, sized to risk a fixed % of equity
+ *   - Stop below the broken level (structure) or ATR-based, take-profit at
+ *     rewardRisk × stop distance, and a time stop per model/timeframe
+ *   - Marked to market every minute from candleStreamer.getCandles
+ *   - Realized PnL ledger in Redis, daily summary via notifyCustom
+ *
+ * Signals arrive over the signals:events channel, so Model-2 alerts from the
+ * intraday process are traded by the same engine.
+ *
+ * Redis keys:
+ *   paper:positions:open    hash  id -> PaperPosition
+ *   paper:positions:closed  zset  closedAt -> PaperPosition
+ *   paper:equity            string realized equity
+ */
+
+import crypto from "node:crypto";
+import redis from "../utils/redisClient.js";
+import { info, warn, error as logError } from "../utils/logger.js";
+import candleStreamer, { type ProcessedCandle } from "../stream/candleStreamer.js";
+import { subscribeSignalEvents, type SignalEvent } from "../utils/signalEvents.js";
+import { notifyCustom } from "../notify/notifierRegistry.js";
+import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
+import type { IntradaySignal } from "../breakout/intradayTypes.js";
+
+const OPEN_KEY = "paper:positions:open";
+const CLOSED_KEY = "paper:positions:closed";
+const EQUITY_KEY = "paper:equity";
+const CLOSED_RETENTION_MS = 180 * 24 * 60 * 60 * 1000;
+const MARK_INTERVAL_MS = 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+
+export type StopMode = "structure" | "atr";
+export type ExitReason = "stop" | "target" | "time";
+
+export interface PaperTradingConfig {
+  startingEquity: number;
+  riskPerTradePct: number; // % of equity lost if the stop is hit
+  maxPositionPct: number; // Notional cap as % of equity
+  maxOpenPositions: number;
+  stopMode: StopMode;
+  atrPeriod: number;
+  atrMultiplier: number;
+  structureBufferPct: number; // Extra room beyond the broken level
+  rewardRisk: number; // Take-profit distance in multiples of stop distance
+  feeBps: number; // Taker fee per side
+  maxHoldHours: Record<string, number>; // By source:timeframe
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] ?? "");
+  return Number.isFinite(value) ? value : fallback;
+}
+
+export const PAPER_CONFIG: PaperTradingConfig = {
+  startingEquity: envNumber("PAPER_STARTING_EQUITY", 10000),
+  riskPerTradePct: envNumber("PAPER_RISK_PCT", 1),
+  maxPositionPct: envNumber("PAPER_MAX_POSITION_PCT", 25),
+  maxOpenPositions: envNumber("PAPER_MAX_POSITIONS", 10),
+  stopMode: process.env.PAPER_STOP_MODE === "atr" ? "atr" : "structure",
+  atrPeriod: 14,
+  atrMultiplier: envNumber("PAPER_ATR_MULTIPLIER", 1.5),
+  structureBufferPct: 0.5,
+  rewardRisk: envNumber("PAPER_REWARD_RISK", 2),
+  feeBps: envNumber("PAPER_FEE_BPS", 4.5),
+  maxHoldHours: {
+    "breakout:1h": 24,
+    "intraday:5m": 2,
+    "intraday:15m": 6,
+    "intraday:1h": 12,
+  },
+};
+
+export interface PaperPosition {
+  id: string;
+  source: "breakout" | "intraday";
+  symbol: string;
+  direction: "long" | "short";
+  timeframe: string;
+  signalConfidence: number;
+  entryPrice: number;
+  quantity: number;
+  notional: number;
+  stopPrice: number;
+  targetPrice: number;
+  openedAt: number;
+  expiresAt: number;
+  lastPrice: number;
+  unrealizedPnl: number;
+  exitPrice?: number;
+  exitReason?: ExitReason;
+  closedAt?: number;
+  realizedPnl?: number; // After fees
+  fees?: number;
+}
+
+export interface PaperSummary {
+  from: number;
+  to: number;
+  trades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  realizedPnl: number;
+  fees: number;
+  bestTrade: PaperPosition | null;
+  worstTrade: PaperPosition | null;
+  byExitReason: Record<ExitReason, number>;
+  equity: number;
+  openPositions: number;
+  unrealizedPnl: number;
+}
+
+/**
+ * Average true range over the last `period` candles (candles newest first)
+ */
+function calculateAtr(candles: ProcessedCandle[], period: number): number {
+  const ordered = [...candles].reverse();
+  const ranges: number[] = [];
+
+  for (let i = Math.max(1, ordered.length - period); i < ordered.length; i++) {
+    const current = ordered[i]!;
+    const previousClose = ordered[i - 1]!.close;
+    ranges.push(Math.max(
+      current.high - current.low,
+      Math.abs(current.high - previousClose),
+      Math.abs(current.low - previousClose)
+    ));
+  }
+
+  return ranges.length > 0 ? ranges.reduce((sum, r) => sum + r, 0) / ranges.length : 0;
+}
+
+/**
+ * Stop price for a new position, or null if no sensible stop exists
+ */
+function calculateStop(
+  direction: "long" | "short",
+  entryPrice: number,
+  level: number | undefined,
+  atr: number,
+  config: PaperTradingConfig
+): number | null {
+  const buffer = config.structureBufferPct / 100;
+
+  if (config.stopMode === "structure" && level !== undefined && level > 0) {
+    // Long breakouts fail back below resistance, shorts back above support
+    const stop = direction === "long" ? level * (1 - buffer) : level * (1 + buffer);
+    if ((direction === "long" && stop < entryPrice) || (direction === "short" && stop > entryPrice)) {
+      return stop;
+    }
+  }
+
+  if (atr <= 0) {
+    return null;
+  }
+
+  return direction === "long"
+    ? entryPrice - atr * config.atrMultiplier
+    : entryPrice + atr * config.atrMultiplier;
+}
+
+function pnlFor(position: PaperPosition, price: number): number {
+  const move = position.direction === "long" ? price - position.entryPrice : position.entryPrice - price;
+  return move * position.quantity;
+}
+
+class PaperTrader {
+  private config: PaperTradingConfig = PAPER_CONFIG;
+  private markTimer: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => Promise<void>) | null = null;
+  private marking = false;
+
+  /**
+   * Start consuming signal events and marking positions (idempotent)
+   */
+  async start(config: PaperTradingConfig = PAPER_CONFIG): Promise<void> {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.config = config;
+    this.unsubscribe = await subscribeSignalEvents((event) => {
+      void this.handleEvent(event);
+    });
+
+    this.markTimer = setInterval(() => {
+      void this.markToMarket();
+    }, MARK_INTERVAL_MS);
+
+    info("PaperTrader", `Paper trading started (equity $${(await this.getEquity()).toFixed(2)}, stop=${config.stopMode})`);
+  }
+
+  async stop(): Promise<void> {
+    if (this.markTimer) {
+      clearInterval(this.markTimer);
+      this.markTimer = null;
+    }
+
+    if (this.unsubscribe) {
+      await this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  private async handleEvent(event: SignalEvent): Promise<void> {
+    if (event.type === "breakout") {
+      await this.openFromBreakout(event.data);
+    } else if (event.type === "intraday") {
+      await this.openFromIntraday(event.data);
+    }
+  }
+
+  async openFromBreakout(signal: BreakoutSignal): Promise<PaperPosition | null> {
+    const level = signal.direction === "long" ? signal.resistanceLevel : signal.supportLevel;
+    return this.open({
+      source: "breakout",
+      symbol: signal.symbol,
+      direction: signal.direction,
+      timeframe: "1h",
+      confidence: signal.confidenceScore,
+      price: signal.price,
+      level,
+    });
+  }
+
+  async openFromIntraday(signal: IntradaySignal): Promise<PaperPosition | null> {
+    return this.open({
+      source: "intraday",
+      symbol: signal.symbol,
+      direction: signal.direction,
+      timeframe: signal.timeframe,
+      confidence: signal.confidence,
+      price: signal.price,
+      level: undefined,
+    });
+  }
+
+  /**
+   * Open a virtual position for a signal
+   */
+  private async open(request: {
+    source: "breakout" | "intraday";
+    symbol: string;
+    direction: "long" | "short";
+    timeframe: string;
+    confidence: number;
+    price: number;
+    level: number | undefined;
+  }): Promise<PaperPosition | null> {
+    const { symbol, direction } = request;
+
+    try {
+      const open = await this.getOpenPositions();
+      if (open.some((p) => p.symbol === symbol && p.direction === direction)) {
+        info("PaperTrader", `${symbol} ${direction}: position already open, skipping`);
+        return null;
+      }
+      if (open.length >= this.config.maxOpenPositions) {
+        warn("PaperTrader", `${symbol} ${direction}: max open positions (${this.config.maxOpenPositions}) reached`);
+        return null;
+      }
+
+      const candles = await candleStreamer.getCandles(symbol, 60);
+      if (candles.length === 0) {
+        warn("PaperTrader", `${symbol}: no candles to mark against, skipping`);
+        return null;
+      }
+
+      const entryPrice = request.price;
+      const atr = calculateAtr(candles, this.config.atrPeriod);
+      const stopPrice = calculateStop(direction, entryPrice, request.level, atr, this.config);
+      if (stopPrice === null) {
+        warn("PaperTrader", `${symbol} ${direction}: no valid stop, skipping`);
+        return null;
+      }
+
+      const stopDistance = Math.abs(entryPrice - stopPrice);
+      const equity = await this.getEquity();
+      const riskBudget = equity * (this.config.riskPerTradePct / 100);
+      const maxNotional = equity * (this.config.maxPositionPct / 100);
+      const quantity = Math.min(riskBudget / stopDistance, maxNotional / entryPrice);
+      const holdHours = this.config.maxHoldHours[`${request.source}:${request.timeframe}`] ?? 24;
+      const now = Date.now();
+
+      const position: PaperPosition = {
+        id: crypto.randomUUID(),
+        source: request.source,
+        symbol,
+        direction,
+        timeframe: request.timeframe,
+        signalConfidence: request.confidence,
+        entryPrice,
+        quantity,
+        notional: quantity * entryPrice,
+        stopPrice,
+        targetPrice: direction === "long"
+          ? entryPrice + stopDistance * this.config.rewardRisk
+          : entryPrice - stopDistance * this.config.rewardRisk,
+        openedAt: now,
+        expiresAt: now + holdHours * HOUR_MS,
+        lastPrice: entryPrice,
+        unrealizedPnl: 0,
+      };
+
+      await redis.hset(OPEN_KEY, position.id, JSON.stringify(position));
+      info(
+        "PaperTrader",
+        `[Open] ${symbol} ${direction.toUpperCase()} ${request.source}/${request.timeframe} @ ${entryPrice.toFixed(4)} ` +
+          `qty=${quantity.toFixed(4)} stop=${stopPrice.toFixed(4)} target=${position.targetPrice.toFixed(4)}`
+      );
+      return position;
+    } catch (err) {
+      logError("PaperTrader", `Error opening position for ${symbol}`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Update every open position from the latest candles; close on stop, target or time
+   */
+  async markToMarket(now: number = Date.now()): Promise<void> {
+    if (this.marking) {
+      return;
+    }
+    this.marking = true;
+
+    try {
+      for (const position of await this.getOpenPositions()) {
+        const candles = await candleStreamer.getCandles(position.symbol, 60);
+        const latest = candles[0];
+        if (!latest) {
+          continue;
+        }
+
+        // The entry-hour candle's range includes pre-entry prices, so that hour is
+        // only marked by the latest close; later candles count in full
+        const sinceEntry = candles.filter((c) => c.openTime >= position.openedAt);
+        const high = Math.max(latest.close, ...sinceEntry.map((c) => c.high));
+        const low = Math.min(latest.close, ...sinceEntry.map((c) => c.low));
+        const isLong = position.direction === "long";
+
+        // If stop and target fall in the same range, assume the stop hit first
+        const stopHit = isLong ? low <= position.stopPrice : high >= position.stopPrice;
+        const targetHit = isLong ? high >= position.targetPrice : low <= position.targetPrice;
+
+        if (stopHit) {
+          await this.close(position, position.stopPrice, "stop", now);
+        } else if (targetHit) {
+          await this.close(position, position.targetPrice, "target", now);
+        } else if (now >= position.expiresAt) {
+          await this.close(position, latest.close, "time", now);
+        } else {
+          position.lastPrice = latest.close;
+          position.unrealizedPnl = pnlFor(position, latest.close);
+          await redis.hset(OPEN_KEY, position.id, JSON.stringify(position));
+        }
+      }
+    } catch (err) {
+      logError("PaperTrader", "Error marking positions to market", err);
+    } finally {
+      this.marking = false;
+    }
+  }
+
+  private async close(position: PaperPosition, exitPrice: number, reason: ExitReason, now: number): Promise<void> {
+    const fees = (position.notional + position.quantity * exitPrice) * (this.config.feeBps / 10000);
+    const realizedPnl = pnlFor(position, exitPrice) - fees;
+
+    const closed: PaperPosition = {
+      ...position,
+      lastPrice: exitPrice,
+      unrealizedPnl: 0,
+      exitPrice,
+      exitReason: reason,
+      closedAt: now,
+      realizedPnl,
+      fees,
+    };
+
+    await redis.hdel(OPEN_KEY, position.id);
+    await redis.zadd(CLOSED_KEY, now, JSON.stringify(closed));
+    await redis.zremrangebyscore(CLOSED_KEY, "-inf", now - CLOSED_RETENTION_MS);
+    await redis.set(EQUITY_KEY, String((await this.getEquity()) + realizedPnl));
+
+    info(
+      "PaperTrader",
+      `[Close] ${position.symbol} ${position.direction.toUpperCase()} ${reason} @ ${exitPrice.toFixed(4)} ` +
+        `pnl=${realizedPnl >= 0 ? "+" : ""}${realizedPnl.toFixed(2)}`
+    );
+  }
+
+  async getEquity(): Promise<number> {
+    const value = await redis.get(EQUITY_KEY);
+    const equity = value === null ? NaN : parseFloat(value);
+    return Number.isFinite(equity) ? equity : this.config.startingEquity;
+  }
+
+  async getOpenPositions(): Promise<PaperPosition[]> {
+    const raw = await redis.hgetall(OPEN_KEY);
+    return Object.values(raw)
+      .map((data) => JSON.parse(data) as PaperPosition)
+      .sort((a, b) => a.openedAt - b.openedAt);
+  }
+
+  async getClosedPositions(from: number, to: number = Date.now()): Promise<PaperPosition[]> {
+    const raw = await redis.zrangebyscore(CLOSED_KEY, from, to);
+    return raw.map((data) => JSON.parse(data) as PaperPosition);
+  }
+
+  /**
+   * Aggregate closed trades in a window plus the current open book
+   */
+  async getSummary(from: number, to: number = Date.now()): Promise<PaperSummary> {
+    const closed = await this.getClosedPositions(from, to);
+    const open = await this.getOpenPositions();
+    const byPnl = [...closed].sort((a, b) => (b.realizedPnl ?? 0) - (a.realizedPnl ?? 0));
+    const wins = closed.filter((p) => (p.realizedPnl ?? 0) > 0).length;
+    const byExitReason: Record<ExitReason, number> = { stop: 0, target: 0, time: 0 };
+    closed.forEach((p) => {
+      if (p.exitReason) byExitReason[p.exitReason]++;
+    });
+
+    return {
+      from,
+      to,
+      trades: closed.length,
+      wins,
+      losses: closed.length - wins,
+      winRate: closed.length > 0 ? (wins / closed.length) * 100 : 0,
+      realizedPnl: closed.reduce((sum, p) => sum + (p.realizedPnl ?? 0), 0),
+      fees: closed.reduce((sum, p) => sum + (p.fees ?? 0), 0),
+      bestTrade: byPnl[0] ?? null,
+      worstTrade: byPnl[byPnl.length - 1] ?? null,
+      byExitReason,
+      equity: await this.getEquity(),
+      openPositions: open.length,
+      unrealizedPnl: open.reduce((sum, p) => sum + p.unrealizedPnl, 0),
+    };
+  }
+
+  /**
+   * Send the last 24h of paper trading as a Telegram-style summary
+   */
+  async sendDailySummary(now: number = Date.now()): Promise<void> {
+    try {
+      const s = await this.getSummary(now - 24 * HOUR_MS, now);
+      const sign = (v: number) => (v >= 0 ? "+" : "");
+      const tradeLine = (p: PaperPosition | null) =>
+        p ? `${p.symbol} ${p.direction} ${sign(p.realizedPnl ?? 0)}$${(p.realizedPnl ?? 0).toFixed(2)}` : "-";
+
+      await notifyCustom(
+        `📒 *PAPER TRADING (24h)*\n\n` +
+        `*Closed Trades:* ${s.trades} (${s.wins}W / ${s.losses}L, ${s.winRate.toFixed(0)}%)\n` +
+        `*Realized PnL:* ${sign(s.realizedPnl)}$${s.realizedPnl.toFixed(2)} (fees $${s.fees.toFixed(2)})\n` +
+        `*Exits:* ${s.byExitReason.target} target / ${s.byExitReason.stop} stop / ${s.byExitReason.time} time\n` +
+        `*Best:* ${tradeLine(s.bestTrade)}\n` +
+        `*Worst:* ${tradeLine(s.worstTrade)}\n\n` +
+        `*Open Positions:* ${s.openPositions} (unrealized ${sign(s.unrealizedPnl)}$${s.unrealizedPnl.toFixed(2)})\n` +
+        `*Equity:* $${s.equity.toFixed(2)}`
+      );
+    } catch (err) {
+      logError("PaperTrader", "Error sending daily summary", err);
+    }
+  }
+
+  /**
+   * Drop all positions and reset equity
+   */
+  async reset(): Promise<void> {
+    await redis.del(OPEN_KEY, CLOSED_KEY, EQUITY_KEY);
+  }
+}
+
+export default new PaperTrader();
@@ -9,6 +9,9 @@ import redis from "./redisClient.js";
 import { info, warn } from "./logger.js";
 import type { IntradaySignal } from "../breakout/intradayTypes.js";
 
+const INTRADAY_HISTORY_KEY = "intraday:history:all";
+const INTRADAY_HISTORY_MS = 90 * 24 * 60 * 60 * 1000;
+
 /**
  * Store intraday signal in Redis
  */
@@ -18,7 +21,13 @@ export async function storeIntradaySignal(
   const key = `intraday:signal:${signal.symbol}:${signal.timestamp}`;
 
   try {
-    await redis.setex(key, 86400, JSON.stringify(signal)); // 24h TTL
+    const value = JSON.stringify(signal);
+    await redis.setex(key, 86400, value); // 24h TTL
+
+    // Long-lived history for outcome evaluation (live keys expire after 24h)
+    await redis.zadd(INTRADAY_HISTORY_KEY, signal.timestamp, value);
+    await redis.zremrangebyscore(INTRADAY_HISTORY_KEY, "-inf", Date.now() - INTRADAY_HISTORY_MS);
+
     info("IntradayStorage", `Stored signal for ${signal.symbol} ${signal.pattern}`);
   } catch (err) {
     warn("IntradayStorage", `Failed to store signal: ${err}`);
@@ -66,6 +75,42 @@ export async function getRecentIntradaySignals(
   }
 }
 
+/**
+ * Get intraday signal history (kept for 90 days) in the last N days
+ */
+export async function getIntradaySignalHistory(
+  daysBack: number = 90
+): Promise<IntradaySignal[]> {
+  const cutoffTime = Date.now() - daysBack * 24 * 60 * 60 * 1000;
+  return getIntradaySignalHistoryBetween(cutoffTime, Date.now());
+}
+
+/**
+ * Get intraday signal history between two timestamps (oldest first)
+ */
+export async function getIntradaySignalHistoryBetween(
+  startTime: number,
+  endTime: number
+): Promise<IntradaySignal[]> {
+  try {
+    const results = await redis.zrangebyscore(INTRADAY_HISTORY_KEY, startTime, endTime);
+
+    const signals: IntradaySignal[] = [];
+    for (const value of results) {
+      try {
+        signals.push(JSON.parse(value) as IntradaySignal);
+      } catch {
+        // Skip invalid JSON
+      }
+    }
+
+    return signals;
+  } catch (err) {
+    warn("IntradayStorage", `Failed to get signal history: ${err}`);
+    return [];
+  }
+}
+
 /**
  * Get all intraday signals within a timeframe
  */
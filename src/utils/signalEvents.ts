@@ -0,0 +1,97 @@
+/**
+ * Signal Event Channel
+ *
+ * Publishes breakout, intraday, outcome-evaluation and health events on a
+ * Redis pub/sub channel so any process (Model-1, Model-2) can feed the
+ * real-time stream served by the API.
+ */
+
+import redis from "./redisClient.js";
+import { error as logError } from "./logger.js";
+import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
+import type { IntradaySignal } from "../breakout/intradayTypes.js";
+import type { SignalHorizonEvaluation } from "../breakout/multiHorizonEvaluator.js";
+
+export const SIGNAL_EVENTS_CHANNEL = "signals:events";
+
+export type HealthStatus = "connected" | "disconnected" | "reconnecting" | "failed" | "stale";
+
+export interface HealthEvent {
+  component: string; // e.g. "candleStreamer", "tradeStreamer"
+  status: HealthStatus;
+  message?: string;
+}
+
+export type SignalEvent =
+  | { type: "breakout"; timestamp: number; data: BreakoutSignal }
+  | { type: "intraday"; timestamp: number; data: IntradaySignal }
+  | { type: "evaluation"; timestamp: number; data: SignalHorizonEvaluation }
+  | { type: "health"; timestamp: number; data: HealthEvent };
+
+export type SignalEventType = SignalEvent["type"];
+
+export const SIGNAL_EVENT_TYPES: SignalEventType[] = ["breakout", "intraday", "evaluation", "health"];
+
+/**
+ * Publish an event to all stream subscribers
+ */
+async function publish(event: SignalEvent): Promise<void> {
+  try {
+    await redis.publish(SIGNAL_EVENTS_CHANNEL, JSON.stringify(event));
+  } catch (err) {
+    logError("SignalEvents", `Failed to publish ${event.type} event`, err);
+  }
+}
+
+export async function publishBreakout(signal: BreakoutSignal): Promise<void> {
+  await publish({ type: "breakout", timestamp: Date.now(), data: signal });
+}
+
+export async function publishIntraday(signal: IntradaySignal): Promise<void> {
+  await publish({ type: "intraday", timestamp: Date.now(), data: signal });
+}
+
+export async function publishEvaluation(evaluation: SignalHorizonEvaluation): Promise<void> {
+  await publish({ type: "evaluation", timestamp: Date.now(), data: evaluation });
+}
+
+export async function publishHealth(
+  component: string,
+  status: HealthStatus,
+  message?: string
+): Promise<void> {
+  const data: HealthEvent = { component, status };
+  if (message !== undefined) {
+    data.message = message;
+  }
+  await publish({ type: "health", timestamp: Date.now(), data });
+}
+
+/**
+ * Subscribe to the event channel on a dedicated Redis connection.
+ * Returns a function that unsubscribes and closes the connection.
+ */
+export async function subscribeSignalEvents(
+  handler: (event: SignalEvent) => void
+): Promise<() => Promise<void>> {
+  const subscriber = redis.duplicate();
+
+  subscriber.on("message", (channel: string, message: string) => {
+    if (channel !== SIGNAL_EVENTS_CHANNEL) {
+      return;
+    }
+
+    try {
+      handler(JSON.parse(message) as SignalEvent);
+    } catch (err) {
+      logError("SignalEvents", "Failed to handle signal event", err);
+    }
+  });
+
+  await subscriber.subscribe(SIGNAL_EVENTS_CHANNEL);
+
+  return async () => {
+    await subscriber.unsubscribe(SIGNAL_EVENTS_CHANNEL);
+    subscriber.disconnect();
+  };
+}
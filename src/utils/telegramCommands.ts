@@ -0,0 +1,497 @@
+/**
+ * Telegram Bot Commands
+ *
+ * Polls Telegram for commands so the desk can query and tune the system from
+ * a phone. Only chats in TELEGRAM_ALLOWED_CHAT_IDS (default: TELEGRAM_CHAT_ID)
+ * are answered; everything else is ignored.
+ *
+ *   /status                 - Streams, last detection run, channels, mutes
+ *   /signals [symbol]       - Active signals (24h) or a symbol's history
+ *   /stats [days]           - Breakout statistics
+ *   /watch [SYMBOL]         - Add to (or list) the watchlist digest
+ *   /unwatch SYMBOL         - Remove from the watchlist
+ *   /mute SYMBOL [4h]       - Silence a symbol's alerts for a while
+ *   /unmute SYMBOL          - Lift a mute
+ *   /threshold [class] [n]  - Show or override min confidence ("reset" clears)
+ *   /backtest SYMBOL [months] - Run a quick backtest for one coin
+ *   /subscribe [filters...] - Route matching signals to this chat
+ *   /unsubscribe            - Remove this chat's subscription
+ */
+
+import TelegramBot from "node-telegram-bot-api";
+import redis from "./redisClient.js";
+import { info, warn, error as logError } from "./logger.js";
+import candleStreamer from "../stream/candleStreamer.js";
+import tradeStreamer from "../stream/tradeStreamer.js";
+import orderbookStreamer from "../stream/orderbookStreamer.js";
+import { getLastDetectionRun } from "../breakout/breakoutDetector.js";
+import {
+  getActiveBreakoutSignals,
+  getBreakoutHistoryForCoin,
+  getBreakoutStats,
+} from "../breakout/breakoutHistory.js";
+import { CLASS_CONFIG } from "../breakout/breakoutClassConfig.js";
+import {
+  ASSET_CLASSES,
+  clearMinConfidenceOverride,
+  getMinConfidenceOverrides,
+  isAssetClass,
+  setMinConfidenceOverride,
+} from "../breakout/classConfigOverrides.js";
+import { getMutedSymbols, muteSymbol, unmuteSymbol } from "../notify/notificationMutes.js";
+import { getNotifierNames } from "../notify/notifierRegistry.js";
+import {
+  describeSubscription,
+  getSubscription,
+  parseSubscriptionArgs,
+  removeSubscription,
+  saveSubscription,
+  subscriptionIdFor,
+} from "../notify/subscriptions.js";
+import { fetchHistoricalCandlesForCoins, getTimeRange } from "../backtest/historicalDataFetcher.js";
+import { backtestAll, calculateStatistics } from "../backtest/backtester.js";
+import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
+
+const WATCHLIST_KEY = "bot:watchlist";
+const DEFAULT_MUTE_MS = 60 * 60 * 1000;
+const MAX_MUTE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_BACKTEST_MONTHS = 6;
+const MAX_LISTED_SIGNALS = 15;
+
+export interface TelegramCommandOptions {
+  getActiveCoins?: () => string[];
+}
+
+type CommandHandler = (args: string[], options: TelegramCommandOptions, chatId: string) => Promise<string>;
+
+let bot: TelegramBot | null = null;
+let allowedChatIds: Set<string> = new Set();
+let backtestRunning = false;
+
+/**
+ * Parse a duration like 30m, 4h or 2d into milliseconds
+ */
+function parseDuration(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?)([mhd])$/i.exec(value);
+  if (!match) {
+    return null;
+  }
+
+  const amount = parseFloat(match[1]!);
+  const unit = match[2]!.toLowerCase();
+  const multiplier = unit === "m" ? 60 * 1000 : unit === "h" ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
+  return amount * multiplier;
+}
+
+function formatAge(timestamp: number): string {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 48 * 60) return `${(minutes / 60).toFixed(1)}h ago`;
+  return `${(minutes / 1440).toFixed(1)}d ago`;
+}
+
+function formatSignalLine(signal: BreakoutSignal): string {
+  const dir = signal.direction === "short" ? "S" : "L";
+  const date = new Date(signal.timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    hour12: false,
+  });
+  return `${signal.symbol.padEnd(8)} ${dir} ${signal.confidenceScore.toString().padStart(3)} $${signal.price.toFixed(4).padEnd(11)} ${date}`;
+}
+
+async function handleStatus(_args: string[], options: TelegramCommandOptions): Promise<string> {
+  const candles = candleStreamer.getSubscriptionStats();
+  const trades = tradeStreamer.getSubscriptionStats();
+  const orderbook = orderbookStreamer.getSubscriptionStats();
+  const lastRun = await getLastDetectionRun();
+  const mutes = await getMutedSymbols();
+  const state = (connected: boolean) => (connected ? "🟢" : "🔴");
+
+  let message = `🩺 *SYSTEM STATUS*\n\n`;
+  message += `*Streams*\n`;
+  message += `${state(candleStreamer.isConnected())} Candles: ${candles.confirmed}/${candles.subscribed} confirmed (${candles.total} available)\n`;
+  message += `${state(tradeStreamer.isConnected())} Trades: ${trades.confirmed}/${trades.subscribed} confirmed\n`;
+  message += `${state(orderbookStreamer.isConnected())} Orderbook: ${orderbook.confirmed}/${orderbook.subscribed} confirmed\n\n`;
+
+  if (options.getActiveCoins) {
+    message += `*Active Coins:* ${options.getActiveCoins().length}\n`;
+  }
+  message += lastRun
+    ? `*Last Detection:* ${formatAge(lastRun.timestamp)} (${lastRun.durationMs}ms, ${lastRun.coins} coins, ${lastRun.signals} signals)\n`
+    : `*Last Detection:* never\n`;
+  message += `*Channels:* ${getNotifierNames().join(", ") || "none"}\n`;
+  message += `*Muted:* ${mutes.length > 0 ? mutes.map((m) => m.symbol).join(", ") : "none"}\n`;
+  message += `*Redis:* ${redis.status}\n`;
+  message += `*Uptime:* ${(process.uptime() / 3600).toFixed(1)}h`;
+
+  return message;
+}
+
+async function handleSignals(args: string[]): Promise<string> {
+  const symbol = args[0]?.toUpperCase();
+
+  const signals = symbol
+    ? (await getBreakoutHistoryForCoin(symbol, 30)).sort((a, b) => b.timestamp - a.timestamp)
+    : await getActiveBreakoutSignals(Date.now() - 24 * 60 * 60 * 1000, MAX_LISTED_SIGNALS);
+
+  const title = symbol ? `${symbol} SIGNALS (30d)` : "ACTIVE SIGNALS (24h)";
+  if (signals.length === 0) {
+    return `📭 *${title}*\n\nNo signals.`;
+  }
+
+  const lines = signals.slice(0, MAX_LISTED_SIGNALS).map(formatSignalLine);
+  return `📋 *${title}* (${signals.length})\n\n\`\`\`\n${lines.join("\n")}\n\`\`\``;
+}
+
+async function handleStats(args: string[]): Promise<string> {
+  const days = Math.min(Math.max(parseInt(args[0] ?? "30", 10) || 30, 1), 90);
+  const stats = await getBreakoutStats(days);
+  const sign = (v: number) => (v >= 0 ? "+" : "");
+
+  let message = `📊 *BREAKOUT STATS (${days}d)*\n\n` +
+    `• Total: ${stats.totalBreakouts}\n` +
+    `• Successful: ${stats.successfulBreakouts} (${stats.successRate.toFixed(1)}%)\n` +
+    `• Strong / Moderate / Weak: ${stats.strongBreakouts} / ${stats.moderateBreakouts} / ${stats.weakBreakouts}\n\n` +
+    `*Average Gain*\n` +
+    `• 1h: ${sign(stats.avgGain1h)}${stats.avgGain1h.toFixed(2)}%\n` +
+    `• 4h: ${sign(stats.avgGain4h)}${stats.avgGain4h.toFixed(2)}%\n` +
+    `• 24h: ${sign(stats.avgGain24h)}${stats.avgGain24h.toFixed(2)}%`;
+
+  if (stats.topPerformers.length > 0) {
+    message += `\n\n*Top Performers*\n`;
+    message += stats.topPerformers
+      .slice(0, 5)
+      .map((p, i) => `${i + 1}. ${p.coin} ${sign(p.gain)}${p.gain.toFixed(1)}%`)
+      .join("\n");
+  }
+
+  return message;
+}
+
+/**
+ * One-line snapshot of a coin from the candle stream
+ */
+async function formatWatchSnapshot(symbol: string): Promise<string> {
+  const candles = await candleStreamer.getCandles(symbol, 24);
+  const latest = candles[0];
+  if (!latest) {
+    return `${symbol}: no candles`;
+  }
+
+  const oldest = candles[candles.length - 1]!;
+  const change = ((latest.close - oldest.open) / oldest.open) * 100;
+  const avgVolume = candles.slice(1).reduce((sum, c) => sum + c.volume, 0) / Math.max(candles.length - 1, 1);
+  const volumeRatio = avgVolume > 0 ? latest.volume / avgVolume : 0;
+  const high = Math.max(...candles.map((c) => c.high));
+  const low = Math.min(...candles.map((c) => c.low));
+
+  return `${symbol}: $${latest.close.toFixed(4)} ${change >= 0 ? "+" : ""}${change.toFixed(2)}% (24h) ` +
+    `vol ${volumeRatio.toFixed(1)}x range $${low.toFixed(4)}-$${high.toFixed(4)}`;
+}
+
+async function handleWatch(args: string[]): Promise<string> {
+  const symbol = args[0]?.toUpperCase();
+
+  if (!symbol) {
+    const watchlist = await redis.smembers(WATCHLIST_KEY);
+    if (watchlist.length === 0) {
+      return "👁 Watchlist is empty. Usage: /watch SYMBOL";
+    }
+    const snapshots = await Promise.all(watchlist.sort().map(formatWatchSnapshot));
+    return `👁 *WATCHLIST*\n\n${snapshots.join("\n")}`;
+  }
+
+  await redis.sadd(WATCHLIST_KEY, symbol);
+  return `👁 Watching ${symbol}. It will be included in the digest after every detection run.\n\n${await formatWatchSnapshot(symbol)}`;
+}
+
+async function handleUnwatch(args: string[]): Promise<string> {
+  const symbol = args[0]?.toUpperCase();
+  if (!symbol) {
+    return "Usage: /unwatch SYMBOL";
+  }
+
+  const removed = await redis.srem(WATCHLIST_KEY, symbol);
+  return removed > 0 ? `Stopped watching ${symbol}.` : `${symbol} was not on the watchlist.`;
+}
+
+async function handleMute(args: string[]): Promise<string> {
+  const symbol = args[0]?.toUpperCase();
+
+  if (!symbol) {
+    const mutes = await getMutedSymbols();
+    if (mutes.length === 0) {
+      return "🔔 No muted symbols. Usage: /mute SYMBOL 4h";
+    }
+    return `🔕 *MUTED*\n\n${mutes.map((m) => `${m.symbol} until ${new Date(m.until).toLocaleString()}`).join("\n")}`;
+  }
+
+  const durationMs = args[1] ? parseDuration(args[1]) : DEFAULT_MUTE_MS;
+  if (durationMs === null || durationMs <= 0 || durationMs > MAX_MUTE_MS) {
+    return "Invalid duration. Use e.g. 30m, 4h or 2d (max 7d).";
+  }
+
+  const until = await muteSymbol(symbol, durationMs);
+  return `🔕 Muted ${symbol} until ${new Date(until).toLocaleString()}.`;
+}
+
+async function handleUnmute(args: string[]): Promise<string> {
+  const symbol = args[0]?.toUpperCase();
+  if (!symbol) {
+    return "Usage: /unmute SYMBOL";
+  }
+
+  return (await unmuteSymbol(symbol)) ? `🔔 Unmuted ${symbol}.` : `${symbol} was not muted.`;
+}
+
+async function handleThreshold(args: string[]): Promise<string> {
+  const overrides = await getMinConfidenceOverrides();
+  const [assetClass, value] = args;
+
+  if (!assetClass) {
+    const lines = ASSET_CLASSES.map((c) => {
+      const override = overrides[c];
+      return override === undefined
+        ? `${c.padEnd(10)} ${CLASS_CONFIG[c].minConfidence}`
+        : `${c.padEnd(10)} ${override} (default ${CLASS_CONFIG[c].minConfidence})`;
+    });
+    return `🎚 *MIN CONFIDENCE*\n\n\`\`\`\n${lines.join("\n")}\n\`\`\``;
+  }
+
+  if (!isAssetClass(assetClass)) {
+    return `Unknown class ${assetClass}. Expected one of: ${ASSET_CLASSES.join(", ")}`;
+  }
+
+  if (!value) {
+    return `${assetClass} min confidence: ${overrides[assetClass] ?? CLASS_CONFIG[assetClass].minConfidence}`;
+  }
+
+  if (value === "reset") {
+    await clearMinConfidenceOverride(assetClass);
+    return `🎚 ${assetClass} min confidence reset to ${CLASS_CONFIG[assetClass].minConfidence}.`;
+  }
+
+  const minConfidence = parseFloat(value);
+  if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 100) {
+    return "Threshold must be between 0 and 100.";
+  }
+
+  await setMinConfidenceOverride(assetClass, minConfidence);
+  info("TelegramCommands", `${assetClass} min confidence set to ${minConfidence}`);
+  return `🎚 ${assetClass} min confidence set to ${minConfidence} (default ${CLASS_CONFIG[assetClass].minConfidence}). Applies from the next detection run.`;
+}
+
+async function handleBacktest(args: string[]): Promise<string> {
+  const symbol = args[0]?.toUpperCase();
+  if (!symbol) {
+    return "Usage: /backtest SYMBOL [months]";
+  }
+
+  const months = Math.min(Math.max(parseInt(args[1] ?? "1", 10) || 1, 1), MAX_BACKTEST_MONTHS);
+  if (backtestRunning) {
+    return "⏳ A backtest is already running, try again when it finishes.";
+  }
+
+  backtestRunning = true;
+  try {
+    const { startTime, endTime } = getTimeRange(months);
+    const historicalData = await fetchHistoricalCandlesForCoins([symbol], startTime, endTime, "1h", 1, 0);
+    if (!historicalData.has(symbol)) {
+      return `No historical candles for ${symbol}.`;
+    }
+
+    const stats = calculateStatistics(backtestAll(historicalData));
+    const sign = (v: number) => (v >= 0 ? "+" : "");
+
+    return `🧪 *BACKTEST ${symbol} (${months}mo)*\n\n` +
+      `• Breakouts: ${stats.totalBreakouts} (${stats.longBreakouts}L / ${stats.shortBreakouts}S)\n` +
+      `• Success Rate: ${stats.successRate.toFixed(1)}%\n` +
+      `• Avg 1h: ${sign(stats.avgGain1h)}${stats.avgGain1h.toFixed(2)}%\n` +
+      `• Avg 4h: ${sign(stats.avgGain4h)}${stats.avgGain4h.toFixed(2)}%\n` +
+      `• Avg 24h: ${sign(stats.avgGain24h)}${stats.avgGain24h.toFixed(2)}%`;
+  } finally {
+    backtestRunning = false;
+  }
+}
+
+async function handleSubscribe(args: string[], _options: TelegramCommandOptions, chatId: string): Promise<string> {
+  const target = { kind: "telegram" as const, chatId };
+
+  if (args.length === 0) {
+    const existing = await getSubscription(subscriptionIdFor(target));
+    return existing
+      ? `📬 *SUBSCRIPTION*\n\n\`${describeSubscription(existing)}\``
+      : "📭 This chat has no subscription.\n\n" +
+        "Usage: /subscribe class=crypto symbols=BTC,ETH direction=long pattern=breakout " +
+        "timeframe=1h minConfidence=75 types=breakout,intraday quiet=22-7 tz=UTC";
+  }
+
+  const { filters, quietHours, errors } = parseSubscriptionArgs(args);
+  if (errors.length > 0) {
+    return `❌ ${errors.join("\n")}`;
+  }
+
+  const subscription = await saveSubscription(target, filters, quietHours ? { quietHours } : {});
+  return `📬 Subscribed this chat:\n\`${describeSubscription(subscription)}\``;
+}
+
+async function handleUnsubscribe(_args: string[], _options: TelegramCommandOptions, chatId: string): Promise<string> {
+  const removed = await removeSubscription(subscriptionIdFor({ kind: "telegram", chatId }));
+  return removed ? "📭 Subscription removed." : "This chat has no subscription.";
+}
+
+async function handleHelp(): Promise<string> {
+  return `🤖 *COMMANDS*\n\n` +
+    `/status - system status\n` +
+    `/signals [symbol] - active signals or symbol history\n` +
+    `/stats [days] - breakout statistics\n` +
+    `/watch [SYMBOL] - watchlist digest\n` +
+    `/unwatch SYMBOL\n` +
+    `/mute SYMBOL [4h] - silence alerts\n` +
+    `/unmute SYMBOL\n` +
+    `/threshold [class] [value|reset] - min confidence\n` +
+    `/backtest SYMBOL [months] - quick backtest\n` +
+    `/subscribe [filters...] - route signals to this chat\n` +
+    `/unsubscribe`;
+}
+
+const COMMANDS: Record<string, CommandHandler> = {
+  start: handleHelp,
+  help: handleHelp,
+  status: handleStatus,
+  signals: handleSignals,
+  stats: handleStats,
+  watch: handleWatch,
+  unwatch: handleUnwatch,
+  mute: handleMute,
+  unmute: handleUnmute,
+  threshold: handleThreshold,
+  backtest: handleBacktest,
+  subscribe: handleSubscribe,
+  unsubscribe: handleUnsubscribe,
+};
+
+async function reply(chatId: number | string, message: string): Promise<void> {
+  if (!bot) {
+    return;
+  }
+
+  try {
+    await bot.sendMessage(chatId, message, { parse_mode: "Markdown" });
+  } catch (err) {
+    logError("TelegramCommands", "Failed to send reply", err);
+  }
+}
+
+/**
+ * Dispatch one incoming message
+ */
+async function handleMessage(msg: TelegramBot.Message, options: TelegramCommandOptions): Promise<void> {
+  const text = msg.text?.trim();
+  if (!text || !text.startsWith("/")) {
+    return;
+  }
+
+  const chatId = String(msg.chat.id);
+  if (!allowedChatIds.has(chatId)) {
+    warn("TelegramCommands", `Ignoring command from unauthorized chat ${chatId}`);
+    return;
+  }
+
+  const [rawCommand, ...args] = text.split(/\s+/);
+  // Strip the leading slash and any @BotName suffix used in group chats
+  const command = rawCommand!.slice(1).split("@")[0]!.toLowerCase();
+  const handler = COMMANDS[command];
+  if (!handler) {
+    await reply(msg.chat.id, `Unknown command /${command}. Send /help for the list.`);
+    return;
+  }
+
+  info("TelegramCommands", `/${command} ${args.join(" ")} from chat ${chatId}`);
+
+  if (command === "backtest" && !backtestRunning) {
+    await reply(msg.chat.id, "⏳ Running backtest...");
+  }
+
+  try {
+    await reply(msg.chat.id, await handler(args, options, chatId));
+  } catch (err) {
+    logError("TelegramCommands", `Error handling /${command}`, err);
+    await reply(msg.chat.id, `❌ /${command} failed, see logs.`);
+  }
+}
+
+/**
+ * Start polling for commands. Requires TELEGRAM_BOT_TOKEN and at least one
+ * allowed chat ID. Returns false if commands could not be enabled.
+ */
+export function startTelegramCommands(options: TelegramCommandOptions = {}): boolean {
+  const botToken = process.env.TELEGRAM_BOT_TOKEN;
+  const allowed = process.env.TELEGRAM_ALLOWED_CHAT_IDS || process.env.TELEGRAM_CHAT_ID || "";
+  allowedChatIds = new Set(allowed.split(",").map((id) => id.trim()).filter((id) => id.length > 0));
+
+  if (!botToken || allowedChatIds.size === 0) {
+    warn("TelegramCommands", "Telegram bot token or allowed chat IDs not configured. Commands disabled.");
+    return false;
+  }
+
+  try {
+    bot = new TelegramBot(botToken, { polling: true });
+    bot.on("message", (msg) => {
+      void handleMessage(msg, options);
+    });
+    bot.on("polling_error", (err) => {
+      logError("TelegramCommands", "Polling error", err);
+    });
+    info("TelegramCommands", `Listening for commands from ${allowedChatIds.size} chat(s)`);
+    return true;
+  } catch (err) {
+    logError("TelegramCommands", "Failed to start Telegram command polling", err);
+    bot = null;
+    return false;
+  }
+}
+
+/**
+ * Send the watchlist digest to every allowed chat (called after detection runs)
+ */
+export async function sendWatchlistDigest(): Promise<void> {
+  if (!bot) {
+    return;
+  }
+
+  try {
+    const watchlist = await redis.smembers(WATCHLIST_KEY);
+    if (watchlist.length === 0) {
+      return;
+    }
+
+    const snapshots = await Promise.all(watchlist.sort().map(formatWatchSnapshot));
+    const message = `👁 *WATCHLIST DIGEST*\n\n${snapshots.join("\n")}`;
+
+    for (const chatId of allowedChatIds) {
+      await reply(chatId, message);
+    }
+  } catch (err) {
+    logError("TelegramCommands", "Error sending watchlist digest", err);
+  }
+}
+
+/**
+ * Stop polling for commands
+ */
+export async function stopTelegramCommands(): Promise<void> {
+  if (!bot) {
+    return;
+  }
+
+  try {
+    await bot.stopPolling();
+  } catch (err) {
+    logError("TelegramCommands", "Error stopping command polling", err);
+  }
+  bot = null;
+}
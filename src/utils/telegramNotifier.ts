@@ -8,6 +8,7 @@ import TelegramBot from "node-telegram-bot-api";
 import { info, warn, error as logError } from "./logger.js";
 import type { BreakoutSignal } from "../breakout/breakoutDetector.js";
 import type { IntradaySignal } from "../breakout/intradayTypes.js";
+import type { PrepumpConfidence, PrepumpSignal } from "./types.js";
 
 let bot: TelegramBot | null = null;
 let chatId: string | null = null;
@@ -20,14 +21,20 @@ export function initTelegram(): void {
   const botToken = process.env.TELEGRAM_BOT_TOKEN;
   const telegramChatId = process.env.TELEGRAM_CHAT_ID;
 
-  if (!botToken || !telegramChatId) {
+  if (!botToken) {
     warn("TelegramNotifier", "Telegram credentials not configured. Notifications disabled.");
     isEnabled = false;
     return;
   }
 
   try {
-    bot = new TelegramBot(botToken, { polling: false });
+    // The bot is also used for per-subscriber chats, so create it even without a default chat
+    bot = bot ?? new TelegramBot(botToken, { polling: false });
+    if (!telegramChatId) {
+      warn("TelegramNotifier", "TELEGRAM_CHAT_ID not set. Only subscriber chats will receive messages.");
+      isEnabled = false;
+      return;
+    }
     chatId = telegramChatId;
     isEnabled = true;
     info("TelegramNotifier", "Telegram bot initialized successfully");
@@ -59,10 +66,31 @@ async function sendMessage(message: string, parseMode: "Markdown" | "HTML" = "Ma
   }
 }
 
+/**
+ * Send a message to a specific chat (e.g. a subscriber) rather than TELEGRAM_CHAT_ID
+ */
+export async function sendTelegramMessageTo(
+  targetChatId: string,
+  message: string,
+  parseMode: "Markdown" | "HTML" = "Markdown"
+): Promise<boolean> {
+  if (!bot) {
+    return false;
+  }
+
+  try {
+    await bot.sendMessage(targetChatId, message, { parse_mode: parseMode });
+    return true;
+  } catch (err) {
+    logError("TelegramNotifier", `Failed to send Telegram message to ${targetChatId}`, err);
+    return false;
+  }
+}
+
 /**
  * Format breakout signal for Telegram
  */
-function formatBreakoutMessage(signal: BreakoutSignal): string {
+export function formatBreakoutMessage(signal: BreakoutSignal): string {
   const icon = signal.breakoutType === "strong" ? "🚀" : signal.breakoutType === "moderate" ? "📈" : "⚡";
   const timestamp = new Date(signal.timestamp).toLocaleString();
   const isShort = signal.direction === "short";
@@ -76,13 +104,20 @@ function formatBreakoutMessage(signal: BreakoutSignal): string {
     `*Coin:* ${signal.coin}\n` +
     `*Direction:* ${directionLabel}\n` +
     `*Type:* ${signal.breakoutType.toUpperCase()}\n` +
-    `*Confidence:* ${signal.confidenceScore}/100\n\n` +
-    `*Price:* $${signal.price.toFixed(4)}\n` +
+    `*Confidence:* ${signal.confidenceScore}/100\n` +
+    (signal.winProbability !== undefined
+      ? `*Win Probability:* ${(signal.winProbability * 100).toFixed(0)}%\n`
+      : "") +
+    `\n*Price:* $${signal.price.toFixed(4)}\n` +
     `*Price Change:* ${priceChangePrefix}${signal.priceChange.toFixed(2)}%\n` +
     `*Volume Ratio:* ${signal.volumeRatio.toFixed(1)}x\n` +
     `*${levelLabel}:* $${levelValue.toFixed(4)}\n` +
-    `*Consolidation:* ${signal.consolidationPeriod}h\n\n` +
-    `*Time:* ${timestamp}`;
+    `*Consolidation:* ${signal.consolidationPeriod}h\n` +
+    (signal.aggressiveBuyRatio !== undefined
+      ? `*Taker Buy Share:* ${(signal.aggressiveBuyRatio * 100).toFixed(0)}%\n`
+      : "") +
+    (signal.confirmedBy ? `*Confirmed By:* ${signal.confirmedBy.join(", ")}\n` : "") +
+    `\n*Time:* ${timestamp}`;
 }
 
 /**
@@ -286,10 +321,46 @@ export async function notifyCustom(message: string): Promise<void> {
   info("TelegramNotifier", "Sent custom notification");
 }
 
+/**
+ * Format pre-pump orderbook signal for Telegram
+ */
+export function formatPrepumpMessage(coin: string, signal: PrepumpSignal, confidence: PrepumpConfidence): string {
+  const timestamp = new Date(signal.ts).toLocaleString();
+
+  return (
+    `👀 *PRE-PUMP WATCH*\n\n` +
+    `*Coin:* ${coin}\n` +
+    `*Score:* ${signal.score}/3\n` +
+    `*Confidence:* ${(confidence.confidence * 100).toFixed(0)}%\n\n` +
+    `*Price:* $${signal.price.toFixed(4)}\n` +
+    `*Bid Imbalance:* ${(signal.imbalance * 100).toFixed(1)}%\n` +
+    `*Spread Compression:* ${(signal.compression * 100).toFixed(1)}%\n` +
+    `*Volatility:* ${(signal.volatility * 100).toFixed(3)}% (rv20 ${(signal.rv20 * 100).toFixed(3)}%)\n` +
+    `*Persistence:* ${(confidence.persistenceScore * 100).toFixed(0)}%\n\n` +
+    `*Time:* ${timestamp}`
+  );
+}
+
+/**
+ * Send pre-pump orderbook notification
+ */
+export async function notifyPrepump(
+  coin: string,
+  signal: PrepumpSignal,
+  confidence: PrepumpConfidence
+): Promise<void> {
+  if (!isEnabled) {
+    return;
+  }
+
+  await sendMessage(formatPrepumpMessage(coin, signal, confidence));
+  info("TelegramNotifier", `Sent pre-pump notification for ${coin}`);
+}
+
 /**
  * Format intraday signal for Telegram (Model-2)
  */
-function formatIntradayMessage(signal: IntradaySignal): string {
+export function formatIntradayMessage(signal: IntradaySignal): string {
   const patternIcons = {
     micro_breakout: "⚡",
     volatility_breakout: "💥",
@@ -314,8 +385,9 @@ function formatIntradayMessage(signal: IntradaySignal): string {
     `*Volume Ratio:* ${signal.volumeRatio.toFixed(2)}x\n` +
     `*Consolidation:* ${signal.consolidation} candles\n` +
     `*ATR Compression:* ${signal.atrCompression.toFixed(0)}%\n` +
-    `*BB Compression:* ${signal.bbCompression.toFixed(0)}%\n\n` +
-    `*Time:* ${timestamp}`
+    `*BB Compression:* ${signal.bbCompression.toFixed(0)}%\n` +
+    (signal.confirmedBy ? `*Confirmed By:* ${signal.confirmedBy.join(", ")}\n` : "") +
+    `\n*Time:* ${timestamp}`
   );
 }
 